@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import Sidebar from './components/Sidebar';
 import DigitalTwin from './components/DigitalTwin';
 import TrendAnalysis from './components/TrendAnalysis';
@@ -9,9 +9,27 @@ import StatusOverview from './components/StatusOverview';
 import AccessConfig from './components/AccessConfig';
 import DataExport from './components/DataExport';
 import SystemSettings from './components/SystemSettings';
+import AlarmLog from './components/AlarmLog';
+import MaintenanceModal from './components/MaintenanceModal';
+import ShelveModal from './components/ShelveModal';
 import Login from './components/Login';
-import { Theme, ViewMode, PDSource, SensorData, DeviceSummary, Project, ConfigDevice, ConfigSensor, IPC, User, PrdMarker } from './types';
-import { MOCK_DEVICES, MOCK_PROJECTS, getDeviceSimulation } from './constants';
+import { AlarmLevel, Theme, ViewMode, DeviceSnapshot, DeviceSummary, Project, ConfigDevice, ConfigSensor, IPC, User, PrdMarker, AlarmRuleOverrides, AlarmEvent, MovingAverageWindow, TrendAlarmRuleOverrides, NotificationSettings, NotificationRecord, MaintenanceWindow, AlarmShelf, SensorData, AnnunciatorState, AnnunciatorStatus, PopupPermission, ConditioningSettings, HealthWeightOverrides, AnomalySensitivity, PdConfirmation } from './types';
+import { dataProvider } from './services/dataProvider';
+import { liveStream } from './services/liveStream';
+import { saveImage, deleteImage, loadImageUrls } from './services/timeSeriesStore';
+import { STORAGE_KEYS, hasRecord, loadList, loadRecord, removeRecord, saveRecord, isPrdMarker, isDeviceSummary, isDeviceEdits, isProject, isConfigDevice, isIPC, isConfigSensor, isAlarmRuleOverrides, isAlarmEvent, isTrendAlarmRuleOverrides, isUser, isNotificationSettings, isNotificationRecord, isMaintenanceWindow, isAlarmShelf, isConditioningSettings, isHealthWeightOverrides, isAnomalySensitivity, isSourceNamespace, SESSION_KEYS, loadSessionRecord, saveSessionRecord, isAnnunciatorState } from './services/persistence';
+import { EMPTY_ALARM_OVERRIDES, resolveAlarmRules, rollupDeviceStatus } from './services/alarmRules';
+import { AlarmSubject, ReadingHistory, acknowledgeEvent, applyReadings, countUnacknowledged, deviceReadings, recordReadings } from './services/alarmEvents';
+import { TREND_WINDOWS, applyTrendMetrics, resolveTrendRules } from './services/trendAlarms';
+import { TrendMetrics, buildHistory, loadDeviceHistory } from './services/deviceHistory';
+import { activeWindows, alarmWindow, deviceWindow, isActiveWindow, sensorWindow } from './services/maintenance';
+import { DEFAULT_CONDITIONING, conditionDevices } from './services/signalConditioning';
+import { DEFAULT_ANOMALY_SENSITIVITY } from './services/anomalyDetection';
+import { loadPdConfirmation } from './services/crossChannelConfirmation';
+import { healthIndex, resolveHealthWeights } from './services/healthIndex';
+import { activeShelves, channelShelf, sensorShelf, shelfDurations, unshelve } from './services/shelving';
+import { DEFAULT_NOTIFICATION_SETTINGS, addRecords, notificationTriggers, planNotifications, sendPlan, settleInterrupted, updateRecord } from './services/notifications';
+import { ANNUNCIATOR_PROFILES, DEFAULT_ANNUNCIATOR_STATE, LEVEL_LABELS, annunciatedEvents, flashTitle, playTone, popupEvents, popupPermission, requestPopups, showPopup, silence, toneRepeatMs, unlockAudio } from './services/annunciator';
 import { GripHorizontal, StickyNote, Plus, X, Trash2, Save, MousePointer2, Crosshair, Pin, Download, Upload, FileJson, Lock, Eye } from 'lucide-react';
 
 const DEFAULT_PRD_MARKER: PrdMarker = {
@@ -333,16 +351,7 @@ function App() {
   const [isPrdMode, setIsPrdMode] = useState(false);
   const [interactionMode, setInteractionMode] = useState<'view' | 'create'>('view'); // New Interaction State
   
-  // Lazy Initialization with Error Handling
-  const [prdMarkers, setPrdMarkers] = useState<PrdMarker[]>(() => {
-      try {
-          const saved = localStorage.getItem('prd-annotations-data');
-          return saved ? JSON.parse(saved) : [];
-      } catch (e) {
-          console.error("Failed to parse saved markers", e);
-          return [];
-      }
-  });
+  const [prdMarkers, setPrdMarkers] = useState<PrdMarker[]>(() => loadList(STORAGE_KEYS.prdMarkers, isPrdMarker, []));
   
   // State for Editing Existing Marker
   const [editingMarkerId, setEditingMarkerId] = useState<string | null>(null);
@@ -353,57 +362,387 @@ function App() {
   const importFileRef = useRef<HTMLInputElement>(null);
 
   // -- Device State with Persistence --
-  const [devices, setDevices] = useState<DeviceSummary[]>(() => {
-    const saved = localStorage.getItem('pd_dashboard_devices');
-    return saved ? JSON.parse(saved) : MOCK_DEVICES;
-  });
+  // Cached devices and their alarm events belong to one source; another scenario or seed starts over from the provider
+  const [sameSource] = useState(() => loadRecord(STORAGE_KEYS.dashboardSource, isSourceNamespace, '') === dataProvider.namespace);
+  const [devices, setDevices] = useState<DeviceSummary[]>(() => sameSource ? loadList(STORAGE_KEYS.dashboardDevices, isDeviceSummary, []) : []);
+  // Seed from the data provider only when nothing has been persisted for this source yet
+  const [devicesLoaded, setDevicesLoaded] = useState(() => sameSource && hasRecord(STORAGE_KEYS.dashboardDevices));
 
-  const [currentDeviceId, setCurrentDeviceId] = useState(devices[0]?.id || MOCK_DEVICES[0].id);
+  const [currentDeviceId, setCurrentDeviceId] = useState(devices[0]?.id || '');
+
+  useEffect(() => {
+    if (devicesLoaded) return;
+    dataProvider.listDevices().then(list => {
+      // Edits kept by a storage migration go onto the re-seeded devices; the persistence effect stores their images
+      const edits = loadRecord(STORAGE_KEYS.dashboardDeviceEdits, isDeviceEdits, {});
+      setDevices(list.map(d => edits[d.id] ? { ...d, ...edits[d.id] } : d));
+      setDevicesLoaded(true);
+      removeRecord(STORAGE_KEYS.dashboardDeviceEdits);
+    });
+  }, [devicesLoaded]);
+
+  useEffect(() => {
+    if (!currentDeviceId && devices.length > 0) setCurrentDeviceId(devices[0].id);
+  }, [devices, currentDeviceId]);
 
   // Persistence Effects
+  // Device images go to IndexedDB; localStorage only keeps the metadata
+  const deviceImageIdsRef = useRef<Set<string> | null>(null);
+  useEffect(() => {
+    if (!devicesLoaded) return;
+    devices.forEach(d => {
+      if (d.customImage?.startsWith('data:')) saveImage(`device:${d.id}`, d.customImage).catch(e => console.warn('Failed to save device image', e));
+    });
+    // A cleared image, or its device removed, must not come back from IndexedDB on the next load
+    const withImage = new Set(devices.filter(d => d.customImage).map(d => d.id));
+    deviceImageIdsRef.current?.forEach(id => {
+      if (!withImage.has(id)) deleteImage(`device:${id}`).catch(e => console.warn('Failed to delete device image', e));
+    });
+    deviceImageIdsRef.current = withImage;
+    saveRecord(STORAGE_KEYS.dashboardDevices, devices.map(({ customImage, ...d }) => d));
+    saveRecord(STORAGE_KEYS.dashboardSource, dataProvider.namespace);
+  }, [devices, devicesLoaded]);
+
   useEffect(() => {
-    localStorage.setItem('pd_dashboard_devices', JSON.stringify(devices));
-  }, [devices]);
+    if (!devicesLoaded) return;
+    let cancelled = false;
+    loadImageUrls('device:', devices.map(d => d.id)).then(urls => {
+      if (!cancelled) setDevices(prev => prev.map(d => !d.customImage && urls[d.id] ? { ...d, customImage: urls[d.id] } : d));
+    }).catch(e => console.warn('Failed to load device images', e));
+    return () => { cancelled = true; };
+  }, [devicesLoaded]);
 
   useEffect(() => {
-      localStorage.setItem('prd-annotations-data', JSON.stringify(prdMarkers));
+      saveRecord(STORAGE_KEYS.prdMarkers, prdMarkers);
   }, [prdMarkers]);
 
+  // -- Maintenance Windows --
+  const [maintenanceWindows, setMaintenanceWindows] = useState<MaintenanceWindow[]>(() => loadList(STORAGE_KEYS.maintenanceWindows, isMaintenanceWindow, []));
+  useEffect(() => { saveRecord(STORAGE_KEYS.maintenanceWindows, maintenanceWindows); }, [maintenanceWindows]);
+  const [maintenanceModal, setMaintenanceModal] = useState<{ deviceId?: string } | null>(null);
+
+  // Windows open and close with the clock, not only when readings arrive
+  const [clock, setClock] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setClock(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+  const activeWindowKey = maintenanceWindows.filter(w => isActiveWindow(w, clock)).map(w => w.id).join(',');
+  const activeMaintenance = useMemo(() => activeWindows(maintenanceWindows, clock), [maintenanceWindows, activeWindowKey]);
+
+  // -- Alarm Shelving --
+  const [alarmShelves, setAlarmShelves] = useState<AlarmShelf[]>(() => loadList(STORAGE_KEYS.alarmShelves, isAlarmShelf, []));
+  useEffect(() => { saveRecord(STORAGE_KEYS.alarmShelves, alarmShelves); }, [alarmShelves]);
+  const [shelveTarget, setShelveTarget] = useState<{ device: DeviceSummary; sensor: SensorData } | null>(null);
+  // Shelves unshelve by themselves at expiry on the same clock as maintenance windows
+  const activeShelfKey = activeShelves(alarmShelves, clock).map(s => s.id).join(',');
+  const shelvedChannels = useMemo(() => activeShelves(alarmShelves, clock), [alarmShelves, activeShelfKey]);
+
+  // Maintenance or shelving that quietens a device channel's alarms, if any
+  const suppressionFor = (subject: AlarmSubject) =>
+    alarmWindow(activeMaintenance, subject)?.id ?? channelShelf(shelvedChannels, subject)?.id;
+
+  // -- Alarm Thresholds --
+  const [alarmRuleOverrides, setAlarmRuleOverrides] = useState<AlarmRuleOverrides>(() => loadRecord(STORAGE_KEYS.alarmRules, isAlarmRuleOverrides, EMPTY_ALARM_OVERRIDES));
+  useEffect(() => { saveRecord(STORAGE_KEYS.alarmRules, alarmRuleOverrides); }, [alarmRuleOverrides]);
+
+  // -- Signal Conditioning --
+  const [conditioning, setConditioning] = useState<ConditioningSettings>(() => loadRecord(STORAGE_KEYS.conditioning, isConditioningSettings, DEFAULT_CONDITIONING));
+  useEffect(() => { saveRecord(STORAGE_KEYS.conditioning, conditioning); }, [conditioning]);
+
+  // Alarms are raised on readings cleaned of interference. `conditioned` remembers
+  // which readings and settings it was made from so stale results are never rated.
+  const [conditioned, setConditioned] = useState<{ source: DeviceSummary[]; settings: ConditioningSettings; devices: DeviceSummary[] } | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    conditionDevices(devices, conditioning).then(cleaned => {
+      if (!cancelled) setConditioned({ source: devices, settings: conditioning, devices: cleaned });
+    });
+    return () => { cancelled = true; };
+  }, [devices, conditioning]);
+  const conditionedDevices = conditioned && conditioned.source === devices && conditioned.settings === conditioning ? conditioned.devices : null;
+
+  // -- Anomaly Detection --
+  const [anomalySensitivity, setAnomalySensitivity] = useState<AnomalySensitivity>(() => loadRecord(STORAGE_KEYS.anomalySensitivity, isAnomalySensitivity, DEFAULT_ANOMALY_SENSITIVITY));
+  useEffect(() => { saveRecord(STORAGE_KEYS.anomalySensitivity, anomalySensitivity); }, [anomalySensitivity]);
+
+  // Device status is re-rated against the configured thresholds for its project and device,
+  // and carries the maintenance window covering it
+  const ratedDevices = useMemo(() => (conditionedDevices ?? devices).map(d => {
+    const status = rollupDeviceStatus(d, resolveAlarmRules(alarmRuleOverrides, { projectId: d.projectId, deviceId: d.id }));
+    const maintenance = deviceWindow(activeMaintenance, d);
+    return status === d.status && !maintenance ? d : { ...d, status, ...(maintenance ? { maintenance } : {}) };
+  }), [conditionedDevices, devices, alarmRuleOverrides, activeMaintenance]);
+
+  // -- Alarm Events --
+  const [alarmEvents, setAlarmEvents] = useState<AlarmEvent[]>(() => sameSource ? loadList(STORAGE_KEYS.alarmEvents, isAlarmEvent, []) : []);
+  useEffect(() => { saveRecord(STORAGE_KEYS.alarmEvents, alarmEvents); }, [alarmEvents]);
+
+  // Recent readings per device channel, for qualifiers that look back over several samples
+  const readingHistoryRef = useRef<ReadingHistory>({});
+
+  // Every new set of readings (initial load, live updates, threshold edits) moves the event lifecycle on.
+  // Only new readings enter the history; the clock re-evaluates held readings for duration qualifiers.
+  useEffect(() => {
+    if (!devicesLoaded || !conditionedDevices) return;
+    const readings = conditionedDevices.flatMap(deviceReadings);
+    const history = recordReadings(readingHistoryRef.current, readings);
+    readingHistoryRef.current = history;
+    setAlarmEvents(prev => applyReadings(
+      prev,
+      readings,
+      history,
+      r => resolveAlarmRules(alarmRuleOverrides, { projectId: r.projectId, deviceId: r.deviceId }),
+      suppressionFor
+    ));
+  }, [conditionedDevices, devicesLoaded, alarmRuleOverrides, activeMaintenance, shelvedChannels, clock]);
+
+  // -- Trend Alarms --
+  const [trendAlarmRuleOverrides, setTrendAlarmRuleOverrides] = useState<TrendAlarmRuleOverrides>(() => loadRecord(STORAGE_KEYS.trendAlarmRules, isTrendAlarmRuleOverrides, {}));
+  useEffect(() => { saveRecord(STORAGE_KEYS.trendAlarmRules, trendAlarmRuleOverrides); }, [trendAlarmRuleOverrides]);
+
+  // Daily history only changes with the device set and status, not with every live reading
+  const [trendMetrics, setTrendMetrics] = useState<Record<string, TrendMetrics>>({});
+  const historyKey = ratedDevices.map(d => `${d.id}:${d.status}`).join(',');
+  useEffect(() => {
+    if (!devicesLoaded) return;
+    let cancelled = false;
+    Promise.all(ratedDevices.map(d => loadDeviceHistory(d).then(values => [d.id, buildHistory(values).trendMetrics] as const)))
+      .then(entries => { if (!cancelled) setTrendMetrics(Object.fromEntries(entries)); });
+    return () => { cancelled = true; };
+  }, [historyKey, devicesLoaded]);
+
+  useEffect(() => {
+    setAlarmEvents(prev => applyTrendMetrics(
+      prev,
+      ratedDevices,
+      trendMetrics,
+      d => resolveTrendRules(trendAlarmRuleOverrides, d.deviceType),
+      suppressionFor
+    ));
+  }, [trendMetrics, trendAlarmRuleOverrides, activeMaintenance, shelvedChannels]);
+
+  // -- Cross-channel PD confirmation per device, for the health index and the diagnosis report --
+  // Taken with the snapshot's sensors, as the twin does, so offline sensors are left out alike
+  const [pdConfirmations, setPdConfirmations] = useState<Record<string, PdConfirmation>>({});
+  const confirmationKey = ratedDevices.map(d => `${d.id}@${d.lastUpdated}`).join(',');
+  useEffect(() => {
+    if (!devicesLoaded) return;
+    let cancelled = false;
+    Promise.all(ratedDevices.map(async d => {
+      const t = new Date(d.lastUpdated.replace(' ', 'T'));
+      if (d.status === AlarmLevel.NO_DATA || !Number.isFinite(t.getTime())) return null;
+      const { sensors } = await dataProvider.getDeviceSnapshot(d.id);
+      return [d.id, await loadPdConfirmation(d.id, t.toISOString(), conditioning, sensors)] as const;
+    })).then(entries => {
+      if (!cancelled) setPdConfirmations(Object.fromEntries(entries.filter(e => e !== null)));
+    });
+    return () => { cancelled = true; };
+  }, [confirmationKey, conditioning, devicesLoaded]);
+
+  // -- Health Index --
+  const [healthWeightOverrides, setHealthWeightOverrides] = useState<HealthWeightOverrides>(() => loadRecord(STORAGE_KEYS.healthWeights, isHealthWeightOverrides, {}));
+  useEffect(() => { saveRecord(STORAGE_KEYS.healthWeights, healthWeightOverrides); }, [healthWeightOverrides]);
+
+  const scoredDevices = useMemo(() => ratedDevices.map(d => {
+    const health = healthIndex(
+      d,
+      resolveAlarmRules(alarmRuleOverrides, { projectId: d.projectId, deviceId: d.id }),
+      resolveTrendRules(trendAlarmRuleOverrides, d.deviceType),
+      trendMetrics[d.id],
+      pdConfirmations[d.id],
+      resolveHealthWeights(healthWeightOverrides, d.deviceType)
+    );
+    return health ? { ...d, health } : d;
+  }), [ratedDevices, alarmRuleOverrides, trendAlarmRuleOverrides, trendMetrics, pdConfirmations, healthWeightOverrides]);
+
+  const openTrendEvents = useMemo(() => alarmEvents.filter(e =>
+    !e.clearedAt && TREND_WINDOWS.includes(e.channel as MovingAverageWindow)), [alarmEvents]);
+
+  const unacknowledgedAlarms = useMemo(() => countUnacknowledged(alarmEvents), [alarmEvents]);
+
   // -- Config Persistence --
-  const [configProjects, setConfigProjects] = useState<Project[]>(() => {
-    const saved = localStorage.getItem('pd_config_v5_projects');
-    return saved ? JSON.parse(saved) : MOCK_PROJECTS;
-  });
-  const [configDevices, setConfigDevices] = useState<ConfigDevice[]>(() => {
-    const saved = localStorage.getItem('pd_config_v5_devices');
-    return saved ? JSON.parse(saved) : [];
-  });
-  const [configIpcs, setConfigIpcs] = useState<IPC[]>(() => {
-    const saved = localStorage.getItem('pd_config_v5_ipcs');
-    return saved ? JSON.parse(saved) : [];
-  });
-  const [configSensors, setConfigSensors] = useState<ConfigSensor[]>(() => {
-    const saved = localStorage.getItem('pd_config_v5_sensors');
-    return saved ? JSON.parse(saved) : [];
-  });
+  const [configProjects, setConfigProjects] = useState<Project[]>(() => loadList(STORAGE_KEYS.projects, isProject, []));
+  const [projectsLoaded, setProjectsLoaded] = useState(() => hasRecord(STORAGE_KEYS.projects));
+
+  useEffect(() => {
+    if (projectsLoaded) return;
+    dataProvider.listProjects().then(list => {
+      setConfigProjects(list);
+      setProjectsLoaded(true);
+    });
+  }, [projectsLoaded]);
+  const [configDevices, setConfigDevices] = useState<ConfigDevice[]>(() => loadList(STORAGE_KEYS.configDevices, isConfigDevice, []));
+  const [configIpcs, setConfigIpcs] = useState<IPC[]>(() => loadList(STORAGE_KEYS.ipcs, isIPC, []));
+  const [configSensors, setConfigSensors] = useState<ConfigSensor[]>(() => loadList(STORAGE_KEYS.sensors, isConfigSensor, []));
+
+  useEffect(() => { if (projectsLoaded) saveRecord(STORAGE_KEYS.projects, configProjects); }, [configProjects, projectsLoaded]);
+  const configImageIdsRef = useRef<Set<string> | null>(null);
+  useEffect(() => {
+    configDevices.forEach(d => {
+      if (d.image?.startsWith('data:')) saveImage(`config-device:${d.id}`, d.image).catch(e => console.warn('Failed to save device image', e));
+    });
+    const withImage = new Set(configDevices.filter(d => d.image).map(d => d.id));
+    configImageIdsRef.current?.forEach(id => {
+      if (!withImage.has(id)) deleteImage(`config-device:${id}`).catch(e => console.warn('Failed to delete device image', e));
+    });
+    configImageIdsRef.current = withImage;
+    saveRecord(STORAGE_KEYS.configDevices, configDevices.map(({ image, ...d }) => d));
+  }, [configDevices]);
+  useEffect(() => {
+    let cancelled = false;
+    loadImageUrls('config-device:', configDevices.map(d => d.id)).then(urls => {
+      if (!cancelled) setConfigDevices(prev => prev.map(d => !d.image && urls[d.id] ? { ...d, image: urls[d.id] } : d));
+    }).catch(e => console.warn('Failed to load device images', e));
+    return () => { cancelled = true; };
+  }, []);
+  useEffect(() => { saveRecord(STORAGE_KEYS.ipcs, configIpcs); }, [configIpcs]);
+  useEffect(() => { saveRecord(STORAGE_KEYS.sensors, configSensors); }, [configSensors]);
+
+  // -- Notifications --
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(() => loadRecord(STORAGE_KEYS.notificationSettings, isNotificationSettings, DEFAULT_NOTIFICATION_SETTINGS));
+  useEffect(() => { saveRecord(STORAGE_KEYS.notificationSettings, notificationSettings); }, [notificationSettings]);
+  const [notificationLog, setNotificationLog] = useState<NotificationRecord[]>(() => settleInterrupted(loadList(STORAGE_KEYS.notificationLog, isNotificationRecord, [])));
+  useEffect(() => { saveRecord(STORAGE_KEYS.notificationLog, notificationLog); }, [notificationLog]);
 
-  useEffect(() => { localStorage.setItem('pd_config_v5_projects', JSON.stringify(configProjects)); }, [configProjects]);
-  useEffect(() => { localStorage.setItem('pd_config_v5_devices', JSON.stringify(configDevices)); }, [configDevices]);
-  useEffect(() => { localStorage.setItem('pd_config_v5_ipcs', JSON.stringify(configIpcs)); }, [configIpcs]);
-  useEffect(() => { localStorage.setItem('pd_config_v5_sensors', JSON.stringify(configSensors)); }, [configSensors]);
+  // Starts from the stored events so a reload does not announce them again
+  const notifiedEventsRef = useRef(alarmEvents);
+  const notificationLogRef = useRef(notificationLog);
+  notificationLogRef.current = notificationLog;
+
+  useEffect(() => {
+    const triggers = notificationTriggers(notifiedEventsRef.current, alarmEvents);
+    notifiedEventsRef.current = alarmEvents;
+    if (triggers.length === 0) return;
+    // The user directory belongs to System Settings; read it at send time so its edits apply straight away
+    const superAdmin = loadRecord<User | null>(STORAGE_KEYS.superAdmin, isUser, null);
+    const directory = [...loadList(STORAGE_KEYS.users, isUser, []), ...(superAdmin ? [superAdmin] : [])];
+    const projectName = (id: string) => configProjects.find(p => p.id === id)?.name || id;
+    const plan = planNotifications(triggers, notificationSettings, directory, notificationLogRef.current, projectName);
+    if (plan.records.length === 0) return;
+    setNotificationLog(prev => addRecords(prev, plan.records));
+    sendPlan(plan, (id, changes) => setNotificationLog(prev => updateRecord(prev, id, changes)));
+  }, [alarmEvents]);
+
+  // -- Annunciator --
+  const [annunciator, setAnnunciator] = useState<AnnunciatorState>(() => loadSessionRecord(SESSION_KEYS.annunciator, isAnnunciatorState, DEFAULT_ANNUNCIATOR_STATE));
+  useEffect(() => { saveSessionRecord(SESSION_KEYS.annunciator, annunciator); }, [annunciator]);
+  const [popups, setPopups] = useState<PopupPermission>(popupPermission);
+
+  const annunciatorProfile = currentUser ? ANNUNCIATOR_PROFILES[currentUser.role] : null;
+  const annunciated = useMemo(() => annunciatorProfile ? annunciatedEvents(alarmEvents, annunciatorProfile, annunciator) : [], [alarmEvents, annunciatorProfile, annunciator]);
+  const loudestLevel = annunciated[0]?.level ?? null;
+  const soundOn = !!annunciatorProfile?.sound && !annunciator.muted;
+
+  // Audio stays locked until the first click on the page
+  useEffect(() => {
+    document.addEventListener('pointerdown', unlockAudio, { once: true });
+    return () => document.removeEventListener('pointerdown', unlockAudio);
+  }, []);
 
-  const [simulationState, setSimulationState] = useState<{ sensors: SensorData[], pdSource: PDSource | null }>({
+  // The loudest level keeps sounding until it is silenced, acknowledged or cleared
+  useEffect(() => {
+    if (!loudestLevel || !soundOn) return;
+    playTone(loudestLevel);
+    const timer = setInterval(() => playTone(loudestLevel), toneRepeatMs(loudestLevel));
+    return () => clearInterval(timer);
+  }, [loudestLevel, soundOn]);
+
+  useEffect(() => {
+    if (!loudestLevel) return;
+    return flashTitle(`【${LEVEL_LABELS[loudestLevel]}告警】${annunciated.length} 条待处理`);
+  }, [loudestLevel, annunciated.length]);
+
+  // Popups follow the same open/escalate triggers as outgoing notifications
+  const poppedEventsRef = useRef(alarmEvents);
+  useEffect(() => {
+    const triggers = notificationTriggers(poppedEventsRef.current, alarmEvents);
+    poppedEventsRef.current = alarmEvents;
+    if (!annunciatorProfile || !currentUser) return;
+    const openLog = () => { if (currentUser.permissions.includes('alarms')) setCurrentView('alarms'); };
+    popupEvents(triggers, annunciatorProfile).forEach(e =>
+      showPopup(e, configProjects.find(p => p.id === e.projectId)?.name || e.projectId, openLog));
+  }, [alarmEvents]);
+
+  const annunciatorStatus: AnnunciatorStatus = {
+    level: loudestLevel,
+    count: annunciated.length,
+    muted: annunciator.muted,
+    sound: !!annunciatorProfile?.sound,
+    popups
+  };
+
+  const handleToggleMute = () => {
+    unlockAudio();
+    setAnnunciator(prev => ({ ...prev, muted: !prev.muted }));
+  };
+
+  // Acknowledging from the annunciator needs the same right as the alarm log
+  const acknowledgeAnnunciated = currentUser?.permissions.includes('alarms') ? () => {
+    const ids = annunciated.map(e => e.id);
+    setAlarmEvents(prev => ids.reduce((events, id) => acknowledgeEvent(events, id, currentUser.displayName, ''), prev));
+  } : undefined;
+
+  const [simulationState, setSimulationState] = useState<DeviceSnapshot>({
     sensors: [],
-    pdSource: null
+    pdSource: null,
+    uhfArrivals: []
   });
 
+  const twinSensors = useMemo(() => {
+    const device = ratedDevices.find(d => d.id === currentDeviceId);
+    if (!device || (activeMaintenance.length === 0 && shelvedChannels.length === 0)) return simulationState.sensors;
+    return simulationState.sensors.map(s => {
+      const maintenance = sensorWindow(activeMaintenance, device, s);
+      const shelf = sensorShelf(shelvedChannels, device.id, s);
+      return maintenance || shelf ? { ...s, ...(maintenance ? { maintenance } : {}), ...(shelf ? { shelf } : {}) } : s;
+    });
+  }, [simulationState.sensors, ratedDevices, currentDeviceId, activeMaintenance, shelvedChannels]);
+
+  // Scheduling maintenance is part of the configuration rights
+  const openMaintenance = currentUser?.permissions.includes('config') ? (deviceId?: string) => setMaintenanceModal({ deviceId }) : undefined;
+
+  // How long, if at all, a user may shelve depends on their role
+  const canShelve = !!currentUser && shelfDurations(currentUser.role).length > 0;
+  const shelveSensor = canShelve ? (sensor: SensorData) => {
+    const device = ratedDevices.find(d => d.id === currentDeviceId);
+    if (device) setShelveTarget({ device, sensor });
+  } : undefined;
+
   const handleUpdateDeviceImage = (deviceId: string, imageData: string) => {
     setDevices(prev => prev.map(d => d.id === deviceId ? { ...d, customImage: imageData } : d));
   };
 
   useEffect(() => {
-    const simData = getDeviceSimulation(currentDeviceId);
-    setSimulationState(simData);
+    if (!currentDeviceId) return;
+    let cancelled = false;
+    dataProvider.getDeviceSnapshot(currentDeviceId).then(snapshot => {
+      if (!cancelled) setSimulationState(snapshot);
+    });
+    return () => { cancelled = true; };
+  }, [currentDeviceId]);
+
+  // -- Cross-channel PD confirmation of the current device's latest acquisition, as its health index has it --
+  const pdConfirmation = pdConfirmations[currentDeviceId] ?? null;
+
+  // -- Live Stream (only when PD_STREAM_URL is configured) --
+  useEffect(() => {
+    if (!liveStream) return;
+    liveStream.start();
+    const off = liveStream.onDeviceSummary(update => {
+      setDevices(prev => prev.map(d => d.id === update.id ? { ...update, customImage: d.customImage } : d));
+    });
+    return () => {
+      off();
+      liveStream?.stop();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!liveStream || !currentDeviceId) return;
+    return liveStream.subscribeDevice(currentDeviceId, sensors => {
+      setSimulationState(prev => ({ ...prev, sensors }));
+    });
   }, [currentDeviceId]);
 
   const [activeSensorId, setActiveSensorId] = useState<string>('node-0');
@@ -485,6 +824,7 @@ function App() {
 
   const handleLogout = () => {
     setCurrentUser(null);
+    setAnnunciator(DEFAULT_ANNUNCIATOR_STATE);
   };
 
   // --- PRD Interaction Logic (Anchored to Content) ---
@@ -543,7 +883,7 @@ function App() {
       }
       setPrdMarkers(currentMarkers => {
           const newMarkers = currentMarkers.filter(m => m.id !== id);
-          localStorage.setItem('prd-annotations-data', JSON.stringify(newMarkers));
+          saveRecord(STORAGE_KEYS.prdMarkers, newMarkers);
           return newMarkers;
       });
       if (editingMarkerId === id) {
@@ -569,15 +909,15 @@ function App() {
           try {
               const json = JSON.parse(event.target?.result as string);
               if (Array.isArray(json)) {
-                  const migratedMarkers: PrdMarker[] = json.map((item: any) => ({
+                  const migratedMarkers = json.map((item: any) => ({
                       ...DEFAULT_PRD_MARKER,
                       ...item,
                       id: item.id || `migrated-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`
-                  }));
+                  })).filter(isPrdMarker);
                   setPrdMarkers(migratedMarkers);
                   setTempMarker(null);
                   setEditingMarkerId(null);
-                  localStorage.setItem('prd-annotations-data', JSON.stringify(migratedMarkers));
+                  saveRecord(STORAGE_KEYS.prdMarkers, migratedMarkers);
                   alert(`成功导入 ${migratedMarkers.length} 条标注数据`);
               } else {
                   alert('无效的文件格式：期望标注数组');
@@ -645,6 +985,12 @@ function App() {
             currentUser={currentUser}
             onLogout={handleLogout}
             onOpenAiChat={() => setIsAiChatOpen(true)}
+            unacknowledgedAlarms={unacknowledgedAlarms}
+            annunciator={annunciatorStatus}
+            onSilence={() => setAnnunciator(prev => silence(prev, alarmEvents))}
+            onToggleMute={handleToggleMute}
+            onEnablePopups={() => requestPopups().then(setPopups)}
+            onAcknowledgeAnnunciated={acknowledgeAnnunciated}
           />
         </div>
 
@@ -716,11 +1062,18 @@ function App() {
               {currentView === 'dashboard' ? (
                  <div className={`w-full rounded-xl shadow-sm border transition-colors duration-300 ${isDark ? 'bg-tech-card border-slate-700' : 'bg-white border-gray-200'}`}>
                     <Dashboard 
-                      devices={devices} 
+                      devices={scoredDevices} 
                       projects={configProjects}
                       isDark={isDark} 
                       onDeviceSelect={(id) => { setCurrentDeviceId(id); setCurrentView('diagnosis'); }} 
                       onUpdateDeviceImage={handleUpdateDeviceImage} 
+                      trendEvents={openTrendEvents} 
+                      trendAlarmRuleOverrides={trendAlarmRuleOverrides} 
+                      onTrendAlarmRuleOverridesChange={setTrendAlarmRuleOverrides} 
+                      healthWeightOverrides={healthWeightOverrides} 
+                      onHealthWeightOverridesChange={setHealthWeightOverrides} 
+                      pdConfirmations={pdConfirmations} 
+                      onOpenMaintenance={openMaintenance} 
                     />
                  </div>
               ) : currentView === 'config' ? (
@@ -742,23 +1095,45 @@ function App() {
                       sensors={configSensors} 
                    />
                 </div>
+              ) : currentView === 'alarms' ? (
+                <div className={`w-full rounded-xl shadow-sm border transition-colors duration-300 ${isDark ? 'bg-tech-card border-slate-700' : 'bg-white border-gray-200'}`}>
+                   <AlarmLog 
+                      isDark={isDark} 
+                      events={alarmEvents} 
+                      projects={configProjects} 
+                      devices={ratedDevices} 
+                      onAcknowledge={(id, comment) => setAlarmEvents(prev => acknowledgeEvent(prev, id, currentUser.displayName, comment))} 
+                      shelves={alarmShelves} 
+                      onUnshelve={canShelve ? id => setAlarmShelves(prev => unshelve(prev, id, currentUser.displayName)) : undefined} 
+                   />
+                </div>
               ) : currentView === 'settings' ? (
                 <div className={`w-full rounded-xl shadow-sm border transition-colors duration-300 ${isDark ? 'bg-tech-card border-slate-700' : 'bg-white border-gray-200'}`}>
-                   <SystemSettings isDark={isDark} />
+                   <SystemSettings 
+                      isDark={isDark} 
+                      projects={configProjects} 
+                      notificationSettings={notificationSettings} 
+                      onNotificationSettingsChange={setNotificationSettings} 
+                      notificationLog={notificationLog} 
+                   />
                 </div>
               ) : (
                 <>
                   <div className="w-full min-h-0 transition-[height] duration-75 ease-linear" style={{ height: `${splitRatio}%` }}>
                     <DigitalTwin 
-                      sensors={simulationState.sensors} 
+                      sensors={twinSensors} 
                       pdSource={simulationState.pdSource} 
+                      uhfArrivals={simulationState.uhfArrivals}
+                      pdConfirmation={pdConfirmation}
                       isDark={isDark} 
                       activeSensorId={activeSensorId} 
                       onSensorSelect={handleSensorSelect} 
-                      devices={devices} 
+                      devices={ratedDevices} 
                       projects={configProjects}
                       currentDeviceId={currentDeviceId} 
                       onDeviceChange={setCurrentDeviceId}
+                      onOpenMaintenance={openMaintenance}
+                      onShelveSensor={shelveSensor}
                     />
                   </div>
                   <div className={`w-full h-3 cursor-row-resize flex items-center justify-center z-30 flex-shrink-0 group hover:scale-y-110 transition-transform my-1 ${isResizingSplit ? 'opacity-100' : 'opacity-60 hover:opacity-100'}`} onMouseDown={startResizingSplit}>
@@ -767,7 +1142,20 @@ function App() {
                       </div>
                   </div>
                   <div className="flex-1 min-h-0 w-full overflow-hidden">
-                    <TrendAnalysis isDark={isDark} sensorName={activeSensorName} sensorId={activeSensorId} sensorSn={activeSensorSn} />
+                    <TrendAnalysis 
+                      isDark={isDark} 
+                      sensorName={activeSensorName} 
+                      sensorId={activeSensorId} 
+                      deviceId={currentDeviceId} 
+                      projectId={devices.find(d => d.id === currentDeviceId)?.projectId} 
+                      sensorSn={activeSensorSn} 
+                      alarmRuleOverrides={alarmRuleOverrides} 
+                      onAlarmRuleOverridesChange={setAlarmRuleOverrides} 
+                      conditioning={conditioning} 
+                      onConditioningChange={setConditioning} 
+                      anomalySensitivity={anomalySensitivity} 
+                      onAnomalySensitivityChange={setAnomalySensitivity} 
+                    />
                   </div>
                 </>
               )}
@@ -778,9 +1166,11 @@ function App() {
         <div className="flex-shrink-0 z-20">
             <StatusOverview 
                 isDark={isDark} 
-                devices={devices} 
+                devices={scoredDevices} 
                 collapsed={statusCollapsed}
                 toggleCollapse={() => setStatusCollapsed(!statusCollapsed)}
+                unacknowledgedAlarms={unacknowledgedAlarms}
+                onOpenAlarms={currentUser.permissions.includes('alarms') ? () => setCurrentView('alarms') : undefined}
             />
         </div>
       </div>
@@ -791,6 +1181,27 @@ function App() {
         isOpen={isAiChatOpen} 
         onClose={() => setIsAiChatOpen(false)} 
       />
+
+      <MaintenanceModal 
+        isOpen={!!maintenanceModal} 
+        onClose={() => setMaintenanceModal(null)} 
+        isDark={isDark} 
+        projects={configProjects} 
+        devices={ratedDevices} 
+        windows={maintenanceWindows} 
+        onChange={setMaintenanceWindows} 
+        initialDeviceId={maintenanceModal?.deviceId} 
+        owner={currentUser.displayName} 
+      />
+      <ShelveModal 
+        isDark={isDark} 
+        target={shelveTarget} 
+        onClose={() => setShelveTarget(null)} 
+        shelves={alarmShelves} 
+        onChange={setAlarmShelves} 
+        role={currentUser.role} 
+        user={currentUser.displayName} 
+      />
     </div>
   );
 }
@@ -3,6 +3,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Send, Paperclip, X, Image as ImageIcon, History, Plus, MessageSquare, Trash2, ChevronLeft } from 'lucide-react';
 import { ChatMessage, ChatSession } from '../types';
 import { createChatSession, sendMessage } from '../services/geminiService';
+import { STORAGE_KEYS, loadList, saveRecord, isChatSession } from '../services/persistence';
 import { Chat } from '@google/genai';
 
 interface AIChatProps {
@@ -19,10 +20,7 @@ const DEFAULT_WELCOME_MSG: ChatMessage = {
 
 const AIChat: React.FC<AIChatProps> = ({ isDark, onClose }) => {
   // -- Session State --
-  const [sessions, setSessions] = useState<ChatSession[]>(() => {
-      const saved = localStorage.getItem('ai_chat_sessions');
-      return saved ? JSON.parse(saved) : [];
-  });
+  const [sessions, setSessions] = useState<ChatSession[]>(() => loadList(STORAGE_KEYS.chatSessions, isChatSession, []));
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   
   // -- UI State --
@@ -41,7 +39,7 @@ const AIChat: React.FC<AIChatProps> = ({ isDark, onClose }) => {
 
   // Persistence
   useEffect(() => {
-    localStorage.setItem('ai_chat_sessions', JSON.stringify(sessions));
+    saveRecord(STORAGE_KEYS.chatSessions, sessions);
   }, [sessions]);
 
   // Init Gemni Chat
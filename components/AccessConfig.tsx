@@ -35,6 +35,7 @@ import {
   RefreshCw 
 } from 'lucide-react';
 import { Project, ConfigDevice, IPC, ConfigSensor, SensorChannel } from '../types';
+import { DEVICE_TYPES } from '../constants';
 
 interface AccessConfigProps {
   isDark: boolean;
@@ -574,12 +575,7 @@ const AccessConfig: React.FC<AccessConfigProps> = ({
                       <div><label className={labelClass}>设备类型</label>
                         <select className={inputClass} value={formData.deviceType || ''} onChange={e => setFormData({...formData, deviceType: e.target.value})}>
                           <option value="">请选择设备类型</option>
-                          <option value="开关柜">开关柜</option>
-                          <option value="箱变">箱变</option>
-                          <option value="油变">油变</option>
-                          <option value="GIS组合开关">GIS组合开关</option>
-                          <option value="配网电缆">配网电缆</option>
-                          <option value="高架电缆">高架电缆</option>
+                          {DEVICE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
                         </select>
                       </div>
                     </div>
@@ -0,0 +1,354 @@
+import React, { useState, useMemo } from 'react';
+import { AlarmEvent, AlarmEventChannel, AlarmLevel, AlarmShelf, DeviceSummary, Project } from '../types';
+import { ALARM_CHANNELS } from '../services/alarmRules';
+import { TREND_WINDOWS } from '../services/trendAlarms';
+import { ShelfState, isShelfId, shelfState } from '../services/shelving';
+import { BellRing, CheckCircle2, Clock, Filter, History, MessageSquare, X, ChevronDown, Inbox, Wrench, LibraryBig } from 'lucide-react';
+
+interface AlarmLogProps {
+  isDark: boolean;
+  events: AlarmEvent[];
+  projects: Project[];
+  devices: DeviceSummary[];
+  onAcknowledge: (id: string, comment: string) => void;
+  shelves: AlarmShelf[];
+  onUnshelve?: (id: string) => void; // Omitted when the user's role may not shelve
+}
+
+type StateFilter = 'all' | 'active' | 'unacknowledged' | 'cleared';
+
+const LEVEL_OPTIONS = [
+  { level: AlarmLevel.WARNING, label: '一级', color: '#facc15' },
+  { level: AlarmLevel.DANGER, label: '二级', color: '#f97316' },
+  { level: AlarmLevel.CRITICAL, label: '三级', color: '#ef4444' },
+];
+
+const LEVEL_INFO: Partial<Record<AlarmLevel, { label: string; color: string }>> = {
+  ...Object.fromEntries(LEVEL_OPTIONS.map(o => [o.level, o])),
+  [AlarmLevel.NORMAL]: { label: '恢复', color: '#22c55e' },
+};
+
+// Sensor channels first, then the moving-average windows trend alarms are raised on
+const EVENT_CHANNELS: AlarmEventChannel[] = [...ALARM_CHANNELS, ...TREND_WINDOWS];
+
+const STATE_OPTIONS: { id: StateFilter; label: string }[] = [
+  { id: 'all', label: '全部' },
+  { id: 'active', label: '活动中' },
+  { id: 'unacknowledged', label: '未确认' },
+  { id: 'cleared', label: '已恢复' },
+];
+
+const SHELF_STATE_INFO: Record<ShelfState, { label: string; className: string }> = {
+  active: { label: '搁置中', className: 'bg-amber-500/15 text-amber-500' },
+  expired: { label: '到期解除', className: 'bg-slate-500/15 text-slate-400' },
+  lifted: { label: '提前解除', className: 'bg-blue-500/15 text-blue-500' },
+};
+
+const formatTime = (iso: string) => {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}:${String(d.getSeconds()).padStart(2, '0')}`;
+};
+
+const formatDuration = (from: string, to?: string) => {
+  const minutes = Math.max(0, Math.round(((to ? Date.parse(to) : Date.now()) - Date.parse(from)) / 60000));
+  if (minutes < 60) return `${minutes} 分钟`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} 小时 ${minutes % 60} 分`;
+  return `${Math.floor(minutes / (24 * 60))} 天 ${Math.floor((minutes % (24 * 60)) / 60)} 小时`;
+};
+
+const LevelBadge: React.FC<{ level: AlarmLevel }> = ({ level }) => {
+  const info = LEVEL_INFO[level] || { label: level, color: '#94a3b8' };
+  return (
+    <span className="px-2 py-0.5 rounded text-[10px] font-bold border inline-flex items-center gap-1" style={{ color: info.color, borderColor: info.color + '40', backgroundColor: info.color + '15' }}>
+      <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: info.color }}></span>{info.label}
+    </span>
+  );
+};
+
+// --- Event Detail / Acknowledge ---
+
+const EventDetailModal: React.FC<{
+  event: AlarmEvent;
+  isDark: boolean;
+  onClose: () => void;
+  onAcknowledge: (id: string, comment: string) => void;
+}> = ({ event, isDark, onClose, onAcknowledge }) => {
+  const [comment, setComment] = useState('');
+
+  const handleAcknowledge = () => {
+    onAcknowledge(event.id, comment);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fadeIn" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className={`w-full max-w-lg rounded-2xl shadow-2xl flex flex-col overflow-hidden animate-slideInUp border ${isDark ? 'bg-[#0f172a] border-slate-700' : 'bg-white border-gray-200'}`}>
+        <div className={`px-6 py-4 border-b flex justify-between items-center ${isDark ? 'border-slate-800 bg-slate-800' : 'bg-gray-50 border-gray-100'}`}>
+          <div>
+            <h3 className={`font-bold text-lg flex items-center gap-2 ${isDark ? 'text-white' : 'text-slate-800'}`}>{event.deviceName} <span className="text-xs font-mono opacity-60">{event.channel}</span></h3>
+            <p className="text-xs opacity-50 font-mono">{formatTime(event.openedAt)} 起 · 持续 {formatDuration(event.openedAt, event.clearedAt)}</p>
+          </div>
+          <button onClick={onClose} className={`p-2 rounded-full hover:bg-opacity-20 ${isDark ? 'hover:bg-white text-slate-400' : 'hover:bg-black text-slate-500'}`}><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-5 max-h-[60vh] overflow-y-auto custom-scrollbar">
+          <div>
+            <h4 className="text-xs font-bold mb-3 flex items-center gap-2 opacity-70"><History size={14} /> 等级变化</h4>
+            <div className="space-y-2">
+              {event.transitions.map((t, i) => (
+                <div key={i} className={`flex items-center justify-between text-xs px-3 py-2 rounded-lg ${isDark ? 'bg-slate-800/50' : 'bg-gray-50'}`}>
+                  <span className="font-mono opacity-70">{formatTime(t.time)}</span>
+                  <span className="font-mono opacity-60">
+                    {t.growth !== undefined ? `${t.amp.toFixed(1)} dBmV / 增幅 ${t.growth.toFixed(1)}%` : `${t.amp.toFixed(1)} dBmV / ${(t.freq ?? 0).toFixed(0)} 次/秒`}
+                  </span>
+                  <span className="flex items-center gap-1.5">
+                    {t.suppressed && <span className="text-[10px] text-indigo-500 font-bold" title="检修或搁置期间记录，未发送通知"><Wrench size={10} className="inline" /> 抑制</span>}
+                    <LevelBadge level={t.level} />
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {event.suppressedBy && (isShelfId(event.suppressedBy) ? (
+            <div className={`p-3 rounded-lg border text-xs flex items-center gap-2 ${isDark ? 'bg-amber-500/5 border-amber-500/20 text-amber-300' : 'bg-amber-50 border-amber-100 text-amber-700'}`}>
+              <LibraryBig size={14} /> 通道已搁置，已记录但不提示、不发送通知
+            </div>
+          ) : (
+            <div className={`p-3 rounded-lg border text-xs flex items-center gap-2 ${isDark ? 'bg-indigo-500/5 border-indigo-500/20 text-indigo-300' : 'bg-indigo-50 border-indigo-100 text-indigo-700'}`}>
+              <Wrench size={14} /> 检修期间发生，已记录但未发送通知
+            </div>
+          ))}
+
+          {event.acknowledgedAt ? (
+            <div className={`p-3 rounded-lg border text-xs ${isDark ? 'bg-green-500/5 border-green-500/20' : 'bg-green-50 border-green-100'}`}>
+              <div className="flex items-center gap-2 font-bold text-green-500 mb-1"><CheckCircle2 size={14} /> 已确认 · {event.acknowledgedBy}</div>
+              <div className="font-mono opacity-60">{formatTime(event.acknowledgedAt)}</div>
+              {event.ackComment && <p className="mt-2 opacity-80">{event.ackComment}</p>}
+            </div>
+          ) : (
+            <div>
+              <h4 className="text-xs font-bold mb-2 flex items-center gap-2 opacity-70"><MessageSquare size={14} /> 确认备注</h4>
+              <textarea
+                value={comment}
+                onChange={e => setComment(e.target.value)}
+                rows={3}
+                placeholder="例如：已通知运维班组现场复测"
+                className={`w-full px-3 py-2 rounded-lg border text-xs outline-none resize-none ${isDark ? 'bg-slate-900 border-slate-700 text-slate-200 focus:border-blue-500' : 'bg-white border-gray-200 text-slate-700 focus:border-blue-400'}`}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className={`px-6 py-4 border-t flex justify-end gap-2 ${isDark ? 'border-slate-800 bg-slate-900/50' : 'border-gray-100 bg-gray-50'}`}>
+          <button onClick={onClose} className={`px-4 py-1.5 rounded-lg text-xs font-bold border transition-all ${isDark ? 'border-slate-700 text-slate-300 hover:bg-slate-800' : 'border-gray-200 text-slate-600 hover:bg-gray-100'}`}>关闭</button>
+          {!event.acknowledgedAt && (
+            <button onClick={handleAcknowledge} className="flex items-center gap-2 px-4 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-500 transition-all"><CheckCircle2 size={14} /> 确认告警</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Alarm Log ---
+
+const AlarmLog: React.FC<AlarmLogProps> = ({ isDark, events, projects, devices, onAcknowledge, shelves, onUnshelve }) => {
+  const [projectId, setProjectId] = useState('all');
+  const [deviceId, setDeviceId] = useState('all');
+  const [channels, setChannels] = useState<AlarmEventChannel[]>([]);
+  const [levels, setLevels] = useState<AlarmLevel[]>([]);
+  const [stateFilter, setStateFilter] = useState<StateFilter>('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const projectDevices = useMemo(() => devices.filter(d => projectId === 'all' || d.projectId === projectId), [devices, projectId]);
+
+  const filteredEvents = useMemo(() => events.filter(e => {
+    if (projectId !== 'all' && e.projectId !== projectId) return false;
+    if (deviceId !== 'all' && e.deviceId !== deviceId) return false;
+    if (channels.length > 0 && !channels.includes(e.channel)) return false;
+    if (levels.length > 0 && !levels.includes(e.peakLevel)) return false;
+    if (stateFilter === 'active') return !e.clearedAt;
+    if (stateFilter === 'unacknowledged') return !e.acknowledgedAt;
+    if (stateFilter === 'cleared') return !!e.clearedAt;
+    return true;
+  }), [events, projectId, deviceId, channels, levels, stateFilter]);
+
+  // The shelf audit list follows the project and device filters
+  const filteredShelves = shelves.filter(s =>
+    (projectId === 'all' || s.projectId === projectId) && (deviceId === 'all' || s.deviceId === deviceId));
+  const now = Date.now();
+
+  const selectedEvent = events.find(e => e.id === selectedId) || null;
+  const activeCount = events.filter(e => !e.clearedAt).length;
+  const unacknowledgedCount = events.filter(e => !e.acknowledgedAt).length;
+
+  const toggle = <T,>(value: T, setter: React.Dispatch<React.SetStateAction<T[]>>) =>
+    setter(prev => prev.includes(value) ? prev.filter(v => v !== value) : [...prev, value]);
+
+  const selectClass = `pl-3 pr-8 py-1.5 rounded-lg text-xs font-bold border outline-none appearance-none cursor-pointer ${isDark ? 'bg-slate-900 border-slate-600 text-slate-300' : 'bg-white border-gray-300 text-slate-700'}`;
+
+  return (
+    <div className={`w-full flex flex-col p-6 ${isDark ? 'text-slate-200' : 'text-slate-800'}`}>
+      <div className="flex justify-between items-center mb-6 flex-shrink-0">
+        <div>
+          <h1 className={`text-2xl font-black mb-1 flex items-center gap-3 ${isDark ? 'text-white' : 'text-slate-900'}`}>
+            <BellRing className="text-blue-500" /> 告警事件记录
+          </h1>
+          <p className="text-sm opacity-60 font-medium">记录每次越限的开始、升降级与恢复，值班人员确认后留存备注</p>
+        </div>
+        <div className="flex gap-3">
+          <div className={`px-4 py-2 rounded-xl border text-center ${isDark ? 'bg-slate-800/50 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
+            <div className="text-[10px] opacity-50 font-bold">活动中</div>
+            <div className="font-mono font-black text-lg text-orange-500">{activeCount}</div>
+          </div>
+          <div className={`px-4 py-2 rounded-xl border text-center ${isDark ? 'bg-slate-800/50 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
+            <div className="text-[10px] opacity-50 font-bold">未确认</div>
+            <div className="font-mono font-black text-lg text-red-500">{unacknowledgedCount}</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className={`flex flex-wrap items-center gap-3 p-3 mb-4 rounded-xl border ${isDark ? 'bg-slate-900/40 border-slate-700' : 'bg-white border-gray-200 shadow-sm'}`}>
+        <Filter size={16} className="opacity-50" />
+        <div className="relative">
+          <select className={selectClass} value={projectId} onChange={e => { setProjectId(e.target.value); setDeviceId('all'); }}>
+            <option value="all">全部项目</option>
+            {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <ChevronDown size={12} className="absolute right-2.5 top-2 pointer-events-none opacity-50" />
+        </div>
+        <div className="relative">
+          <select className={selectClass} value={deviceId} onChange={e => setDeviceId(e.target.value)}>
+            <option value="all">全部设备</option>
+            {projectDevices.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+          </select>
+          <ChevronDown size={12} className="absolute right-2.5 top-2 pointer-events-none opacity-50" />
+        </div>
+        <div className={`w-px h-6 ${isDark ? 'bg-slate-700' : 'bg-gray-200'}`}></div>
+        {EVENT_CHANNELS.map(ch => (
+          <button key={ch} onClick={() => toggle(ch, setChannels)} className={`px-3 py-1 rounded-full border text-[10px] font-bold transition-all ${channels.includes(ch) ? (isDark ? 'bg-blue-600/20 border-blue-500 text-blue-400' : 'bg-blue-50 border-blue-500 text-blue-600') : 'opacity-50 border-transparent hover:opacity-100'}`}>{ch}</button>
+        ))}
+        <div className={`w-px h-6 ${isDark ? 'bg-slate-700' : 'bg-gray-200'}`}></div>
+        {LEVEL_OPTIONS.map(opt => {
+          const isActive = levels.includes(opt.level);
+          return (
+            <button key={opt.level} onClick={() => toggle(opt.level, setLevels)} className={`px-2 py-1 rounded text-[10px] font-bold border transition-all flex items-center gap-1.5 ${isActive ? '' : 'opacity-40 hover:opacity-100 border-transparent'}`} style={{ backgroundColor: isActive ? opt.color + '20' : 'transparent', borderColor: isActive ? opt.color : 'transparent', color: isActive ? opt.color : undefined }}>
+              <div className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: opt.color }}></div>{opt.label}
+            </button>
+          );
+        })}
+        <div className={`ml-auto flex p-1 rounded-lg border ${isDark ? 'bg-slate-900 border-slate-700' : 'bg-white border-gray-200'}`}>
+          {STATE_OPTIONS.map(opt => (
+            <button key={opt.id} onClick={() => setStateFilter(opt.id)} className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${stateFilter === opt.id ? (isDark ? 'bg-blue-600 text-white shadow' : 'bg-blue-100 text-blue-700') : 'opacity-60 hover:opacity-100'}`}>{opt.label}</button>
+          ))}
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className={`rounded-xl border overflow-hidden ${isDark ? 'bg-slate-900/40 border-slate-700' : 'bg-white border-gray-200 shadow-sm'}`}>
+        {filteredEvents.length === 0 ? (
+          <div className="py-20 text-center opacity-30"><Inbox size={40} className="mx-auto mb-2" /><p className="text-sm font-bold">没有符合条件的告警事件</p></div>
+        ) : (
+          <table className="w-full text-left text-xs border-collapse">
+            <thead className={isDark ? 'bg-slate-900 text-slate-400' : 'bg-gray-50 text-slate-500 border-b border-gray-200'}>
+              <tr>
+                <th className="px-4 py-3 whitespace-nowrap">当前等级</th>
+                <th className="px-4 py-3 whitespace-nowrap">最高等级</th>
+                <th className="px-4 py-3 whitespace-nowrap">设备</th>
+                <th className="px-4 py-3 whitespace-nowrap">通道</th>
+                <th className="px-4 py-3 whitespace-nowrap">开始时间</th>
+                <th className="px-4 py-3 whitespace-nowrap">持续</th>
+                <th className="px-4 py-3 whitespace-nowrap">状态</th>
+                <th className="px-4 py-3 whitespace-nowrap">确认</th>
+              </tr>
+            </thead>
+            <tbody className={`divide-y divide-gray-500/10 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+              {filteredEvents.map(e => (
+                <tr key={e.id} onClick={() => setSelectedId(e.id)} className={`cursor-pointer transition-colors ${isDark ? 'hover:bg-white/5' : 'hover:bg-black/5'} ${!e.acknowledgedAt ? (isDark ? 'bg-red-500/5' : 'bg-red-50/50') : ''}`}>
+                  <td className="px-4 py-2">{e.clearedAt ? <LevelBadge level={AlarmLevel.NORMAL} /> : <LevelBadge level={e.level} />}</td>
+                  <td className="px-4 py-2"><LevelBadge level={e.peakLevel} /></td>
+                  <td className="px-4 py-2 font-bold">{e.deviceName}</td>
+                  <td className="px-4 py-2 font-mono">
+                    <span className="flex items-center gap-1.5">
+                      {e.channel}
+                      {e.suppressedBy && (isShelfId(e.suppressedBy)
+                        ? <span className="px-1.5 py-0.5 rounded bg-amber-500/15 text-amber-500 text-[10px] font-bold font-sans">已搁置</span>
+                        : <span className="px-1.5 py-0.5 rounded bg-indigo-500/15 text-indigo-500 text-[10px] font-bold font-sans">检修抑制</span>)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 font-mono opacity-80"><span className="flex items-center gap-1"><Clock size={12} className="opacity-50" />{formatTime(e.openedAt)}</span></td>
+                  <td className="px-4 py-2 opacity-80">{formatDuration(e.openedAt, e.clearedAt)}</td>
+                  <td className="px-4 py-2">{e.clearedAt ? <span className="opacity-60">已恢复</span> : <span className="text-orange-500 font-bold">活动中</span>}</td>
+                  <td className="px-4 py-2">
+                    {e.acknowledgedAt
+                      ? <span className="flex items-center gap-1 text-green-500"><CheckCircle2 size={12} />{e.acknowledgedBy}</span>
+                      : <span className="px-2 py-0.5 rounded bg-red-500 text-white text-[10px] font-bold">待确认</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Shelf Audit */}
+      <div className="mt-6">
+        <h2 className={`text-sm font-bold mb-3 flex items-center gap-2 ${isDark ? 'text-slate-200' : 'text-slate-700'}`}>
+          <LibraryBig size={16} className="text-amber-500" /> 告警搁置记录
+          <span className="text-[10px] font-normal opacity-50">搁置期间通道告警照常记录，不提示、不发送通知，到期自动解除</span>
+        </h2>
+        <div className={`rounded-xl border overflow-hidden ${isDark ? 'bg-slate-900/40 border-slate-700' : 'bg-white border-gray-200 shadow-sm'}`}>
+          {filteredShelves.length === 0 ? (
+            <div className="py-8 text-center text-xs opacity-40">暂无搁置记录</div>
+          ) : (
+            <table className="w-full text-left text-xs border-collapse">
+              <thead className={isDark ? 'bg-slate-900 text-slate-400' : 'bg-gray-50 text-slate-500 border-b border-gray-200'}>
+                <tr>
+                  <th className="px-4 py-3 whitespace-nowrap">状态</th>
+                  <th className="px-4 py-3 whitespace-nowrap">设备</th>
+                  <th className="px-4 py-3 whitespace-nowrap">测点 / 通道</th>
+                  <th className="px-4 py-3">原因</th>
+                  <th className="px-4 py-3 whitespace-nowrap">搁置人</th>
+                  <th className="px-4 py-3 whitespace-nowrap">搁置时间</th>
+                  <th className="px-4 py-3 whitespace-nowrap">到期时间</th>
+                  <th className="px-4 py-3 whitespace-nowrap">解除</th>
+                </tr>
+              </thead>
+              <tbody className={`divide-y divide-gray-500/10 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                {filteredShelves.map(s => {
+                  const state = shelfState(s, now);
+                  return (
+                    <tr key={s.id}>
+                      <td className="px-4 py-2"><span className={`px-2 py-0.5 rounded text-[10px] font-bold ${SHELF_STATE_INFO[state].className}`}>{SHELF_STATE_INFO[state].label}</span></td>
+                      <td className="px-4 py-2 font-bold">{s.deviceName}</td>
+                      <td className="px-4 py-2">{s.sensorName} <span className="font-mono opacity-60">{s.channel}</span></td>
+                      <td className="px-4 py-2 opacity-80">{s.reason}</td>
+                      <td className="px-4 py-2">{s.shelvedBy}</td>
+                      <td className="px-4 py-2 font-mono opacity-80">{formatTime(s.shelvedAt)}</td>
+                      <td className="px-4 py-2 font-mono opacity-80">{formatTime(s.expiresAt)}</td>
+                      <td className="px-4 py-2">
+                        {state === 'lifted' && <span className="opacity-80">{s.unshelvedBy} · <span className="font-mono">{formatTime(s.unshelvedAt!)}</span></span>}
+                        {state === 'expired' && <span className="opacity-50">自动</span>}
+                        {state === 'active' && onUnshelve && (
+                          <button onClick={() => onUnshelve(s.id)} className="px-2 py-0.5 rounded border text-[10px] font-bold text-amber-500 border-amber-500/40 hover:bg-amber-500/10">立即解除</button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {selectedEvent && (
+        <EventDetailModal event={selectedEvent} isDark={isDark} onClose={() => setSelectedId(null)} onAcknowledge={onAcknowledge} />
+      )}
+    </div>
+  );
+};
+
+export default AlarmLog;
@@ -1,15 +1,24 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { DeviceSummary, AlarmLevel, Project } from '../types';
+import { DeviceSummary, AlarmLevel, Project, AlarmEvent, MovingAverageWindow, ThresholdLevel, TrendAlarmRuleOverrides, ChannelType, PrpdClassification, HealthIndex, HealthIndicator, HealthWeightOverrides, HealthWeights, Forecast, ForecastPoint, ThresholdCrossing, PdConfirmation } from '../types';
+import { DailyValue, HistoryPoint, buildHistory, loadDeviceHistory } from '../services/deviceHistory';
+import { FORECAST_DAYS, FORECAST_MODEL_LABELS, SEARCH_DAYS, describeHistoryForecast, forecastHistory } from '../services/forecasting';
+import { THRESHOLD_LEVELS, severityOf } from '../services/alarmRules';
+import { DEFAULT_TREND_ALARM_RULES, TREND_WINDOWS, findInvalidWindow, resolveTrendRules } from '../services/trendAlarms';
+import { DisplayStatus, MAINTENANCE, displayStatus } from '../services/maintenance';
+import { dataProvider } from '../services/dataProvider';
+import { classifyPrpd, describeClassification } from '../services/prpdClassifier';
+import { describePdConfirmation } from '../services/crossChannelConfirmation';
+import { DEFAULT_HEALTH_WEIGHTS, HEALTH_INDICATORS, HEALTH_INDICATOR_LABELS, compareHealth, findInvalidWeight, healthGrade, resolveHealthWeights } from '../services/healthIndex';
 import { 
   Search, ArrowUpRight, Thermometer, Droplets, 
   Zap, Waves, SortAsc, SortDesc, Upload, 
   ChevronDown, FolderTree, LayoutGrid, ListFilter,
   AlertOctagon, AlertTriangle, CheckCircle2, Info, Activity, HelpCircle,
   FileText, Printer, X, TrendingUp, TrendingDown, Minus, BarChart2, ArrowLeft,
-  PieChart as PieIcon, Layers
+  PieChart as PieIcon, Layers, Wrench, HeartPulse
 } from 'lucide-react';
-import { AreaChart, Area, ResponsiveContainer, PieChart, Pie, Cell, Legend, Tooltip as RechartsTooltip, LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { AreaChart, Area, ResponsiveContainer, PieChart, Pie, Cell, Legend, Tooltip as RechartsTooltip, LineChart, Line, XAxis, YAxis, CartesianGrid, ComposedChart, ReferenceLine } from 'recharts';
 
 interface DashboardProps {
   devices: DeviceSummary[];
@@ -17,17 +26,78 @@ interface DashboardProps {
   isDark: boolean;
   onDeviceSelect: (id: string) => void;
   onUpdateDeviceImage?: (deviceId: string, imageData: string) => void;
+  trendEvents: AlarmEvent[]; // Open trend alarm events
+  trendAlarmRuleOverrides: TrendAlarmRuleOverrides;
+  onTrendAlarmRuleOverridesChange: (overrides: TrendAlarmRuleOverrides) => void;
+  healthWeightOverrides: HealthWeightOverrides;
+  onHealthWeightOverridesChange: (overrides: HealthWeightOverrides) => void;
+  pdConfirmations: Record<string, PdConfirmation>; // Per device, the same ones its health index was scored with
+  onOpenMaintenance?: (deviceId?: string) => void; // Omitted when the user may not schedule maintenance
 }
 
+// Daily device history from the time-series store, moving averages and forecasts derived on top
+const useDeviceHistory = (device: DeviceSummary) => {
+  const [values, setValues] = useState<DailyValue[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadDeviceHistory(device).then(history => { if (!cancelled) setValues(history); });
+    return () => { cancelled = true; };
+  }, [device.id, device.status]);
+
+  return useMemo(() => ({ ...buildHistory(values), forecast: forecastHistory(values) }), [values]);
+};
+
+const dayLabel = (time: string) => new Date(time).toLocaleDateString(undefined, { month: '2-digit', day: '2-digit' });
+
+// History with the amplitude forecast appended. The forecast starts on the last day so the lines join.
+const withForecast = (historyData: HistoryPoint[], forecast: Forecast | null) => {
+  if (!forecast || historyData.length === 0) return historyData;
+  const [start, ...ahead] = forecast.points;
+  const fields = (p: ForecastPoint) => ({ forecast: p.value, band: [p.lower, p.upper] });
+  return [
+    ...historyData.slice(0, -1),
+    { ...historyData[historyData.length - 1], ...fields(start) },
+    ...ahead.map(p => ({ date: dayLabel(p.time), fullDate: p.time, ...fields(p) }))
+  ];
+};
+
+const PRPD_CHANNELS: ChannelType[] = ['UHF', 'TEV', 'HFCT', 'AE'];
+
+// PRPD pattern of the device at its last update, from the channel that says the most:
+// a recognised defect first, then the higher confidence, then the more pulses
+const useDevicePrpd = (device: DeviceSummary) => {
+  const [result, setResult] = useState<{ channel: ChannelType; classification: PrpdClassification } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(PRPD_CHANNELS.map(channel => dataProvider.getPulseRecords(device.id, channel, device.lastUpdated)))
+      .then(samples => {
+        if (cancelled) return;
+        const ranked = samples
+          .map((records, i) => ({ channel: PRPD_CHANNELS[i], classification: classifyPrpd(records) }))
+          .sort((a, b) =>
+            Number(!!b.classification.defect) - Number(!!a.classification.defect) ||
+            b.classification.confidence - a.classification.confidence ||
+            b.classification.features.pulseCount - a.classification.features.pulseCount);
+        setResult(ranked[0]);
+      });
+    return () => { cancelled = true; };
+  }, [device.id, device.lastUpdated]);
+
+  return result;
+};
+
 // --- Report Modal Component ---
 interface ReportModalProps {
   device: DeviceSummary;
   allDevices: DeviceSummary[];
+  confirmation: PdConfirmation | undefined; // Cross-channel confirmation of the device's last acquisition
   onClose: () => void;
   isOpen: boolean;
 }
 
-const ReportModal: React.FC<ReportModalProps> = ({ device, allDevices, onClose, isOpen }) => {
+const ReportModal: React.FC<ReportModalProps> = ({ device, allDevices, confirmation, onClose, isOpen }) => {
   if (!isOpen) return null;
 
   // Calculate Station Stats
@@ -55,89 +125,8 @@ const ReportModal: React.FC<ReportModalProps> = ({ device, allDevices, onClose,
     { name: '无数据', value: stats[AlarmLevel.NO_DATA], color: '#94a3b8' },
   ].filter(d => d.value > 0);
 
-  // Generate Mock 90-Day History & Moving Averages based on current Status
-  const { historyData, trendMetrics } = useMemo(() => {
-    const data = [];
-    const today = new Date();
-    // Base parameters based on device status for realistic simulation
-    let baseAmp = 15;
-    let trendFactor = 0;
-    let noise = 5;
-
-    if (device.status === AlarmLevel.CRITICAL) {
-        baseAmp = 45;
-        trendFactor = 0.4; // Strong growth
-        noise = 12;
-    } else if (device.status === AlarmLevel.DANGER) {
-        baseAmp = 35;
-        trendFactor = 0.15; // Moderate growth
-        noise = 8;
-    } else if (device.status === AlarmLevel.WARNING) {
-        baseAmp = 25;
-        trendFactor = 0.05; // Slight growth
-        noise = 6;
-    }
-
-    // Generate 90 days data
-    for (let i = 89; i >= 0; i--) {
-        const date = new Date(today);
-        date.setDate(date.getDate() - i);
-        
-        // Linear trend + some curve acceleration if critical
-        const x = 90 - i; // 1 to 90
-        let val = baseAmp + (Math.random() - 0.5) * noise;
-        
-        if (trendFactor > 0) {
-            val += trendFactor * x;
-            if (device.status === AlarmLevel.CRITICAL) {
-                val += (x * x) / 250; // Exponential-ish component
-            }
-        }
-
-        data.push({
-            date: date.toLocaleDateString(undefined, { month: '2-digit', day: '2-digit' }),
-            fullDate: date.toISOString(),
-            value: Math.max(0, parseFloat(val.toFixed(1))),
-            ma7: 0, 
-            ma30: 0,
-            ma90: 0
-        });
-    }
-
-    // Calculate Moving Averages
-    for (let i = 0; i < data.length; i++) {
-        const getSliceAvg = (days: number) => {
-            if (i < days - 1) return null; // Not enough data for full window
-            // Use available data for partial average at start, or null? Let's use partial.
-            const startIdx = Math.max(0, i - days + 1);
-            const slice = data.slice(startIdx, i + 1);
-            const sum = slice.reduce((acc, cur) => acc + cur.value, 0);
-            return parseFloat((sum / slice.length).toFixed(1));
-        };
-        data[i].ma7 = getSliceAvg(7) || data[i].value;
-        data[i].ma30 = getSliceAvg(30) || data[i].value;
-        data[i].ma90 = getSliceAvg(90) || data[i].value;
-    }
-
-    // Metrics for Cards
-    const calcGrowth = (currentMA: number, pastMA: number) => {
-        if (pastMA === 0) return 0;
-        return ((currentMA - pastMA) / pastMA) * 100;
-    };
-
-    const lastIdx = data.length - 1;
-    const currentMA7 = data[lastIdx].ma7;
-    const currentMA30 = data[lastIdx].ma30;
-    const currentMA90 = data[lastIdx].ma90;
-
-    const metrics = {
-        d7: { value: currentMA7, growth: calcGrowth(currentMA7, data[Math.max(0, lastIdx - 7)].ma7) },
-        d30: { value: currentMA30, growth: calcGrowth(currentMA30, data[Math.max(0, lastIdx - 30)].ma30) },
-        d90: { value: currentMA90, growth: calcGrowth(currentMA90, data[0].ma90) }
-    };
-
-    return { historyData: data, trendMetrics: metrics };
-  }, [device.status]);
+  const { historyData, trendMetrics, forecast } = useDeviceHistory(device);
+  const prpd = useDevicePrpd(device);
 
   const handlePrint = () => {
     window.print();
@@ -454,6 +443,9 @@ const ReportModal: React.FC<ReportModalProps> = ({ device, allDevices, onClose,
                     </h3>
                     <p className="text-sm leading-relaxed text-slate-700 text-justify">
                         {getDiagnosisText(device.status)}
+                        {prpd && device.status !== AlarmLevel.NO_DATA && ` ${describeClassification(prpd.classification, prpd.channel)}`}
+                        {confirmation && device.status !== AlarmLevel.NO_DATA && ` ${describePdConfirmation(confirmation)}`}
+                        {device.status !== AlarmLevel.NO_DATA && ` ${describeHistoryForecast(forecast)}`}
                     </p>
                 </section>
 
@@ -473,93 +465,137 @@ interface MAAnalysisModalProps {
   onClose: () => void;
   device: DeviceSummary;
   isDark: boolean;
+  trendEvents: AlarmEvent[];
+  ruleOverrides: TrendAlarmRuleOverrides;
+  onRuleOverridesChange: (overrides: TrendAlarmRuleOverrides) => void;
 }
 
-const MAAnalysisModal: React.FC<MAAnalysisModalProps> = ({ isOpen, onClose, device, isDark }) => {
-  if (!isOpen) return null;
+const TREND_LEVEL_LABELS: Record<ThresholdLevel, { label: string; color: string }> = {
+  [AlarmLevel.WARNING]: { label: '一级', color: '#eab308' },
+  [AlarmLevel.DANGER]: { label: '二级', color: '#f97316' },
+  [AlarmLevel.CRITICAL]: { label: '三级', color: '#ef4444' }
+};
 
-  // Generate Mock 90-Day History & Moving Averages (Similar to ReportModal)
-  const { historyData, trendMetrics } = useMemo(() => {
-    const data = [];
-    const today = new Date();
-    // Base parameters based on device status for realistic simulation
-    let baseAmp = 15;
-    let trendFactor = 0;
-    let noise = 5;
-
-    if (device.status === AlarmLevel.CRITICAL) {
-        baseAmp = 45;
-        trendFactor = 0.4; // Strong growth
-        noise = 12;
-    } else if (device.status === AlarmLevel.DANGER) {
-        baseAmp = 35;
-        trendFactor = 0.15; // Moderate growth
-        noise = 8;
-    } else if (device.status === AlarmLevel.WARNING) {
-        baseAmp = 25;
-        trendFactor = 0.05; // Slight growth
-        noise = 6;
-    }
+const TrendAlarmTag: React.FC<{ level?: AlarmLevel }> = ({ level }) => {
+  if (!level || level === AlarmLevel.NORMAL || level === AlarmLevel.NO_DATA) return null;
+  const info = TREND_LEVEL_LABELS[level];
+  return (
+    <span className="px-1.5 py-0.5 rounded text-[10px] font-bold border" style={{ color: info.color, borderColor: info.color + '60', backgroundColor: info.color + '15' }}>
+      趋势{info.label}
+    </span>
+  );
+};
 
-    // Generate 90 days data
-    for (let i = 89; i >= 0; i--) {
-        const date = new Date(today);
-        date.setDate(date.getDate() - i);
-        
-        // Linear trend + some curve acceleration if critical
-        const x = 90 - i; // 1 to 90
-        let val = baseAmp + (Math.random() - 0.5) * noise;
-        
-        if (trendFactor > 0) {
-            val += trendFactor * x;
-            if (device.status === AlarmLevel.CRITICAL) {
-                val += (x * x) / 250; // Exponential-ish component
-            }
-        }
+// Growth thresholds for one device type; empty fields follow the system defaults
+const TrendRuleEditor: React.FC<{
+  deviceType: string;
+  overrides: TrendAlarmRuleOverrides;
+  onChange: (overrides: TrendAlarmRuleOverrides) => void;
+  isDark: boolean;
+}> = ({ deviceType, overrides, onChange, isDark }) => {
+  const [draft, setDraft] = useState(overrides[deviceType] || {});
+  useEffect(() => { setDraft(overrides[deviceType] || {}); }, [overrides, deviceType]);
+  const invalidWindow = findInvalidWindow(resolveTrendRules({ [deviceType]: draft }, deviceType));
+
+  const setField = (window: MovingAverageWindow, level: ThresholdLevel, raw: string) => {
+    const value = raw === '' ? undefined : Number(raw);
+    if (value !== undefined && !Number.isFinite(value)) return;
+    setDraft(prev => {
+      const levels = { ...prev[window], [level]: value };
+      if (value === undefined) delete levels[level];
+      const next = { ...prev, [window]: levels };
+      if (Object.keys(levels).length === 0) delete next[window];
+      return next;
+    });
+  };
 
-        data.push({
-            date: date.toLocaleDateString(undefined, { month: '2-digit', day: '2-digit' }),
-            fullDate: date.toISOString(),
-            value: Math.max(0, parseFloat(val.toFixed(1))),
-            ma7: 0, 
-            ma30: 0,
-            ma90: 0
-        });
-    }
+  const handleSave = () => {
+    if (invalidWindow) return;
+    const { [deviceType]: _, ...rest } = overrides;
+    onChange(Object.keys(draft).length > 0 ? { ...rest, [deviceType]: draft } : rest);
+  };
 
-    // Calculate Moving Averages
-    for (let i = 0; i < data.length; i++) {
-        const getSliceAvg = (days: number) => {
-            if (i < days - 1) return null; // Not enough data for full window
-            const startIdx = Math.max(0, i - days + 1);
-            const slice = data.slice(startIdx, i + 1);
-            const sum = slice.reduce((acc, cur) => acc + cur.value, 0);
-            return parseFloat((sum / slice.length).toFixed(1));
-        };
-        data[i].ma7 = getSliceAvg(7) || data[i].value;
-        data[i].ma30 = getSliceAvg(30) || data[i].value;
-        data[i].ma90 = getSliceAvg(90) || data[i].value;
-    }
+  return (
+    <div className={`p-4 rounded-xl border ${isDark ? 'bg-slate-800/40 border-slate-700' : 'bg-white border-gray-200'}`}>
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <div className={`text-xs font-bold ${isDark ? 'text-slate-200' : 'text-slate-700'}`}>趋势告警规则 · {deviceType}</div>
+          <div className="text-[10px] opacity-50">移动平均较上一周期增幅超过阈值 (%) 即触发对应等级告警，对同类型设备生效</div>
+        </div>
+        <button onClick={handleSave} disabled={!!invalidWindow} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-500 transition-all disabled:opacity-40 disabled:cursor-not-allowed">保存规则</button>
+      </div>
+      <div className="grid grid-cols-4 gap-2 text-xs items-center">
+        <span></span>
+        {THRESHOLD_LEVELS.slice().reverse().map(level => (
+          <span key={level} className="text-[10px] font-bold text-center" style={{ color: TREND_LEVEL_LABELS[level].color }}>{TREND_LEVEL_LABELS[level].label}</span>
+        ))}
+        {TREND_WINDOWS.map(window => (
+          <React.Fragment key={window}>
+            <span className={`font-mono font-bold ${invalidWindow === window ? 'text-red-500' : ''}`}>{window}</span>
+            {THRESHOLD_LEVELS.slice().reverse().map(level => {
+              const value = draft[window]?.[level];
+              return (
+                <input
+                  key={level}
+                  type="number"
+                  value={value ?? ''}
+                  placeholder={`${DEFAULT_TREND_ALARM_RULES[window][level]}`}
+                  onChange={e => setField(window, level, e.target.value)}
+                  className={`w-full px-2 py-1 rounded border text-xs font-mono text-right outline-none ${value !== undefined
+                    ? (isDark ? 'bg-blue-500/10 border-blue-500/50 text-blue-300' : 'bg-blue-50 border-blue-300 text-blue-700')
+                    : (isDark ? 'bg-slate-900 border-slate-700 text-slate-300' : 'bg-white border-gray-200 text-slate-700')}`}
+                />
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+      {invalidWindow && <div className="mt-2 text-[10px] text-red-500">{invalidWindow} 增幅阈值需满足 一级 &lt; 二级 &lt; 三级</div>}
+    </div>
+  );
+};
 
-    // Metrics for Cards
-    const calcGrowth = (currentMA: number, pastMA: number) => {
-        if (pastMA === 0) return 0;
-        return ((currentMA - pastMA) / pastMA) * 100;
-    };
+const crossingLabel = (c: ThresholdCrossing) => {
+  if (c.days === 0) return '已达到';
+  if (c.days !== null) return `${c.days} 天 (最早 ${c.earliestDays} 天)`;
+  return c.earliestDays !== null ? `>${SEARCH_DAYS} 天 (最早 ${c.earliestDays} 天)` : `>${SEARCH_DAYS} 天`;
+};
 
-    const lastIdx = data.length - 1;
-    const currentMA7 = data[lastIdx].ma7;
-    const currentMA30 = data[lastIdx].ma30;
-    const currentMA90 = data[lastIdx].ma90;
+// Where the forecast ends up and how long until each threshold
+const ForecastCard: React.FC<{ title: string; forecast: Forecast | null; isDark: boolean }> = ({ title, forecast, isDark }) => {
+  const end = forecast?.points[forecast.points.length - 1];
+  return (
+    <div className={`p-4 rounded-xl border shadow-sm ${isDark ? 'bg-slate-800/40 border-slate-700' : 'bg-white border-gray-200'}`}>
+      <div className="flex justify-between items-center mb-2">
+        <div className="text-[10px] opacity-40 font-bold uppercase tracking-wider">{title}</div>
+        {forecast && <span className="text-[10px] font-bold opacity-60">{FORECAST_MODEL_LABELS[forecast.model]}模型</span>}
+      </div>
+      {forecast && end ? (
+        <div className="space-y-1.5 text-xs">
+          <div className="flex justify-between">
+            <span className="opacity-60">{FORECAST_DAYS} 天后</span>
+            <span className="font-mono font-bold">{end.value} <span className="opacity-50 font-normal">[{end.lower} – {end.upper}]</span></span>
+          </div>
+          {forecast.crossings.map(c => (
+            <div key={c.level} className="flex justify-between">
+              <span style={{ color: TREND_LEVEL_LABELS[c.level].color }} className="font-bold">距{TREND_LEVEL_LABELS[c.level].label}阈值 ({c.threshold})</span>
+              <span className="font-mono font-bold">{crossingLabel(c)}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-xs opacity-50">历史数据不足，暂无法预测</div>
+      )}
+    </div>
+  );
+};
 
-    const metrics = {
-        d7: { value: currentMA7, growth: calcGrowth(currentMA7, data[Math.max(0, lastIdx - 7)].ma7) },
-        d30: { value: currentMA30, growth: calcGrowth(currentMA30, data[Math.max(0, lastIdx - 30)].ma30) },
-        d90: { value: currentMA90, growth: calcGrowth(currentMA90, data[0].ma90) }
-    };
+const MAAnalysisModal: React.FC<MAAnalysisModalProps> = ({ isOpen, onClose, device, isDark, trendEvents, ruleOverrides, onRuleOverridesChange }) => {
+  if (!isOpen) return null;
 
-    return { historyData: data, trendMetrics: metrics };
-  }, [device.status]);
+  const { historyData, trendMetrics, forecast } = useDeviceHistory(device);
+  const chartData = useMemo(() => withForecast(historyData, forecast.amplitude), [historyData, forecast]);
+  const activeLevel = (window: MovingAverageWindow) => trendEvents.find(e => e.deviceId === device.id && e.channel === window)?.level;
 
   const GrowthIndicator = ({ value }: { value: number }) => {
     const absVal = Math.abs(value);
@@ -594,21 +630,30 @@ const MAAnalysisModal: React.FC<MAAnalysisModalProps> = ({ isOpen, onClose, devi
                  {/* Metrics */}
                  <div className="grid grid-cols-3 gap-4">
                     <div className={`p-4 rounded-xl border shadow-sm ${isDark ? 'bg-slate-800/40 border-slate-700' : 'bg-white border-gray-200'}`}>
-                        <div className="text-[10px] opacity-40 font-bold uppercase tracking-wider mb-2">MA7 (短期趋势)</div>
+                        <div className="flex justify-between items-center mb-2">
+                            <div className="text-[10px] opacity-40 font-bold uppercase tracking-wider">MA7 (短期趋势)</div>
+                            <TrendAlarmTag level={activeLevel('MA7')} />
+                        </div>
                         <div className="flex items-baseline justify-between">
                             <span className={`text-xl font-black ${isDark ? 'text-white' : 'text-slate-800'}`}>{trendMetrics.d7.value} <span className="text-xs font-normal opacity-50">dBmV</span></span>
                             <GrowthIndicator value={trendMetrics.d7.growth} />
                         </div>
                     </div>
                     <div className={`p-4 rounded-xl border shadow-sm ${isDark ? 'bg-slate-800/40 border-slate-700' : 'bg-white border-gray-200'}`}>
-                        <div className="text-[10px] opacity-40 font-bold uppercase tracking-wider mb-2">MA30 (中期趋势)</div>
+                        <div className="flex justify-between items-center mb-2">
+                            <div className="text-[10px] opacity-40 font-bold uppercase tracking-wider">MA30 (中期趋势)</div>
+                            <TrendAlarmTag level={activeLevel('MA30')} />
+                        </div>
                         <div className="flex items-baseline justify-between">
                             <span className={`text-xl font-black ${isDark ? 'text-white' : 'text-slate-800'}`}>{trendMetrics.d30.value} <span className="text-xs font-normal opacity-50">dBmV</span></span>
                             <GrowthIndicator value={trendMetrics.d30.growth} />
                         </div>
                     </div>
                     <div className={`p-4 rounded-xl border shadow-sm ${isDark ? 'bg-slate-800/40 border-slate-700' : 'bg-white border-gray-200'}`}>
-                        <div className="text-[10px] opacity-40 font-bold uppercase tracking-wider mb-2">MA90 (长期趋势)</div>
+                        <div className="flex justify-between items-center mb-2">
+                            <div className="text-[10px] opacity-40 font-bold uppercase tracking-wider">MA90 (长期趋势)</div>
+                            <TrendAlarmTag level={activeLevel('MA90')} />
+                        </div>
                         <div className="flex items-baseline justify-between">
                             <span className={`text-xl font-black ${isDark ? 'text-white' : 'text-slate-800'}`}>{trendMetrics.d90.value} <span className="text-xs font-normal opacity-50">dBmV</span></span>
                             <GrowthIndicator value={trendMetrics.d90.growth} />
@@ -619,7 +664,7 @@ const MAAnalysisModal: React.FC<MAAnalysisModalProps> = ({ isOpen, onClose, devi
                  {/* Chart */}
                  <div className={`h-80 w-full rounded-xl border p-4 ${isDark ? 'bg-slate-800/20 border-slate-700' : 'bg-slate-50 border-slate-200'}`}>
                     <ResponsiveContainer width="100%" height="100%">
-                        <LineChart data={historyData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                        <ComposedChart data={chartData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
                             <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={isDark ? '#334155' : '#e2e8f0'} opacity={0.5} />
                             <XAxis dataKey="date" tick={{fontSize: 10, fill: isDark ? '#94a3b8' : '#64748b'}} tickLine={false} axisLine={false} minTickGap={30} />
                             <YAxis tick={{fontSize: 10, fill: isDark ? '#94a3b8' : '#64748b'}} tickLine={false} axisLine={false} unit=" dB" domain={['auto', 'auto']} />
@@ -633,10 +678,27 @@ const MAAnalysisModal: React.FC<MAAnalysisModalProps> = ({ isOpen, onClose, devi
                             <Line type="monotone" dataKey="ma7" stroke="#3b82f6" strokeWidth={2} dot={false} name="MA7 (短期)" />
                             <Line type="monotone" dataKey="ma30" stroke="#8b5cf6" strokeWidth={2} dot={false} name="MA30 (中期)" />
                             <Line type="monotone" dataKey="ma90" stroke="#06b6d4" strokeWidth={2} strokeDasharray="5 5" dot={false} name="MA90 (长期)" />
-                        </LineChart>
+                            {forecast.amplitude && (
+                                <>
+                                    <Area type="monotone" dataKey="band" stroke="none" fill="#f43f5e" fillOpacity={0.12} name="90% 预测区间" />
+                                    <Line type="monotone" dataKey="forecast" stroke="#f43f5e" strokeWidth={2} strokeDasharray="4 3" dot={false} name={`预测 (${FORECAST_MODEL_LABELS[forecast.amplitude.model]})`} />
+                                    {forecast.amplitude.crossings.map(c => (
+                                        <ReferenceLine key={c.level} y={c.threshold} stroke={TREND_LEVEL_LABELS[c.level].color} strokeDasharray="2 4" ifOverflow="extendDomain" label={{ value: `${TREND_LEVEL_LABELS[c.level].label}阈值`, position: 'insideTopLeft', fontSize: 10, fill: TREND_LEVEL_LABELS[c.level].color }} />
+                                    ))}
+                                </>
+                            )}
+                        </ComposedChart>
                     </ResponsiveContainer>
                  </div>
+
+                 {/* Forecast */}
+                 <div className="grid grid-cols-2 gap-4">
+                    <ForecastCard title="UHF 幅值预测 (dBmV)" forecast={forecast.amplitude} isDark={isDark} />
+                    <ForecastCard title="放电频次预测 (次/秒)" forecast={forecast.rate} isDark={isDark} />
+                 </div>
                  
+                 {device.deviceType && <TrendRuleEditor deviceType={device.deviceType} overrides={ruleOverrides} onChange={onRuleOverridesChange} isDark={isDark} />}
+
                  {/* Analysis Text */}
                  <div className={`p-4 rounded-xl border text-sm leading-relaxed ${isDark ? 'bg-blue-500/10 border-blue-500/20 text-blue-200' : 'bg-blue-50 border-blue-100 text-slate-700'}`}>
                     <strong>分析说明：</strong>
@@ -652,20 +714,165 @@ const MAAnalysisModal: React.FC<MAAnalysisModalProps> = ({ isOpen, onClose, devi
   );
 };
 
-const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDeviceSelect, onUpdateDeviceImage }) => {
+// --- Health Index ---
+
+type SortKey = 'status' | 'health';
+
+const HealthBadge: React.FC<{ health?: HealthIndex; onClick?: (e: React.MouseEvent) => void }> = ({ health, onClick }) => {
+  if (!health) return <span className="text-[10px] opacity-40 font-mono">健康指数 --</span>;
+  const grade = healthGrade(health.score);
+  return (
+    <button onClick={onClick} className="flex items-center gap-1.5 px-1.5 py-0.5 rounded text-[10px] font-bold border transition-opacity hover:opacity-80" style={{ color: grade.color, borderColor: grade.color + '60', backgroundColor: grade.color + '15' }} title="点击查看健康指数构成">
+      <HeartPulse size={10} /> <span className="font-mono">{health.score}</span> {grade.label}
+    </button>
+  );
+};
+
+const SortKeyToggle: React.FC<{ value: SortKey; onChange: (key: SortKey) => void; isDark: boolean }> = ({ value, onChange, isDark }) => (
+  <div className={`flex p-0.5 rounded-lg border ${isDark ? 'bg-slate-900 border-slate-700' : 'bg-white border-gray-200'}`}>
+    {([['status', '按状态'], ['health', '按健康指数']] as [SortKey, string][]).map(([key, label]) => (
+      <button key={key} onClick={() => onChange(key)} className={`px-2.5 py-1 rounded-md text-[10px] font-bold transition-all ${value === key ? (isDark ? 'bg-blue-600 text-white shadow' : 'bg-blue-100 text-blue-700') : 'opacity-60 hover:opacity-100'}`}>{label}</button>
+    ))}
+  </div>
+);
+
+// Indicator weights for one device type; empty fields follow the system defaults
+const HealthWeightEditor: React.FC<{
+  deviceType: string;
+  overrides: HealthWeightOverrides;
+  onChange: (overrides: HealthWeightOverrides) => void;
+  isDark: boolean;
+}> = ({ deviceType, overrides, onChange, isDark }) => {
+  const [draft, setDraft] = useState<Partial<HealthWeights>>(overrides[deviceType] || {});
+  useEffect(() => { setDraft(overrides[deviceType] || {}); }, [overrides, deviceType]);
+  const invalid = findInvalidWeight(resolveHealthWeights({ [deviceType]: draft }, deviceType));
+
+  const setField = (indicator: HealthIndicator, raw: string) => {
+    const value = raw === '' ? undefined : Number(raw);
+    if (value !== undefined && !Number.isFinite(value)) return;
+    setDraft(prev => {
+      const next = { ...prev, [indicator]: value };
+      if (value === undefined) delete next[indicator];
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    if (invalid) return;
+    const { [deviceType]: _, ...rest } = overrides;
+    onChange(Object.keys(draft).length > 0 ? { ...rest, [deviceType]: draft } : rest);
+  };
+
+  return (
+    <div className={`p-4 rounded-xl border ${isDark ? 'bg-slate-800/40 border-slate-700' : 'bg-white border-gray-200'}`}>
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <div className={`text-xs font-bold ${isDark ? 'text-slate-200' : 'text-slate-700'}`}>指标权重 · {deviceType}</div>
+          <div className="text-[10px] opacity-50">相对权重，按总和归一化，对同类型设备生效</div>
+        </div>
+        <button onClick={handleSave} disabled={!!invalid} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-500 transition-all disabled:opacity-40 disabled:cursor-not-allowed">保存权重</button>
+      </div>
+      <div className="grid grid-cols-6 gap-2 text-xs">
+        {HEALTH_INDICATORS.map(indicator => {
+          const value = draft[indicator];
+          return (
+            <label key={indicator} className="flex flex-col gap-1">
+              <span className={`text-[10px] font-bold ${invalid === indicator ? 'text-red-500' : 'opacity-60'}`}>{HEALTH_INDICATOR_LABELS[indicator]}</span>
+              <input
+                type="number"
+                min={0}
+                value={value ?? ''}
+                placeholder={`${DEFAULT_HEALTH_WEIGHTS[indicator]}`}
+                onChange={e => setField(indicator, e.target.value)}
+                className={`w-full px-2 py-1 rounded border text-xs font-mono text-right outline-none ${value !== undefined
+                  ? (isDark ? 'bg-blue-500/10 border-blue-500/50 text-blue-300' : 'bg-blue-50 border-blue-300 text-blue-700')
+                  : (isDark ? 'bg-slate-900 border-slate-700 text-slate-300' : 'bg-white border-gray-200 text-slate-700')}`}
+              />
+            </label>
+          );
+        })}
+      </div>
+      {invalid && <div className="mt-2 text-[10px] text-red-500">权重不能为负，且不能全部为 0</div>}
+    </div>
+  );
+};
+
+const HealthModal: React.FC<{
+  device: DeviceSummary;
+  onClose: () => void;
+  isDark: boolean;
+  overrides: HealthWeightOverrides;
+  onOverridesChange: (overrides: HealthWeightOverrides) => void;
+}> = ({ device, onClose, isDark, overrides, onOverridesChange }) => {
+  const health = device.health;
+  const grade = health ? healthGrade(health.score) : null;
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fadeIn" onClick={onClose}>
+      <div className={`w-full max-w-2xl rounded-2xl shadow-2xl flex flex-col overflow-hidden animate-slideInUp border ${isDark ? 'bg-[#0f172a] border-slate-700' : 'bg-white border-gray-200'}`} onClick={e => e.stopPropagation()}>
+        <div className={`px-6 py-4 border-b flex justify-between items-center ${isDark ? 'border-slate-800 bg-slate-800/50' : 'bg-gray-50 border-gray-100'}`}>
+          <div>
+            <h3 className={`font-bold text-lg flex items-center gap-2 ${isDark ? 'text-white' : 'text-slate-800'}`}>
+              <HeartPulse className="text-blue-500" size={20} /> 设备健康指数
+            </h3>
+            <p className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>设备: {device.name} ({device.station})</p>
+          </div>
+          <button onClick={onClose} className={`p-2 rounded-full transition-colors ${isDark ? 'hover:bg-slate-700 text-slate-400' : 'hover:bg-gray-200 text-slate-500'}`}>
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {health && grade ? (
+            <div className="flex gap-6 items-center">
+              <div className="flex flex-col items-center w-28 flex-shrink-0">
+                <span className="text-5xl font-black font-mono" style={{ color: grade.color }}>{health.score}</span>
+                <span className="text-xs font-bold mt-1" style={{ color: grade.color }}>{grade.label}</span>
+              </div>
+              <div className="flex-1 space-y-2">
+                {HEALTH_INDICATORS.map(indicator => {
+                  const condition = Math.round(100 * (1 - health.stress[indicator]));
+                  const color = healthGrade(condition).color;
+                  return (
+                    <div key={indicator} className="flex items-center gap-3 text-xs">
+                      <span className="w-20 opacity-70">{HEALTH_INDICATOR_LABELS[indicator]}</span>
+                      <div className="flex-1 h-2 rounded-full overflow-hidden bg-slate-500/10">
+                        <div className="h-full rounded-full" style={{ width: `${condition}%`, backgroundColor: color }}></div>
+                      </div>
+                      <span className="w-8 text-right font-mono font-bold">{condition}</span>
+                      <span className="w-12 text-right font-mono opacity-50">×{Math.round(health.weights[indicator] * 100)}%</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ) : (
+            <div className="text-sm opacity-50 text-center py-6">设备暂无数据，无法计算健康指数</div>
+          )}
+
+          {device.deviceType && <HealthWeightEditor deviceType={device.deviceType} overrides={overrides} onChange={onOverridesChange} isDark={isDark} />}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDeviceSelect, onUpdateDeviceImage, trendEvents, trendAlarmRuleOverrides, onTrendAlarmRuleOverridesChange, healthWeightOverrides, onHealthWeightOverridesChange, pdConfirmations, onOpenMaintenance }) => {
   const [viewLevel, setViewLevel] = useState<'projects' | 'devices'>('projects');
   
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterStatus, setFilterStatus] = useState<AlarmLevel[]>([]);
+  const [filterStatus, setFilterStatus] = useState<DisplayStatus[]>([]);
   const [selectedProjectId, setSelectedProjectId] = useState<string>('all');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [sortBy, setSortBy] = useState<SortKey>('status');
+  const [healthDevice, setHealthDevice] = useState<DeviceSummary | null>(null);
   const [reportDevice, setReportDevice] = useState<DeviceSummary | null>(null);
   const [maAnalysisDevice, setMaAnalysisDevice] = useState<DeviceSummary | null>(null); // New state for MA Modal
   const fileInputRefs = useRef<{ [key: string]: HTMLInputElement | null }>({});
   
   // -- Project View Filtering & Sorting State --
-  const [projectFilterStatus, setProjectFilterStatus] = useState<AlarmLevel[]>([]);
+  const [projectFilterStatus, setProjectFilterStatus] = useState<DisplayStatus[]>([]);
   const [projectSortOrder, setProjectSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [projectSortBy, setProjectSortBy] = useState<SortKey>('status');
 
   // -- Dropdown State --
   const [isProjectDropdownOpen, setIsProjectDropdownOpen] = useState(false);
@@ -686,8 +893,19 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
   const GIS_EQUIPMENT_FALLBACK = "https://images.unsplash.com/photo-1518152006812-edab29b069ac?auto=format&fit=crop&q=80&w=200";
 
   // Configuration for card styling based on alarm level
-  const getStatusConfig = (status: AlarmLevel) => {
+  const getStatusConfig = (status: DisplayStatus) => {
     switch (status) {
+      case MAINTENANCE:
+        return { 
+          color: '#6366f1', // Indigo-500
+          label: '检修中',
+          icon: Wrench,
+          containerClass: isDark 
+            ? 'border-indigo-500/60 border-dashed bg-indigo-950/20' 
+            : 'border-indigo-400 border-dashed bg-indigo-50/60',
+          headerClass: 'bg-indigo-600 text-white',
+          pulse: false
+        };
       case AlarmLevel.CRITICAL:
         return { 
           color: '#ef4444', // Red-500
@@ -747,13 +965,13 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
     }
   };
 
-  const toggleStatusFilter = (status: AlarmLevel) => {
+  const toggleStatusFilter = (status: DisplayStatus) => {
     setFilterStatus(prev => 
       prev.includes(status) ? prev.filter(s => s !== status) : [...prev, status]
     );
   };
 
-  const toggleProjectStatusFilter = (status: AlarmLevel) => {
+  const toggleProjectStatusFilter = (status: DisplayStatus) => {
     setProjectFilterStatus(prev => 
       prev.includes(status) ? prev.filter(s => s !== status) : [...prev, status]
     );
@@ -763,29 +981,34 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
     let filtered = devices.filter(d => {
       const matchesSearch = d.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
                             d.station.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesStatus = filterStatus.length === 0 || filterStatus.includes(d.status);
+      const matchesStatus = filterStatus.length === 0 || filterStatus.includes(displayStatus(d));
       const matchesProject = selectedProjectId === 'all' || d.projectId === selectedProjectId;
       return matchesSearch && matchesStatus && matchesProject;
     });
 
     return filtered.sort((a, b) => {
+        // Descending puts the least healthy first, matching the severity order
+        if (sortBy === 'health') return sortOrder === 'desc' ? compareHealth(a, b) : compareHealth(b, a);
         const order = sortOrder === 'asc' ? 1 : -1;
-        // Primary sort by status severity (Critical > Danger > Warning > Normal > NoData)
+        // Primary sort by status severity (Critical > Danger > Warning > Normal > Maintenance > NoData)
         const severity = { 
           [AlarmLevel.CRITICAL]: 4, 
           [AlarmLevel.DANGER]: 3, 
           [AlarmLevel.WARNING]: 2, 
           [AlarmLevel.NORMAL]: 1,
+          [MAINTENANCE]: 0.5,
           [AlarmLevel.NO_DATA]: 0
         };
+        const statusA = displayStatus(a);
+        const statusB = displayStatus(b);
         
-        if (severity[a.status] !== severity[b.status]) {
+        if (severity[statusA] !== severity[statusB]) {
             // Descending: High Severity (4) to Low (0)
-            return (severity[a.status] - severity[b.status]) * order; 
+            return (severity[statusA] - severity[statusB]) * order; 
         }
         return 0;
     });
-  }, [devices, searchTerm, filterStatus, selectedProjectId, sortOrder]);
+  }, [devices, searchTerm, filterStatus, selectedProjectId, sortOrder, sortBy]);
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>, deviceId: string) => {
       const file = e.target.files?.[0];
@@ -813,10 +1036,11 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
               [AlarmLevel.DANGER]: 0,
               [AlarmLevel.CRITICAL]: 0,
               [AlarmLevel.NO_DATA]: 0,
+              [MAINTENANCE]: 0,
           };
           
           let maxSeverity = 0;
-          let overallStatus = AlarmLevel.NORMAL;
+          let overallStatus: DisplayStatus = AlarmLevel.NORMAL;
 
           const severityMap = {
               [AlarmLevel.NO_DATA]: 0,
@@ -829,8 +1053,11 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
           if (associatedDevices.length === 0) {
               overallStatus = AlarmLevel.NO_DATA;
           } else {
+              // Devices under maintenance are counted apart and do not drive the project status
               associatedDevices.forEach(d => {
-                  if (counts[d.status] !== undefined) counts[d.status]++;
+                  const status = displayStatus(d);
+                  if (counts[status] !== undefined) counts[status]++;
+                  if (status === MAINTENANCE) return;
                   const sev = severityMap[d.status];
                   if (sev > maxSeverity) {
                       maxSeverity = sev;
@@ -838,14 +1065,18 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
                   }
               });
               // Handle case where devices exist but maybe all are NO_DATA or mixed
-              if (maxSeverity === 0 && associatedDevices.length > 0) overallStatus = AlarmLevel.NO_DATA;
+              if (counts[MAINTENANCE] === associatedDevices.length) overallStatus = MAINTENANCE;
+              else if (maxSeverity === 0) overallStatus = AlarmLevel.NO_DATA;
           }
 
+          const scores = associatedDevices.flatMap(d => d.health ? [d.health.score] : []);
+
           return {
               ...project,
               deviceCount: associatedDevices.length,
               statusCounts: counts,
-              overallStatus
+              overallStatus,
+              health: scores.length > 0 ? { min: Math.min(...scores), mean: Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) } : null
           };
       });
   }, [devices, projects]);
@@ -861,11 +1092,14 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
       // Sort
       return result.sort((a, b) => {
           const order = projectSortOrder === 'asc' ? 1 : -1;
+          // A project is as healthy as its least healthy device
+          if (projectSortBy === 'health') return ((a.health?.min ?? 101) - (b.health?.min ?? 101)) * -order;
           const severity = {
             [AlarmLevel.CRITICAL]: 4,
             [AlarmLevel.DANGER]: 3,
             [AlarmLevel.WARNING]: 2,
             [AlarmLevel.NORMAL]: 1,
+            [MAINTENANCE]: 0.5,
             [AlarmLevel.NO_DATA]: 0
           };
           
@@ -874,7 +1108,7 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
           }
           return 0;
       });
-  }, [projectStats, projectFilterStatus, projectSortOrder]);
+  }, [projectStats, projectFilterStatus, projectSortOrder, projectSortBy]);
 
   if (viewLevel === 'projects') {
       return (
@@ -891,7 +1125,7 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
 
                 <div className="flex items-center justify-between">
                     <div className="flex gap-2 items-center">
-                        {[AlarmLevel.NORMAL, AlarmLevel.WARNING, AlarmLevel.DANGER, AlarmLevel.CRITICAL, AlarmLevel.NO_DATA].map(status => {
+                        {([AlarmLevel.NORMAL, AlarmLevel.WARNING, AlarmLevel.DANGER, AlarmLevel.CRITICAL, MAINTENANCE, AlarmLevel.NO_DATA] as DisplayStatus[]).map(status => {
                             const isActive = projectFilterStatus.includes(status);
                             const config = getStatusConfig(status);
                             return (
@@ -917,6 +1151,8 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
                         })}
                     </div>
 
+                    <div className="flex items-center gap-2">
+                    <SortKeyToggle value={projectSortBy} onChange={setProjectSortBy} isDark={isDark} />
                     <button 
                         onClick={() => setProjectSortOrder(prev => prev === 'asc' ? 'desc' : 'asc')}
                         className={`p-2 rounded-lg transition-all ${isDark ? 'hover:bg-slate-700 text-slate-400' : 'hover:bg-gray-100 text-slate-600'}`}
@@ -924,6 +1160,7 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
                     >
                         {projectSortOrder === 'asc' ? <SortAsc size={18} /> : <SortDesc size={18} />}
                     </button>
+                    </div>
                 </div>
             </div>
 
@@ -964,6 +1201,16 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
                                             <span className="text-[10px] opacity-50 font-bold uppercase">关联设备</span>
                                             <span className={`text-2xl font-black ${isDark ? 'text-white' : 'text-slate-900'}`}>{project.deviceCount}</span>
                                         </div>
+                                        <div className="flex flex-col items-end">
+                                            <span className="text-[10px] opacity-50 font-bold">最低 / 平均健康指数</span>
+                                            {project.health ? (
+                                                <span className="text-lg font-black font-mono">
+                                                    <span style={{ color: healthGrade(project.health.min).color }}>{project.health.min}</span>
+                                                    <span className="opacity-40"> / </span>
+                                                    <span style={{ color: healthGrade(project.health.mean).color }}>{project.health.mean}</span>
+                                                </span>
+                                            ) : <span className="text-lg font-black font-mono opacity-40">--</span>}
+                                        </div>
                                         <div className={`p-3 rounded-xl ${isDark ? 'bg-black/20' : 'bg-gray-100'}`}>
                                             <Layers size={24} className={isDark ? 'text-slate-400' : 'text-slate-500'} />
                                         </div>
@@ -978,13 +1225,15 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
                                             {project.statusCounts[AlarmLevel.DANGER] > 0 && <div style={{width: `${(project.statusCounts[AlarmLevel.DANGER] / project.deviceCount) * 100}%`}} className="bg-orange-500"></div>}
                                             {project.statusCounts[AlarmLevel.WARNING] > 0 && <div style={{width: `${(project.statusCounts[AlarmLevel.WARNING] / project.deviceCount) * 100}%`}} className="bg-yellow-500"></div>}
                                             {project.statusCounts[AlarmLevel.NORMAL] > 0 && <div style={{width: `${(project.statusCounts[AlarmLevel.NORMAL] / project.deviceCount) * 100}%`}} className="bg-green-500"></div>}
+                                            {project.statusCounts[MAINTENANCE] > 0 && <div style={{width: `${(project.statusCounts[MAINTENANCE] / project.deviceCount) * 100}%`}} className="bg-indigo-500"></div>}
                                             {project.statusCounts[AlarmLevel.NO_DATA] > 0 && <div style={{width: `${(project.statusCounts[AlarmLevel.NO_DATA] / project.deviceCount) * 100}%`}} className="bg-slate-400"></div>}
                                         </div>
-                                        <div className="grid grid-cols-5 gap-1 text-center pt-2">
+                                        <div className="grid grid-cols-6 gap-1 text-center pt-2">
                                             <div className="flex flex-col"><span className="text-[10px] text-red-500 font-bold">三级</span><span className="text-xs font-mono">{project.statusCounts[AlarmLevel.CRITICAL]}</span></div>
                                             <div className="flex flex-col"><span className="text-[10px] text-orange-500 font-bold">二级</span><span className="text-xs font-mono">{project.statusCounts[AlarmLevel.DANGER]}</span></div>
                                             <div className="flex flex-col"><span className="text-[10px] text-yellow-500 font-bold">一级</span><span className="text-xs font-mono">{project.statusCounts[AlarmLevel.WARNING]}</span></div>
                                             <div className="flex flex-col"><span className="text-[10px] text-green-500 font-bold">正常</span><span className="text-xs font-mono">{project.statusCounts[AlarmLevel.NORMAL]}</span></div>
+                                            <div className="flex flex-col"><span className="text-[10px] text-indigo-500 font-bold">检修</span><span className="text-xs font-mono">{project.statusCounts[MAINTENANCE]}</span></div>
                                             <div className="flex flex-col"><span className="text-[10px] text-slate-400 font-bold">无数据</span><span className="text-xs font-mono">{project.statusCounts[AlarmLevel.NO_DATA]}</span></div>
                                         </div>
                                     </div>
@@ -1014,6 +1263,7 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
             onClose={() => setReportDevice(null)}
             device={reportDevice}
             allDevices={devices}
+            confirmation={pdConfirmations[reportDevice.id]}
         />
       )}
 
@@ -1024,6 +1274,20 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
             onClose={() => setMaAnalysisDevice(null)} 
             device={maAnalysisDevice} 
             isDark={isDark} 
+            trendEvents={trendEvents} 
+            ruleOverrides={trendAlarmRuleOverrides} 
+            onRuleOverridesChange={onTrendAlarmRuleOverridesChange} 
+        />
+      )}
+
+      {/* Health Index Modal */}
+      {healthDevice && (
+        <HealthModal 
+            device={devices.find(d => d.id === healthDevice.id) || healthDevice} 
+            onClose={() => setHealthDevice(null)} 
+            isDark={isDark} 
+            overrides={healthWeightOverrides} 
+            onOverridesChange={onHealthWeightOverridesChange} 
         />
       )}
 
@@ -1049,6 +1313,14 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
             </div>
             
             <div className="flex gap-2">
+                {onOpenMaintenance && (
+                    <button 
+                        onClick={() => onOpenMaintenance()}
+                        className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-xs font-bold transition-all ${isDark ? 'border-slate-700 text-indigo-300 hover:bg-slate-800' : 'border-gray-200 text-indigo-600 hover:bg-indigo-50'}`}
+                    >
+                        <Wrench size={14} /> 检修计划
+                    </button>
+                )}
                 <div className={`flex items-center px-3 py-2 rounded-lg border w-64 ${isDark ? 'bg-slate-900 border-slate-700' : 'bg-white border-gray-200'}`}>
                     <Search size={16} className="opacity-40 mr-2" />
                     <input 
@@ -1092,7 +1364,7 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
 
                <div className="h-6 w-px bg-gray-500/20 mx-1"></div>
 
-               {[AlarmLevel.NORMAL, AlarmLevel.WARNING, AlarmLevel.DANGER, AlarmLevel.CRITICAL, AlarmLevel.NO_DATA].map(status => {
+               {([AlarmLevel.NORMAL, AlarmLevel.WARNING, AlarmLevel.DANGER, AlarmLevel.CRITICAL, MAINTENANCE, AlarmLevel.NO_DATA] as DisplayStatus[]).map(status => {
                    const isActive = filterStatus.includes(status);
                    const config = getStatusConfig(status);
                    return (
@@ -1118,6 +1390,8 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
                })}
             </div>
 
+            <div className="flex items-center gap-2">
+            <SortKeyToggle value={sortBy} onChange={setSortBy} isDark={isDark} />
             <button 
                 onClick={() => setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc')}
                 className={`p-2 rounded-lg transition-all ${isDark ? 'hover:bg-slate-700 text-slate-400' : 'hover:bg-gray-100 text-slate-600'}`}
@@ -1125,6 +1399,7 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
             >
                 {sortOrder === 'asc' ? <SortAsc size={18} /> : <SortDesc size={18} />}
             </button>
+            </div>
         </div>
       </div>
 
@@ -1139,9 +1414,12 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
          ) : (
              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
                  {filteredDevices.map(device => {
-                     const statusConfig = getStatusConfig(device.status);
+                     const statusConfig = getStatusConfig(displayStatus(device));
                      const project = projects.find(p => p.id === device.projectId);
                      const hasData = device.status !== AlarmLevel.NO_DATA;
+                     const deviceTrendEvents = trendEvents
+                         .filter(e => e.deviceId === device.id)
+                         .sort((a, b) => severityOf(b.level) - severityOf(a.level));
                      
                      return (
                          <div 
@@ -1236,6 +1514,34 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
                                      </div>
                                  </div>
 
+                                 {/* Health Index */}
+                                 <div className="mb-2">
+                                     <HealthBadge health={device.health} onClick={(e) => { e.stopPropagation(); setHealthDevice(device); }} />
+                                 </div>
+
+                                 {/* Maintenance Window */}
+                                 {device.maintenance && (
+                                     <div className={`mb-2 px-2 py-1.5 rounded-lg text-[10px] border ${isDark ? 'border-indigo-500/30 bg-indigo-500/10 text-indigo-300' : 'border-indigo-200 bg-indigo-50 text-indigo-700'}`} title={`负责人: ${device.maintenance.owner}`}>
+                                         <div className="font-bold truncate flex items-center gap-1"><Wrench size={10} /> {device.maintenance.reason}</div>
+                                         <div className="opacity-70 font-mono">至 {new Date(device.maintenance.end).toLocaleString()} · 告警已抑制</div>
+                                     </div>
+                                 )}
+
+                                 {/* Trend Alarms */}
+                                 {deviceTrendEvents.length > 0 && (
+                                     <div className="flex flex-wrap gap-1.5 mb-2">
+                                         {deviceTrendEvents.map(e => {
+                                             const info = TREND_LEVEL_LABELS[e.level as ThresholdLevel];
+                                             const growth = e.transitions[e.transitions.length - 1]?.growth;
+                                             return (
+                                                 <span key={e.id} className="px-1.5 py-0.5 rounded text-[10px] font-bold border flex items-center gap-1" style={{ color: info?.color, borderColor: (info?.color || '#94a3b8') + '60', backgroundColor: (info?.color || '#94a3b8') + '15' }} title={`趋势告警${info ? ` · ${info.label}` : ''}`}>
+                                                     <TrendingUp size={10} /> {e.channel}{growth !== undefined ? ` +${growth.toFixed(1)}%` : ''}
+                                                 </span>
+                                             );
+                                         })}
+                                     </div>
+                                 )}
+
                                  {/* Mini Trend Chart */}
                                  <div 
                                     className="h-10 w-full opacity-60 hover:opacity-100 transition-opacity mt-auto mb-3 cursor-pointer relative group/chart"
@@ -1284,6 +1590,15 @@ const Dashboard: React.FC<DashboardProps> = ({ devices, projects, isDark, onDevi
                                      >
                                          <FileText size={12} /> 报告
                                      </button>
+
+                                     {onOpenMaintenance && (
+                                         <button 
+                                            onClick={(e) => { e.stopPropagation(); onOpenMaintenance(device.id); }}
+                                            className="text-xs font-bold flex items-center gap-1 transition-colors opacity-60 hover:opacity-100 hover:text-indigo-500 bg-gray-500/5 px-2 py-1 rounded-md"
+                                         >
+                                             <Wrench size={12} /> 检修
+                                         </button>
+                                     )}
                                      
                                      <button className={`text-xs font-bold flex items-center gap-1 transition-colors hover:text-blue-500 opacity-60 hover:opacity-100 bg-gray-500/5 px-2 py-1 rounded-md`}>
                                          详情诊断 <ArrowUpRight size={12} />
@@ -1,6 +1,7 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { Project, ConfigDevice, ConfigSensor, AlarmLevel } from '../types';
+import { Project, ConfigDevice, ConfigSensor, AlarmLevel, ChartDataPoint } from '../types';
+import { querySeries, seriesKey } from '../services/timeSeriesStore';
 import { 
   FileOutput, Calendar, Check, ChevronRight, Search, 
   Database, HardDrive, Radio, Waves, Clock, Download, 
@@ -148,24 +149,56 @@ const DataExport: React.FC<DataExportProps> = ({ isDark, projects, devices, sens
 
   }, [selectedSensorIds.length, timeRange, selectedStatuses]);
 
-  const triggerExport = () => {
+  // 从本地时序库读取所选测点的历史数据并生成 CSV
+  const triggerExport = async () => {
     if (selectedSensorIds.length === 0 || selectedStatuses.length === 0) return;
     setIsExporting(true);
     setExportProgress(0);
-    
-    const interval = setInterval(() => {
-      setExportProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(interval);
-          setTimeout(() => {
-            setIsExporting(false);
-            alert(`导出任务已完成！\n包含 ${selectedSensorIds.length} 个测点，共 ${estimatedSize} 数据。`);
-          }, 500);
-          return 100;
-        }
-        return prev + 5;
-      });
-    }, 150);
+
+    const start = new Date(`${timeRange.start}T00:00:00`);
+    const end = new Date(`${timeRange.end}T23:59:59.999`);
+    const includeNormal = selectedStatuses.includes(AlarmLevel.NORMAL);
+    const includeAbnormal = [AlarmLevel.WARNING, AlarmLevel.DANGER, AlarmLevel.CRITICAL].some(s => selectedStatuses.includes(s));
+
+    const headers = ["测点ID", "测点名称", "SN号", "时间戳", "告警", "UHF幅值(dBmV)", "TEV幅值(dBmV)", "HFCT幅值(dBmV)", "AE幅值(dBmV)", "温度(°C)", "湿度(%)"];
+    const rows: string[][] = [];
+
+    try {
+      for (let i = 0; i < selectedSensorIds.length; i++) {
+        const sensorId = selectedSensorIds[i];
+        const sensor = sensors.find(s => s.id === sensorId);
+        const points = await querySeries<ChartDataPoint>(seriesKey(sensorId), start, end);
+        points
+          .filter(p => p.isAlarm ? includeAbnormal : includeNormal)
+          .forEach(p => rows.push([
+            sensorId, sensor?.name || '', sensor?.sn || '', p.time.replace('T', ' '), p.isAlarm ? '是' : '否',
+            p.uhf_amp.toFixed(2), p.tev_amp.toFixed(2), p.hfct_amp.toFixed(2), p.ae_amp.toFixed(2), p.temperature.toFixed(1), p.humidity.toFixed(1)
+          ]));
+        setExportProgress(Math.round(((i + 1) / selectedSensorIds.length) * 100));
+      }
+    } catch (e) {
+      console.error('Export failed', e);
+      setIsExporting(false);
+      alert('读取本地历史数据失败，请检查浏览器存储权限。');
+      return;
+    }
+
+    setIsExporting(false);
+    if (rows.length === 0) {
+      alert('所选测点在该时间范围内没有本地历史数据。');
+      return;
+    }
+
+    const csvContent = "\uFEFF" + [headers.join(","), ...rows.map(r => r.join(","))].join("\n");
+    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", `PD_Export_${timeRange.start}_${timeRange.end}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    alert(`导出任务已完成！\n包含 ${selectedSensorIds.length} 个测点，共 ${rows.length} 条记录。`);
   };
 
   return (
@@ -1,11 +1,18 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { SensorData, AlarmLevel, DeviceSummary, PDSource, Project } from '../types';
-import { Rotate3d, MousePointer2, X, AlertCircle, Clock, ChevronDown, ChevronRight, Crosshair, Target, Zap, MapPin, Hash, Move, LayoutTemplate, Save, RotateCcw, Layers, Cpu, Radio, Activity, Waves, PanelLeftClose, PanelLeftOpen, Network, Box, Upload, Image as ImageIcon, AlertTriangle, AlertOctagon, CheckCircle2, HelpCircle } from 'lucide-react';
+import { SensorData, AlarmLevel, DeviceSummary, PDSource, Project, UhfArrival, Vec3, ChannelType, CompartmentConfirmation, PdConfirmation } from '../types';
+import { saveImage, loadImageUrl } from '../services/timeSeriesStore';
+import { STORAGE_KEYS, loadRecord, saveRecord, isSensorPositions } from '../services/persistence';
+import { DisplayStatus, MAINTENANCE, displayStatus } from '../services/maintenance';
+import { locateSource } from '../services/localisation';
+import { AmplitudeReading, locateByAttenuation } from '../services/attenuationLocalisation';
+import { Rotate3d, MousePointer2, X, AlertCircle, Clock, ChevronDown, ChevronRight, Crosshair, Target, Zap, MapPin, Hash, Move, LayoutTemplate, Save, RotateCcw, Layers, Cpu, Radio, Activity, Waves, PanelLeftClose, PanelLeftOpen, Network, Box, Upload, Image as ImageIcon, AlertTriangle, AlertOctagon, CheckCircle2, HelpCircle, Wrench, LibraryBig, ShieldCheck } from 'lucide-react';
 
 interface DigitalTwinProps {
   sensors: SensorData[];
   pdSource: PDSource | null;
+  uhfArrivals: UhfArrival[];
+  pdConfirmation: PdConfirmation | null; // Cross-channel confirmation of the current device's latest acquisition
   isDark: boolean;
   activeSensorId: string;
   onSensorSelect: (id: string, name?: string) => void;
@@ -13,13 +20,21 @@ interface DigitalTwinProps {
   projects: Project[];
   currentDeviceId: string;
   onDeviceChange: (id: string) => void;
+  onOpenMaintenance?: (deviceId?: string) => void; // Omitted when the user may not schedule maintenance
+  onShelveSensor?: (sensor: SensorData) => void; // Omitted when the user's role may not shelve alarms
 }
 
 type ViewMode = 'twin' | 'topology';
+type LocateMode = 'tdoa' | 'attenuation';
+
+const LOCATE_CHANNELS = ['UHF', 'TEV', 'HFCT', 'AE'];
+
+// Yellow for unlikely through red for the most likely cell
+const heatColor = (t: number) => `hsla(${Math.round(60 * (1 - t))}, 95%, 50%, ${(0.15 + 0.55 * t).toFixed(2)})`;
 
 const DigitalTwin: React.FC<DigitalTwinProps> = ({ 
-  sensors, pdSource, isDark, activeSensorId, onSensorSelect,
-  devices, projects, currentDeviceId, onDeviceChange
+  sensors, pdSource, uhfArrivals, pdConfirmation, isDark, activeSensorId, onSensorSelect,
+  devices, projects, currentDeviceId, onDeviceChange, onOpenMaintenance, onShelveSensor
 }) => {
   const [viewMode, setViewMode] = useState<ViewMode>('twin');
   const [selectedSensor, setSelectedSensor] = useState<SensorData | null>(null);
@@ -35,14 +50,11 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Topology State
-  const [topologyImage, setTopologyImage] = useState<string | null>(() => localStorage.getItem('pd_topology_image'));
+  const [topologyImage, setTopologyImage] = useState<string | null>(null);
   const topologyInputRef = useRef<HTMLInputElement>(null);
 
   // Store position overrides: { [sensorId]: [x, y, z] }
-  const [sensorPosOverrides, setSensorPosOverrides] = useState<Record<string, [number, number, number]>>(() => {
-      const saved = localStorage.getItem('pd_sensor_positions');
-      return saved ? JSON.parse(saved) : {};
-  });
+  const [sensorPosOverrides, setSensorPosOverrides] = useState<Record<string, [number, number, number]>>(() => loadRecord(STORAGE_KEYS.sensorPositions, isSensorPositions, {}));
 
   const lastMousePos = useRef({ x: 0, y: 0 });
   const containerRef = useRef<HTMLDivElement>(null);
@@ -61,9 +73,49 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
   }, [dropdownRef]);
 
   useEffect(() => {
-      localStorage.setItem('pd_sensor_positions', JSON.stringify(sensorPosOverrides));
+      saveRecord(STORAGE_KEYS.sensorPositions, sensorPosOverrides);
   }, [sensorPosOverrides]);
 
+  // TDOA fix from the UHF sensors where they are drawn, so a moved sensor moves the fix too
+  const sourceEstimate = useMemo(() => {
+      const positions: Record<string, Vec3> = {};
+      sensors.forEach(s => {
+          if (s.type === 'UHF' && s.isOnline !== false) positions[s.id] = sensorPosOverrides[s.id] || s.position3d;
+      });
+      return locateSource(uhfArrivals, positions);
+  }, [sensors, uhfArrivals, sensorPosOverrides]);
+
+  // Fallback for sites without synchronous sampling: fit the relative amplitudes instead
+  const attenuationEstimate = useMemo(() => {
+      const readings: AmplitudeReading[] = sensors
+          .filter(s => s.isOnline !== false && LOCATE_CHANNELS.includes(s.type))
+          .map(s => ({ sensorId: s.id, channel: s.type as ChannelType, amplitude: s.value, position: sensorPosOverrides[s.id] || s.position3d }));
+      return locateByAttenuation(readings);
+  }, [sensors, sensorPosOverrides]);
+
+  // Time differences when they give a fix, amplitudes otherwise, until the user picks one
+  const [chosenLocateMode, setChosenLocateMode] = useState<LocateMode | null>(null);
+  useEffect(() => setChosenLocateMode(null), [currentDeviceId]);
+  const locateMode: LocateMode = chosenLocateMode ?? (sourceEstimate ? 'tdoa' : 'attenuation');
+  const heatPeak = Math.max(0, ...(attenuationEstimate?.cells.map(c => c.probability) ?? []));
+
+  // Topology image lives in IndexedDB; move over a copy left in localStorage by older versions
+  useEffect(() => {
+      const legacy = localStorage.getItem('pd_topology_image');
+      if (legacy) {
+          setTopologyImage(legacy);
+          saveImage('topology', legacy)
+              .then(() => localStorage.removeItem('pd_topology_image'))
+              .catch(e => console.warn('Failed to migrate topology image', e));
+          return;
+      }
+      let cancelled = false;
+      loadImageUrl('topology')
+          .then(url => { if (!cancelled && url) setTopologyImage(url); })
+          .catch(e => console.warn('Failed to load topology image', e));
+      return () => { cancelled = true; };
+  }, []);
+
   const handleTopologyUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (file) {
@@ -71,7 +123,7 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
           reader.onloadend = () => {
               const result = reader.result as string;
               setTopologyImage(result);
-              localStorage.setItem('pd_topology_image', result);
+              saveImage('topology', result).catch(e => console.warn('Failed to save topology image', e));
           };
           reader.readAsDataURL(file);
       }
@@ -103,8 +155,9 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
       return groups;
   }, [devices, projects]);
 
-  const getDeviceStatusIcon = (status: AlarmLevel) => {
+  const getDeviceStatusIcon = (status: DisplayStatus) => {
       switch(status) {
+          case MAINTENANCE: return '🔧';
           case AlarmLevel.NORMAL: return '🟢'; 
           case AlarmLevel.WARNING: return '🟡';
           case AlarmLevel.DANGER: return '🟠';
@@ -115,6 +168,13 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
   };
 
   // --- Data Grouping Logic (Simulating Sensor Nodes) ---
+  // Compartment verdict for each sensor that picked up PD
+  const confirmationBySensor = useMemo(() => {
+    const map: Record<string, CompartmentConfirmation> = {};
+    pdConfirmation?.compartments.forEach(c => c.activeSensorIds.forEach(id => { map[id] = c; }));
+    return map;
+  }, [pdConfirmation]);
+
   const { sensorNodes, sensorNodeMap } = useMemo(() => {
     const nodes = [];
     const map: Record<string, { id: string; name: string; sn: string }> = {};
@@ -185,7 +245,7 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
   const aggregateStatus = useMemo(() => {
     // Prioritize the status from the device summary list to ensure consistency with the Dashboard
     if (currentDevice) {
-        return currentDevice.status;
+        return displayStatus(currentDevice);
     }
 
     // Fallback logic if currentDevice is not found
@@ -198,6 +258,18 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
   // Updated Status Styles with "Jump out" effect for High Levels
   const currentStatusStyle = useMemo(() => {
       switch (aggregateStatus) {
+        case MAINTENANCE: {
+            const plan = currentDevice?.maintenance;
+            return { 
+                label: '检修中', 
+                description: plan ? `${plan.reason} · 至 ${new Date(plan.end).toLocaleString()}，告警已抑制` : '设备检修中，告警已抑制', 
+                color: 'text-indigo-500', 
+                bg: 'bg-indigo-500',
+                descColor: 'text-indigo-500',
+                isHighAlert: false,
+                icon: Wrench
+            };
+        }
         case AlarmLevel.NORMAL: 
             return { 
                 label: '正常', 
@@ -259,11 +331,12 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
                 icon: HelpCircle
             };
       }
-  }, [aggregateStatus]);
+  }, [aggregateStatus, currentDevice]);
 
-  const getStatusColor = (status: AlarmLevel, isOnline: boolean) => {
+  const getStatusColor = (status: DisplayStatus, isOnline: boolean) => {
     if (isOnline === false) return 'bg-slate-500 border-slate-400 shadow-none opacity-50';
     switch (status) {
+      case MAINTENANCE: return 'bg-indigo-500 border-indigo-300 border-dashed';
       case AlarmLevel.NORMAL: return 'bg-green-500 border-green-300 shadow-[0_0_10px_2px_rgba(34,197,94,0.6)]';
       case AlarmLevel.WARNING: return 'bg-yellow-400 border-yellow-200 shadow-[0_0_10px_2px_rgba(250,204,21,0.6)]';
       case AlarmLevel.DANGER: return 'bg-orange-500 border-orange-300 shadow-[0_0_12px_3px_rgba(249,115,22,0.7)]';
@@ -273,9 +346,10 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
     }
   };
 
-  const getStatusLabel = (status: AlarmLevel, isOnline: boolean) => {
+  const getStatusLabel = (status: DisplayStatus, isOnline: boolean) => {
       if (isOnline === false) return '无数据';
       switch (status) {
+        case MAINTENANCE: return '检修中';
         case AlarmLevel.NORMAL: return '正常';
         case AlarmLevel.WARNING: return '一级';
         case AlarmLevel.DANGER: return '二级';
@@ -285,9 +359,10 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
       }
   };
 
-  const getStatusBadgeColor = (status: AlarmLevel, isOnline: boolean) => {
+  const getStatusBadgeColor = (status: DisplayStatus, isOnline: boolean) => {
       if (isOnline === false) return 'bg-slate-500/20 text-slate-400 border-slate-500/30';
       switch (status) {
+        case MAINTENANCE: return 'bg-indigo-500/20 text-indigo-500 border-indigo-500/30';
         case AlarmLevel.NORMAL: return 'bg-green-500/20 text-green-500 border-green-500/30';
         case AlarmLevel.WARNING: return 'bg-yellow-500/20 text-yellow-500 border-yellow-500/30';
         case AlarmLevel.DANGER: return 'bg-orange-500/20 text-orange-500 border-orange-500/30';
@@ -468,7 +543,7 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
                                             }
                                         `}
                                     >
-                                        <span className="text-xs">{getDeviceStatusIcon(d.status)}</span>
+                                        <span className="text-xs">{getDeviceStatusIcon(displayStatus(d))}</span>
                                         <span className="truncate">{d.name}</span>
                                     </button>
                                 ))}
@@ -502,6 +577,15 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
         </div>
         
         <div className="flex items-center gap-4">
+            {onOpenMaintenance && (
+                <button 
+                    onClick={() => onOpenMaintenance(currentDeviceId)}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-xs font-bold transition-all ${isDark ? 'border-slate-700 text-indigo-300 hover:bg-slate-800' : 'border-gray-200 text-indigo-600 hover:bg-indigo-50'}`}
+                    title="为当前设备安排检修"
+                >
+                    <Wrench size={14} /> 检修
+                </button>
+            )}
             <div className="flex flex-col items-end pr-2">
                 {currentStatusStyle.isHighAlert ? (
                     // HIGH ALERT STYLE (Critical/Danger)
@@ -512,13 +596,13 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
                         </span>
                     </div>
                 ) : (
-                    // NORMAL/WARNING/NO_DATA STYLE
+                    // NORMAL/WARNING/MAINTENANCE/NO_DATA STYLE
                     <div className="flex items-center gap-3 mb-0.5">
                         <span className={`text-xl font-black ${currentStatusStyle.color} uppercase tracking-widest`}>
                             {currentStatusStyle.label}
                         </span>
                         <div className="relative flex items-center justify-center w-5 h-5">
-                            <div className={`absolute w-full h-full rounded-full ${currentStatusStyle.bg} opacity-20 ${aggregateStatus !== AlarmLevel.NORMAL && aggregateStatus !== AlarmLevel.NO_DATA ? 'animate-ping' : ''}`}></div>
+                            <div className={`absolute w-full h-full rounded-full ${currentStatusStyle.bg} opacity-20 ${aggregateStatus !== AlarmLevel.NORMAL && aggregateStatus !== AlarmLevel.NO_DATA && aggregateStatus !== MAINTENANCE ? 'animate-ping' : ''}`}></div>
                             <div className={`relative w-3.5 h-3.5 rounded-full ${currentStatusStyle.bg} shadow-md`}></div>
                         </div>
                     </div>
@@ -540,6 +624,11 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
               <div className="flex items-center gap-2">
                   <Layers size={16} />
                   <span className="text-xs font-black uppercase">传感节点列表</span>
+                  {pdConfirmation?.confirmed && (
+                      <span className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] font-bold bg-emerald-500/15 text-emerald-500" title="多个通道在同一气室同步检测到局放脉冲">
+                          <ShieldCheck size={10} /> 局放已印证 {Math.round(pdConfirmation.confidence * 100)}%
+                      </span>
+                  )}
               </div>
               <button 
                 onClick={() => setIsSidebarOpen(false)}
@@ -590,7 +679,7 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
                                       return (
                                           <div 
                                             key={sensor.id}
-                                            className={`flex items-center gap-3 px-3 py-2 pl-8 border-l-2 border-transparent transition-all select-none
+                                            className={`group flex items-center gap-3 px-3 py-2 pl-8 border-l-2 border-transparent transition-all select-none
                                                 ${isDark ? 'hover:bg-slate-700/30' : 'hover:bg-gray-200/50'}
                                             `}
                                             onClick={(e) => handleSensorClick(e, sensor)} // Only opens detail modal
@@ -601,8 +690,13 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
                                                </span>
 
                                                <div className="flex-1 min-w-0">
-                                                   <div className={`text-xs font-bold truncate ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
-                                                       {sensor.type} 
+                                                   <div className={`text-xs font-bold truncate flex items-center gap-1.5 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                                                       {sensor.type}
+                                                       {confirmationBySensor[sensor.id] && sensor.isOnline !== false && (confirmationBySensor[sensor.id].confirmed ? (
+                                                           <span className="px-1 rounded text-[9px] bg-emerald-500/15 text-emerald-500" title={`${confirmationBySensor[sensor.id].compartment} 气室多通道同步，置信度 ${Math.round(confirmationBySensor[sensor.id].confidence * 100)}%`}>已印证</span>
+                                                       ) : (
+                                                           <span className="px-1 rounded text-[9px] bg-slate-500/15 text-slate-400" title="未获其他通道同步印证，可能为干扰">单通道</span>
+                                                       ))}
                                                    </div>
                                                    <div className="flex items-center gap-1 opacity-60 mt-0.5">
                                                        <MapPin size={8} />
@@ -610,15 +704,29 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
                                                    </div>
                                                </div>
                                                
+                                               {/* Shelved channel, or the shelve action on hover */}
+                                               {(sensor.shelf || onShelveSensor) && (
+                                                   <button
+                                                       type="button"
+                                                       disabled={!onShelveSensor}
+                                                       onClick={(e) => { e.stopPropagation(); onShelveSensor?.(sensor); }}
+                                                       title={sensor.shelf ? `${sensor.type} 告警已搁置至 ${new Date(sensor.shelf.expiresAt).toLocaleString()}：${sensor.shelf.reason}` : `搁置 ${sensor.type} 通道告警`}
+                                                       className={`p-1 rounded flex-shrink-0 transition-opacity disabled:cursor-default ${sensor.shelf ? 'text-amber-500' : 'opacity-0 group-hover:opacity-60 hover:!opacity-100'} ${isDark ? 'hover:bg-slate-700' : 'hover:bg-gray-200'}`}
+                                                   >
+                                                       <LibraryBig size={12} />
+                                                   </button>
+                                               )}
+
                                                {/* Status Light Indicator */}
                                                <div className={`w-2.5 h-2.5 rounded-full shadow-sm flex-shrink-0 transition-colors ${
                                                    sensor.isOnline === false ? 'bg-slate-400' : 
+                                                   sensor.maintenance ? 'bg-indigo-500' :
                                                    (sensor.status === AlarmLevel.NORMAL ? 'bg-green-500 shadow-[0_0_5px_rgba(34,197,94,0.5)]' :
                                                    sensor.status === AlarmLevel.WARNING ? 'bg-yellow-400 shadow-[0_0_5px_rgba(250,204,21,0.5)]' :
                                                    sensor.status === AlarmLevel.DANGER ? 'bg-orange-500 shadow-[0_0_5px_rgba(249,115,22,0.5)] animate-pulse' : 
                                                    sensor.status === AlarmLevel.CRITICAL ? 'bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.6)] animate-pulse' :
                                                    'bg-slate-400 border-slate-300') // NO_DATA case
-                                               }`} title={getStatusLabel(sensor.status, sensor.isOnline)} />
+                                               }`} title={getStatusLabel(displayStatus(sensor), sensor.isOnline)} />
                                           </div>
                                       );
                                   })}
@@ -692,6 +800,38 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
                     }}
                 />
 
+                {(uhfArrivals.length > 0 || attenuationEstimate) && (
+                    <div className={`absolute bottom-4 left-4 z-20 w-64 p-3 rounded-lg shadow-lg border backdrop-blur-md text-[10px] space-y-1 ${isDark ? 'bg-slate-900/80 border-slate-700 text-slate-300' : 'bg-white/80 border-gray-200 text-slate-600'}`}>
+                        <div className="flex items-center gap-1.5 font-bold text-xs text-cyan-500">
+                            <Crosshair size={14} /> 放电源定位
+                            <div className={`ml-auto flex rounded border overflow-hidden ${isDark ? 'border-slate-700' : 'border-gray-200'}`}>
+                                {([['tdoa', 'UHF 时差'], ['attenuation', '幅值衰减']] as [LocateMode, string][]).map(([mode, label]) => (
+                                    <button key={mode} onClick={() => setChosenLocateMode(mode)} className={`px-1.5 py-0.5 font-bold transition-colors ${locateMode === mode ? 'bg-cyan-500 text-white' : 'opacity-60 hover:opacity-100'}`}>{label}</button>
+                                ))}
+                            </div>
+                        </div>
+                        {locateMode === 'tdoa' ? (sourceEstimate ? (
+                            <>
+                                <div className="flex justify-between"><span className="opacity-60">估计位置</span><span className="font-mono">{sourceEstimate.position.map(v => Math.round(v)).join(', ')}</span></div>
+                                <div className="flex justify-between"><span className="opacity-60">95% 误差椭球半轴</span><span className="font-mono">{sourceEstimate.ellipsoid.radii.map(v => Math.round(v)).join(' / ')}</span></div>
+                                <div className="flex justify-between"><span className="opacity-60">时差残差</span><span className="font-mono">{sourceEstimate.residualNs.toFixed(2)} ns</span></div>
+                                <div className="flex justify-between"><span className="opacity-60">参与传感器</span><span className="font-mono">{sourceEstimate.sensorIds.length}</span></div>
+                            </>
+                        ) : (
+                            <div className="opacity-60">需至少 4 个同步采样、在线且位置不共面的 UHF 传感器才能时差定位</div>
+                        )) : (attenuationEstimate ? (
+                            <>
+                                <div className="flex justify-between"><span className="opacity-60">最可能位置</span><span className="font-mono">{attenuationEstimate.position.map(v => Math.round(v)).join(', ')}</span></div>
+                                <div className="flex justify-between"><span className="opacity-60">该格概率</span><span className="font-mono">{Math.round(heatPeak * 100)}%</span></div>
+                                <div className="flex justify-between"><span className="opacity-60">幅值残差</span><span className="font-mono">{attenuationEstimate.residualDb.toFixed(1)} dB</span></div>
+                                <div className="flex justify-between"><span className="opacity-60">参与传感器</span><span className="font-mono">{attenuationEstimate.sensorIds.length}</span></div>
+                            </>
+                        ) : (
+                            <div className="opacity-60">需至少 3 个在线传感器且有测点读数明显高于背景</div>
+                        ))}
+                    </div>
+                )}
+
                 {isLayoutMode && (
                     <div className="absolute inset-0 pointer-events-none flex items-center justify-center z-0 opacity-20">
                         <div className="border-2 border-dashed border-blue-500 w-[80%] h-[80%] rounded-xl"></div>
@@ -719,6 +859,38 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
                         </div>
                     )}
 
+                    {locateMode === 'attenuation' && attenuationEstimate?.cells.map(cell => {
+                        const t = cell.probability / heatPeak;
+                        if (t < 0.05) return null;
+                        const size = attenuationEstimate.cellSize;
+                        return (
+                            <div key={`${cell.x}:${cell.y}`} className="absolute pointer-events-none" style={{ width: size, height: size, left: -size / 2, top: -size / 2, backgroundColor: heatColor(t), transform: `translate3d(${cell.x}px, ${cell.y}px, 0px)` }} />
+                        );
+                    })}
+
+                    {locateMode === 'tdoa' && sourceEstimate && (() => {
+                        const { position, ellipsoid: { radii, axes } } = sourceEstimate;
+                        // Columns are the ellipsoid axes, so the rings below are drawn in its own frame
+                        const frame = `matrix3d(${axes[0].join(',')},0,${axes[1].join(',')},0,${axes[2].join(',')},0,${position.join(',')},1)`;
+                        const ring = (w: number, h: number, rotate: string) => (
+                            <div className="absolute rounded-full border border-cyan-400 bg-cyan-400/10" style={{ width: 2 * w, height: 2 * h, left: -w, top: -h, transform: rotate }} />
+                        );
+                        return (
+                            <>
+                                <div className="absolute transform-3d pointer-events-none" style={{ width: 0, height: 0, transformStyle: 'preserve-3d', transform: frame }}>
+                                    {ring(radii[0], radii[1], 'none')}
+                                    {ring(radii[0], radii[2], 'rotateX(90deg)')}
+                                    {ring(radii[2], radii[1], 'rotateY(90deg)')}
+                                </div>
+                                <div className="absolute transform-3d flex items-center justify-center pointer-events-none" style={{ width: 0, height: 0, transform: `translate3d(${position[0]}px, ${position[1]}px, ${position[2]}px)` }}>
+                                    <div style={{ transform: `rotateY(${-rotation.y}deg) rotateX(${-rotation.x}deg)` }}>
+                                        <Crosshair size={18} className="text-cyan-400 drop-shadow" />
+                                    </div>
+                                </div>
+                            </>
+                        );
+                    })()}
+
                     {sensors.map((sensor) => {
                     const position = sensorPosOverrides[sensor.id] || sensor.position3d;
                     const isBeingDragged = draggedSensorId === sensor.id;
@@ -740,7 +912,7 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
                                 <div 
                                     className={`
                                         relative w-4 h-4 rounded-full border-2 transition-all duration-300 flex items-center justify-center
-                                        ${getStatusColor(sensor.status, sensor.isOnline)}
+                                        ${getStatusColor(displayStatus(sensor), sensor.isOnline)}
                                         ${isSelectedForModal ? 'scale-150 ring-2 ring-white z-20' : ''}
                                         ${isLayoutMode ? 'hover:scale-125 hover:ring-2 hover:ring-white' : 'cursor-pointer hover:scale-150'}
                                         ${isBeingDragged ? 'scale-150 ring-4 ring-white shadow-2xl' : ''}
@@ -748,7 +920,7 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
                                     onClick={(e) => handleSensorClick(e, sensor)}
                                 >
                                     {/* Alert Ping Ring (Only if Online) */}
-                                    {sensor.isOnline !== false && sensor.status !== AlarmLevel.NORMAL && sensor.status !== AlarmLevel.NO_DATA && (
+                                    {sensor.isOnline !== false && !sensor.maintenance && sensor.status !== AlarmLevel.NORMAL && sensor.status !== AlarmLevel.NO_DATA && (
                                         <span className={`absolute inset-0 rounded-full animate-ping opacity-75 ${sensor.status === AlarmLevel.DANGER ? 'bg-orange-500' : 'bg-red-600'}`}></span>
                                     )}
                                     
@@ -858,8 +1030,8 @@ const DigitalTwin: React.FC<DigitalTwinProps> = ({
 
                          <div className="flex items-center justify-between border-t border-dashed border-gray-500/10 pt-3">
                             <div className="text-[10px] font-black uppercase opacity-40">当前状态</div>
-                            <div className={`px-2 py-0.5 rounded text-[10px] font-black border ${getStatusBadgeColor(selectedSensor.status, selectedSensor.isOnline)}`}>
-                                {getStatusLabel(selectedSensor.status, selectedSensor.isOnline)}
+                            <div className={`px-2 py-0.5 rounded text-[10px] font-black border ${getStatusBadgeColor(displayStatus(selectedSensor), selectedSensor.isOnline)}`}>
+                                {getStatusLabel(displayStatus(selectedSensor), selectedSensor.isOnline)}
                             </div>
                         </div>
                     </div>
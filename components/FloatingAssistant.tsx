@@ -2,6 +2,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { GripHorizontal, Maximize2, Minimize2, X, Sparkles } from 'lucide-react';
 import AIChat from './AIChat';
+import { STORAGE_KEYS, loadRecord, saveRecord, isWindowPosition } from '../services/persistence';
 
 interface FloatingAssistantProps {
   isDark: boolean;
@@ -21,14 +22,11 @@ const FloatingAssistant: React.FC<FloatingAssistantProps> = ({ isDark, isOpen, o
 
   // Load saved position on mount
   useEffect(() => {
-    const savedPos = localStorage.getItem('ai_window_position');
-    if (savedPos) {
-      try {
-        const parsed = JSON.parse(savedPos);
-        const safeX = Math.min(Math.max(20, parsed.x), window.innerWidth - 100);
-        const safeY = Math.min(Math.max(20, parsed.y), window.innerHeight - 100);
-        setPosition({ x: safeX, y: safeY });
-      } catch (e) { }
+    const saved = loadRecord(STORAGE_KEYS.aiWindowPosition, isWindowPosition, null);
+    if (saved) {
+      const safeX = Math.min(Math.max(20, saved.x), window.innerWidth - 100);
+      const safeY = Math.min(Math.max(20, saved.y), window.innerHeight - 100);
+      setPosition({ x: safeX, y: safeY });
     }
   }, []);
 
@@ -63,7 +61,7 @@ const FloatingAssistant: React.FC<FloatingAssistantProps> = ({ isDark, isOpen, o
 
   const handleMouseUp = () => {
     if (!isMaximized) {
-        localStorage.setItem('ai_window_position', JSON.stringify(position));
+        saveRecord(STORAGE_KEYS.aiWindowPosition, position);
     }
     setIsDragging(false);
     dragStartRef.current = null;
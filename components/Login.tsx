@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { User, UserRole } from '../types';
+import { STORAGE_KEYS, loadRecord, loadList, isUser } from '../services/persistence';
 import { Zap, Shield, User as UserIcon, Lock, ArrowRight, Activity, AlertCircle, Globe, Check } from 'lucide-react';
 
 interface LoginProps {
@@ -41,18 +42,18 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
     setTimeout(() => {
       try {
         // 1. Check Super Admin
-        const savedSa = localStorage.getItem('sys_super_admin');
-        const saPwd = localStorage.getItem('sys_sa_pwd') || '123456'; // Default password if not changed
+        const saPwd = localStorage.getItem(STORAGE_KEYS.superAdminPassword) || '123456'; // Default password if not changed
         
         // Parse SA or use default if localstorage is empty (first run)
-        const superAdmin = savedSa ? JSON.parse(savedSa) : {
+        const superAdmin = loadRecord<User>(STORAGE_KEYS.superAdmin, isUser, {
            id: 'super-admin-01',
            username: 'admin',
            displayName: '超级管理员',
            role: 'super_admin',
-           permissions: ['dashboard', 'diagnosis', 'config', 'export', 'settings'],
-           status: 'active'
-        };
+           permissions: ['dashboard', 'diagnosis', 'alarms', 'config', 'export', 'settings'],
+           status: 'active',
+           createdAt: '2023-01-01'
+        });
 
         if (username === superAdmin.username) {
            if (password === saPwd) {
@@ -64,8 +65,7 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
         }
 
         // 2. Check Regular Users
-        const savedUsers = localStorage.getItem('sys_users');
-        const users: User[] = savedUsers ? JSON.parse(savedUsers) : []; // We rely on SystemSettings to populate this
+        const users = loadList(STORAGE_KEYS.users, isUser, []); // We rely on SystemSettings to populate this
         
         const foundUser = users.find(u => u.username === username);
 
@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ChannelType, DeviceSummary, MaintenanceScope, MaintenanceWindow, Project, SensorData } from '../types';
+import { dataProvider } from '../services/dataProvider';
+import { ALARM_CHANNELS } from '../services/alarmRules';
+import { addWindow, isActiveWindow, windowError } from '../services/maintenance';
+import { Wrench, X, Plus, Trash2, AlertCircle, Clock, User as UserIcon, Square } from 'lucide-react';
+
+interface MaintenanceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  isDark: boolean;
+  projects: Project[];
+  devices: DeviceSummary[];
+  windows: MaintenanceWindow[];
+  onChange: (windows: MaintenanceWindow[]) => void;
+  initialDeviceId?: string; // Pre-selects a device when opened from one
+  owner: string; // Default owner for new windows
+}
+
+const SCOPE_OPTIONS: { id: MaintenanceScope; label: string }[] = [
+  { id: 'project', label: '整个项目' },
+  { id: 'device', label: '单台设备' },
+  { id: 'sensor', label: '单个测点' },
+];
+
+const SCOPE_LABELS: Record<MaintenanceScope, string> = { project: '项目', device: '设备', sensor: '测点' };
+
+// <input type="datetime-local"> works in local time without seconds
+const toLocalInput = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const formatTime = (iso: string) => toLocalInput(new Date(iso)).replace('T', ' ');
+
+// Empty when the input is blank or incomplete
+const toIso = (local: string) => {
+  const time = Date.parse(local);
+  return Number.isFinite(time) ? new Date(time).toISOString() : '';
+};
+
+interface Draft {
+  scope: MaintenanceScope;
+  projectId: string;
+  deviceId: string;
+  sensorId: string;
+  start: string;
+  end: string;
+  reason: string;
+  owner: string;
+}
+
+const MaintenanceModal: React.FC<MaintenanceModalProps> = ({ isOpen, onClose, isDark, projects, devices, windows, onChange, initialDeviceId, owner }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [sensors, setSensors] = useState<SensorData[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const device = devices.find(d => d.id === initialDeviceId);
+    const now = new Date();
+    setDraft({
+      scope: device ? 'device' : 'project',
+      projectId: device?.projectId || projects[0]?.id || '',
+      deviceId: device?.id || '',
+      sensorId: '',
+      start: toLocalInput(now),
+      end: toLocalInput(new Date(now.getTime() + 4 * 60 * 60 * 1000)),
+      reason: '',
+      owner
+    });
+    setError('');
+  }, [isOpen, initialDeviceId]);
+
+  // Sensor scope lists the chosen device's sensors
+  useEffect(() => {
+    if (!draft || draft.scope !== 'sensor' || !draft.deviceId) {
+      setSensors([]);
+      return;
+    }
+    let cancelled = false;
+    dataProvider.getDeviceSnapshot(draft.deviceId).then(snapshot => {
+      if (!cancelled) setSensors(snapshot.sensors);
+    });
+    return () => { cancelled = true; };
+  }, [draft?.scope, draft?.deviceId]);
+
+  const projectDevices = useMemo(() => devices.filter(d => d.projectId === draft?.projectId), [devices, draft?.projectId]);
+
+  if (!isOpen || !draft) return null;
+
+  const update = (changes: Partial<Draft>) => {
+    setDraft({ ...draft, ...changes });
+    setError('');
+  };
+
+  const handleAdd = () => {
+    const project = projects.find(p => p.id === draft.projectId);
+    const device = devices.find(d => d.id === draft.deviceId);
+    const sensor = sensors.find(s => s.id === draft.sensorId);
+    const target = draft.scope === 'project'
+      ? { targetId: project?.id || '', targetName: project?.name || '' }
+      : draft.scope === 'device'
+        ? { targetId: device?.id || '', targetName: device?.name || '' }
+        : { targetId: device && sensor ? `${device.id}/${sensor.id}` : '', targetName: `${device?.name || ''} · ${sensor?.name || ''}` };
+    const window: MaintenanceWindow = {
+      id: `mw-${Date.now()}`,
+      scope: draft.scope,
+      ...target,
+      projectId: draft.projectId,
+      ...(draft.scope !== 'project' ? { deviceId: draft.deviceId } : {}),
+      ...(draft.scope === 'sensor' && sensor && ALARM_CHANNELS.includes(sensor.type as ChannelType) ? { channel: sensor.type as ChannelType } : {}),
+      start: toIso(draft.start),
+      end: toIso(draft.end),
+      reason: draft.reason.trim(),
+      owner: draft.owner.trim(),
+      createdAt: new Date().toISOString()
+    };
+    const problem = windowError(window);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onChange(addWindow(windows, window));
+    update({ reason: '' });
+  };
+
+  const endNow = (id: string) => onChange(windows.map(w => w.id === id ? { ...w, end: new Date().toISOString() } : w));
+
+  const now = Date.now();
+  const windowState = (w: MaintenanceWindow) => isActiveWindow(w, now)
+    ? { label: '进行中', class: 'bg-indigo-500/10 text-indigo-500 border-indigo-500/30' }
+    : Date.parse(w.start) > now
+      ? { label: '未开始', class: 'bg-blue-500/10 text-blue-500 border-blue-500/30' }
+      : { label: '已结束', class: 'bg-slate-500/10 text-slate-500 border-slate-500/30' };
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border outline-none text-xs transition-all ${isDark ? 'bg-slate-900 border-slate-700 text-white focus:border-indigo-500' : 'bg-gray-50 border-gray-300 text-slate-800 focus:border-indigo-500'}`;
+  const labelClass = `block text-[10px] font-bold mb-1 uppercase tracking-wider ${isDark ? 'text-slate-400' : 'text-slate-500'}`;
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fadeIn" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className={`w-full max-w-3xl rounded-2xl shadow-2xl flex flex-col overflow-hidden animate-slideInUp border ${isDark ? 'bg-[#0f172a] border-slate-700' : 'bg-white border-gray-200'}`}>
+        <div className={`px-6 py-4 border-b flex justify-between items-center ${isDark ? 'border-slate-800 bg-slate-800' : 'bg-gray-50 border-gray-100'}`}>
+          <div>
+            <h3 className={`font-bold text-lg flex items-center gap-2 ${isDark ? 'text-white' : 'text-slate-800'}`}><Wrench size={18} className="text-indigo-500" /> 检修计划</h3>
+            <p className="text-xs opacity-50">检修期间告警照常记录，但标记为已抑制，不对外发送通知</p>
+          </div>
+          <button onClick={onClose} className={`p-2 rounded-full hover:bg-opacity-20 ${isDark ? 'hover:bg-white text-slate-400' : 'hover:bg-black text-slate-500'}`}><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto custom-scrollbar">
+          {/* New window */}
+          <div className={`p-4 rounded-xl border space-y-4 ${isDark ? 'border-slate-700 bg-slate-900/50' : 'border-gray-200 bg-gray-50/50'}`}>
+            {error && (<div className="p-2.5 rounded-lg bg-red-500/10 border border-red-500/20 text-red-500 text-xs font-bold flex items-center gap-2"><AlertCircle size={14} /> {error}</div>)}
+            <div className="flex gap-2">
+              {SCOPE_OPTIONS.map(opt => (
+                <button key={opt.id} onClick={() => update({ scope: opt.id })} className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${draft.scope === opt.id ? 'bg-indigo-600 border-indigo-600 text-white' : (isDark ? 'border-slate-700 text-slate-400 hover:bg-slate-800' : 'border-gray-200 text-slate-500 hover:bg-gray-100')}`}>{opt.label}</button>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div><label className={labelClass}>项目</label><select className={inputClass} value={draft.projectId} onChange={e => update({ projectId: e.target.value, deviceId: '', sensorId: '' })}>{projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}</select></div>
+              {draft.scope !== 'project' && (
+                <div><label className={labelClass}>设备</label><select className={inputClass} value={draft.deviceId} onChange={e => update({ deviceId: e.target.value, sensorId: '' })}><option value="">请选择设备</option>{projectDevices.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}</select></div>
+              )}
+              {draft.scope === 'sensor' && (
+                <div><label className={labelClass}>测点</label><select className={inputClass} value={draft.sensorId} onChange={e => update({ sensorId: e.target.value })}><option value="">请选择测点</option>{sensors.map(s => <option key={s.id} value={s.id}>{s.name} ({s.type})</option>)}</select></div>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div><label className={labelClass}>开始时间</label><input type="datetime-local" className={inputClass} value={draft.start} onChange={e => update({ start: e.target.value })} /></div>
+              <div><label className={labelClass}>结束时间</label><input type="datetime-local" className={inputClass} value={draft.end} onChange={e => update({ end: e.target.value })} /></div>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2"><label className={labelClass}>检修原因</label><input className={inputClass} value={draft.reason} onChange={e => update({ reason: e.target.value })} placeholder="例如：计划停电检修 / 带电局放测试" /></div>
+              <div><label className={labelClass}>负责人</label><input className={inputClass} value={draft.owner} onChange={e => update({ owner: e.target.value })} /></div>
+            </div>
+            <div className="flex justify-end"><button onClick={handleAdd} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-xs font-bold shadow-lg shadow-indigo-500/20 active:scale-95 transition-all"><Plus size={14} /> 添加检修窗口</button></div>
+          </div>
+
+          {/* Scheduled windows */}
+          <div className="space-y-2">
+            {windows.map(w => {
+              const state = windowState(w);
+              const active = isActiveWindow(w, now);
+              return (
+                <div key={w.id} className={`flex items-center gap-4 px-4 py-3 rounded-xl border text-xs ${isDark ? 'border-slate-700 bg-slate-800/40' : 'border-gray-200 bg-white'}`}>
+                  <span className={`px-2 py-0.5 rounded-md text-[10px] font-black border flex-shrink-0 ${state.class}`}>{state.label}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-bold truncate"><span className="opacity-50 font-normal mr-1">{SCOPE_LABELS[w.scope]}</span>{w.targetName}</div>
+                    <div className="opacity-60 truncate">{w.reason}</div>
+                  </div>
+                  <div className="flex flex-col items-end flex-shrink-0 opacity-70 font-mono text-[10px]">
+                    <span className="flex items-center gap-1"><Clock size={10} /> {formatTime(w.start)} ~ {formatTime(w.end)}</span>
+                    <span className="flex items-center gap-1"><UserIcon size={10} /> {w.owner}</span>
+                  </div>
+                  {active ? (
+                    <button onClick={() => endNow(w.id)} title="提前结束" className={`p-1.5 rounded-lg flex-shrink-0 ${isDark ? 'hover:bg-slate-700 text-indigo-400' : 'hover:bg-gray-100 text-indigo-600'}`}><Square size={14} /></button>
+                  ) : (
+                    <button onClick={() => onChange(windows.filter(x => x.id !== w.id))} title="删除" className={`p-1.5 rounded-lg flex-shrink-0 ${isDark ? 'hover:bg-slate-700 text-red-400' : 'hover:bg-gray-100 text-red-600'}`}><Trash2 size={14} /></button>
+                  )}
+                </div>
+              );
+            })}
+            {windows.length === 0 && (<div className="py-10 text-center opacity-30"><Wrench size={32} className="mx-auto mb-2" /><p className="text-xs font-bold">暂无检修计划</p></div>)}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaintenanceModal;
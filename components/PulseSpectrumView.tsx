@@ -0,0 +1,262 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ChannelType, PulseRecord, PulseWaveform, SpectrumWindow, TfMap } from '../types';
+import { dataProvider } from '../services/dataProvider';
+import { DEFAULT_SPECTRUM_WINDOW, SPECTRUM_WINDOWS, formatHz, formatNs, loadTfMap, pulseSpectrum, rangeTimes, spectrogram } from '../services/pulseSpectrum';
+import { LineChart, Line, ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
+import type { DefaultTooltipContentProps, TooltipPayloadEntry } from 'recharts';
+import { AudioWaveform, ScatterChart as ScatterIcon } from 'lucide-react';
+
+interface PulseSpectrumViewProps {
+  sensorId: string;
+  channel: ChannelType;
+  time: string; // The acquisition shown
+  records: PulseRecord[]; // Its pulses
+  seriesTimes: string[]; // Acquisitions of the trend range, for the range T-F map
+  noiseFloorDbmv: number; // Pulses below are left out
+  color: string;
+  isDark: boolean;
+}
+
+type ViewMode = 'waveform' | 'tf';
+type TfScope = 'point' | 'range';
+
+// Axis units per channel, so ticks stay readable from UHF nanoseconds to AE milliseconds
+const AXIS_UNITS: Record<ChannelType, { time: [string, number]; freq: [string, number] }> = {
+  UHF: { time: ['ns', 1], freq: ['MHz', 1e6] },
+  TEV: { time: ['ns', 1], freq: ['MHz', 1e6] },
+  HFCT: { time: ['µs', 1e3], freq: ['MHz', 1e6] },
+  AE: { time: ['µs', 1e3], freq: ['kHz', 1e3] }
+};
+
+const CLUSTER_COLORS = ['#38BDF8', '#F97316', '#22C55E', '#E879F9'];
+const LISTED_PULSES = 20;
+
+// Blue through yellow to red as a spectrogram cell nears the strongest
+const dbColor = (db: number) => `hsl(${Math.round(220 * Math.min(1, -db / 40))}, 90%, 50%)`;
+
+const round = (v: number) => Math.round(v * 1000) / 1000;
+
+type TooltipFormatter = NonNullable<DefaultTooltipContentProps['formatter']>;
+
+// One spectrogram cell as plotted, in the channel's axis units
+interface CellPoint {
+  t: number;
+  f: number;
+  db: number;
+}
+
+const waveTooltip: TooltipFormatter = value => [`${Number(value).toFixed(2)} mV`, '幅值'];
+const spectrumTooltip: TooltipFormatter = value => [`${Number(value).toFixed(1)} dB`, '幅度谱'];
+
+const PulseSpectrumView: React.FC<PulseSpectrumViewProps> = ({ sensorId, channel, time, records, seriesTimes, noiseFloorDbmv, color, isDark }) => {
+  const [mode, setMode] = useState<ViewMode>('waveform');
+  const [scope, setScope] = useState<TfScope>('point');
+  const [spectrumWindow, setSpectrumWindow] = useState<SpectrumWindow>(DEFAULT_SPECTRUM_WINDOW);
+  const [pulseIndex, setPulseIndex] = useState(0);
+  const [waveform, setWaveform] = useState<PulseWaveform | null>(null);
+  const [tfMap, setTfMap] = useState<TfMap | null>(null);
+
+  const units = AXIS_UNITS[channel];
+  const axisTick = { fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 };
+  const gridStroke = isDark ? '#334155' : '#e2e8f0';
+  const tooltipStyle = { backgroundColor: isDark ? '#0f172a' : '#fff', borderColor: isDark ? '#334155' : '#e2e8f0' };
+
+  // Largest pulses first; the waveform view starts on the largest
+  const pulses = useMemo(() => records
+    .filter(r => r.amplitude >= noiseFloorDbmv)
+    .sort((a, b) => b.amplitude - a.amplitude)
+    .slice(0, LISTED_PULSES), [records, noiseFloorDbmv]);
+  const pulse = pulses[Math.min(pulseIndex, pulses.length - 1)];
+
+  useEffect(() => { setPulseIndex(0); }, [records]);
+
+  useEffect(() => {
+    setWaveform(null);
+    if (!pulse) return;
+    let cancelled = false;
+    dataProvider.getPulseWaveforms(sensorId, channel, [pulse]).then(([w]) => { if (!cancelled) setWaveform(w); });
+    return () => { cancelled = true; };
+  }, [sensorId, channel, pulse]);
+
+  const rangeAcquisitions = useMemo(() => rangeTimes(seriesTimes), [seriesTimes]);
+
+  useEffect(() => {
+    if (mode !== 'tf') return;
+    setTfMap(null);
+    let cancelled = false;
+    loadTfMap(sensorId, channel, scope === 'point' ? [time] : rangeAcquisitions, noiseFloorDbmv).then(map => {
+      if (!cancelled) setTfMap(map);
+    });
+    return () => { cancelled = true; };
+  }, [mode, scope, sensorId, channel, time, rangeAcquisitions, noiseFloorDbmv]);
+
+  const spectrum = useMemo(() => waveform && pulseSpectrum(waveform, spectrumWindow), [waveform, spectrumWindow]);
+  const cells = useMemo(() => waveform ? spectrogram(waveform, spectrumWindow) : [], [waveform, spectrumWindow]);
+  const waveData = useMemo(() => waveform ? waveform.samples.map((value, i) => ({ t: round(i * waveform.sampleNs / units.time[1]), value })) : [], [waveform, units]);
+  const spectrumData = useMemo(() => spectrum ? spectrum.points.slice(1).map(p => ({ f: round(p.freqHz / units.freq[1]), db: p.db })) : [], [spectrum, units]);
+  const cellData = useMemo(() => cells.map((c): CellPoint => ({ t: round(c.timeNs / units.time[1]), f: round(c.freqHz / units.freq[1]), db: c.db })), [cells, units]);
+  const tfData = useMemo(() => (tfMap?.points ?? []).map(p => ({ ...p, t: round(p.timeNs / units.time[1]), f: round(p.freqHz / units.freq[1]) })), [tfMap, units]);
+
+  // Frequency rows also give the cell's level, read from the plotted point
+  const cellTooltip: TooltipFormatter = (value, name, item: TooltipPayloadEntry) => {
+    const cell: CellPoint = item.payload;
+    return name === '频率' ? [`${value} ${units.freq[0]} / ${cell.db.toFixed(1)} dB`, name] : [`${value} ${units.time[0]}`, name];
+  };
+
+  const toggle = <T extends string>(options: [T, string][], value: T, onChange: (v: T) => void) => (
+    <div className={`flex rounded-lg p-0.5 ${isDark ? 'bg-slate-800' : 'bg-gray-100'}`}>
+      {options.map(([id, label]) => (
+        <button key={id} onClick={() => onChange(id)} className={`px-3 py-1 rounded-md text-[10px] font-bold transition-all ${value === id ? (isDark ? 'bg-slate-600 text-white' : 'bg-white shadow-sm text-slate-800') : 'opacity-60 hover:opacity-100'}`}>
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+
+  const metric = (label: string, value: string) => (
+    <div className="flex justify-between"><span className="opacity-60">{label}</span><span className="font-mono">{value}</span></div>
+  );
+
+  const panelClass = `w-72 flex-shrink-0 rounded-xl border p-4 flex flex-col gap-4 overflow-y-auto custom-scrollbar text-xs ${isDark ? 'bg-slate-900/60 border-slate-800' : 'bg-gray-50 border-gray-200'}`;
+  const selectClass = `w-full px-2 py-1 rounded border outline-none font-mono ${isDark ? 'bg-slate-900 border-slate-700' : 'bg-white border-gray-200'}`;
+
+  const renderWaveform = () => (
+    <div className="w-full h-full flex gap-4">
+      <div className="flex-1 min-w-0 flex flex-col gap-2">
+        {!waveform ? (
+          <div className="flex-1 flex items-center justify-center text-xs opacity-50">{pulses.length === 0 ? '本次采集无高于噪声门限的脉冲' : '加载波形...'}</div>
+        ) : (
+          <>
+            <div className="flex-1 min-h-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={waveData} margin={{ top: 10, right: 20, bottom: 0, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={gridStroke} opacity={0.5} />
+                  <XAxis dataKey="t" type="number" unit={units.time[0]} domain={['dataMin', 'dataMax']} tick={axisTick} />
+                  <YAxis unit="mV" tick={axisTick} width={60} />
+                  <Tooltip contentStyle={tooltipStyle} formatter={waveTooltip} />
+                  <Line dataKey="value" stroke={color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="flex-1 min-h-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={spectrumData} margin={{ top: 10, right: 20, bottom: 0, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={gridStroke} opacity={0.5} />
+                  <XAxis dataKey="f" type="number" unit={units.freq[0]} domain={[0, 'dataMax']} tick={axisTick} />
+                  <YAxis unit="dB" domain={[-80, 0]} tick={axisTick} width={60} />
+                  <Tooltip contentStyle={tooltipStyle} formatter={spectrumTooltip} />
+                  {spectrum && <ReferenceLine x={round(spectrum.dominantHz / units.freq[1])} stroke="#ef4444" strokeDasharray="4 2" label={{ value: '主频', fill: '#ef4444', fontSize: 10, position: 'top' }} />}
+                  <Line dataKey="db" stroke="#f59e0b" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="flex-1 min-h-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart margin={{ top: 10, right: 20, bottom: 0, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={gridStroke} opacity={0.3} />
+                  <XAxis dataKey="t" type="number" name="时间" unit={units.time[0]} domain={[0, 'dataMax']} tick={axisTick} />
+                  <YAxis dataKey="f" type="number" name="频率" unit={units.freq[0]} domain={[0, 'dataMax']} tick={axisTick} width={60} />
+                  <ZAxis range={[30, 30]} />
+                  <Tooltip contentStyle={tooltipStyle} formatter={cellTooltip} />
+                  <Scatter data={cellData} shape="square" isAnimationActive={false}>
+                    {cellData.map((c, i) => <Cell key={i} fill={dbColor(c.db)} />)}
+                  </Scatter>
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </div>
+      <div className={panelClass}>
+        <div className="flex items-center gap-2 font-bold text-sm"><AudioWaveform size={16} className="text-blue-500" /> 脉冲频谱分析</div>
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] opacity-50">脉冲（按幅值排序）</span>
+          <select value={pulseIndex} onChange={e => setPulseIndex(Number(e.target.value))} className={selectClass} disabled={pulses.length === 0}>
+            {pulses.map((p, i) => <option key={p.timestamp} value={i}>#{i + 1} {p.amplitude.toFixed(1)} dBmV @ {Math.round(p.phase)}°</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] opacity-50">窗函数</span>
+          <select value={spectrumWindow} onChange={e => setSpectrumWindow(e.target.value as SpectrumWindow)} className={selectClass}>
+            {(Object.keys(SPECTRUM_WINDOWS) as SpectrumWindow[]).map(w => <option key={w} value={w}>{SPECTRUM_WINDOWS[w]}</option>)}
+          </select>
+        </label>
+        {spectrum && waveform && (
+          <div>
+            <div className="text-[10px] opacity-50 mb-1">频谱特征</div>
+            <div className="space-y-1">
+              {metric('主频', formatHz(spectrum.dominantHz))}
+              {metric('-3 dB 带宽', formatHz(spectrum.bandwidthHz))}
+              {metric('等效时长 T', formatNs(spectrum.equivalentTimeNs))}
+              {metric('等效频率 F', formatHz(spectrum.equivalentFreqHz))}
+              {metric('采样间隔', formatNs(waveform.sampleNs))}
+              {metric('频率分辨率', formatHz(spectrum.points[1]?.freqHz ?? 0))}
+            </div>
+          </div>
+        )}
+        <div className="opacity-60 leading-relaxed">局放脉冲上升快、持续短，主频与等效频率偏高；经线路传入的外部干扰波形展宽，在 T-F 图上与局放分处不同区域。</div>
+      </div>
+    </div>
+  );
+
+  const renderTf = () => (
+    <div className="w-full h-full flex gap-4">
+      <div className="flex-1 min-w-0 relative">
+        {!tfMap ? (
+          <div className="absolute inset-0 flex items-center justify-center text-xs opacity-50">计算 T-F 图...</div>
+        ) : tfData.length === 0 ? (
+          <div className="absolute inset-0 flex items-center justify-center text-xs opacity-50">没有高于噪声门限的脉冲</div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={gridStroke} opacity={0.5} />
+              <XAxis dataKey="t" type="number" name="等效时长 T" unit={units.time[0]} domain={['auto', 'auto']} tick={axisTick} />
+              <YAxis dataKey="f" type="number" name="等效频率 F" unit={units.freq[0]} domain={['auto', 'auto']} tick={axisTick} width={70} />
+              <ZAxis range={[25, 25]} />
+              <Tooltip cursor={{ strokeDasharray: '3 3' }} contentStyle={tooltipStyle} />
+              <Scatter data={tfData} isAnimationActive={false}>
+                {tfData.map((p, i) => <Cell key={i} fill={CLUSTER_COLORS[p.cluster % CLUSTER_COLORS.length]} fillOpacity={0.7} />)}
+              </Scatter>
+            </ScatterChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+      <div className={panelClass}>
+        <div className="flex items-center gap-2 font-bold text-sm"><ScatterIcon size={16} className="text-blue-500" /> T-F 聚类分离</div>
+        {toggle<TfScope>([['point', '本采样点'], ['range', `当前时间段 (${rangeAcquisitions.length})`]], scope, setScope)}
+        {tfMap && (
+          <div>
+            <div className="text-[10px] opacity-50 mb-1">{tfMap.points.length} 个脉冲，{tfMap.clusters.length} 个簇{tfMap.clusters.length > 1 ? '，疑似多个放电源或干扰' : ''}</div>
+            <div className="space-y-2">
+              {tfMap.clusters.map((c, i) => (
+                <div key={i} className={`p-2 rounded-lg border ${isDark ? 'border-slate-700' : 'border-gray-200'}`}>
+                  <div className="flex items-center gap-2 font-bold mb-1">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: CLUSTER_COLORS[i % CLUSTER_COLORS.length] }}></span>
+                    簇 {i + 1}<span className="ml-auto font-mono opacity-60">{c.count} 个</span>
+                  </div>
+                  {metric('T', formatNs(c.timeNs))}
+                  {metric('F', formatHz(c.freqHz))}
+                  {metric('平均幅值', `${c.amplitude.toFixed(1)} dBmV`)}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        <div className="opacity-60 leading-relaxed">每个脉冲按其波形的等效时长 T 与等效频率 F 落点，同一放电源的脉冲聚为一簇。时间段模式从当前趋势范围均匀抽取采集点。</div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="w-full h-full flex flex-col gap-3">
+      <div className="flex items-center gap-3 flex-shrink-0">
+        {toggle<ViewMode>([['waveform', '波形与频谱'], ['tf', 'T-F 图']], mode, setMode)}
+      </div>
+      <div className="flex-1 min-h-0">
+        {mode === 'waveform' ? renderWaveform() : renderTf()}
+      </div>
+    </div>
+  );
+};
+
+export default PulseSpectrumView;
@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { AlarmShelf, ChannelType, DeviceSummary, SensorData, UserRole } from '../types';
+import { SHELF_LIMIT_HOURS, addShelf, channelShelf, activeShelves, newShelfId, shelfDurations, shelfError, unshelve } from '../services/shelving';
+import { LibraryBig, X, AlertCircle, Clock, User as UserIcon } from 'lucide-react';
+
+interface ShelveModalProps {
+  isDark: boolean;
+  target: { device: DeviceSummary; sensor: SensorData } | null; // Closed when null
+  onClose: () => void;
+  shelves: AlarmShelf[];
+  onChange: (shelves: AlarmShelf[]) => void;
+  role: UserRole;
+  user: string;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+const ShelveModal: React.FC<ShelveModalProps> = ({ isDark, target, onClose, shelves, onChange, role, user }) => {
+  const durations = shelfDurations(role);
+  const [hours, setHours] = useState(durations[0] ?? 0);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setHours(durations[0] ?? 0);
+    setReason('');
+    setError(null);
+  }, [target?.device.id, target?.sensor.id]);
+
+  if (!target) return null;
+  const { device, sensor } = target;
+  const current = channelShelf(activeShelves(shelves), { deviceId: device.id, channel: sensor.type as ChannelType });
+
+  const handleShelve = () => {
+    const problem = shelfError(hours, reason, role);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    const now = new Date();
+    onChange(addShelf(shelves, {
+      id: newShelfId(now.getTime()),
+      projectId: device.projectId,
+      deviceId: device.id,
+      deviceName: device.name,
+      sensorId: sensor.id,
+      sensorName: `${sensor.location} ${sensor.name}`.trim(),
+      channel: sensor.type as ChannelType,
+      reason: reason.trim(),
+      shelvedBy: user,
+      shelvedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + hours * 3600000).toISOString()
+    }));
+    onClose();
+  };
+
+  const handleUnshelve = (id: string) => {
+    onChange(unshelve(shelves, id, user));
+    onClose();
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border outline-none text-xs transition-all ${isDark ? 'bg-slate-900 border-slate-700 text-white focus:border-amber-500' : 'bg-gray-50 border-gray-300 text-slate-800 focus:border-amber-500'}`;
+  const labelClass = `block text-[10px] font-bold mb-1 uppercase tracking-wider ${isDark ? 'text-slate-400' : 'text-slate-500'}`;
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fadeIn" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className={`w-full max-w-md rounded-2xl shadow-2xl flex flex-col overflow-hidden animate-slideInUp border ${isDark ? 'bg-[#0f172a] border-slate-700' : 'bg-white border-gray-200'}`}>
+        <div className={`px-6 py-4 border-b flex justify-between items-center ${isDark ? 'border-slate-800 bg-slate-800' : 'bg-gray-50 border-gray-100'}`}>
+          <div>
+            <h3 className={`font-bold text-lg flex items-center gap-2 ${isDark ? 'text-white' : 'text-slate-800'}`}><LibraryBig size={18} className="text-amber-500" /> 搁置告警</h3>
+            <p className="text-xs opacity-50">{device.name} · {sensor.location} {sensor.name} <span className="font-mono">({sensor.type})</span></p>
+          </div>
+          <button onClick={onClose} className={`p-2 rounded-full hover:bg-opacity-20 ${isDark ? 'hover:bg-white text-slate-400' : 'hover:bg-black text-slate-500'}`}><X size={20} /></button>
+        </div>
+
+        {current ? (
+          <div className="p-6 space-y-4 text-xs">
+            <div className={`p-3 rounded-lg border space-y-1 ${isDark ? 'bg-amber-500/5 border-amber-500/20' : 'bg-amber-50 border-amber-100'}`}>
+              <div className="font-bold text-amber-500">{sensor.type} 通道已搁置</div>
+              <div className="opacity-80">{current.reason}</div>
+              <div className="flex items-center gap-3 opacity-60 font-mono text-[10px]">
+                <span className="flex items-center gap-1"><UserIcon size={10} /> {current.shelvedBy}</span>
+                <span className="flex items-center gap-1"><Clock size={10} /> 至 {formatTime(current.expiresAt)}</span>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={onClose} className={`px-4 py-1.5 rounded-lg font-bold border transition-all ${isDark ? 'border-slate-700 text-slate-300 hover:bg-slate-800' : 'border-gray-200 text-slate-600 hover:bg-gray-100'}`}>关闭</button>
+              <button onClick={() => handleUnshelve(current.id)} className="px-4 py-1.5 rounded-lg font-bold bg-amber-500 text-white hover:bg-amber-600 transition-all">立即解除</button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-6 space-y-4">
+            {error && (<div className="p-2.5 rounded-lg bg-red-500/10 border border-red-500/20 text-red-500 text-xs font-bold flex items-center gap-2"><AlertCircle size={14} /> {error}</div>)}
+            <p className="text-xs opacity-60">该设备 {sensor.type} 通道的告警将照常记录，但不再提示或发送通知，到期后自动解除。</p>
+            <div>
+              <label className={labelClass}>搁置时长（当前角色最长 {SHELF_LIMIT_HOURS[role]} 小时）</label>
+              <div className="flex flex-wrap gap-2">
+                {durations.map(h => (
+                  <button key={h} onClick={() => setHours(h)} className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${hours === h ? 'bg-amber-500 border-amber-500 text-white' : (isDark ? 'border-slate-700 text-slate-400 hover:bg-slate-800' : 'border-gray-200 text-slate-500 hover:bg-gray-100')}`}>{h} 小时</button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>搁置原因（必填）</label>
+              <textarea rows={3} className={`${inputClass} resize-none`} value={reason} onChange={e => setReason(e.target.value)} placeholder="例如：T 终端测点通讯不稳定，已报修" />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={onClose} className={`px-4 py-1.5 rounded-lg text-xs font-bold border transition-all ${isDark ? 'border-slate-700 text-slate-300 hover:bg-slate-800' : 'border-gray-200 text-slate-600 hover:bg-gray-100'}`}>取消</button>
+              <button onClick={handleShelve} className="flex items-center gap-2 px-4 py-1.5 rounded-lg text-xs font-bold bg-amber-500 text-white hover:bg-amber-600 transition-all"><LibraryBig size={14} /> 搁置</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShelveModal;
@@ -1,7 +1,8 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { LayoutDashboard, Activity, AlertTriangle, Database, Settings, LogOut, Sun, Moon, ChevronLeft, ChevronRight, Menu, LayoutGrid, PlugZap, FileOutput, Globe, Check, Sparkles, StickyNote, Download, Upload } from 'lucide-react';
-import { Theme, ViewMode, User } from '../types';
+import { LayoutDashboard, Activity, AlertTriangle, Database, Settings, LogOut, Sun, Moon, ChevronLeft, ChevronRight, Menu, LayoutGrid, PlugZap, FileOutput, Globe, Check, Sparkles, StickyNote, Download, Upload, BellRing, Siren, BellOff, CheckCheck, Volume2, VolumeX, BellPlus } from 'lucide-react';
+import { Theme, ViewMode, User, AlarmLevel, AnnunciatorStatus } from '../types';
+import { LEVEL_LABELS } from '../services/annunciator';
 
 interface SidebarProps {
   theme: Theme;
@@ -13,12 +14,19 @@ interface SidebarProps {
   currentUser: User | null;
   onLogout: () => void;
   onOpenAiChat: () => void;
+  unacknowledgedAlarms: number;
+  annunciator: AnnunciatorStatus;
+  onSilence: () => void;
+  onToggleMute: () => void;
+  onEnablePopups: () => void;
+  onAcknowledgeAnnunciated?: () => void; // Omitted when the user has no access to the alarm log
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ 
   theme, toggleTheme, collapsed, toggleCollapse, 
   currentView, onNavigate, currentUser, onLogout,
-  onOpenAiChat
+  onOpenAiChat, unacknowledgedAlarms,
+  annunciator, onSilence, onToggleMute, onEnablePopups, onAcknowledgeAnnunciated
 }) => {
   const isDark = theme === 'dark';
   
@@ -40,6 +48,7 @@ const Sidebar: React.FC<SidebarProps> = ({
   const menuItems = [
     { key: 'dashboard', icon: LayoutGrid, label: '仪表盘' },
     { key: 'diagnosis', icon: Activity, label: '设备诊断' },
+    { key: 'alarms', icon: BellRing, label: '告警记录' },
     { key: 'config', icon: PlugZap, label: '接入配置' },
     { key: 'export', icon: FileOutput, label: '数据导出' },
     { key: 'settings', icon: Settings, label: '系统设置' },
@@ -50,6 +59,12 @@ const Sidebar: React.FC<SidebarProps> = ({
     currentUser?.permissions.includes(item.key)
   );
 
+  const annunciatorClass = annunciator.level === AlarmLevel.CRITICAL
+    ? 'bg-red-500/15 border-red-500/50 text-red-500'
+    : annunciator.level === AlarmLevel.DANGER
+      ? 'bg-orange-500/15 border-orange-500/50 text-orange-500'
+      : 'bg-yellow-500/15 border-yellow-500/50 text-yellow-500';
+
   const getRoleLabel = (role: string) => {
       if (role === 'super_admin') return '超级管理员';
       if (role === 'admin') return '系统管理员';
@@ -75,6 +90,7 @@ const Sidebar: React.FC<SidebarProps> = ({
           <nav className="px-3 space-y-2 mt-2 flex-shrink-0">
             {allowedMenuItems.map((item, idx) => {
               const isActive = currentView === item.key;
+              const badge = item.key === 'alarms' && unacknowledgedAlarms > 0 ? (unacknowledgedAlarms > 99 ? '99+' : String(unacknowledgedAlarms)) : null;
               return (
               <button
                 key={idx}
@@ -91,6 +107,9 @@ const Sidebar: React.FC<SidebarProps> = ({
               >
                 <item.icon size={22} className="flex-shrink-0" />
                 {!collapsed && <span className="font-medium whitespace-nowrap overflow-hidden">{item.label}</span>}
+                {badge && (
+                  <span className={`min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center ${collapsed ? 'absolute top-1 right-1' : 'ml-auto'}`} title={`${unacknowledgedAlarms} 条未确认告警`}>{badge}</span>
+                )}
                 {collapsed && (
                   <div className={`absolute left-full ml-2 px-2 py-1 rounded bg-slate-800 text-white text-xs opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity whitespace-nowrap z-50`}>
                     {item.label}
@@ -101,6 +120,60 @@ const Sidebar: React.FC<SidebarProps> = ({
           </nav>
       </div>
 
+      {/* Alarm Annunciator */}
+      <div className="px-3 pt-2 flex-shrink-0 space-y-2">
+        {annunciator.level && (
+          <div className={`rounded-xl border p-2 ${annunciatorClass}`}>
+            {collapsed ? (
+              <div className="flex flex-col items-center gap-0.5 mb-1" title={`${LEVEL_LABELS[annunciator.level]}告警 · ${annunciator.count} 条待处理`}>
+                <Siren size={20} className="animate-pulse" />
+                <span className="text-[10px] font-bold">{annunciator.count}</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 mb-2">
+                <Siren size={18} className="animate-pulse flex-shrink-0" />
+                <div className="min-w-0">
+                  <div className="text-sm font-bold">{LEVEL_LABELS[annunciator.level]}告警</div>
+                  <div className="text-[10px] opacity-80">{annunciator.count} 条待处理</div>
+                </div>
+              </div>
+            )}
+            <div className={`flex gap-1 ${collapsed ? 'flex-col' : ''}`}>
+              <button onClick={onSilence} title="消音：当前告警不再提示，升级后重新提示" className="flex-1 flex items-center justify-center gap-1 py-1 rounded-lg text-xs font-bold hover:bg-black/10 border border-current">
+                <BellOff size={12} />{!collapsed && '消音'}
+              </button>
+              {onAcknowledgeAnnunciated && (
+                <button onClick={onAcknowledgeAnnunciated} title="确认全部待处理告警" className="flex-1 flex items-center justify-center gap-1 py-1 rounded-lg text-xs font-bold hover:bg-black/10 border border-current">
+                  <CheckCheck size={12} />{!collapsed && '确认'}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+        <div className={`flex gap-1 ${collapsed ? 'flex-col items-center' : ''}`}>
+          {annunciator.sound && (
+            <button
+              onClick={onToggleMute}
+              title={annunciator.muted ? '恢复告警声音' : '本次会话内关闭告警声音'}
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs transition-colors ${collapsed ? 'justify-center' : 'flex-1'} ${annunciator.muted ? 'text-red-500' : ''} ${isDark ? 'hover:bg-slate-800 text-slate-400' : 'hover:bg-gray-100 text-slate-600'}`}
+            >
+              {annunciator.muted ? <VolumeX size={16} /> : <Volume2 size={16} />}
+              {!collapsed && <span className="whitespace-nowrap">{annunciator.muted ? '告警声音已静音' : '告警声音开启'}</span>}
+            </button>
+          )}
+          {annunciator.popups === 'default' && (
+            <button
+              onClick={onEnablePopups}
+              title="告警时弹出桌面通知"
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs transition-colors ${collapsed ? 'justify-center' : ''} ${isDark ? 'hover:bg-slate-800 text-slate-400' : 'hover:bg-gray-100 text-slate-600'}`}
+            >
+              <BellPlus size={16} />
+              {!collapsed && <span className="whitespace-nowrap">桌面通知</span>}
+            </button>
+          )}
+        </div>
+      </div>
+
       {/* AI Diagnosis Button (Fixed above footer) */}
       <div className="px-3 pb-2 pt-2 flex-shrink-0 z-30 relative">
         <button
@@ -1,16 +1,20 @@
 
 import React, { useMemo } from 'react';
 import { DeviceSummary, AlarmLevel } from '../types';
-import { Activity, AlertTriangle, CheckCircle2, AlertOctagon, HelpCircle, PieChart, PanelRightClose, PanelRightOpen } from 'lucide-react';
+import { MAINTENANCE, displayStatus } from '../services/maintenance';
+import { compareHealth, healthGrade } from '../services/healthIndex';
+import { Activity, AlertTriangle, CheckCircle2, AlertOctagon, HelpCircle, PieChart, PanelRightClose, PanelRightOpen, BellRing, ChevronRight, Wrench, HeartPulse } from 'lucide-react';
 
 interface StatusOverviewProps {
   isDark: boolean;
   devices: DeviceSummary[];
   collapsed: boolean;
   toggleCollapse: () => void;
+  unacknowledgedAlarms: number;
+  onOpenAlarms?: () => void; // Omitted when the user has no access to the alarm log
 }
 
-const StatusOverview: React.FC<StatusOverviewProps> = ({ isDark, devices, collapsed, toggleCollapse }) => {
+const StatusOverview: React.FC<StatusOverviewProps> = ({ isDark, devices, collapsed, toggleCollapse, unacknowledgedAlarms, onOpenAlarms }) => {
   const stats = useMemo(() => {
     const counts = {
       [AlarmLevel.NORMAL]: 0,
@@ -18,12 +22,15 @@ const StatusOverview: React.FC<StatusOverviewProps> = ({ isDark, devices, collap
       [AlarmLevel.DANGER]: 0,
       [AlarmLevel.CRITICAL]: 0,
       [AlarmLevel.NO_DATA]: 0,
+      [MAINTENANCE]: 0,
       unknown: 0
     };
 
+    // Devices under maintenance are counted on their own, not by their readings
     devices.forEach(d => {
-      if (counts[d.status] !== undefined) {
-        counts[d.status]++;
+      const status = displayStatus(d);
+      if (counts[status] !== undefined) {
+        counts[status]++;
       } else {
         counts.unknown++;
       }
@@ -42,6 +49,19 @@ const StatusOverview: React.FC<StatusOverviewProps> = ({ isDark, devices, collap
 
   const total = devices.length;
 
+  // Fleet health over the devices that have a score
+  const health = useMemo(() => {
+    const scores = devices.flatMap(d => d.health ? [d.health.score] : []);
+    if (scores.length === 0) return null;
+    const mean = Math.round(scores.reduce((a, b) => a + b, 0) / scores.length);
+    return { mean, scored: scores.length, grade: healthGrade(mean) };
+  }, [devices]);
+
+  // Worst first, so the preview shows the least healthy alarming devices
+  const focusDevices = useMemo(() => devices
+    .filter(d => !d.maintenance && (d.status === AlarmLevel.CRITICAL || d.status === AlarmLevel.DANGER))
+    .sort(compareHealth), [devices]);
+
   // Chart configuration
   const radius = 35;
   const circumference = 2 * Math.PI * radius;
@@ -51,6 +71,7 @@ const StatusOverview: React.FC<StatusOverviewProps> = ({ isDark, devices, collap
     { key: AlarmLevel.WARNING, count: stats[AlarmLevel.WARNING], color: '#facc15', label: '一级' },
     { key: AlarmLevel.DANGER, count: stats[AlarmLevel.DANGER], color: '#f97316', label: '二级' },
     { key: AlarmLevel.CRITICAL, count: stats[AlarmLevel.CRITICAL], color: '#ef4444', label: '三级' },
+    { key: MAINTENANCE, count: stats[MAINTENANCE], color: '#6366f1', label: '检修中' },
     { key: AlarmLevel.NO_DATA, count: stats[AlarmLevel.NO_DATA], color: '#94a3b8', label: '无数据' },
   ];
 
@@ -72,6 +93,7 @@ const StatusOverview: React.FC<StatusOverviewProps> = ({ isDark, devices, collap
           case AlarmLevel.WARNING: return <Activity size={16} className="text-yellow-500" />;
           case AlarmLevel.DANGER: return <AlertTriangle size={16} className="text-orange-500" />;
           case AlarmLevel.CRITICAL: return <AlertOctagon size={16} className="text-red-500" />;
+          case MAINTENANCE: return <Wrench size={16} className="text-indigo-500" />;
           case AlarmLevel.NO_DATA: return <HelpCircle size={16} className="text-slate-400" />;
           default: return <HelpCircle size={16} className="text-slate-400" />;
       }
@@ -118,6 +140,18 @@ const StatusOverview: React.FC<StatusOverviewProps> = ({ isDark, devices, collap
                     设备状态
                 </div>
                 
+                {unacknowledgedAlarms > 0 && (
+                    <button
+                        onClick={onOpenAlarms}
+                        disabled={!onOpenAlarms}
+                        className="relative p-1.5 rounded-md text-red-500 hover:bg-red-500/10 transition-colors disabled:cursor-default"
+                        title={`${unacknowledgedAlarms} 条未确认告警`}
+                    >
+                        <BellRing size={16} />
+                        <span className="absolute -top-1 -right-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-red-500 text-white text-[8px] font-bold flex items-center justify-center">{unacknowledgedAlarms > 99 ? '99+' : unacknowledgedAlarms}</span>
+                    </button>
+                )}
+
                 {/* Worst Status Indicator */}
                 <div 
                     className={`w-3 h-3 rounded-full mt-auto mb-6 ${getCollapsedIndicatorClass(worstStatus)}`}
@@ -155,6 +189,43 @@ const StatusOverview: React.FC<StatusOverviewProps> = ({ isDark, devices, collap
                     </div>
                 </div>
 
+                {/* Unacknowledged Alarms */}
+                <button
+                    onClick={onOpenAlarms}
+                    disabled={!onOpenAlarms}
+                    className={`w-full flex items-center justify-between p-3 rounded-xl border transition-all text-left disabled:cursor-default ${unacknowledgedAlarms > 0
+                        ? (isDark ? 'bg-red-500/10 border-red-500/30 hover:bg-red-500/20' : 'bg-red-50 border-red-200 hover:bg-red-100')
+                        : (isDark ? 'bg-slate-800/50 border-slate-700' : 'bg-gray-50 border-gray-100')}`}
+                >
+                    <div className="flex items-center gap-3">
+                        <div className={`p-2 rounded-lg ${unacknowledgedAlarms > 0 ? 'bg-red-500/20 text-red-500' : 'bg-slate-500/10 text-slate-400'}`}>
+                            <BellRing size={16} />
+                        </div>
+                        <div className="flex flex-col">
+                            <span className={`text-xs font-bold ${isDark ? 'text-slate-200' : 'text-slate-700'}`}>未确认告警</span>
+                            <span className="text-[10px] opacity-50">{unacknowledgedAlarms > 0 ? '点击查看告警记录' : '暂无待确认事件'}</span>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        <span className={`font-mono font-bold text-lg ${unacknowledgedAlarms > 0 ? 'text-red-500' : 'opacity-40'}`}>{unacknowledgedAlarms}</span>
+                        {onOpenAlarms && unacknowledgedAlarms > 0 && <ChevronRight size={14} className="opacity-50" />}
+                    </div>
+                </button>
+
+                {/* Fleet Health */}
+                <div className={`flex items-center justify-between p-3 rounded-xl border ${isDark ? 'bg-slate-800/50 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 rounded-lg bg-blue-500/10 text-blue-500">
+                            <HeartPulse size={16} />
+                        </div>
+                        <div className="flex flex-col">
+                            <span className={`text-xs font-bold ${isDark ? 'text-slate-200' : 'text-slate-700'}`}>平均健康指数</span>
+                            <span className="text-[10px] opacity-50">{health ? `${health.grade.label} · ${health.scored} 台有效` : '暂无可评分设备'}</span>
+                        </div>
+                    </div>
+                    <span className="font-mono font-bold text-lg" style={{ color: health?.grade.color }}>{health ? health.mean : '--'}</span>
+                </div>
+
                 {/* Legend / List */}
                 <div className="space-y-3">
                     {chartData.map((item) => (
@@ -180,21 +251,21 @@ const StatusOverview: React.FC<StatusOverviewProps> = ({ isDark, devices, collap
                             <AlertTriangle size={12} /> 重点关注设备
                         </h4>
                         <div className="space-y-2">
-                            {devices
-                                .filter(d => d.status === AlarmLevel.CRITICAL || d.status === AlarmLevel.DANGER)
+                            {focusDevices
                                 .slice(0, 3)
                                 .map(d => (
                                     <div key={d.id} className={`p-2 rounded-lg border text-xs flex justify-between items-center ${isDark ? 'bg-red-500/5 border-red-500/20 text-slate-300' : 'bg-red-50 border-red-100 text-slate-700'}`}>
-                                        <span className="truncate max-w-[140px]">{d.name}</span>
+                                        <span className="truncate max-w-[110px]">{d.name}</span>
+                                        <span className="ml-auto mr-2 font-mono font-bold text-[10px]" style={{ color: d.health ? healthGrade(d.health.score).color : undefined }}>{d.health?.score ?? '--'}</span>
                                         <span className={`px-1.5 py-0.5 rounded text-[9px] font-black ${d.status === AlarmLevel.CRITICAL ? 'bg-red-500 text-white' : 'bg-orange-500 text-white'}`}>
                                             {d.status === AlarmLevel.CRITICAL ? '三级' : '二级'}
                                         </span>
                                     </div>
                                 ))
                             }
-                            {(stats[AlarmLevel.CRITICAL] + stats[AlarmLevel.DANGER]) > 3 && (
+                            {focusDevices.length > 3 && (
                                 <div className="text-center text-[10px] opacity-50 pt-1">
-                                    ... 还有 {(stats[AlarmLevel.CRITICAL] + stats[AlarmLevel.DANGER]) - 3} 台异常设备
+                                    ... 还有 {focusDevices.length - 3} 台异常设备
                                 </div>
                             )}
                         </div>
@@ -3,12 +3,19 @@ import React, { useState, useEffect } from 'react';
 import { 
   Users, Shield, Key, Lock, Edit, Trash2, Check, X, 
   Search, Plus, MoreHorizontal, UserCog, Mail, Phone,
-  CheckCircle2, AlertCircle, LayoutGrid, Activity, PlugZap, FileOutput, Settings
+  CheckCircle2, AlertCircle, LayoutGrid, Activity, PlugZap, FileOutput, Settings, BellRing,
+  Send, Moon, Webhook, MessageSquare
 } from 'lucide-react';
-import { User, UserRole } from '../types';
+import { AlarmLevel, NotificationChannel, NotificationRecord, NotificationRoute, NotificationSettings, NotificationStatus, OnCallGroup, Project, User, UserRole } from '../types';
+import { STORAGE_KEYS, loadRecord, loadList, saveRecord, isUser } from '../services/persistence';
+import { NOTIFICATION_CHANNELS, NOTIFY_URL } from '../services/notifications';
 
 interface SystemSettingsProps {
   isDark: boolean;
+  projects: Project[];
+  notificationSettings: NotificationSettings;
+  onNotificationSettingsChange: (settings: NotificationSettings) => void;
+  notificationLog: NotificationRecord[];
 }
 
 const DEFAULT_SUPER_ADMIN: User = {
@@ -16,7 +23,7 @@ const DEFAULT_SUPER_ADMIN: User = {
   username: 'admin',
   displayName: '超级管理员',
   role: 'super_admin',
-  permissions: ['dashboard', 'diagnosis', 'config', 'export', 'settings'],
+  permissions: ['dashboard', 'diagnosis', 'alarms', 'config', 'export', 'settings'],
   status: 'active',
   lastLogin: new Date().toLocaleString(),
   createdAt: '2023-01-01',
@@ -30,7 +37,7 @@ const INITIAL_USERS: User[] = [
     username: 'operator_a',
     displayName: '运维专责-张工',
     role: 'operator',
-    permissions: ['dashboard', 'diagnosis', 'config'],
+    permissions: ['dashboard', 'diagnosis', 'alarms', 'config'],
     status: 'active',
     lastLogin: '2023-10-25 09:30',
     createdAt: '2023-05-12',
@@ -41,7 +48,7 @@ const INITIAL_USERS: User[] = [
     username: 'viewer_b',
     displayName: '监控值班员',
     role: 'viewer',
-    permissions: ['dashboard', 'diagnosis'],
+    permissions: ['dashboard', 'diagnosis', 'alarms'],
     status: 'active',
     lastLogin: '2023-10-24 14:15',
     createdAt: '2023-06-20'
@@ -51,16 +58,17 @@ const INITIAL_USERS: User[] = [
 const AVAILABLE_PERMISSIONS = [
   { key: 'dashboard', label: '仪表盘访问', icon: LayoutGrid },
   { key: 'diagnosis', label: '设备诊断与孪生', icon: Activity },
+  { key: 'alarms', label: '告警事件记录', icon: BellRing },
   { key: 'config', label: '接入配置管理', icon: PlugZap },
   { key: 'export', label: '数据报表导出', icon: FileOutput },
   { key: 'settings', label: '系统设置', icon: Settings },
 ];
 
 const ROLE_PERMISSIONS: Record<string, string[]> = {
-  super_admin: ['dashboard', 'diagnosis', 'config', 'export', 'settings'],
-  admin: ['dashboard', 'diagnosis', 'config', 'settings'],
-  operator: ['dashboard', 'diagnosis', 'config'],
-  viewer: ['dashboard', 'diagnosis']
+  super_admin: ['dashboard', 'diagnosis', 'alarms', 'config', 'export', 'settings'],
+  admin: ['dashboard', 'diagnosis', 'alarms', 'config', 'settings'],
+  operator: ['dashboard', 'diagnosis', 'alarms', 'config'],
+  viewer: ['dashboard', 'diagnosis', 'alarms']
 };
 
 // --- Super Admin Specific Modal ---
@@ -175,19 +183,150 @@ const UserModal: React.FC<{
   );
 };
 
-const SystemSettings: React.FC<SystemSettingsProps> = ({ isDark }) => {
-  const [users, setUsers] = useState<User[]>(() => {
-    const saved = localStorage.getItem('sys_users');
-    return saved ? JSON.parse(saved) : INITIAL_USERS;
-  });
+// --- Alarm Notification Panel ---
+const NOTIFY_LEVELS = [
+  { level: AlarmLevel.WARNING, label: '一级', color: '#facc15' },
+  { level: AlarmLevel.DANGER, label: '二级', color: '#f97316' },
+  { level: AlarmLevel.CRITICAL, label: '三级', color: '#ef4444' },
+];
+
+const CHANNEL_INFO: Record<NotificationChannel, { label: string; icon: React.ElementType }> = {
+  webhook: { label: 'Webhook', icon: Webhook },
+  email: { label: '邮件', icon: Mail },
+  sms: { label: '短信', icon: MessageSquare },
+};
+
+const STATUS_INFO: Record<NotificationStatus, { label: string; class: string }> = {
+  pending: { label: '发送中', class: 'bg-blue-500/10 text-blue-500 border-blue-500/20' },
+  sent: { label: '已送达', class: 'bg-green-500/10 text-green-500 border-green-500/20' },
+  failed: { label: '失败', class: 'bg-red-500/10 text-red-500 border-red-500/20' },
+  suppressed: { label: '已抑制', class: 'bg-slate-500/10 text-slate-500 border-slate-500/20' },
+};
+
+const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+const NotificationPanel: React.FC<{
+  isDark: boolean;
+  projects: Project[];
+  members: User[];
+  settings: NotificationSettings;
+  onChange: (settings: NotificationSettings) => void;
+  log: NotificationRecord[];
+}> = ({ isDark, projects, members, settings, onChange, log }) => {
+  const inputClass = `px-3 py-1.5 rounded-lg border outline-none text-xs transition-all ${isDark ? 'bg-slate-900 border-slate-700 text-white focus:border-blue-500' : 'bg-gray-50 border-gray-300 text-slate-800 focus:border-blue-600'}`;
+  const cardClass = `rounded-2xl border overflow-hidden ${isDark ? 'bg-slate-900/40 border-slate-700' : 'bg-white border-gray-200 shadow-sm'}`;
+  const headerClass = `px-4 py-3 border-b flex justify-between items-center ${isDark ? 'border-slate-700 bg-slate-800/50' : 'border-gray-100 bg-gray-50/50'}`;
+  const chipClass = (active: boolean) => `px-2 py-1 rounded-md text-[10px] font-bold border transition-all ${active ? (isDark ? 'bg-blue-600/20 border-blue-500 text-blue-300' : 'bg-blue-50 border-blue-500 text-blue-700') : (isDark ? 'border-slate-700 text-slate-500 hover:bg-slate-800' : 'border-gray-200 text-slate-400 hover:bg-gray-50')}`;
+
+  const updateGroup = (id: string, changes: Partial<OnCallGroup>) =>
+    onChange({ ...settings, groups: settings.groups.map(g => g.id === id ? { ...g, ...changes } : g) });
+  const updateRoute = (id: string, changes: Partial<NotificationRoute>) =>
+    onChange({ ...settings, routes: settings.routes.map(r => r.id === id ? { ...r, ...changes } : r) });
+
+  const addGroup = () => onChange({ ...settings, groups: [...settings.groups, { id: `group-${Date.now()}`, name: '新值班组', userIds: [] }] });
+  const removeGroup = (id: string) => {
+    if (settings.routes.some(r => r.groupId === id) && !window.confirm('该值班组仍被通知路由引用，删除后这些路由将不再发送，确定删除吗？')) return;
+    onChange({ ...settings, groups: settings.groups.filter(g => g.id !== id) });
+  };
+  const addRoute = () => onChange({ ...settings, routes: [...settings.routes, {
+    id: `route-${Date.now()}`, projectId: '*', levels: [AlarmLevel.DANGER, AlarmLevel.CRITICAL], groupId: settings.groups[0]?.id || '', channels: ['email'], enabled: true
+  }] });
+
+  const contactHint = (u: User) => [u.email ? '邮件' : '', u.phone ? '短信' : ''].filter(Boolean).join('/') || '无联系方式';
+
+  return (
+    <div className="mt-10 space-y-6">
+      <div className="flex justify-between items-end">
+        <div><h2 className={`text-xl font-black mb-1 flex items-center gap-3 ${isDark ? 'text-white' : 'text-slate-900'}`}><Send className="text-blue-500" size={20} /> 告警通知</h2><p className="text-sm opacity-60 font-medium">告警升级到指定等级时，按路由通知值班组。邮件和短信发送到上方用户档案中的邮箱与手机号</p></div>
+        <div className={`text-[10px] font-bold px-3 py-1.5 rounded-lg border ${NOTIFY_URL ? 'bg-green-500/10 text-green-500 border-green-500/20' : 'bg-orange-500/10 text-orange-500 border-orange-500/20'}`}>{NOTIFY_URL ? `通知网关: ${NOTIFY_URL}` : '未配置通知网关 (PD_NOTIFY_URL)'}</div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {/* On-call groups */}
+        <div className={cardClass}>
+          <div className={headerClass}><span className="text-sm font-bold flex items-center gap-2"><Users size={16} /> 值班组</span><button onClick={addGroup} className="flex items-center gap-1 text-xs font-bold text-blue-500 hover:underline"><Plus size={14} /> 新增</button></div>
+          <div className="p-4 space-y-4 max-h-[420px] overflow-auto custom-scrollbar">
+            {settings.groups.map(g => (
+              <div key={g.id} className={`p-3 rounded-xl border space-y-3 ${isDark ? 'border-slate-700 bg-black/20' : 'border-gray-200 bg-gray-50'}`}>
+                <div className="flex items-center gap-2"><input className={`${inputClass} flex-1 font-bold`} value={g.name} onChange={e => updateGroup(g.id, { name: e.target.value })} /><button onClick={() => removeGroup(g.id)} className={`p-1.5 rounded-lg ${isDark ? 'hover:bg-slate-700 text-red-400' : 'hover:bg-gray-200 text-red-600'}`}><Trash2 size={14} /></button></div>
+                <div className="flex flex-wrap gap-1.5">{members.map(u => (<button key={u.id} onClick={() => updateGroup(g.id, { userIds: toggle(g.userIds, u.id) })} className={chipClass(g.userIds.includes(u.id))} title={contactHint(u)}>{u.displayName}<span className="ml-1 opacity-50 font-normal">{contactHint(u)}</span></button>))}</div>
+                <div className="flex items-center gap-2"><Webhook size={14} className="opacity-40" /><input className={`${inputClass} flex-1 font-mono`} value={g.webhookUrl || ''} onChange={e => updateGroup(g.id, { webhookUrl: e.target.value.trim() || undefined })} placeholder="Webhook 地址, 如 http://localhost:8789/webhook" /></div>
+              </div>
+            ))}
+            {settings.groups.length === 0 && (<div className="py-8 text-center text-xs opacity-40">暂无值班组</div>)}
+          </div>
+        </div>
+
+        {/* Quiet hours and dedup */}
+        <div className={cardClass}>
+          <div className={headerClass}><span className="text-sm font-bold flex items-center gap-2"><Moon size={16} /> 静默时段与去重</span></div>
+          <div className="p-4 space-y-5 text-xs">
+            <label className="flex items-center gap-2 font-bold cursor-pointer"><input type="checkbox" checked={settings.quietHours.enabled} onChange={e => onChange({ ...settings, quietHours: { ...settings.quietHours, enabled: e.target.checked } })} /> 启用静默时段</label>
+            <div className={`flex items-center gap-2 ${settings.quietHours.enabled ? '' : 'opacity-40 pointer-events-none'}`}><input type="time" className={inputClass} value={settings.quietHours.start} onChange={e => onChange({ ...settings, quietHours: { ...settings.quietHours, start: e.target.value } })} /><span className="opacity-50">至</span><input type="time" className={inputClass} value={settings.quietHours.end} onChange={e => onChange({ ...settings, quietHours: { ...settings.quietHours, end: e.target.value } })} /><span className="opacity-50">(可跨午夜)</span></div>
+            <div className={settings.quietHours.enabled ? '' : 'opacity-40 pointer-events-none'}><div className="mb-2 opacity-60">静默期间仍发送的等级</div><div className="flex gap-1.5">{NOTIFY_LEVELS.map(l => (<button key={l.level} onClick={() => onChange({ ...settings, quietHours: { ...settings.quietHours, bypassLevels: toggle(settings.quietHours.bypassLevels, l.level) } })} className={chipClass(settings.quietHours.bypassLevels.includes(l.level))}>{l.label}</button>))}</div></div>
+            <hr className={`border-dashed ${isDark ? 'border-slate-700' : 'border-gray-200'}`} />
+            <div className="flex items-center gap-2"><span className="font-bold">去重窗口</span><input type="number" min={0} className={`${inputClass} w-20`} value={settings.dedupMinutes} onChange={e => onChange({ ...settings, dedupMinutes: Math.max(0, Number(e.target.value) || 0) })} /><span className="opacity-50">分钟内同一设备通道、同一等级只通知同一收件人一次</span></div>
+          </div>
+        </div>
+      </div>
+
+      {/* Routing table */}
+      <div className={cardClass}>
+        <div className={headerClass}><span className="text-sm font-bold flex items-center gap-2"><BellRing size={16} /> 通知路由</span><button onClick={addRoute} className="flex items-center gap-1 text-xs font-bold text-blue-500 hover:underline"><Plus size={14} /> 新增路由</button></div>
+        <table className="w-full text-left text-xs border-collapse">
+          <thead className={isDark ? 'bg-slate-800 text-slate-400' : 'bg-gray-50 text-slate-500'}><tr><th className="px-4 py-3 font-bold text-[10px]">启用</th><th className="px-4 py-3 font-bold text-[10px]">项目</th><th className="px-4 py-3 font-bold text-[10px]">告警等级</th><th className="px-4 py-3 font-bold text-[10px]">值班组</th><th className="px-4 py-3 font-bold text-[10px]">通知渠道</th><th className="px-4 py-3 font-bold text-[10px] text-right">操作</th></tr></thead>
+          <tbody className="divide-y divide-gray-500/10">
+            {settings.routes.map(r => (
+              <tr key={r.id} className={r.enabled ? '' : 'opacity-50'}>
+                <td className="px-4 py-3"><input type="checkbox" checked={r.enabled} onChange={e => updateRoute(r.id, { enabled: e.target.checked })} /></td>
+                <td className="px-4 py-3"><select className={inputClass} value={r.projectId} onChange={e => updateRoute(r.id, { projectId: e.target.value })}><option value="*">全部项目</option>{projects.map(p => <option key={p.id} value={p.id}>{p.name || p.id}</option>)}</select></td>
+                <td className="px-4 py-3"><div className="flex gap-1.5">{NOTIFY_LEVELS.map(l => (<button key={l.level} onClick={() => updateRoute(r.id, { levels: toggle(r.levels, l.level) })} className={chipClass(r.levels.includes(l.level))}>{l.label}</button>))}</div></td>
+                <td className="px-4 py-3"><select className={inputClass} value={r.groupId} onChange={e => updateRoute(r.id, { groupId: e.target.value })}>{!settings.groups.some(g => g.id === r.groupId) && <option value={r.groupId}>(已删除)</option>}{settings.groups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}</select></td>
+                <td className="px-4 py-3"><div className="flex gap-1.5">{NOTIFICATION_CHANNELS.map(c => { const info = CHANNEL_INFO[c]; return (<button key={c} onClick={() => updateRoute(r.id, { channels: toggle(r.channels, c) })} className={`${chipClass(r.channels.includes(c))} flex items-center gap-1`}><info.icon size={11} />{info.label}</button>); })}</div></td>
+                <td className="px-4 py-3 text-right"><button onClick={() => onChange({ ...settings, routes: settings.routes.filter(x => x.id !== r.id) })} className={`p-1.5 rounded-lg ${isDark ? 'hover:bg-slate-700 text-red-400' : 'hover:bg-gray-100 text-red-600'}`}><Trash2 size={14} /></button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {settings.routes.length === 0 && (<div className="py-8 text-center text-xs opacity-40">暂无通知路由，告警不会对外发送</div>)}
+      </div>
+
+      {/* Delivery log */}
+      <div className={cardClass}>
+        <div className={headerClass}><span className="text-sm font-bold flex items-center gap-2"><Send size={16} /> 发送记录</span><span className="text-[10px] opacity-50">最近 {Math.min(log.length, 100)} 条</span></div>
+        <div className="max-h-[360px] overflow-auto custom-scrollbar">
+          <table className="w-full text-left text-xs border-collapse">
+            <thead className={`sticky top-0 ${isDark ? 'bg-slate-800 text-slate-400' : 'bg-gray-50 text-slate-500'}`}><tr><th className="px-4 py-3 font-bold text-[10px]">时间</th><th className="px-4 py-3 font-bold text-[10px]">告警</th><th className="px-4 py-3 font-bold text-[10px]">渠道 / 收件人</th><th className="px-4 py-3 font-bold text-[10px]">状态</th><th className="px-4 py-3 font-bold text-[10px]">说明</th></tr></thead>
+            <tbody className="divide-y divide-gray-500/10">
+              {log.slice(0, 100).map(r => {
+                const level = NOTIFY_LEVELS.find(l => l.level === r.level);
+                const status = STATUS_INFO[r.status];
+                return (
+                  <tr key={r.id}>
+                    <td className="px-4 py-2.5 font-mono opacity-70 whitespace-nowrap">{new Date(r.time).toLocaleString()}</td>
+                    <td className="px-4 py-2.5"><span className="font-bold">{r.deviceName}</span> <span className="opacity-50">{r.eventChannel}</span> <span className="font-bold" style={{ color: level?.color }}>{level?.label || r.level}</span></td>
+                    <td className="px-4 py-2.5"><span className="opacity-60">{CHANNEL_INFO[r.channel].label}</span> <span className="font-mono">{r.recipient}</span></td>
+                    <td className="px-4 py-2.5"><span className={`px-2 py-0.5 rounded-md text-[10px] font-black border ${status.class}`}>{status.label}</span>{r.attempts > 1 && <span className="ml-1 text-[10px] opacity-50">{r.attempts} 次尝试</span>}</td>
+                    <td className="px-4 py-2.5 opacity-60">{r.reason || '-'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {log.length === 0 && (<div className="py-8 text-center text-xs opacity-40">暂无发送记录</div>)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SystemSettings: React.FC<SystemSettingsProps> = ({ isDark, projects, notificationSettings, onNotificationSettingsChange, notificationLog }) => {
+  const [users, setUsers] = useState<User[]>(() => loadList(STORAGE_KEYS.users, isUser, INITIAL_USERS));
   
-  const [superAdmin, setSuperAdmin] = useState<User>(() => {
-    const saved = localStorage.getItem('sys_super_admin');
-    return saved ? JSON.parse(saved) : DEFAULT_SUPER_ADMIN;
-  });
+  const [superAdmin, setSuperAdmin] = useState<User>(() => loadRecord(STORAGE_KEYS.superAdmin, isUser, DEFAULT_SUPER_ADMIN));
 
   const [superAdminPassword, setSuperAdminPassword] = useState(() => {
-    return localStorage.getItem('sys_sa_pwd') || '123456';
+    return localStorage.getItem(STORAGE_KEYS.superAdminPassword) || '123456';
   });
 
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -195,8 +334,8 @@ const SystemSettings: React.FC<SystemSettingsProps> = ({ isDark }) => {
   const [editingUser, setEditingUser] = useState<Partial<User>>({});
   const [searchTerm, setSearchTerm] = useState('');
 
-  useEffect(() => { localStorage.setItem('sys_users', JSON.stringify(users)); }, [users]);
-  useEffect(() => { localStorage.setItem('sys_super_admin', JSON.stringify(superAdmin)); }, [superAdmin]);
+  useEffect(() => { saveRecord(STORAGE_KEYS.users, users); }, [users]);
+  useEffect(() => { saveRecord(STORAGE_KEYS.superAdmin, superAdmin); }, [superAdmin]);
 
   const handleSaveUser = (userData: Partial<User>) => {
     if (userData.id) {
@@ -210,7 +349,7 @@ const SystemSettings: React.FC<SystemSettingsProps> = ({ isDark }) => {
   
   const handleSaveSuperAdmin = (updatedUser: User, newPassword?: string) => {
       setSuperAdmin(updatedUser);
-      if (newPassword) { setSuperAdminPassword(newPassword); localStorage.setItem('sys_sa_pwd', newPassword); }
+      if (newPassword) { setSuperAdminPassword(newPassword); localStorage.setItem(STORAGE_KEYS.superAdminPassword, newPassword); }
       setIsSaModalOpen(false);
   };
 
@@ -280,6 +419,8 @@ const SystemSettings: React.FC<SystemSettingsProps> = ({ isDark }) => {
             </div>
         </div>
       </div>
+
+      <NotificationPanel isDark={isDark} projects={projects} members={[superAdmin, ...users]} settings={notificationSettings} onChange={onNotificationSettingsChange} log={notificationLog} />
     </div>
   );
 };
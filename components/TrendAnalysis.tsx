@@ -3,13 +3,25 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { 
   AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, LineChart, Line, Brush, ScatterChart, Scatter, ZAxis, Cell
 } from 'recharts';
-import { ChartDataPoint, AlarmLevel } from '../types';
+import { ChartDataPoint, AlarmLevel, ChannelType, TimeRange, PulseRecord, HistogramBins, PrpdClassification, AlarmRules, AlarmRuleOverride, AlarmRuleOverrides, AlarmRuleScope, AlarmThreshold, ThresholdLevel, AlarmQualifier, ConditioningSettings, ConditionedSeries, PhaseWindow, AnomalySensitivity, AnomalyDirection, ComparisonMetric } from '../types';
+import { dataProvider } from '../services/dataProvider';
+import { liveStream, appendLivePoints } from '../services/liveStream';
+import { loadTrendSeries, recordLivePoints } from '../services/timeSeriesStore';
+import { createRng, hashSeed } from '../services/seededRandom';
+import { classifyPrpd } from '../services/prpdClassifier';
+import { AMPLITUDE_BIN_OPTIONS, DEFAULT_BINS, PHASE_BIN_OPTIONS, buildPrpdHistogram, buildPrpsStack, nqPhi } from '../services/phaseResolved';
+import { DEFECT_MODELS } from '../services/defectLibrary';
+import { ConditioningCache, DEFAULT_CONDITIONING, conditionSeries } from '../services/signalConditioning';
+import { ANOMALY_SENSITIVITY, BASELINE_DAYS, detectAnomalies } from '../services/anomalyDetection';
+import { ENV_METRICS, alignWindows, compareWindows, metricKey, relativeChange } from '../services/windowComparison';
+import PulseSpectrumView from './PulseSpectrumView';
+import { ALARM_CHANNELS, THRESHOLD_LEVELS, SeriesLevels, applyOverride, clearThreshold, evaluateSeries, findInvalidChannel, getPointStatus, resolveAlarmRules, severityOf } from '../services/alarmRules';
 import { 
   Calendar, Thermometer, Zap, ChevronDown, Clock, X, Info, Settings2, Save, 
   ChevronRight, ArrowLeft, Sliders, Activity, Scale, Wifi, Timer, BarChart3, Waves,
   List, Filter, Search, Download, CheckCircle2, AlertCircle, AlertTriangle,
   RotateCcw, FileText, Plus, Trash2, Layout, Maximize2, Grid, Layers, ZapOff, Radio, BarChart, Droplets, Check, FileDown, ListFilter, Eye, HelpCircle,
-  Percent, AlertOctagon
+  Percent, AlertOctagon, ScanSearch, GitCompareArrows
 } from 'lucide-react';
 
 interface TrendAnalysisProps {
@@ -17,16 +29,27 @@ interface TrendAnalysisProps {
   isDark: boolean;
   sensorName: string;
   sensorId: string;
+  deviceId: string;
+  projectId?: string;
   sensorSn?: string;
+  alarmRuleOverrides: AlarmRuleOverrides;
+  onAlarmRuleOverridesChange: (overrides: AlarmRuleOverrides) => void;
+  conditioning: ConditioningSettings;
+  onConditioningChange: (settings: ConditioningSettings) => void;
+  anomalySensitivity: AnomalySensitivity;
+  onAnomalySensitivityChange: (sensitivity: AnomalySensitivity) => void;
 }
 
 type AnalysisMode = 'elec' | 'env';
-type ChannelType = 'UHF' | 'TEV' | 'HFCT' | 'AE';
-type TimeRange = '24h' | '7d' | '1m' | 'custom';
+type SeriesView = 'raw' | 'cleaned';
 type ChartTab = 'PRPD' | 'PRPS' | 'PULSE' | 'CORRELATION';
 
 interface PointDetailModalProps {
   data: ChartDataPoint | null;
+  sensorId: string;
+  seriesTimes: string[]; // Acquisitions of the trend range
+  conditioning: ConditioningSettings;
+  level: AlarmLevel;
   onClose: () => void;
   isDark: boolean;
 }
@@ -36,12 +59,27 @@ interface SensorSettingsModalProps {
   onClose: () => void;
   isDark: boolean;
   sensorName: string;
+  projectId?: string;
+  deviceId: string;
+  seriesId: string;
+  overrides: AlarmRuleOverrides;
+  onSave: (overrides: AlarmRuleOverrides) => void;
+}
+
+interface ConditioningModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  isDark: boolean;
+  settings: ConditioningSettings;
+  onSave: (settings: ConditioningSettings) => void;
 }
 
 interface DataListModalProps {
   isOpen: boolean;
   onClose: () => void;
   data: ChartDataPoint[];
+  rules: AlarmRules;
+  levels: SeriesLevels;
   isDark: boolean;
   sensorName: string;
   sensorId: string;
@@ -75,65 +113,23 @@ const CHANNEL_CONFIG: Record<ChannelType, { color: string, ampKey: keyof ChartDa
   AE: { color: '#EC4899', ampKey: 'ae_amp', freqKey: 'ae_freq', label: 'AE' }       
 };
 
-// --- Alarm Logic Rules ---
-const ALARM_RULES = {
-    UHF: {
-        [AlarmLevel.CRITICAL]: { freq: 150, amp: 66.0 },
-        [AlarmLevel.DANGER]: { freq: 90, amp: 55.0 },
-        [AlarmLevel.WARNING]: { freq: 30, amp: 40.0 }
-    },
-    TEV: {
-        [AlarmLevel.CRITICAL]: { freq: 150, amp: 70.0 },
-        [AlarmLevel.DANGER]: { freq: 90, amp: 54.0 },
-        [AlarmLevel.WARNING]: { freq: 30, amp: 40.0 }
-    },
-    AE: {
-        [AlarmLevel.CRITICAL]: { freq: 150, amp: 50.0 },
-        [AlarmLevel.DANGER]: { freq: 90, amp: 40.0 },
-        [AlarmLevel.WARNING]: { freq: 30, amp: 30.0 }
-    },
-    HFCT: {
-        [AlarmLevel.CRITICAL]: { freq: 150, amp: 60.0 },
-        [AlarmLevel.DANGER]: { freq: 90, amp: 50.0 },
-        [AlarmLevel.WARNING]: { freq: 30, amp: 35.0 }
-    }
-};
-
-// Helper function to calculate alarm level based on channel rules
-const getPointAlarmLevel = (channel: ChannelType, amp: number, freq: number): AlarmLevel => {
-    const rules = ALARM_RULES[channel as keyof typeof ALARM_RULES];
-    
-    if (!rules) return AlarmLevel.NORMAL;
-
-    // Check from highest severity to lowest
-    if (freq > rules[AlarmLevel.CRITICAL].freq && amp > rules[AlarmLevel.CRITICAL].amp) {
-        return AlarmLevel.CRITICAL;
-    }
-    if (freq > rules[AlarmLevel.DANGER].freq && amp > rules[AlarmLevel.DANGER].amp) {
-        return AlarmLevel.DANGER;
-    }
-    if (freq > rules[AlarmLevel.WARNING].freq && amp > rules[AlarmLevel.WARNING].amp) {
-        return AlarmLevel.WARNING;
-    }
-
-    return AlarmLevel.NORMAL;
-};
+const ANOMALY_COLOR = '#a855f7';
 
-// Custom Dot Component for Recharts to highlight alarm points
+// Custom Dot Component for Recharts to highlight alarm points and baseline anomalies
 const CustomizedDot = (props: any) => {
-    const { cx, cy, payload, channelType } = props;
+    const { cx, cy, index, levels, anomalies } = props;
     
     // Only render for valid coordinates
     if (!cx || !cy) return null;
 
-    const config = CHANNEL_CONFIG[channelType as ChannelType];
-    const amp = payload[config.ampKey] as number;
-    const freq = payload[config.freqKey] as number;
-
-    const status = getPointAlarmLevel(channelType as ChannelType, amp, freq);
+    // Qualified level of this channel at this point, so suppressed crossings are not highlighted
+    const status = (levels as AlarmLevel[])[index] ?? AlarmLevel.NORMAL;
+    // Anomalies are drawn as a ring of their own, so they show with or without an alarm
+    const anomaly = (anomalies as (AnomalyDirection | null)[] | undefined)?.[index];
+    const ring = anomaly ? <circle cx={cx} cy={cy} r={9} fill="none" stroke={ANOMALY_COLOR} strokeWidth={1.5} strokeDasharray={anomaly === 'low' ? '2 2' : undefined} /> : null;
 
     if (status === AlarmLevel.NORMAL || status === AlarmLevel.NO_DATA) {
-        return null; // Don't show dot for normal points to keep chart clean
+        return ring; // Don't show dot for normal points to keep chart clean
     }
 
     let fill = '#eab308'; // Default Warning Yellow
@@ -150,157 +146,19 @@ const CustomizedDot = (props: any) => {
     }
 
     return (
-        <circle cx={cx} cy={cy} r={r} fill={fill} stroke={stroke} strokeWidth={1} className="animate-pulse" />
+        <g>
+            {ring}
+            <circle cx={cx} cy={cy} r={r} fill={fill} stroke={stroke} strokeWidth={1} className="animate-pulse" />
+        </g>
     );
 };
 
-const generateData = (range: TimeRange, sensorId: string, customStart?: Date, customEnd?: Date): ChartDataPoint[] => {
-  const now = new Date();
-  let startTime = new Date();
-  let points = 0;
-  const intervalMinutes = 15;
-
-  switch (range) {
-    case '24h': startTime.setHours(now.getHours() - 24); points = (24 * 60) / intervalMinutes; break;
-    case '7d': startTime.setDate(now.getDate() - 7); points = (7 * 24 * 60) / intervalMinutes; break;
-    case '1m': startTime.setMonth(now.getMonth() - 1); points = (30 * 24 * 60) / intervalMinutes; break;
-    case 'custom':
-      if (customStart && customEnd) {
-        startTime = new Date(customStart);
-        const diffMs = customEnd.getTime() - customStart.getTime();
-        points = Math.max(4, Math.floor(diffMs / (1000 * 60 * 15)));
-      } else {
-        startTime.setHours(now.getHours() - 24);
-        points = 96;
-      }
-      break;
-  }
-
-  const data: ChartDataPoint[] = [];
-  const seed = sensorId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-  
-  let uhf = 20 + (seed % 15), tev = 25 + (seed % 20), hfct = 30 + (seed % 10), ae = 8 + (seed % 5);
-  let uhf_f = 40 + (seed % 30), tev_f = 80 + (seed % 50), hfct_f = 15 + (seed % 10), ae_f = 2 + (seed % 3);
-
-  for (let i = 0; i < points; i++) {
-    const time = new Date(startTime.getTime() + i * intervalMinutes * 60 * 1000);
-    const walk = (val: number, min: number, max: number, vol: number) => {
-      let change = (Math.random() - 0.5) * vol;
-      let newVal = val + change;
-      return Math.max(min, Math.min(max, newVal));
-    };
-
-    uhf = walk(uhf, 15, 65, 5);
-    tev = walk(tev, 20, 80, 10);
-    hfct = walk(hfct, 30, 60, 4);
-    ae = walk(ae, 5, 20, 2);
-
-    uhf_f = walk(uhf_f, 20, 150, 20);
-    tev_f = walk(tev_f, 50, 300, 40);
-    hfct_f = walk(hfct_f, 10, 50, 10);
-    ae_f = walk(ae_f, 0, 20, 3);
-
-    const isDangerSensor = sensorId.toLowerCase().includes('s-203') || sensorId.includes('s3');
-    // Increase probability of high values for danger sensors to demo alarm logic
-    const spikeChance = isDangerSensor ? 0.85 : 0.98;
-    const isSpike = Math.random() > spikeChance;
-
-    if (isSpike && isDangerSensor) {
-        // Force some values into alarm ranges for visual verification
-        const severity = Math.random();
-        if (severity > 0.7) {
-            // Critical
-            uhf = 68 + Math.random() * 5; uhf_f = 160 + Math.random() * 50;
-            tev = 72 + Math.random() * 5; tev_f = 160 + Math.random() * 50;
-            ae = 52 + Math.random() * 5; ae_f = 160 + Math.random() * 50;
-        } else if (severity > 0.4) {
-            // Danger
-            uhf = 58 + Math.random() * 5; uhf_f = 100 + Math.random() * 40;
-            tev = 56 + Math.random() * 5; tev_f = 100 + Math.random() * 40;
-            ae = 42 + Math.random() * 5; ae_f = 100 + Math.random() * 40;
-        } else {
-            // Warning
-            uhf = 42 + Math.random() * 5; uhf_f = 40 + Math.random() * 40;
-            tev = 42 + Math.random() * 5; tev_f = 40 + Math.random() * 40;
-            ae = 32 + Math.random() * 5; ae_f = 40 + Math.random() * 40;
-        }
-    }
-
-    data.push({
-      time: time.toISOString(),
-      uhf_amp: uhf + (isSpike && !isDangerSensor ? Math.random() * 15 : 0),
-      tev_amp: tev + (isSpike && !isDangerSensor ? Math.random() * 25 : 0),
-      hfct_amp: hfct,
-      ae_amp: ae,
-      uhf_freq: uhf_f,
-      tev_freq: tev_f + (isSpike && !isDangerSensor ? 150 : 0),
-      hfct_freq: hfct_f,
-      ae_freq: ae_f,
-      temperature: 20 + Math.sin(i / points * Math.PI * 2) * 5 + Math.random(),
-      humidity: 50 + Math.cos(i / points * Math.PI * 2) * 10 + Math.random(),
-      isAlarm: isSpike 
-    });
-  }
-  return data;
-};
-
-const generatePRPDData = (channel: ChannelType) => {
-  const points = [];
-  const clusters = [
-    { center: 45, spread: 30, ampBase: 30 },
-    { center: 225, spread: 30, ampBase: 30 }
-  ];
-  
-  for (let i = 0; i < 600; i++) {
-    const cluster = Math.random() > 0.5 ? clusters[0] : clusters[1];
-    const phase = (cluster.center + (Math.random() - 0.5) * cluster.spread * 2 + 360) % 360;
-    const ampMod = Math.abs(Math.sin((phase * Math.PI) / 180));
-    const amp = cluster.ampBase * ampMod + Math.random() * 20 + 10;
-    points.push({ x: phase, y: amp, z: Math.random() }); 
-  }
-  return points;
-};
-
-const generatePRPSData = (channel: ChannelType) => {
-    const points = [];
-    const cycles = 50; 
-    for (let c = 0; c < cycles; c++) {
-        const pulsesInCycle = Math.floor(Math.random() * 5) + 2; 
-        for (let p = 0; p < pulsesInCycle; p++) {
-            const center = Math.random() > 0.5 ? 45 : 225;
-            const phase = (center + (Math.random() - 0.5) * 40 + 360) % 360;
-            const amp = Math.random() * 50 + 10;
-            points.push({
-                phase: Math.round(phase),
-                cycle: c,
-                amp: amp
-            });
-        }
-    }
-    return points;
-}
-
-const generatePulseData = () => {
-  const points = [];
-  for (let i = 0; i < 100; i++) {
-    const t = i;
-    let amp = 0;
-    if (i > 20) {
-      const decay = Math.exp(-(i - 20) * 0.1);
-      amp = 80 * decay * Math.sin((i - 20) * 0.5);
-    }
-    amp += (Math.random() - 0.5) * 5;
-    points.push({ time: t, value: amp });
-  }
-  return points;
-};
-
-const generateCorrelationData = () => {
+const generateCorrelationData = (rng: () => number) => {
     const points = [];
     for (let i = 0; i < 100; i++) {
         points.push({ 
             index: i, 
-            value: (Math.sin(i * 0.2) * 0.5 + 0.5) * (i === 37 || i === 73 ? 0.9 : Math.random() * 0.2)
+            value: (Math.sin(i * 0.2) * 0.5 + 0.5) * (i === 37 || i === 73 ? 0.9 : rng() * 0.2)
         });
     }
     return points;
@@ -311,37 +169,101 @@ const formatDate = (isoString: string) => {
   return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}:${String(d.getSeconds()).padStart(2, '0')}`;
 };
 
-const getLevelInfo = (point: ChartDataPoint) => {
-  // Check specifically against our new rules for more accuracy in detail view
-  let maxStatus = AlarmLevel.NORMAL;
-  
-  (['UHF', 'TEV', 'AE'] as ChannelType[]).forEach(type => {
-      const status = getPointAlarmLevel(type, point[CHANNEL_CONFIG[type].ampKey] as number, point[CHANNEL_CONFIG[type].freqKey] as number);
-      if (status === AlarmLevel.CRITICAL) maxStatus = AlarmLevel.CRITICAL;
-      else if (status === AlarmLevel.DANGER && maxStatus !== AlarmLevel.CRITICAL) maxStatus = AlarmLevel.DANGER;
-      else if (status === AlarmLevel.WARNING && maxStatus === AlarmLevel.NORMAL) maxStatus = AlarmLevel.WARNING;
-  });
-
+const getLevelInfo = (maxStatus: AlarmLevel) => {
   if (maxStatus === AlarmLevel.NORMAL) return { label: '正常', color: 'text-green-500', icon: CheckCircle2 };
   if (maxStatus === AlarmLevel.CRITICAL) return { label: '三级', color: 'text-red-500', icon: AlertCircle };
   if (maxStatus === AlarmLevel.DANGER) return { label: '二级', color: 'text-orange-500', icon: AlertTriangle };
   return { label: '一级', color: 'text-yellow-500', icon: Info };
 };
 
-const PointDetailModal: React.FC<PointDetailModalProps> = ({ data, onClose, isDark }) => {
+const confidenceColor = (confidence: number) => confidence >= 0.8 ? '#22c55e' : confidence >= 0.55 ? '#eab308' : '#94a3b8';
+
+const PrpdDiagnosisPanel: React.FC<{ result: PrpdClassification; isDark: boolean }> = ({ result, isDark }) => {
+  const { features, defect, confidence, scores } = result;
+  const model = defect ? DEFECT_MODELS[defect] : null;
+  const rows: [string, string][] = [
+    ['有效脉冲', String(features.pulseCount)],
+    ['相位簇数', String(features.peaks)],
+    ['偏斜度 (+/−)', `${features.skewness.positive.toFixed(2)} / ${features.skewness.negative.toFixed(2)}`],
+    ['陡峭度 (+/−)', `${features.kurtosis.positive.toFixed(2)} / ${features.kurtosis.negative.toFixed(2)}`],
+    ['正负半周不对称度', features.asymmetry.toFixed(2)],
+    ['半周互相关系数', features.crossCorrelation.toFixed(2)],
+    ['相位分布宽度', `${Math.round(features.phaseSpread * 100)}%`],
+    ['幅值离散系数', features.amplitudeCv.toFixed(2)]
+  ];
+  return (
+    <div className={`w-72 flex-shrink-0 rounded-xl border p-4 flex flex-col gap-4 overflow-y-auto custom-scrollbar text-xs ${isDark ? 'bg-slate-900/60 border-slate-800' : 'bg-gray-50 border-gray-200'}`}>
+      <div className="flex items-center gap-2 font-bold text-sm"><ScanSearch size={16} className="text-blue-500" /> 图谱模式识别</div>
+      {scores.length === 0 ? (
+        <div className="opacity-60">未见明显局放脉冲，无法识别放电类型。</div>
+      ) : (
+        <>
+          <div>
+            <div className="text-[10px] opacity-50 mb-1">识别结果</div>
+            <div className={`text-base font-bold ${model?.external ? 'text-slate-400' : (model ? 'text-orange-500' : 'opacity-60')}`}>{model ? model.name : '特征不典型'}</div>
+            <div className="flex items-center gap-2 mt-2">
+              <div className={`flex-1 h-1.5 rounded-full overflow-hidden ${isDark ? 'bg-slate-800' : 'bg-gray-200'}`}>
+                <div className="h-full rounded-full" style={{ width: `${Math.round(confidence * 100)}%`, backgroundColor: confidenceColor(confidence) }}></div>
+              </div>
+              <span className="font-mono font-bold">{Math.round(confidence * 100)}%</span>
+            </div>
+            <div className="mt-2 opacity-70 leading-relaxed">{model ? model.signature : `最接近${DEFECT_MODELS[scores[0].defect].name}，建议结合其他检测手段复核。`}</div>
+          </div>
+          <div>
+            <div className="text-[10px] opacity-50 mb-1">各类型匹配度</div>
+            <div className="space-y-1">
+              {scores.map(s => (
+                <div key={s.defect} className="flex items-center gap-2">
+                  <span className="w-24 truncate opacity-80">{DEFECT_MODELS[s.defect].name}</span>
+                  <div className={`flex-1 h-1 rounded-full overflow-hidden ${isDark ? 'bg-slate-800' : 'bg-gray-200'}`}>
+                    <div className="h-full bg-blue-500" style={{ width: `${Math.round(s.score * 100)}%` }}></div>
+                  </div>
+                  <span className="w-8 text-right font-mono opacity-60">{Math.round(s.score * 100)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+      <div>
+        <div className="text-[10px] opacity-50 mb-1">相位特征</div>
+        <div className="space-y-1">
+          {rows.map(([label, value]) => (
+            <div key={label} className="flex justify-between"><span className="opacity-60">{label}</span><span className="font-mono">{value}</span></div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const PointDetailModal: React.FC<PointDetailModalProps> = ({ data, sensorId, seriesTimes, conditioning, level, onClose, isDark }) => {
   const [activeTab, setActiveTab] = useState<ChartTab>('PRPD');
   const [activeChannel, setActiveChannel] = useState<ChannelType>('UHF');
-  
-  const prpdData = useMemo(() => generatePRPDData(activeChannel), [activeChannel, data]);
-  const prpsData = useMemo(() => generatePRPSData(activeChannel), [activeChannel, data]);
-  const pulseData = useMemo(() => generatePulseData(), [activeChannel, data]);
-  const corrData = useMemo(() => generateCorrelationData(), [activeChannel, data]);
+  const [records, setRecords] = useState<PulseRecord[]>([]);
+  const [bins, setBins] = useState<HistogramBins>(DEFAULT_BINS);
+
+  useEffect(() => {
+    if (!data) return;
+    let cancelled = false;
+    dataProvider.getPulseRecords(sensorId, activeChannel, data.time).then(pulses => {
+      if (!cancelled) setRecords(pulses);
+    });
+    return () => { cancelled = true; };
+  }, [sensorId, activeChannel, data]);
+
+  const histogram = useMemo(() => buildPrpdHistogram(records, bins), [records, bins]);
+  const prpdData = useMemo(() => nqPhi(histogram), [histogram]);
+  const prpsData = useMemo(() => buildPrpsStack(records, bins.phaseDeg), [records, bins.phaseDeg]);
+
+  const corrData = useMemo(() => generateCorrelationData(createRng(hashSeed(dataProvider.namespace, sensorId, activeChannel, data.time, 'correlation'))), [sensorId, activeChannel, data]);
+  const prpdResult = useMemo(() => classifyPrpd(records), [records]);
 
   if (!data) return null;
 
   const dateStr = formatDate(data.time);
   const config = CHANNEL_CONFIG[activeChannel];
-  const status = getLevelInfo(data);
+  const status = getLevelInfo(level);
 
   const getPRPSColor = (amp: number) => {
       if (amp < 20) return '#38BDF8'; 
@@ -350,21 +272,56 @@ const PointDetailModal: React.FC<PointDetailModalProps> = ({ data, onClose, isDa
       return '#EF4444'; 
   };
 
+  const binSelect = (label: string, value: number, options: number[], unit: string, onChange: (value: number) => void) => (
+      <label className="flex items-center gap-1.5">
+          <span className="opacity-60">{label}</span>
+          <select value={value} onChange={e => onChange(Number(e.target.value))} className={`px-1.5 py-0.5 rounded border outline-none font-mono ${isDark ? 'bg-slate-900 border-slate-700' : 'bg-white border-gray-200'}`}>
+              {options.map(o => <option key={o} value={o}>{o}{unit}</option>)}
+          </select>
+      </label>
+  );
+
   const renderChart = () => {
       switch (activeTab) {
         case 'PRPD':
             return (
-                <div className="w-full h-full relative">
-                    <ResponsiveContainer width="100%" height="100%">
-                        <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 0 }}>
-                            <CartesianGrid strokeDasharray="3 3" stroke={isDark ? '#334155' : '#e2e8f0'} />
-                            <XAxis type="number" dataKey="x" name="Phase" unit="°" domain={[0, 360]} tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} />
-                            <YAxis type="number" dataKey="y" name="Amp" unit="dBmV" domain={[-10, 80]} tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} />
-                            <ZAxis type="number" dataKey="z" range={[20, 100]} />
-                            <Tooltip cursor={{ strokeDasharray: '3 3' }} contentStyle={{ backgroundColor: isDark ? '#0f172a' : '#fff', borderColor: isDark ? '#334155' : '#e2e8f0' }} />
-                            <Scatter name="Discharge" data={prpdData} fill={config.color} shape="circle" />
-                        </ScatterChart>
-                    </ResponsiveContainer>
+                <div className="w-full h-full flex gap-4">
+                  <div className="flex-1 min-w-0 flex flex-col">
+                    <div className="flex items-center gap-4 text-[10px] flex-shrink-0">
+                      <span className="opacity-60 font-mono">{histogram.total} 个脉冲 / {histogram.cycles} 个工频周期</span>
+                      <div className="ml-auto flex items-center gap-3">
+                        {binSelect('相位分辨率', bins.phaseDeg, PHASE_BIN_OPTIONS, '°', phaseDeg => setBins(b => ({ ...b, phaseDeg })))}
+                        {binSelect('幅值分辨率', bins.amplitudeDbmv, AMPLITUDE_BIN_OPTIONS, ' dB', amplitudeDbmv => setBins(b => ({ ...b, amplitudeDbmv })))}
+                      </div>
+                    </div>
+                    <div className="flex-1 min-h-0 relative">
+                      <ResponsiveContainer width="100%" height="100%">
+                          <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 0 }}>
+                              <CartesianGrid strokeDasharray="3 3" stroke={isDark ? '#334155' : '#e2e8f0'} />
+                              <XAxis type="number" dataKey="x" name="Phase" unit="°" domain={[0, 360]} tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} />
+                              <YAxis type="number" dataKey="y" name="Amp" unit="dBmV" domain={[-10, 80]} tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} />
+                              <ZAxis type="number" dataKey="z" name="Count" range={[20, 100]} />
+                              <Tooltip cursor={{ strokeDasharray: '3 3' }} contentStyle={{ backgroundColor: isDark ? '#0f172a' : '#fff', borderColor: isDark ? '#334155' : '#e2e8f0' }} />
+                              <Scatter name="Discharge" data={prpdData} fill={config.color} shape="circle" />
+                          </ScatterChart>
+                      </ResponsiveContainer>
+                    </div>
+                    <div className="h-32 flex-shrink-0">
+                      <ResponsiveContainer width="100%" height="100%">
+                          <LineChart data={histogram.phaseStats} margin={{ top: 5, right: 20, bottom: 0, left: 0 }}>
+                              <CartesianGrid strokeDasharray="3 3" stroke={isDark ? '#334155' : '#e2e8f0'} opacity={0.5} />
+                              <XAxis dataKey="phase" type="number" unit="°" domain={[0, 360]} tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} />
+                              <YAxis yAxisId="amp" tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} />
+                              <YAxis yAxisId="count" orientation="right" tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} />
+                              <Tooltip contentStyle={{ backgroundColor: isDark ? '#0f172a' : '#fff', borderColor: isDark ? '#334155' : '#e2e8f0' }} formatter={value => Number(value).toFixed(1)} />
+                              <Line yAxisId="amp" dataKey="max" name="qmax-φ (dBmV)" stroke="#ef4444" strokeWidth={1.5} dot={false} />
+                              <Line yAxisId="amp" dataKey="mean" name="qmean-φ (dBmV)" stroke={config.color} strokeWidth={1.5} dot={false} />
+                              <Line yAxisId="count" dataKey="count" name="n-φ" stroke="#94a3b8" strokeWidth={1} strokeDasharray="3 3" dot={false} />
+                          </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </div>
+                  <PrpdDiagnosisPanel result={prpdResult} isDark={isDark} />
                 </div>
             );
          case 'PRPS':
@@ -379,7 +336,7 @@ const PointDetailModal: React.FC<PointDetailModalProps> = ({ data, onClose, isDa
                          <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 0 }}>
                              <CartesianGrid strokeDasharray="3 3" stroke={isDark ? '#334155' : '#e2e8f0'} opacity={0.3} />
                              <XAxis type="number" dataKey="phase" name="Phase" unit="°" domain={[0, 360]} tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} />
-                             <YAxis type="number" dataKey="cycle" name="Cycle" unit="" domain={[0, 50]} tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} reversed />
+                             <YAxis type="number" dataKey="cycle" name="Cycle" unit="" domain={[0, histogram.cycles || 50]} tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} reversed />
                              <ZAxis range={[60, 60]} /> 
                              <Tooltip 
                                 cursor={{ strokeDasharray: '3 3' }} 
@@ -402,17 +359,16 @@ const PointDetailModal: React.FC<PointDetailModalProps> = ({ data, onClose, isDa
              );
          case 'PULSE':
              return (
-                <div className="w-full h-full relative">
-                    <ResponsiveContainer width="100%" height="100%">
-                        <LineChart data={pulseData} margin={{ top: 20, right: 20, bottom: 20, left: 10 }}>
-                            <CartesianGrid strokeDasharray="3 3" stroke={isDark ? '#334155' : '#e2e8f0'} opacity={0.5} />
-                            <XAxis dataKey="time" type="number" domain={[0, 100]} tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} />
-                            <YAxis domain={[-100, 100]} tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} />
-                            <Tooltip contentStyle={{ backgroundColor: isDark ? '#0f172a' : '#fff', borderColor: isDark ? '#334155' : '#e2e8f0' }} />
-                            <Line type="monotone" dataKey="value" stroke={config.color} strokeWidth={2} dot={false} />
-                        </LineChart>
-                    </ResponsiveContainer>
-                </div>
+                <PulseSpectrumView
+                    sensorId={sensorId}
+                    channel={activeChannel}
+                    time={data.time}
+                    records={records}
+                    seriesTimes={seriesTimes}
+                    noiseFloorDbmv={conditioning[activeChannel].noiseFloorDbmv}
+                    color={config.color}
+                    isDark={isDark}
+                />
              );
          case 'CORRELATION':
               return (
@@ -462,7 +418,7 @@ const PointDetailModal: React.FC<PointDetailModalProps> = ({ data, onClose, isDa
                      {[
                          { id: 'PRPD', label: 'PRPD 图谱', icon: Grid },
                          { id: 'PRPS', label: 'PRPS 三维图', icon: Layers },
-                         { id: 'PULSE', label: '放电脉冲', icon: Activity },
+                         { id: 'PULSE', label: '脉冲频谱', icon: Activity },
                          { id: 'CORRELATION', label: '工频相关性', icon: BarChart }
                      ].map(tab => (
                          <button key={tab.id} onClick={() => setActiveTab(tab.id as ChartTab)} className={`px-6 py-4 text-sm font-bold flex items-center gap-2 border-b-2 transition-all ${activeTab === tab.id ? `border-blue-500 ${isDark ? 'text-blue-400 bg-blue-500/5' : 'text-blue-600 bg-blue-50'}` : 'border-transparent opacity-50 hover:opacity-100'}`}>
@@ -480,7 +436,350 @@ const PointDetailModal: React.FC<PointDetailModalProps> = ({ data, onClose, isDa
   );
 };
 
-const SensorSettingsModal: React.FC<SensorSettingsModalProps> = ({ isOpen, onClose, isDark, sensorName }) => { if(!isOpen) return null; return <div className="fixed inset-0 z-[150]" onClick={onClose}></div>; };
+const LEVEL_LABELS: Record<ThresholdLevel, { label: string; color: string }> = {
+  [AlarmLevel.WARNING]: { label: '一级', color: '#eab308' },
+  [AlarmLevel.DANGER]: { label: '二级', color: '#f97316' },
+  [AlarmLevel.CRITICAL]: { label: '三级', color: '#ef4444' }
+};
+
+const SCOPE_TABS: { id: AlarmRuleScope; label: string }[] = [
+  { id: 'project', label: '项目' },
+  { id: 'device', label: '设备' },
+  { id: 'sensor', label: '测点' }
+];
+
+const QUALIFIER_OPTIONS: { kind: AlarmQualifier['kind']; label: string; initial: AlarmQualifier }[] = [
+  { kind: 'none', label: '单次越限', initial: { kind: 'none' } },
+  { kind: 'count', label: 'N/M 采样', initial: { kind: 'count', n: 3, m: 5 } },
+  { kind: 'sustained', label: '持续时间', initial: { kind: 'sustained', minutes: 30 } },
+  { kind: 'pulseRate', label: '脉冲频次', initial: { kind: 'pulseRate', rate: 30, cycles: 3 } }
+];
+
+const describeQualifier = (q: AlarmQualifier | undefined) => {
+  switch (q?.kind) {
+    case undefined:
+    case 'none': return '单次越限即告警';
+    case 'count': return `最近 ${q.m} 次采样中 ${q.n} 次越限`;
+    case 'sustained': return `持续越限 ${q.minutes} 分钟`;
+    case 'pulseRate': return `频次 > ${q.rate} 次/秒 连续 ${q.cycles} 次采样`;
+  }
+};
+
+// Drops empty levels and channels so a cleared field falls back to the inherited value
+const pruneOverride = (override: AlarmRuleOverride): AlarmRuleOverride => {
+  const result: AlarmRuleOverride = {};
+  ALARM_CHANNELS.forEach(channel => {
+    const levels: NonNullable<AlarmRuleOverride[ChannelType]> = {};
+    THRESHOLD_LEVELS.forEach(level => {
+      const value = override[channel]?.[level];
+      if (value && Object.values(value).some(v => v !== undefined)) levels[level] = value;
+    });
+    const qualifier = override[channel]?.qualifier;
+    if (qualifier) levels.qualifier = qualifier;
+    if (Object.keys(levels).length > 0) result[channel] = levels;
+  });
+  return result;
+};
+
+const round1 = (value: number) => String(Math.round(value * 10) / 10);
+
+const SensorSettingsModal: React.FC<SensorSettingsModalProps> = ({ isOpen, onClose, isDark, sensorName, projectId, deviceId, seriesId, overrides, onSave }) => {
+  const [scope, setScope] = useState<AlarmRuleScope>('sensor');
+  const [draft, setDraft] = useState<AlarmRuleOverride>({});
+  const targetId = scope === 'project' ? projectId : scope === 'device' ? deviceId : seriesId;
+
+  useEffect(() => {
+    if (isOpen) setDraft(targetId ? overrides[scope][targetId] || {} : {});
+  }, [isOpen, scope, targetId, overrides]);
+
+  // Values this scope inherits from the scopes above it
+  const inherited = useMemo(() => resolveAlarmRules(overrides, {
+    projectId: scope === 'project' ? undefined : projectId,
+    deviceId: scope === 'sensor' ? deviceId : undefined
+  }), [overrides, scope, projectId, deviceId]);
+  const effective = useMemo(() => applyOverride(inherited, draft), [inherited, draft]);
+  const invalidChannel = findInvalidChannel(effective);
+
+  if (!isOpen) return null;
+
+  const setField = (channel: ChannelType, level: ThresholdLevel, field: keyof AlarmThreshold, raw: string) => {
+    const value = raw === '' ? undefined : Number(raw);
+    if (value !== undefined && !Number.isFinite(value)) return;
+    setDraft(prev => pruneOverride({
+      ...prev,
+      [channel]: { ...prev[channel], [level]: { ...prev[channel]?.[level], [field]: value } }
+    }));
+  };
+
+  const setQualifier = (channel: ChannelType, qualifier: AlarmQualifier | undefined) => {
+    setDraft(prev => pruneOverride({ ...prev, [channel]: { ...prev[channel], qualifier } }));
+  };
+
+  // Parameters stay as typed; findInvalidChannel flags values that make no sense
+  const setQualifierParam = (channel: ChannelType, qualifier: AlarmQualifier, param: string, raw: string) => {
+    const value = Number(raw);
+    if (raw === '' || !Number.isFinite(value)) return;
+    setQualifier(channel, { ...qualifier, [param]: value } as AlarmQualifier);
+  };
+
+  const handleSave = () => {
+    if (!targetId || invalidChannel) return;
+    const { [targetId]: _, ...rest } = overrides[scope];
+    const next = pruneOverride(draft);
+    onSave({ ...overrides, [scope]: Object.keys(next).length > 0 ? { ...rest, [targetId]: next } : rest });
+    onClose();
+  };
+
+  const inputClass = (overridden: boolean) => `w-full px-2 py-1.5 rounded border text-xs font-mono text-right outline-none transition-colors ${overridden
+    ? (isDark ? 'bg-blue-500/10 border-blue-500/50 text-blue-300' : 'bg-blue-50 border-blue-300 text-blue-700')
+    : (isDark ? 'bg-slate-900 border-slate-700 text-slate-300 focus:border-blue-500' : 'bg-white border-gray-200 text-slate-700 focus:border-blue-400')}`;
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fadeIn" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className={`w-full max-w-4xl max-h-[90vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden animate-slideInUp border ${isDark ? 'bg-[#0f172a] border-slate-700' : 'bg-white border-gray-200'}`}>
+        {/* Header */}
+        <div className={`px-6 py-4 border-b flex justify-between items-center ${isDark ? 'border-slate-800 bg-slate-800' : 'bg-gray-50 border-gray-100'}`}>
+          <div className="flex items-center gap-4">
+            <div className={`p-2 rounded-lg ${isDark ? 'bg-blue-600/20 text-blue-400' : 'bg-blue-100 text-blue-600'}`}><Sliders size={20} /></div>
+            <div>
+              <h3 className={`font-bold text-lg ${isDark ? 'text-white' : 'text-slate-800'}`}>告警阈值设置</h3>
+              <p className="text-xs opacity-50">{sensorName} · 幅值 (dBmV) 与频次 (次/秒) 同时超过触发阈值并满足确认条件即告警，任一低于解除值后降级</p>
+            </div>
+          </div>
+          <button onClick={onClose} className={`p-2 rounded-full hover:bg-opacity-20 ${isDark ? 'hover:bg-white text-slate-400' : 'hover:bg-black text-slate-500'}`}><X size={24} /></button>
+        </div>
+
+        {/* Scope */}
+        <div className={`px-6 py-3 border-b flex items-center justify-between gap-4 ${isDark ? 'border-slate-800' : 'border-gray-100'}`}>
+          <div className={`flex p-1 rounded-lg border ${isDark ? 'bg-slate-900 border-slate-700' : 'bg-white border-gray-200'}`}>
+            {SCOPE_TABS.map(tab => {
+              const disabled = tab.id === 'project' && !projectId;
+              return (
+                <button key={tab.id} disabled={disabled} onClick={() => setScope(tab.id)} className={`px-4 py-1.5 rounded-md text-xs font-bold transition-all disabled:opacity-30 ${scope === tab.id ? (isDark ? 'bg-blue-600 text-white shadow' : 'bg-blue-100 text-blue-700') : 'opacity-60 hover:opacity-100'}`}>
+                  {tab.label}级
+                </button>
+              );
+            })}
+          </div>
+          <span className="text-[10px] opacity-50">留空的阈值沿用上级设置（灰色提示值），测点 &gt; 设备 &gt; 项目 &gt; 系统默认</span>
+        </div>
+
+        {/* Threshold Grid */}
+        <div className="flex-1 overflow-auto custom-scrollbar p-6">
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr className={isDark ? 'text-slate-400' : 'text-slate-500'}>
+                <th className="px-2 py-2 text-left">通道</th>
+                {[...THRESHOLD_LEVELS].reverse().map(level => (
+                  <th key={level} colSpan={2} className="px-2 py-2 text-center">
+                    <span className="inline-flex items-center gap-1.5"><span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: LEVEL_LABELS[level].color }}></span>{LEVEL_LABELS[level].label}</span>
+                  </th>
+                ))}
+              </tr>
+              <tr className="text-[10px] opacity-50">
+                <th></th>
+                {[...THRESHOLD_LEVELS].reverse().map(level => (
+                  <React.Fragment key={level}><th className="px-2 pb-2 font-normal">幅值</th><th className="px-2 pb-2 font-normal">频次</th></React.Fragment>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ALARM_CHANNELS.map(channel => (
+                <React.Fragment key={channel}>
+                  {(['raise', 'clear'] as const).map(row => (
+                    <tr key={row} className={`${row === 'raise' ? `border-t ${isDark ? 'border-slate-800' : 'border-gray-100'}` : ''} ${invalidChannel === channel ? 'bg-red-500/5' : ''}`}>
+                      <td className="px-2 py-1">
+                        {row === 'raise'
+                          ? <span className="font-bold" style={{ color: CHANNEL_CONFIG[channel].color }}>{CHANNEL_CONFIG[channel].label} <span className="font-normal opacity-50">触发</span></span>
+                          : <span className="opacity-50 pl-9">解除</span>}
+                      </td>
+                      {[...THRESHOLD_LEVELS].reverse().map(level => (
+                        <React.Fragment key={level}>
+                          {(row === 'raise' ? (['amp', 'freq'] as const) : (['clearAmp', 'clearFreq'] as const)).map(field => {
+                            const value = draft[channel]?.[level]?.[field];
+                            // Clear values left empty follow the raise values actually in effect
+                            const placeholder = field === 'clearAmp' || field === 'clearFreq'
+                              ? round1(clearThreshold(effective[channel][level])[field === 'clearAmp' ? 'amp' : 'freq'])
+                              : String(inherited[channel][level][field]);
+                            return (
+                              <td key={field} className="px-1 py-1">
+                                <input
+                                  type="number"
+                                  value={value ?? ''}
+                                  placeholder={placeholder}
+                                  onChange={e => setField(channel, level, field, e.target.value)}
+                                  className={inputClass(value !== undefined)}
+                                />
+                              </td>
+                            );
+                          })}
+                        </React.Fragment>
+                      ))}
+                    </tr>
+                  ))}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Qualifiers */}
+          <div className={`mt-6 pt-4 border-t ${isDark ? 'border-slate-800' : 'border-gray-100'}`}>
+            <div className={`text-xs font-bold mb-1 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>告警确认条件</div>
+            <p className="text-[10px] opacity-50 mb-3">越限还需满足以下条件才会升级告警，用于过滤瞬时干扰；降级与解除只看解除阈值</p>
+            <div className="flex flex-col gap-2">
+              {ALARM_CHANNELS.map(channel => {
+                const own = draft[channel]?.qualifier;
+                const active = effective[channel].qualifier;
+                const paramInput = (param: string, value: number, label: string) => (
+                  <label key={param} className="flex items-center gap-1.5 text-[10px] opacity-80">
+                    {label}
+                    <input type="number" value={value} onChange={e => setQualifierParam(channel, own!, param, e.target.value)} className={`w-16 ${inputClass(true)}`} />
+                  </label>
+                );
+                return (
+                  <div key={channel} className={`flex items-center gap-3 text-xs ${invalidChannel === channel ? 'text-red-500' : ''}`}>
+                    <span className="w-12 font-bold" style={{ color: CHANNEL_CONFIG[channel].color }}>{CHANNEL_CONFIG[channel].label}</span>
+                    <select
+                      value={own?.kind ?? ''}
+                      onChange={e => setQualifier(channel, QUALIFIER_OPTIONS.find(o => o.kind === e.target.value)?.initial)}
+                      className={`w-48 px-2 py-1.5 rounded border text-xs outline-none ${own
+                        ? (isDark ? 'bg-blue-500/10 border-blue-500/50 text-blue-300' : 'bg-blue-50 border-blue-300 text-blue-700')
+                        : (isDark ? 'bg-slate-900 border-slate-700 text-slate-300' : 'bg-white border-gray-200 text-slate-700')}`}
+                    >
+                      <option value="">沿用上级（{describeQualifier(inherited[channel].qualifier)}）</option>
+                      {QUALIFIER_OPTIONS.map(o => <option key={o.kind} value={o.kind}>{o.label}</option>)}
+                    </select>
+                    {own?.kind === 'count' && [paramInput('n', own.n, 'N'), paramInput('m', own.m, 'M')]}
+                    {own?.kind === 'sustained' && paramInput('minutes', own.minutes, '分钟')}
+                    {own?.kind === 'pulseRate' && [paramInput('rate', own.rate, '频次 >'), paramInput('cycles', own.cycles, '连续采样')]}
+                    <span className="text-[10px] opacity-50 ml-auto">{describeQualifier(active)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {invalidChannel && (
+            <div className="mt-4 flex items-center gap-2 text-xs text-red-500"><AlertCircle size={14} /> {invalidChannel} 通道设置无效：触发阈值需满足 一级 &lt; 二级 &lt; 三级，解除值不得高于触发值，确认条件参数需为正数（N ≤ M）</div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className={`px-6 py-4 border-t flex justify-between items-center ${isDark ? 'border-slate-800 bg-slate-900/50' : 'border-gray-100 bg-gray-50'}`}>
+          <button onClick={() => setDraft({})} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${isDark ? 'text-slate-400 hover:bg-slate-800' : 'text-slate-500 hover:bg-gray-200'}`}><RotateCcw size={14} /> 全部沿用上级</button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className={`px-4 py-1.5 rounded-lg text-xs font-bold border transition-all ${isDark ? 'border-slate-700 text-slate-300 hover:bg-slate-800' : 'border-gray-200 text-slate-600 hover:bg-gray-100'}`}>取消</button>
+            <button onClick={handleSave} disabled={!!invalidChannel || !targetId} className="flex items-center gap-2 px-4 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-500 transition-all disabled:opacity-40 disabled:cursor-not-allowed"><Save size={14} /> 保存</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Blanking windows as typed, e.g. "80-100, 260-280"; null when any part does not parse
+const parseGates = (text: string): PhaseWindow[] | null => {
+  const parts = text.split(/[,，]/).map(p => p.trim()).filter(Boolean);
+  const gates = parts.map(part => {
+    const match = part.match(/^(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)$/);
+    if (!match) return null;
+    const [from, to] = [Number(match[1]), Number(match[2])];
+    return from < 360 && to <= 360 ? { from, to } : null;
+  });
+  return gates.every(g => g !== null) ? gates as PhaseWindow[] : null;
+};
+
+const formatGates = (gates: PhaseWindow[]) => gates.map(g => `${g.from}-${g.to}`).join(', ');
+
+const ConditioningModal: React.FC<ConditioningModalProps> = ({ isOpen, onClose, isDark, settings, onSave }) => {
+  const [draft, setDraft] = useState<ConditioningSettings>(settings);
+  const [gateText, setGateText] = useState<Record<ChannelType, string>>({} as Record<ChannelType, string>);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(settings);
+    setGateText(Object.fromEntries(ALARM_CHANNELS.map(c => [c, formatGates(settings[c].phaseGates)])) as Record<ChannelType, string>);
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const invalidChannel = ALARM_CHANNELS.find(c => !Number.isFinite(draft[c].noiseFloorDbmv) || parseGates(gateText[c] ?? '') === null);
+
+  const setChannel = (channel: ChannelType, patch: Partial<ConditioningSettings[ChannelType]>) =>
+    setDraft(prev => ({ ...prev, [channel]: { ...prev[channel], ...patch } }));
+
+  const handleSave = () => {
+    if (invalidChannel) return;
+    onSave(Object.fromEntries(ALARM_CHANNELS.map(c => [c, { ...draft[c], phaseGates: parseGates(gateText[c] ?? '')! }])) as ConditioningSettings);
+    onClose();
+  };
+
+  const inputClass = `px-2 py-1.5 rounded border text-xs font-mono outline-none transition-colors ${isDark ? 'bg-slate-900 border-slate-700 text-slate-300 focus:border-blue-500' : 'bg-white border-gray-200 text-slate-700 focus:border-blue-400'}`;
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fadeIn" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className={`w-full max-w-3xl max-h-[90vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden animate-slideInUp border ${isDark ? 'bg-[#0f172a] border-slate-700' : 'bg-white border-gray-200'}`}>
+        {/* Header */}
+        <div className={`px-6 py-4 border-b flex justify-between items-center ${isDark ? 'border-slate-800 bg-slate-800' : 'bg-gray-50 border-gray-100'}`}>
+          <div className="flex items-center gap-4">
+            <div className={`p-2 rounded-lg ${isDark ? 'bg-blue-600/20 text-blue-400' : 'bg-blue-100 text-blue-600'}`}><ZapOff size={20} /></div>
+            <div>
+              <h3 className={`font-bold text-lg ${isDark ? 'text-white' : 'text-slate-800'}`}>信号调理设置</h3>
+              <p className="text-xs opacity-50">告警判定前剔除干扰脉冲：噪声门限、相位屏蔽窗、参考天线同步剔除、脉冲波形鉴别。对全部设备生效</p>
+            </div>
+          </div>
+          <button onClick={onClose} className={`p-2 rounded-full hover:bg-opacity-20 ${isDark ? 'hover:bg-white text-slate-400' : 'hover:bg-black text-slate-500'}`}><X size={24} /></button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-6">
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr className={isDark ? 'text-slate-400' : 'text-slate-500'}>
+                <th className="px-2 py-2 text-left">通道</th>
+                <th className="px-2 py-2 text-left">噪声门限 (dBmV)</th>
+                <th className="px-2 py-2 text-left">相位屏蔽窗 (°)</th>
+                <th className="px-2 py-2 text-center">参考天线剔除</th>
+                <th className="px-2 py-2 text-center">波形鉴别</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ALARM_CHANNELS.map(channel => (
+                <tr key={channel} className={`border-t ${isDark ? 'border-slate-800' : 'border-gray-100'} ${invalidChannel === channel ? 'bg-red-500/5' : ''}`}>
+                  <td className="px-2 py-2 font-bold" style={{ color: CHANNEL_CONFIG[channel].color }}>{CHANNEL_CONFIG[channel].label}</td>
+                  <td className="px-2 py-2">
+                    <input type="number" value={Number.isFinite(draft[channel].noiseFloorDbmv) ? draft[channel].noiseFloorDbmv : ''} onChange={e => setChannel(channel, { noiseFloorDbmv: e.target.value === '' ? NaN : Number(e.target.value) })} className={`w-24 text-right ${inputClass}`} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="text" value={gateText[channel] ?? ''} placeholder="如 80-100, 260-280" onChange={e => setGateText(prev => ({ ...prev, [channel]: e.target.value }))} className={`w-full ${inputClass}`} />
+                  </td>
+                  <td className="px-2 py-2 text-center">
+                    <input type="checkbox" checked={draft[channel].referenceRejection} onChange={e => setChannel(channel, { referenceRejection: e.target.checked })} className="accent-blue-500" />
+                  </td>
+                  <td className="px-2 py-2 text-center">
+                    <input type="checkbox" checked={draft[channel].shapeFilter} onChange={e => setChannel(channel, { shapeFilter: e.target.checked })} className="accent-blue-500" />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] opacity-50 mt-4">屏蔽窗内的脉冲一律剔除，适用于每周期固定相位出现的换流、开关干扰；起点大于终点表示跨越 0°（如 350-10）。低于噪声门限的脉冲视为背景，不参与剔除统计</p>
+          {invalidChannel && (
+            <div className="mt-4 flex items-center gap-2 text-xs text-red-500"><AlertCircle size={14} /> {invalidChannel} 通道设置无效：噪声门限需为数字，屏蔽窗格式为 起点-终点（0–360°），多个窗口用逗号分隔</div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className={`px-6 py-4 border-t flex justify-between items-center ${isDark ? 'border-slate-800 bg-slate-900/50' : 'border-gray-100 bg-gray-50'}`}>
+          <button onClick={() => { setDraft(DEFAULT_CONDITIONING); setGateText(Object.fromEntries(ALARM_CHANNELS.map(c => [c, ''])) as Record<ChannelType, string>); }} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${isDark ? 'text-slate-400 hover:bg-slate-800' : 'text-slate-500 hover:bg-gray-200'}`}><RotateCcw size={14} /> 恢复默认</button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className={`px-4 py-1.5 rounded-lg text-xs font-bold border transition-all ${isDark ? 'border-slate-700 text-slate-300 hover:bg-slate-800' : 'border-gray-200 text-slate-600 hover:bg-gray-100'}`}>取消</button>
+            <button onClick={handleSave} disabled={!!invalidChannel} className="flex items-center gap-2 px-4 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-500 transition-all disabled:opacity-40 disabled:cursor-not-allowed"><Save size={14} /> 保存</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
 
 const TimeSelector: React.FC<TimeSelectorProps> = ({ 
     timeRange, onTimeRangeChange, showDatePicker, setShowDatePicker,
@@ -515,7 +814,7 @@ const TimeSelector: React.FC<TimeSelectorProps> = ({
 }
 
 const DataListModal: React.FC<DataListModalProps> = ({ 
-  isOpen, onClose, data, isDark, sensorName, sensorId,
+  isOpen, onClose, data, rules, levels, isDark, sensorName, sensorId,
   timeRange, onTimeRangeChange, showDatePicker, setShowDatePicker,
   customStart, setCustomStart, customEnd, setCustomEnd, onViewDetail
 }) => {
@@ -524,30 +823,23 @@ const DataListModal: React.FC<DataListModalProps> = ({
     ]);
     const sn = sensorId ? `SF-UHF-${sensorId.split('-')[1] || '001'}` : 'SF-UNKNOWN';
     
-    // Updated Logic: Use the rigorous getPointAlarmLevel helper
-    const getPointStatus = (point: ChartDataPoint): AlarmLevel => {
-        let maxLevel = AlarmLevel.NORMAL;
-        // Check UHF, TEV, AE
-        (['UHF', 'TEV', 'AE'] as ChannelType[]).forEach(type => {
-            const level = getPointAlarmLevel(type, point[CHANNEL_CONFIG[type].ampKey] as number, point[CHANNEL_CONFIG[type].freqKey] as number);
-            if (level === AlarmLevel.CRITICAL) maxLevel = AlarmLevel.CRITICAL;
-            else if (level === AlarmLevel.DANGER && maxLevel !== AlarmLevel.CRITICAL) maxLevel = AlarmLevel.DANGER;
-            else if (level === AlarmLevel.WARNING && maxLevel === AlarmLevel.NORMAL) maxLevel = AlarmLevel.WARNING;
-        });
-        return maxLevel;
-    };
-
     const toggleStatus = (status: AlarmLevel) => {
         setStatusFilter(prev => prev.includes(status) ? prev.filter(s => s !== status) : [...prev, status]);
     };
+    // Rows carry both levels: the list filters on the qualified one and flags crossings the qualifiers held back
     const filteredData = useMemo(() => {
-        return data.filter(point => statusFilter.includes(getPointStatus(point)));
-    }, [data, statusFilter]);
+        return data
+            .map((point, i) => ({ point, raw: levels.raw[i] ?? getPointStatus(rules, point), status: levels.qualified[i] ?? getPointStatus(rules, point) }))
+            .filter(row => statusFilter.includes(row.status));
+    }, [data, rules, levels, statusFilter]);
+    const qualifierHints = ALARM_CHANNELS
+        .filter(channel => rules[channel].qualifier && rules[channel].qualifier!.kind !== 'none')
+        .map(channel => `${channel}: ${describeQualifier(rules[channel].qualifier)}`);
 
     const handleDownloadCSV = () => {
-        const headers = ["时间戳", "名称", "SN号", "状态", "UHF幅值(dBmV)", "TEV幅值(dBmV)", "HFCT幅值(dBmV)", "AE幅值(dBmV)", "温度(°C)", "湿度(%)"];
-        const rows = filteredData.map(d => [
-            d.time.replace('T', ' '), sensorName, sn, getPointStatus(d), d.uhf_amp.toFixed(2), d.tev_amp.toFixed(2), d.hfct_amp.toFixed(2), d.ae_amp.toFixed(2), d.temperature.toFixed(1), d.humidity.toFixed(1)
+        const headers = ["时间戳", "名称", "SN号", "状态", "单次越限等级", "UHF幅值(dBmV)", "TEV幅值(dBmV)", "HFCT幅值(dBmV)", "AE幅值(dBmV)", "温度(°C)", "湿度(%)"];
+        const rows = filteredData.map(({ point: d, raw, status }) => [
+            d.time.replace('T', ' '), sensorName, sn, status, raw, d.uhf_amp.toFixed(2), d.tev_amp.toFixed(2), d.hfct_amp.toFixed(2), d.ae_amp.toFixed(2), d.temperature.toFixed(1), d.humidity.toFixed(1)
         ]);
         const csvContent = "\uFEFF" + [headers.join(","), ...rows.map(r => r.join(","))].join("\n");
         const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
@@ -572,6 +864,7 @@ const DataListModal: React.FC<DataListModalProps> = ({
                         <div>
                             <h3 className={`font-bold text-lg ${isDark ? 'text-white' : 'text-slate-800'}`}>数据列表</h3>
                             <p className="text-xs opacity-50 flex items-center gap-2">{sensorName} <span className="px-1.5 py-0.5 rounded bg-gray-500/10 border border-gray-500/20 font-mono">{sn}</span></p>
+                            {qualifierHints.length > 0 && <p className="text-[10px] opacity-50 mt-0.5">确认条件 · {qualifierHints.join('；')}</p>}
                         </div>
                     </div>
                     <div className="flex items-center gap-3">
@@ -629,8 +922,8 @@ const DataListModal: React.FC<DataListModalProps> = ({
                             </tr>
                         </thead>
                         <tbody className={`divide-y divide-gray-500/10 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
-                            {filteredData.map((row, i) => {
-                                const status = getPointStatus(row);
+                            {filteredData.map(({ point: row, raw, status }, i) => {
+                                const suppressed = severityOf(raw) > severityOf(status);
                                 return (
                                     <tr key={i} className={`hover:bg-black/5 transition-colors ${isDark ? 'hover:bg-white/5' : ''}`}>
                                         <td className="px-4 py-2 font-mono opacity-80">{row.time.replace('T', ' ').substring(0, 19)}</td>
@@ -638,6 +931,9 @@ const DataListModal: React.FC<DataListModalProps> = ({
                                             <span className={`px-2 py-0.5 rounded text-[10px] font-bold border inline-flex items-center gap-1 ${status === AlarmLevel.NORMAL ? 'bg-green-500/10 text-green-500 border-green-500/20' : status === AlarmLevel.WARNING ? 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20' : status === AlarmLevel.DANGER ? 'bg-orange-500/10 text-orange-500 border-orange-500/20' : 'bg-red-500/10 text-red-500 border-red-500/20'}`}>
                                                 {status === AlarmLevel.NORMAL ? '正常' : status === AlarmLevel.WARNING ? '一级' : status === AlarmLevel.DANGER ? '二级' : '三级'}
                                             </span>
+                                            {suppressed && (
+                                                <span className="ml-1 px-1.5 py-0.5 rounded text-[10px] border border-dashed border-gray-500/40 opacity-70" title={`单次越限为${raw === AlarmLevel.WARNING ? '一级' : raw === AlarmLevel.DANGER ? '二级' : '三级'}，未满足确认条件`}>抑制</span>
+                                            )}
                                         </td>
                                         <td className="px-4 py-2 text-right font-mono">{row.uhf_amp.toFixed(1)}</td>
                                         <td className="px-4 py-2 text-right font-mono">{row.tev_amp.toFixed(1)}</td>
@@ -665,7 +961,201 @@ const DataListModal: React.FC<DataListModalProps> = ({
     )
 }
 
-const TrendAnalysis: React.FC<TrendAnalysisProps> = ({ isDark, sensorName, sensorId, sensorSn }) => {
+// --- Window Comparison ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_WINDOW_DAYS = 31; // As long as the longest preset range
+
+const ENV_CONFIG: Record<string, { color: string; label: string; unit: string }> = {
+  temperature: { color: '#FB923C', label: '温度', unit: '°C' },
+  humidity: { color: '#22D3EE', label: '湿度', unit: '%' }
+};
+
+// <input type="datetime-local"> works in local time without seconds
+const toLocalInput = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const formatOffset = (hours: number) => hours < 48 ? `+${Math.round(hours)}h` : `+${Math.round(hours / 24 * 10) / 10}d`;
+
+const formatPulses = (n: number) => n >= 1e8 ? `${Math.round(n / 1e7) / 10}亿` : n >= 1e4 ? `${Math.round(n / 1e3) / 10}万` : String(n);
+
+const formatMinutes = (minutes: number) => minutes >= 120 ? `${Math.round(minutes / 6) / 10} 小时` : `${Math.round(minutes)} 分钟`;
+
+const metricInfo = (metric: ComparisonMetric) => metric in ENV_CONFIG
+  ? ENV_CONFIG[metric]
+  : { color: CHANNEL_CONFIG[metric as ChannelType].color, label: CHANNEL_CONFIG[metric as ChannelType].label, unit: 'dBmV' };
+
+interface ComparisonWindow { start: string; end: string }
+
+interface LoadedWindow { raw: ChartDataPoint[]; cleaned: ChartDataPoint[] }
+
+interface WindowComparisonViewProps {
+  isDark: boolean;
+  seriesId: string;
+  rules: AlarmRules;
+  conditioning: ConditioningSettings;
+  seriesView: SeriesView;
+  metrics: ComparisonMetric[];
+}
+
+const windowError = (w: ComparisonWindow) => {
+  const start = new Date(w.start).getTime();
+  const end = new Date(w.end).getTime();
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return '请选择起止时间';
+  if (end <= start) return '结束时间须晚于开始时间';
+  if (end - start > MAX_WINDOW_DAYS * DAY_MS) return `时段不能超过 ${MAX_WINDOW_DAYS} 天`;
+  return null;
+};
+
+// Overlays two time windows of the series by time since their starts and tabulates how each metric moved from A to B
+const WindowComparisonView: React.FC<WindowComparisonViewProps> = ({ isDark, seriesId, rules, conditioning, seriesView, metrics }) => {
+  // The week before last against last week until the engineer picks their own
+  const [windows, setWindows] = useState<{ a: ComparisonWindow; b: ComparisonWindow }>(() => {
+    const now = Date.now();
+    return {
+      a: { start: toLocalInput(new Date(now - 14 * DAY_MS)), end: toLocalInput(new Date(now - 7 * DAY_MS)) },
+      b: { start: toLocalInput(new Date(now - 7 * DAY_MS)), end: toLocalInput(new Date(now)) }
+    };
+  });
+  const [loaded, setLoaded] = useState<{ key: string; a: LoadedWindow; b: LoadedWindow } | null>(null);
+  const errors = { a: windowError(windows.a), b: windowError(windows.b) };
+  const key = `${seriesId}|${windows.a.start}|${windows.a.end}|${windows.b.start}|${windows.b.end}`;
+
+  // Overlapping windows share conditioned points
+  const conditioningCache = useMemo<ConditioningCache>(() => new Map(), [seriesId, conditioning]);
+  useEffect(() => {
+    if (errors.a || errors.b) return;
+    let cancelled = false;
+    const load = async (w: ComparisonWindow): Promise<LoadedWindow | null> => {
+      const raw = await loadTrendSeries(seriesId, { range: 'custom', start: new Date(w.start), end: new Date(w.end) });
+      const series = await conditionSeries(seriesId, raw, conditioning, conditioningCache, () => cancelled);
+      return series && { raw, cleaned: series.points };
+    };
+    Promise.all([load(windows.a), load(windows.b)]).then(([a, b]) => {
+      if (!cancelled && a && b) setLoaded({ key, a, b });
+    });
+    return () => { cancelled = true; };
+  }, [key, conditioning, conditioningCache]);
+  const current = loaded && loaded.key === key ? loaded : null;
+
+  // Alarm time is judged on the cleaned series, as in the main trend view
+  const levels = useMemo(() => current && {
+    a: evaluateSeries(rules, current.a.cleaned),
+    b: evaluateSeries(rules, current.b.cleaned)
+  }, [current, rules]);
+  const shown = current && {
+    a: seriesView === 'cleaned' ? current.a.cleaned : current.a.raw,
+    b: seriesView === 'cleaned' ? current.b.cleaned : current.b.raw
+  };
+  const aligned = useMemo(() => shown ? alignWindows(shown.a, shown.b) : [], [current, seriesView]);
+  const stats = useMemo(() => shown && levels
+    ? compareWindows({ points: shown.a, levels: levels.a }, { points: shown.b, levels: levels.b }, metrics)
+    : [], [current, seriesView, levels, metrics]);
+
+  const hasHumidity = metrics.includes('humidity');
+  const inputClass = `px-2 py-1 rounded border outline-none ${isDark ? 'bg-slate-900 border-slate-600' : 'bg-white border-gray-300'}`;
+  const setWindow = (side: 'a' | 'b', patch: Partial<ComparisonWindow>) => setWindows(prev => ({ ...prev, [side]: { ...prev[side], ...patch } }));
+
+  // Rising discharge is bad news; the environment readings are only reported
+  const deltaColor = (metric: ComparisonMetric, delta: number) =>
+    metric in ENV_CONFIG || Math.abs(delta) < 1e-9 ? (isDark ? 'text-slate-400' : 'text-slate-500') : delta > 0 ? 'text-red-500' : 'text-green-500';
+  const signed = (value: number, digits = 1) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+  const renderCell = (metric: ComparisonMetric, a: number | null, b: number | null, format: (v: number) => string, delta: (a: number, b: number) => { value: number; text: string }) => {
+    if (a === null || b === null) return <td className="px-3 py-2 text-center opacity-40">—</td>;
+    const d = delta(a, b);
+    return (
+      <td className="px-3 py-2 font-mono">
+        <div>{format(a)} → {format(b)}</div>
+        <div className={`text-[10px] font-bold ${deltaColor(metric, d.value)}`}>{d.text}</div>
+      </td>
+    );
+  };
+  const absolute = (unit: string) => (a: number, b: number) => ({ value: b - a, text: `${signed(b - a)} ${unit}` });
+  const relative = (a: number, b: number) => {
+    const change = relativeChange(a, b);
+    return { value: b - a, text: change === null ? (b > 0 ? '新增' : '无变化') : `${signed(change * 100, 0)}%` };
+  };
+
+  return (
+    <div className="flex-1 w-full min-h-0 p-4 flex flex-col gap-3">
+      <div className={`flex flex-wrap items-center gap-x-6 gap-y-2 text-xs ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
+        {(['a', 'b'] as const).map(side => (
+          <div key={side} className="flex items-center gap-2">
+            <span className="font-bold flex items-center gap-1.5">
+              <svg width="22" height="6"><line x1="0" y1="3" x2="22" y2="3" stroke="currentColor" strokeWidth="2" strokeDasharray={side === 'b' ? '5 3' : undefined} /></svg>
+              {side === 'a' ? '时段 A（基准）' : '时段 B（对比）'}
+            </span>
+            <input type="datetime-local" value={windows[side].start} onChange={e => setWindow(side, { start: e.target.value })} className={inputClass} />
+            <span>至</span>
+            <input type="datetime-local" value={windows[side].end} onChange={e => setWindow(side, { end: e.target.value })} className={inputClass} />
+            {errors[side] && <span className="text-red-500 text-[10px] font-bold">{errors[side]}</span>}
+          </div>
+        ))}
+        {!errors.a && !errors.b && !current && <span className="text-[10px] opacity-60">加载并调理中…</span>}
+      </div>
+
+      <div className="flex-1 w-full min-h-0 relative">
+        <div className={`absolute top-2 left-10 z-10 text-[10px] font-bold ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+          {metrics.some(m => !(m in ENV_CONFIG)) ? '放电幅值 (dBmV)' : '温度 (°C) / 湿度 (%)'} · 横轴为距各时段起点的时间
+        </div>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={aligned} margin={{ top: 20, right: hasHumidity ? 0 : 10, left: -20, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={isDark ? '#334155' : '#e2e8f0'} opacity={0.5} vertical={false} />
+            <XAxis dataKey="offsetHours" type="number" domain={[0, 'dataMax']} tickFormatter={formatOffset} tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} axisLine={false} tickLine={false} />
+            <YAxis yAxisId="left" tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} axisLine={false} tickLine={false} domain={['auto', 'auto']} />
+            {hasHumidity && <YAxis yAxisId="right" orientation="right" tick={{ fill: isDark ? '#94a3b8' : '#64748b', fontSize: 10 }} axisLine={false} tickLine={false} domain={['auto', 'auto']} />}
+            <Tooltip contentStyle={{ backgroundColor: isDark ? '#0f172a' : '#ffffff', borderColor: isDark ? '#334155' : '#e2e8f0', borderRadius: '12px', fontSize: '12px', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} wrapperStyle={{ pointerEvents: 'none' }} labelFormatter={(label) => `起点后 ${formatOffset(Number(label))}`} formatter={(value: number) => value.toFixed(1)} />
+            {metrics.flatMap(metric => {
+              const info = metricInfo(metric);
+              const dataKey = metricKey(metric);
+              const axis = metric === 'humidity' ? 'right' : 'left';
+              return [
+                <Line key={`a-${metric}`} yAxisId={axis} type="monotone" dataKey={`a.${dataKey}`} name={`${info.label} A`} stroke={info.color} strokeWidth={2} dot={false} isAnimationActive={false} />,
+                <Line key={`b-${metric}`} yAxisId={axis} type="monotone" dataKey={`b.${dataKey}`} name={`${info.label} B`} stroke={info.color} strokeWidth={2} strokeDasharray="5 3" dot={false} isAnimationActive={false} />
+              ];
+            })}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className={`rounded-lg border overflow-auto ${isDark ? 'border-slate-700' : 'border-gray-200'}`}>
+        <table className={`w-full text-xs ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+          <thead className={isDark ? 'bg-slate-800/60 text-slate-400' : 'bg-gray-50 text-slate-500'}>
+            <tr>
+              <th className="px-3 py-2 text-left">{metrics.some(m => !(m in ENV_CONFIG)) ? '通道' : '参数'}</th>
+              <th className="px-3 py-2 text-left">均值（A → B）</th>
+              <th className="px-3 py-2 text-left">P95</th>
+              <th className="px-3 py-2 text-left">脉冲数</th>
+              <th className="px-3 py-2 text-left">告警时长</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map(({ metric, a, b }) => {
+              const info = metricInfo(metric);
+              return (
+                <tr key={metric} className={`border-t ${isDark ? 'border-slate-800' : 'border-gray-100'}`}>
+                  <td className="px-3 py-2 font-bold" style={{ color: info.color }}>{info.label} <span className="font-normal opacity-60">({info.unit})</span></td>
+                  {renderCell(metric, a.samples ? a.mean : null, b.samples ? b.mean : null, v => v.toFixed(1), absolute(info.unit))}
+                  {renderCell(metric, a.samples ? a.p95 : null, b.samples ? b.p95 : null, v => v.toFixed(1), absolute(info.unit))}
+                  {renderCell(metric, a.pulses, b.pulses, formatPulses, relative)}
+                  {renderCell(metric, a.alarmMinutes, b.alarmMinutes, formatMinutes, (x, y) => ({ value: y - x, text: `${y - x > 0 ? '+' : y - x < 0 ? '−' : '±'}${formatMinutes(Math.abs(y - x))}` }))}
+                </tr>
+              );
+            })}
+            {stats.length === 0 && (
+              <tr><td colSpan={5} className="px-3 py-4 text-center opacity-50">{metrics.length === 0 ? '请选择至少一个通道' : '暂无数据'}</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+const TrendAnalysis: React.FC<TrendAnalysisProps> = ({ isDark, sensorName, sensorId, deviceId, projectId, sensorSn, alarmRuleOverrides, onAlarmRuleOverridesChange, conditioning, onConditioningChange, anomalySensitivity, onAnomalySensitivityChange }) => {
   const [timeRange, setTimeRange] = useState<TimeRange>('24h');
   const [customStart, setCustomStart] = useState('');
   const [customEnd, setCustomEnd] = useState('');
@@ -676,13 +1166,76 @@ const TrendAnalysis: React.FC<TrendAnalysisProps> = ({ isDark, sensorName, senso
   const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('elec');
   const [selectedChannels, setSelectedChannels] = useState<ChannelType[]>(['UHF', 'TEV']);
   const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
+  const [showConditioning, setShowConditioning] = useState(false);
+  const [seriesView, setSeriesView] = useState<SeriesView>('cleaned');
+  const [compareMode, setCompareMode] = useState(false);
+  const [conditioned, setConditioned] = useState<{ source: ChartDataPoint[]; series: ConditionedSeries } | null>(null);
   const sn = sensorSn || (sensorId ? `SF-UHF-${sensorId.split('-')[1] || '001'}` : 'SF-UNKNOWN');
+  // Node ids repeat across devices, so data is requested per device + node
+  const seriesId = `${deviceId}/${sensorId}`;
+  const rules = useMemo(() => resolveAlarmRules(alarmRuleOverrides, { projectId, deviceId, sensorId: seriesId }), [alarmRuleOverrides, projectId, deviceId, seriesId]);
+
+  // Conditioned points are reused across live updates until the series or the settings change
+  const conditioningCache = useMemo<ConditioningCache>(() => new Map(), [seriesId, conditioning]);
+  useEffect(() => {
+    let cancelled = false;
+    conditionSeries(seriesId, chartData, conditioning, conditioningCache, () => cancelled).then(series => {
+      if (series) setConditioned({ source: chartData, series });
+    });
+    return () => { cancelled = true; };
+  }, [chartData, seriesId, conditioning, conditioningCache]);
+  const cleaned = conditioned && conditioned.source === chartData ? conditioned.series : null;
+
+  // Alarms are judged on the cleaned series; the raw one is only shown for comparison
+  const displayData = seriesView === 'cleaned' && cleaned ? cleaned.points : chartData;
+  const levels = useMemo(() => evaluateSeries(rules, cleaned ? cleaned.points : chartData), [rules, cleaned, chartData]);
+  const rejectedPulses = useMemo(() => cleaned
+    ? cleaned.rejected.reduce((sum, r) => sum + selectedChannels.reduce((n, ch) => n + r[ch], 0), 0)
+    : 0, [cleaned, selectedChannels]);
+
+  // Baselines learn from the BASELINE_DAYS before the range as well as the range itself.
+  // The earlier history is fetched once per series and day, not on every live point.
+  const [baseline, setBaseline] = useState<{ key: string; points: ChartDataPoint[] } | null>(null);
+  const baselineEnd = chartData.length > 0 ? new Date(new Date(chartData[0].time).setHours(0, 0, 0, 0)) : null;
+  const baselineKey = baselineEnd ? `${seriesId}|${baselineEnd.toISOString()}` : '';
+  useEffect(() => {
+    if (!baselineEnd) return;
+    let cancelled = false;
+    const start = new Date(baselineEnd.getTime() - BASELINE_DAYS * 24 * 60 * 60 * 1000);
+    loadTrendSeries(seriesId, { range: 'custom', start, end: baselineEnd }).then(points => {
+      if (!cancelled) setBaseline({ key: baselineKey, points: points.filter(p => new Date(p.time) < baselineEnd) });
+    });
+    return () => { cancelled = true; };
+  }, [baselineKey]);
+  const anomalies = useMemo(() => {
+    const history = baseline && baseline.key === baselineKey ? baseline.points : [];
+    return detectAnomalies([...history, ...chartData], displayData, anomalySensitivity);
+  }, [baseline, baselineKey, chartData, displayData, anomalySensitivity]);
+  const anomalyCount = useMemo(() => displayData.filter((_, i) =>
+    selectedChannels.some(ch => anomalies[ch].amp[i] || anomalies[ch].freq[i])).length, [displayData, anomalies, selectedChannels]);
+
+  const seriesTimes = useMemo(() => displayData.map(p => p.time), [displayData]);
+  const selectedIndex = selectedPoint ? displayData.indexOf(selectedPoint) : -1;
+  const selectedLevel = selectedIndex >= 0 ? levels.qualified[selectedIndex] : selectedPoint ? getPointStatus(rules, selectedPoint) : AlarmLevel.NORMAL;
 
   useEffect(() => {
     const dStart = customStart ? new Date(customStart) : undefined;
     const dEnd = customEnd ? new Date(customEnd) : undefined;
-    setChartData(generateData(timeRange, sensorId, dStart, dEnd));
-  }, [timeRange, sensorId, customStart, customEnd]);
+    let cancelled = false;
+    loadTrendSeries(seriesId, { range: timeRange, start: dStart, end: dEnd }).then(series => {
+      if (!cancelled) setChartData(series);
+    });
+    return () => { cancelled = true; };
+  }, [timeRange, seriesId, customStart, customEnd]);
+
+  // Rolling windows keep scrolling with live points; custom ranges are historical and stay fixed
+  useEffect(() => {
+    if (!liveStream || timeRange === 'custom') return;
+    return liveStream.subscribeTrend(seriesId, points => {
+      setChartData(prev => appendLivePoints(prev, points));
+      recordLivePoints(seriesId, points).catch(e => console.warn('Failed to record live points', e));
+    });
+  }, [timeRange, seriesId]);
 
   const handleTimeRangeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
       const val = e.target.value as TimeRange;
@@ -713,7 +1266,8 @@ const TrendAnalysis: React.FC<TrendAnalysisProps> = ({ isDark, sensorName, senso
           </div>
         </div>
         <div className="flex items-center gap-3">
-            <TimeSelector timeRange={timeRange} onTimeRangeChange={handleTimeRangeChange} showDatePicker={showDatePicker} setShowDatePicker={setShowDatePicker} customStart={customStart} setCustomStart={setCustomStart} customEnd={customEnd} setCustomEnd={setCustomEnd} isDark={isDark} />
+            {!compareMode && <TimeSelector timeRange={timeRange} onTimeRangeChange={handleTimeRangeChange} showDatePicker={showDatePicker} setShowDatePicker={setShowDatePicker} customStart={customStart} setCustomStart={setCustomStart} customEnd={customEnd} setCustomEnd={setCustomEnd} isDark={isDark} />}
+            <button onClick={() => setCompareMode(on => !on)} title="两个时段按相对时间叠加对比" className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-bold transition-all ${compareMode ? (isDark ? 'bg-blue-600 text-white shadow' : 'bg-blue-100 text-blue-700') : (isDark ? 'hover:bg-slate-700 text-slate-400' : 'hover:bg-gray-200 text-slate-500')}`}><GitCompareArrows size={16} /> 时段对比</button>
             <div className={`w-px h-6 mx-1 ${isDark ? 'bg-slate-700' : 'bg-gray-300'}`}></div>
             <button onClick={() => setShowDataList(true)} className={`p-1.5 rounded-lg transition-all ${isDark ? 'hover:bg-slate-700 text-slate-400' : 'hover:bg-gray-200 text-slate-500'}`}><List size={18} /></button>
             <button onClick={() => setShowSettings(true)} className={`p-1.5 rounded-lg transition-all ${isDark ? 'hover:bg-slate-700 text-slate-400' : 'hover:bg-gray-200 text-slate-500'}`}><Settings2 size={18} /></button>
@@ -737,18 +1291,42 @@ const TrendAnalysis: React.FC<TrendAnalysisProps> = ({ isDark, sensorName, senso
                           </button>
                       );
                   })}
+                  <div className={`w-px h-5 mx-1 ${isDark ? 'bg-slate-700' : 'bg-gray-300'}`}></div>
+                  <div className={`flex p-0.5 rounded-lg border ${isDark ? 'bg-slate-900 border-slate-700' : 'bg-white border-gray-200'}`}>
+                      {([['raw', '原始'], ['cleaned', '调理后']] as [SeriesView, string][]).map(([view, label]) => (
+                          <button key={view} onClick={() => setSeriesView(view)} className={`px-2.5 py-1 rounded-md text-[10px] font-bold transition-all ${seriesView === view ? (isDark ? 'bg-blue-600 text-white shadow' : 'bg-blue-100 text-blue-700') : 'opacity-60 hover:opacity-100'}`}>{label}</button>
+                      ))}
+                  </div>
+                  {!compareMode && <span className={`text-[10px] font-mono ${isDark ? 'text-slate-400' : 'text-slate-500'}`} title="所选通道在当前时间范围内被剔除的干扰脉冲（相位屏蔽、参考天线同步、波形鉴别）">
+                      {cleaned ? `已剔除 ${rejectedPulses} 个干扰脉冲` : '调理中…'}
+                  </span>}
+                  <button onClick={() => setShowConditioning(true)} title="信号调理设置" className={`p-1.5 rounded-lg transition-all ${isDark ? 'hover:bg-slate-700 text-slate-400' : 'hover:bg-gray-200 text-slate-500'}`}><ZapOff size={14} /></button>
+                  {!compareMode && <>
+                  <div className={`w-px h-5 mx-1 ${isDark ? 'bg-slate-700' : 'bg-gray-300'}`}></div>
+                  <span className="flex items-center gap-1.5 text-[10px] font-mono" style={{ color: ANOMALY_COLOR }} title={`与本传感器近 ${BASELINE_DAYS} 天同时段基线（中位数 ± MAD）相比显著偏离的点，独立于告警阈值；虚线圈为低于基线`}>
+                      <span className="w-2.5 h-2.5 rounded-full border-2" style={{ borderColor: ANOMALY_COLOR }}></span>基线异常 {anomalyCount}
+                  </span>
+                  <div className={`flex p-0.5 rounded-lg border ${isDark ? 'bg-slate-900 border-slate-700' : 'bg-white border-gray-200'}`} title="异常检测灵敏度">
+                      {(Object.keys(ANOMALY_SENSITIVITY) as AnomalySensitivity[]).map(level => (
+                          <button key={level} onClick={() => onAnomalySensitivityChange(level)} className={`px-2 py-1 rounded-md text-[10px] font-bold transition-all ${anomalySensitivity === level ? (isDark ? 'bg-purple-600 text-white shadow' : 'bg-purple-100 text-purple-700') : 'opacity-60 hover:opacity-100'}`}>{ANOMALY_SENSITIVITY[level].label}</button>
+                      ))}
+                  </div>
+                  </>}
               </div>
           )}
       </div>
 
-      {/* Main Chart Area */}
+      {compareMode ? (
+        <WindowComparisonView isDark={isDark} seriesId={seriesId} rules={rules} conditioning={conditioning} seriesView={seriesView} metrics={analysisMode === 'elec' ? selectedChannels : ENV_METRICS} />
+      ) : (
+      /* Main Chart Area */
       <div className="flex-1 w-full min-h-0 relative p-4 flex flex-col gap-2">
          {/* Chart 1 */}
          <div className="flex-1 w-full min-h-0 relative cursor-pointer">
             <div className={`absolute top-2 left-10 z-10 text-[10px] font-bold flex items-center gap-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{analysisMode === 'elec' ? '放电幅值 (dBmV)' : '环境温度 (°C)'}</div>
             <ResponsiveContainer width="100%" height="100%">
                 <AreaChart 
-                    data={chartData} 
+                    data={displayData} 
                     syncId="trendSync" 
                     margin={{ top: 20, right: 10, left: -20, bottom: 5 }} 
                     onClick={handleChartClick}
@@ -773,7 +1351,7 @@ const TrendAnalysis: React.FC<TrendAnalysisProps> = ({ isDark, sensorName, senso
                             name={`${ch} (dBmV)`} 
                             strokeWidth={2} 
                             activeDot={{ r: 6, strokeWidth: 0, cursor: 'pointer', onClick: (_: any, e: any) => setSelectedPoint(e.payload) }} 
-                            dot={<CustomizedDot channelType={ch} />}
+                            dot={<CustomizedDot levels={levels.channels[ch]} anomalies={anomalies[ch].amp} />}
                         />
                     )) : (
                         <Area 
@@ -795,7 +1373,7 @@ const TrendAnalysis: React.FC<TrendAnalysisProps> = ({ isDark, sensorName, senso
             <div className={`absolute top-2 left-10 z-10 text-[10px] font-bold ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{analysisMode === 'elec' ? '放电频次 (次/秒)' : '环境湿度 (%)'}</div>
             <ResponsiveContainer width="100%" height="100%">
                 <AreaChart 
-                    data={chartData} 
+                    data={displayData} 
                     syncId="trendSync" 
                     margin={{ top: 20, right: 10, left: -20, bottom: 0 }} 
                     onClick={handleChartClick}
@@ -817,7 +1395,7 @@ const TrendAnalysis: React.FC<TrendAnalysisProps> = ({ isDark, sensorName, senso
                             strokeWidth={2} 
                             strokeDasharray="3 3" 
                             activeDot={{ r: 6, strokeWidth: 0, cursor: 'pointer', onClick: (_: any, e: any) => setSelectedPoint(e.payload) }} 
-                            dot={<CustomizedDot channelType={ch} />}
+                            dot={<CustomizedDot levels={levels.channels[ch]} anomalies={anomalies[ch].freq} />}
                         />
                     )) : (
                         <Area 
@@ -834,12 +1412,32 @@ const TrendAnalysis: React.FC<TrendAnalysisProps> = ({ isDark, sensorName, senso
             </ResponsiveContainer>
          </div>
       </div>
+      )}
 
-      <SensorSettingsModal isOpen={showSettings} onClose={() => setShowSettings(false)} isDark={isDark} sensorName={sensorName} />
+      <SensorSettingsModal 
+        isOpen={showSettings} 
+        onClose={() => setShowSettings(false)} 
+        isDark={isDark} 
+        sensorName={sensorName} 
+        projectId={projectId} 
+        deviceId={deviceId} 
+        seriesId={seriesId} 
+        overrides={alarmRuleOverrides} 
+        onSave={onAlarmRuleOverridesChange} 
+      />
+      <ConditioningModal 
+        isOpen={showConditioning} 
+        onClose={() => setShowConditioning(false)} 
+        isDark={isDark} 
+        settings={conditioning} 
+        onSave={onConditioningChange} 
+      />
       <DataListModal 
         isOpen={showDataList} 
         onClose={() => setShowDataList(false)} 
-        data={chartData} 
+        data={displayData} 
+        rules={rules} 
+        levels={levels} 
         isDark={isDark} 
         sensorName={sensorName} 
         sensorId={sensorId} 
@@ -853,7 +1451,7 @@ const TrendAnalysis: React.FC<TrendAnalysisProps> = ({ isDark, sensorName, senso
         setCustomEnd={setCustomEnd} 
         onViewDetail={(point) => setSelectedPoint(point)} 
       />
-      <PointDetailModal data={selectedPoint} onClose={() => setSelectedPoint(null)} isDark={isDark} />
+      <PointDetailModal data={selectedPoint} sensorId={seriesId} seriesTimes={seriesTimes} conditioning={conditioning} level={selectedLevel} onClose={() => setSelectedPoint(null)} isDark={isDark} />
     </div>
   );
 };
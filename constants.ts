@@ -1,9 +1,8 @@
 
-import { AlarmLevel, SensorData, ChartDataPoint, DeviceSummary, PDSource, Project } from './types';
+import { AlarmLevel, SensorData, Project } from './types';
 
 // Helper to get a recent timestamp string
-const getNowStr = () => {
-  const now = new Date();
+export const getNowStr = (now = new Date()) => {
   const YYYY = now.getFullYear();
   const MM = String(now.getMonth() + 1).padStart(2, '0');
   const DD = String(now.getDate()).padStart(2, '0');
@@ -15,7 +14,9 @@ const getNowStr = () => {
 const NOW_STR = getNowStr();
 
 // Static IDs for simulation projects
-const PROJECT_IDS = ['proj-01', 'proj-02', 'proj-03'];
+export const PROJECT_IDS = ['proj-01', 'proj-02', 'proj-03'];
+
+export const DEVICE_TYPES = ['开关柜', '箱变', '油变', 'GIS组合开关', '配网电缆', '高架电缆'];
 
 export const MOCK_PROJECTS: Project[] = [
   { id: 'proj-01', name: '春晓变电站监测项目', type: '变电站', description: '500kV GIS在线监测系统 - 区域A', createdAt: NOW_STR },
@@ -23,41 +24,8 @@ export const MOCK_PROJECTS: Project[] = [
   { id: 'proj-03', name: '北仑变电站监测项目', type: '变电站', description: '500kV GIS在线监测系统 - 区域C', createdAt: NOW_STR }
 ];
 
-// --- MOCK DEVICES FOR DASHBOARD ---
-export const MOCK_DEVICES: DeviceSummary[] = Array.from({ length: 13 }, (_, i) => {
-  // Distribute statuses: 1 Critical, 2 Danger, 3 Warning, Rest Normal, Last one NO_DATA
-  let status = AlarmLevel.NORMAL;
-  if (i === 0) status = AlarmLevel.CRITICAL;
-  else if (i < 3) status = AlarmLevel.DANGER;
-  else if (i < 6) status = AlarmLevel.WARNING;
-  else if (i === 12) status = AlarmLevel.NO_DATA; // Add No Data example
-
-  // Generate random trend data (Moving Average simulation)
-  const trend = Array.from({ length: 30 }, () => 20 + Math.random() * (status === AlarmLevel.NORMAL ? 10 : 50));
-
-  return {
-    id: `dev-${i}`,
-    projectId: PROJECT_IDS[i % 3], // Assign to one of the 3 simulated projects
-    name: `500kV GIS ${['A', 'B', 'C'][i % 3]}相间隔 ${Math.floor(i / 3) + 1}0${i % 3 + 1}`,
-    station: ['春晓变电站', '宁海变电站', '北仑变电站'][i % 3],
-    status: status,
-    lastUpdated: NOW_STR,
-    uhf_amp: Math.floor(20 + Math.random() * 20),
-    uhf_freq: Math.floor(50 + Math.random() * 100),
-    tev_amp: Math.floor(15 + Math.random() * 30),
-    tev_freq: Math.floor(40 + Math.random() * 80),
-    hfct_amp: Math.floor(30 + Math.random() * 15),
-    hfct_freq: Math.floor(10 + Math.random() * 20),
-    ae_amp: Math.floor(5 + Math.random() * 10),
-    ae_freq: Math.floor(2 + Math.random() * 5),
-    temp: Number((20 + Math.random() * 5).toFixed(1)),
-    humidity: Math.floor(45 + Math.random() * 15),
-    trend: trend
-  };
-});
-
 // Template Sensors Locations (Fixed physical positions)
-const SENSOR_TEMPLATE: Partial<SensorData>[] = [
+export const SENSOR_TEMPLATE: Partial<SensorData>[] = [
   // S-202 (TEV) - Located on U1 Unit (Left)
   { 
     id: 's2', 
@@ -130,17 +98,79 @@ const SENSOR_TEMPLATE: Partial<SensorData>[] = [
     faceOrientation: 'none',
     isOnline: true 
   },
+  // S-206 (UHF) - Localisation coupler on U1 (Left), front face
+  { 
+    id: 's6', 
+    name: 'U1 气室定位-UHF',
+    sn: 'SF-UHF-206', 
+    type: 'UHF', 
+    location: 'U1 气室', 
+    status: AlarmLevel.NORMAL, 
+    value: -45, 
+    unit: 'dBmV', 
+    freqValue: 120,
+    freqUnit: '次/秒',
+    timestamp: NOW_STR,
+    x: 0, y: 0, 
+    position3d: [-180, 20, 45], 
+    faceOrientation: 'none',
+    isOnline: true
+  },
+  // S-207 (UHF) - Localisation coupler on CB (Center), rear face
+  { 
+    id: 's7', 
+    name: 'CB 背侧定位-UHF',
+    sn: 'SF-UHF-207', 
+    type: 'UHF', 
+    location: 'CB 背侧', 
+    status: AlarmLevel.NORMAL, 
+    value: -45, 
+    unit: 'dBmV', 
+    freqValue: 120,
+    freqUnit: '次/秒',
+    timestamp: NOW_STR,
+    x: 0, y: 0, 
+    position3d: [30, 0, -55], 
+    faceOrientation: 'none',
+    isOnline: true
+  },
+  // S-208 (UHF) - Localisation coupler on T (Right), rear face
+  { 
+    id: 's8', 
+    name: 'T 气室定位-UHF',
+    sn: 'SF-UHF-208', 
+    type: 'UHF', 
+    location: 'T 气室', 
+    status: AlarmLevel.NORMAL, 
+    value: -45, 
+    unit: 'dBmV', 
+    freqValue: 120,
+    freqUnit: '次/秒',
+    timestamp: NOW_STR,
+    x: 0, y: 0, 
+    position3d: [180, 60, -45], 
+    faceOrientation: 'none',
+    isOnline: true
+  },
 ];
 
 // Potential Internal Locations for PD Source Spawning
-const PD_ZONES = [
-  { name: 'U1 隔离刀闸 (故障多发区)', minX: -220, maxX: -140, minY: 0, maxY: 80, z: 10 },
-  { name: 'CB 断路器气室 (异常热点)', minX: -50, maxX: 50, minY: 0, maxY: 80, z: 10 },
-  { name: 'T 终端出线套管 (绝缘缺陷)', minX: 140, maxX: 220, minY: 0, maxY: 80, z: 10 }
+export const PD_ZONES = [
+  { id: 'U1', name: 'U1 隔离刀闸 (故障多发区)', minX: -220, maxX: -140, minY: 0, maxY: 80, z: 10 },
+  { id: 'CB', name: 'CB 断路器气室 (异常热点)', minX: -50, maxX: 50, minY: 0, maxY: 80, z: 10 },
+  { id: 'T', name: 'T 终端出线套管 (绝缘缺陷)', minX: 140, maxX: 220, minY: 0, maxY: 80, z: 10 }
+];
+
+// Gas compartments along the bay, left to right. Basin insulators between them
+// attenuate signals passing from one to the next.
+export const GIS_COMPARTMENTS = [
+  { id: 'U1', minX: -230, maxX: -130 },
+  { id: 'CB', minX: -70, maxX: 70 },
+  { id: 'T', minX: 130, maxX: 230 }
 ];
 
 // Helper to calculate 3D distance
-const getDistance = (p1: [number, number, number], p2: [number, number, number]) => {
+export const getDistance = (p1: [number, number, number], p2: [number, number, number]) => {
   return Math.sqrt(
     Math.pow(p1[0] - p2[0], 2) + 
     Math.pow(p1[1] - p2[1], 2) + 
@@ -148,140 +178,6 @@ const getDistance = (p1: [number, number, number], p2: [number, number, number])
   );
 };
 
-// Main Simulation Function
-export const getDeviceSimulation = (deviceId: string, forceFault: boolean = false): { sensors: SensorData[], pdSource: PDSource | null } => {
-  // 1. Seed based on Device ID
-  const seed = deviceId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-  
-  // 2. Decide if this device has a fault (PD Source)
-  const mockDevice = MOCK_DEVICES.find(d => d.id === deviceId);
-  const hasFault = forceFault || (mockDevice && mockDevice.status !== AlarmLevel.NORMAL && mockDevice.status !== AlarmLevel.NO_DATA);
-
-  // 2.1 Decide on a random offline node (Location-based consistency)
-  // ~20% chance that 'CB 气室' or 'T 终端' sensors go offline
-  let offlineLocation: string | null = null;
-  if (seed % 5 === 0) {
-      offlineLocation = seed % 2 === 0 ? 'CB 气室' : 'T 终端';
-  }
-
-  let pdSource: PDSource | null = null;
-  let sensors: SensorData[] = [];
-
-  if (hasFault) {
-    // Pick a zone based on seed
-    const zoneIndex = seed % PD_ZONES.length;
-    const zone = PD_ZONES[zoneIndex];
-    
-    // Generate random position within zone
-    const x = zone.minX + (seed * 17 % (zone.maxX - zone.minX));
-    const y = zone.minY + (seed * 13 % (zone.maxY - zone.minY));
-    
-    pdSource = {
-      position3d: [x, y, zone.z],
-      locationName: zone.name,
-      intensity: 80 + (seed % 20)
-    };
-  }
-
-  // 3. Generate Sensors & Correlate Status
-  sensors = SENSOR_TEMPLATE.map((sensor, index) => {
-    // Determine online status based on location consistency
-    const isOnline = sensor.location !== offlineLocation;
-
-    // Base variance
-    let status = AlarmLevel.NORMAL;
-    let value = (sensor.value || 0) + (seed % 10);
-    let freq = (sensor.freqValue || 0) + (seed % 20);
-
-    // If there is a PD source, check proximity (Only if Online)
-    if (isOnline && pdSource) {
-      const dist = getDistance(sensor.position3d as [number, number, number], pdSource.position3d);
-      
-      // Correlation Logic: Closer sensors get higher alarms
-      if (dist < 120) {
-        // CLOSE PROXIMITY -> DANGER or CRITICAL
-        status = (dist < 80 || seed % 2 === 0) ? AlarmLevel.CRITICAL : AlarmLevel.DANGER;
-        
-        // Boost values significantly
-        value += 40 + Math.random() * 20;
-        freq += 200 + Math.random() * 300;
-      } else if (dist < 200) {
-        // MEDIUM PROXIMITY -> WARNING
-        status = AlarmLevel.WARNING;
-        value += 15 + Math.random() * 10;
-        freq += 50 + Math.random() * 50;
-      }
-    } else if (isOnline) {
-        // No PD Source, maybe random localized noise (Level 1)
-        if ((seed + index) % 10 === 0) {
-            status = AlarmLevel.WARNING;
-            value += 10;
-        }
-    }
-
-    // Reset values if offline
-    if (!isOnline) {
-        status = AlarmLevel.NORMAL;
-        value = 0;
-        freq = 0;
-    }
-
-    return {
-      ...sensor,
-      id: `${deviceId}-${sensor.id}`,
-      name: sensor.name || `S-${200 + index}`,
-      sn: sensor.sn || `SN-${1000 + index}`,
-      status,
-      value: Math.floor(value),
-      freqValue: Math.floor(freq),
-      timestamp: getNowStr(),
-      isOnline
-    } as SensorData;
-  });
-
-  return { sensors, pdSource };
-};
-
-// Default export for initial load
-export const INITIAL_SIMULATION = getDeviceSimulation(MOCK_DEVICES[0].id);
-
-export const MOCK_CHART_DATA: ChartDataPoint[] = Array.from({ length: 96 }, (_, i) => {
-  const isSpike = i >= 70 && i <= 75;
-  
-  // Base noise + random variation + spike if alarm
-  const genVal = (base: number, variance: number, spike: boolean) => 
-    base + Math.random() * variance + (spike ? Math.random() * 40 + 20 : 0);
-
-  const date = new Date();
-  date.setMinutes(date.getMinutes() - (96 - i) * 15);
-
-  return {
-    time: date.toISOString(),
-    
-    // UHF
-    uhf_amp: genVal(20, 5, false),
-    uhf_freq: genVal(50, 20, false),
-
-    // TEV (Has spike)
-    tev_amp: genVal(30, 10, isSpike),
-    tev_freq: genVal(100, 50, isSpike),
-
-    // HFCT
-    hfct_amp: genVal(40, 5, false),
-    hfct_freq: genVal(20, 10, false),
-
-    // AE
-    ae_amp: genVal(10, 2, false),
-    ae_freq: genVal(5, 5, false),
-
-    // Environment (Diurnal cycle simulation)
-    temperature: 20 + Math.sin((i - 20) / 96 * Math.PI * 2) * 5 + Math.random(),
-    humidity: 50 + Math.cos((i - 20) / 96 * Math.PI * 2) * 10 + Math.random(),
-
-    isAlarm: isSpike,
-  };
-});
-
 export const SYSTEM_PROMPT = `
 You are an expert AI assistant for a 500kV GIS (Gas Insulated Switchgear) Partial Discharge Diagnosis System.
 Your role is to analyze sensor data, explain alarm causes, and suggest maintenance actions.
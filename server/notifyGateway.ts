@@ -0,0 +1,213 @@
+// Notification gateway. The browser cannot speak SMTP or post to arbitrary
+// webhook hosts, so the dispatcher (services/notifications.ts) posts each
+// message here and this relays it to the webhook, mail server or SMS API.
+// A failed relay answers 502 so the browser retries with backoff.
+//
+//   npm run notify:gateway
+//
+// PD_NOTIFY_PORT       listen port (default 8788); the app posts to http://localhost:8788/notify
+// PD_NOTIFY_SMTP_HOST  mail relay host (default localhost)
+// PD_NOTIFY_SMTP_PORT  mail relay port (default 2525)
+// PD_NOTIFY_SMTP_FROM  sender address (default pd-alarm@localhost)
+// PD_NOTIFY_SMS_URL    SMS gateway endpoint (default http://localhost:8789/sms)
+// PD_NOTIFY_SMS_KEY    if set, sent to the SMS gateway as a Bearer token
+// PD_NOTIFY_RECIPIENTS comma-separated email addresses and SMS numbers the gateway will send to; any other is refused
+// PD_NOTIFY_WEBHOOKS   comma-separated webhook URLs the gateway will post to; any other is refused
+// PD_NOTIFY_ORIGIN     the app's origin, the only one browsers may post from (default http://localhost:3000)
+// PD_NOTIFY_TOKEN      if set, requests must carry it as a Bearer token
+//
+// The token ships in the app bundle, so anyone who can load the app can read it: like the
+// Origin check it only turns away other pages and casual callers, and authenticates no one.
+// What bounds the relay are the recipient and webhook lists, which live on this side only.
+//
+// The SMTP client is plain EHLO/MAIL/RCPT/DATA without TLS or auth, meant for a
+// relay on the station network; see server/notifyStandIns.ts for local stand-ins.
+import crypto from 'crypto';
+import http from 'http';
+import net from 'net';
+import { NotificationMessage } from '../types';
+
+const PORT = Number(process.env.PD_NOTIFY_PORT || 8788);
+const SMTP_HOST = process.env.PD_NOTIFY_SMTP_HOST || 'localhost';
+const SMTP_PORT = Number(process.env.PD_NOTIFY_SMTP_PORT || 2525);
+const SMTP_FROM = process.env.PD_NOTIFY_SMTP_FROM || 'pd-alarm@localhost';
+const SMS_URL = process.env.PD_NOTIFY_SMS_URL || 'http://localhost:8789/sms';
+const SMS_KEY = process.env.PD_NOTIFY_SMS_KEY || '';
+const TOKEN = process.env.PD_NOTIFY_TOKEN || '';
+const ORIGIN = process.env.PD_NOTIFY_ORIGIN || 'http://localhost:3000';
+const listEnv = (name: string) => (process.env[name] || '').split(',').map(u => u.trim()).filter(Boolean);
+const WEBHOOKS = new Set(listEnv('PD_NOTIFY_WEBHOOKS'));
+// Addresses compare without case; numbers are stored as given, with or without the leading +
+const RECIPIENTS = new Set(listEnv('PD_NOTIFY_RECIPIENTS').map(r => r.toLowerCase()));
+const TIMEOUT_MS = 10000;
+
+// --- SMTP ---
+
+const encodeHeader = (text: string) => `=?UTF-8?B?${Buffer.from(text).toString('base64')}?=`;
+
+const buildMail = (message: NotificationMessage) => [
+  `From: ${SMTP_FROM}`,
+  `To: ${message.to}`,
+  `Subject: ${encodeHeader(message.subject)}`,
+  `Date: ${new Date().toUTCString()}`,
+  'MIME-Version: 1.0',
+  'Content-Type: text/plain; charset=UTF-8',
+  'Content-Transfer-Encoding: base64',
+  '',
+  ...(Buffer.from(message.text).toString('base64').match(/.{1,76}/g) || []),
+].join('\r\n');
+
+// One SMTP session per message. Each step waits for the full (possibly multi-line)
+// reply and fails on anything outside the expected code class.
+const sendMail = (message: NotificationMessage) => new Promise<void>((resolve, reject) => {
+  const socket = net.connect(SMTP_PORT, SMTP_HOST);
+  socket.setTimeout(TIMEOUT_MS);
+  let buffer = '';
+  const steps: { send?: string; expect: string }[] = [
+    { expect: '2' },
+    { send: `EHLO ${SMTP_FROM.split('@')[1] || 'localhost'}`, expect: '2' },
+    { send: `MAIL FROM:<${SMTP_FROM}>`, expect: '2' },
+    { send: `RCPT TO:<${message.to}>`, expect: '2' },
+    { send: 'DATA', expect: '3' },
+    { send: `${buildMail(message)}\r\n.`, expect: '2' },
+    { send: 'QUIT', expect: '2' },
+  ];
+  const fail = (reason: string) => {
+    socket.destroy();
+    reject(new Error(`SMTP ${reason}`));
+  };
+  const next = () => {
+    const step = steps[0];
+    if (step?.send) socket.write(`${step.send}\r\n`);
+  };
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString();
+    // A reply is complete once a line has a space after the code ("250 ok", not "250-")
+    const lines = buffer.split('\r\n');
+    const last = lines.findIndex(l => /^\d{3}( |$)/.test(l));
+    if (last < 0) return;
+    const reply = lines.slice(0, last + 1).join(' ');
+    buffer = lines.slice(last + 1).join('\r\n');
+    const step = steps.shift();
+    if (!step) return;
+    if (!reply.startsWith(step.expect)) return fail(reply);
+    if (steps.length === 0) {
+      socket.end();
+      resolve();
+      return;
+    }
+    next();
+  });
+  socket.on('timeout', () => fail('timeout'));
+  socket.on('error', e => reject(e));
+});
+
+// --- HTTP Targets ---
+
+const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}) => {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`${url} answered ${res.status}`);
+};
+
+const relay = (message: NotificationMessage) => {
+  switch (message.channel) {
+    case 'webhook':
+      return postJson(message.to, {
+        title: message.subject,
+        text: message.text,
+        level: message.level,
+        eventId: message.eventId,
+      });
+    case 'email':
+      return sendMail(message);
+    case 'sms':
+      return postJson(SMS_URL, { to: message.to, text: `${message.subject} ${message.text}` }, SMS_KEY ? { Authorization: `Bearer ${SMS_KEY}` } : {});
+  }
+};
+
+// --- Server ---
+
+// Recipients end up in SMTP commands and mail headers, so no field may break a line
+const EMAIL = /^[^\s@<>()\[\],;:"]+@[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)+$/;
+const PHONE = /^\+?[1-9]\d{6,14}$/; // E.164, the leading + optional
+
+const validRecipient = (m: NotificationMessage) => {
+  switch (m.channel) {
+    case 'webhook': return /^https?:\/\//.test(m.to);
+    case 'email': return EMAIL.test(m.to);
+    case 'sms': return PHONE.test(m.to);
+  }
+};
+
+const isMessage = (v: unknown): v is NotificationMessage => {
+  if (typeof v !== 'object' || v === null) return false;
+  const m = v as Record<string, unknown>;
+  return ['webhook', 'email', 'sms'].includes(m.channel as string)
+    && ['to', 'subject', 'text', 'level', 'eventId'].every(k => typeof m[k] === 'string' && m[k] !== '' && !/[\r\n]/.test(m[k] as string))
+    && validRecipient(m as unknown as NotificationMessage);
+};
+
+// Only listed targets are relayed to, whoever asks
+const allowed = (m: NotificationMessage) =>
+  m.channel === 'webhook' ? WEBHOOKS.has(m.to) : RECIPIENTS.has(m.to.toLowerCase());
+
+const authorised = (req: http.IncomingMessage) => {
+  if (!TOKEN) return true;
+  const given = Buffer.from(req.headers.authorization || '');
+  const expected = Buffer.from(`Bearer ${TOKEN}`);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+const reply = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ORIGIN,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Vary': 'Origin',
+  });
+  res.end(JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  // Pages from anywhere else get neither the preflight nor the relay
+  if (req.headers.origin && req.headers.origin !== ORIGIN) return reply(res, 403, { error: 'origin not allowed' });
+  if (req.method === 'OPTIONS') return reply(res, 204, {});
+  if (req.method !== 'POST' || req.url !== '/notify') return reply(res, 404, { error: 'not found' });
+  if (!authorised(req)) return reply(res, 401, { error: 'missing or wrong token' });
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', async () => {
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return reply(res, 400, { error: 'invalid JSON' });
+    }
+    if (!isMessage(message)) return reply(res, 400, { error: 'invalid message' });
+    if (!allowed(message)) {
+      return reply(res, 403, { error: message.channel === 'webhook' ? 'webhook not in PD_NOTIFY_WEBHOOKS' : 'recipient not in PD_NOTIFY_RECIPIENTS' });
+    }
+    try {
+      await relay(message);
+      console.log(`[${message.channel}] ${message.to}: ${message.subject}`);
+      reply(res, 200, { ok: true });
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      console.warn(`[${message.channel}] ${message.to} failed: ${reason}`);
+      reply(res, 502, { error: reason });
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Notification gateway on http://localhost:${PORT}/notify, accepting ${ORIGIN}`);
+  console.log(`SMTP ${SMTP_HOST}:${SMTP_PORT} from ${SMTP_FROM}, SMS ${SMS_URL}, ${RECIPIENTS.size} recipient(s) and ${WEBHOOKS.size} webhook(s) allowed`);
+});
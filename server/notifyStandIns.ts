@@ -0,0 +1,93 @@
+// Local stand-ins for the notification targets, so the gateway can be exercised
+// without a real mail server or SMS provider. Everything received is printed.
+//
+//   npm run notify:standins
+//
+// PD_STANDIN_HTTP_PORT  webhook receiver (POST /webhook) and SMS API (POST /sms), default 8789
+// PD_STANDIN_SMTP_PORT  SMTP sink, default 2525
+// PD_STANDIN_FAIL_RATE  share of requests (0..1) answered with an error, to exercise retries
+import http from 'http';
+import net from 'net';
+
+const HTTP_PORT = Number(process.env.PD_STANDIN_HTTP_PORT || 8789);
+const SMTP_PORT = Number(process.env.PD_STANDIN_SMTP_PORT || 2525);
+const FAIL_RATE = Number(process.env.PD_STANDIN_FAIL_RATE || 0);
+
+const shouldFail = () => Math.random() < FAIL_RATE;
+
+// --- Webhook + SMS API ---
+
+http.createServer((req, res) => {
+  if (req.method !== 'POST' || (req.url !== '/webhook' && req.url !== '/sms')) {
+    res.writeHead(404).end();
+    return;
+  }
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    if (shouldFail()) {
+      console.log(`[${req.url}] simulated failure`);
+      res.writeHead(503).end();
+      return;
+    }
+    console.log(`[${req.url}] ${raw}`);
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ ok: true }));
+  });
+}).listen(HTTP_PORT, () => console.log(`Webhook http://localhost:${HTTP_PORT}/webhook, SMS http://localhost:${HTTP_PORT}/sms`));
+
+// --- SMTP Sink ---
+
+const decodeBody = (data: string) => {
+  const [headers, ...body] = data.split('\r\n\r\n');
+  const subject = /^Subject: =\?UTF-8\?B\?(.+)\?=$/m.exec(headers)?.[1];
+  const to = /^To: (.+)$/m.exec(headers)?.[1];
+  const text = Buffer.from(body.join('').replace(/\r\n/g, ''), 'base64').toString();
+  return `to=${to} subject=${subject ? Buffer.from(subject, 'base64').toString() : '-'} text=${text}`;
+};
+
+net.createServer(socket => {
+  let buffer = '';
+  let inData = false;
+  const send = (line: string) => socket.write(`${line}\r\n`);
+  send('220 pd-standin ESMTP');
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString();
+    while (true) {
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        const data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        if (shouldFail()) {
+          console.log('[smtp] simulated failure');
+          send('451 try again later');
+        } else {
+          console.log(`[smtp] ${decodeBody(data)}`);
+          send('250 queued');
+        }
+        continue;
+      }
+      const eol = buffer.indexOf('\r\n');
+      if (eol < 0) return;
+      const line = buffer.slice(0, eol);
+      buffer = buffer.slice(eol + 2);
+      const command = line.slice(0, 4).toUpperCase();
+      if (command === 'EHLO' || command === 'HELO') {
+        send('250-pd-standin');
+        send('250 8BITMIME');
+      } else if (command === 'DATA') {
+        inData = true;
+        send('354 end with <CRLF>.<CRLF>');
+      } else if (command === 'QUIT') {
+        send('221 bye');
+        socket.end();
+        return;
+      } else {
+        send('250 ok');
+      }
+    }
+  });
+  socket.on('error', () => socket.destroy());
+}).listen(SMTP_PORT, () => console.log(`SMTP sink on localhost:${SMTP_PORT}`));
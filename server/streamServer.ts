@@ -0,0 +1,188 @@
+// Local stand-in for the live monitoring backend. Replays the simulator over a
+// WebSocket using the same protocol the browser client speaks.
+//
+//   npm run stream:server
+//
+// PD_STREAM_PORT     listen port (default 8787)
+// PD_STREAM_TICK_MS  interval between pushes (default 5000)
+// PD_STREAM_DROP_MS  if set, drops every connection on this interval to exercise reconnect + backfill
+// PD_SCENARIO        simulator scenario id (see services/scenarios.ts), PD_SEED overrides its seed
+import { WebSocketServer, WebSocket } from 'ws';
+import { AlarmLevel, ChartDataPoint, DeviceSummary, LiveStreamMessage, LiveStreamRequest, SensorData } from '../types';
+import { createSimulatedDataProvider } from '../services/simulatedDataProvider';
+import { resolveScenario } from '../services/scenarios';
+
+const PORT = Number(process.env.PD_STREAM_PORT || 8787);
+const TICK_MS = Number(process.env.PD_STREAM_TICK_MS || 5000);
+const DROP_MS = Number(process.env.PD_STREAM_DROP_MS || 0);
+const HISTORY_LIMIT = 2000;
+
+const provider = createSimulatedDataProvider(resolveScenario(new URLSearchParams({
+  scenario: process.env.PD_SCENARIO || '',
+  seed: process.env.PD_SEED || ''
+})));
+
+interface ClientState {
+  devices: Set<string>;
+  sensors: Set<string>;
+}
+
+interface TrendReplay {
+  source: ChartDataPoint[];
+  cursor: number;
+  history: ChartDataPoint[];
+}
+
+const clients = new Map<WebSocket, ClientState>();
+const replays = new Map<string, TrendReplay>();
+let devices: DeviceSummary[] = [];
+
+const send = (ws: WebSocket, message: LiveStreamMessage) => {
+  if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+};
+
+const getReplay = async (sensorId: string): Promise<TrendReplay> => {
+  let replay = replays.get(sensorId);
+  if (!replay) {
+    const source = await provider.getTrendSeries(sensorId, { range: '24h' });
+    replay = { source, cursor: 0, history: [] };
+    replays.set(sensorId, replay);
+  }
+  return replay;
+};
+
+const nextPoint = (replay: TrendReplay): ChartDataPoint => {
+  const template = replay.source[replay.cursor % replay.source.length];
+  replay.cursor++;
+  const point = { ...template, time: new Date().toISOString() };
+  replay.history.push(point);
+  if (replay.history.length > HISTORY_LIMIT) replay.history.shift();
+  return point;
+};
+
+const severity: Record<AlarmLevel, number> = {
+  [AlarmLevel.NO_DATA]: 0,
+  [AlarmLevel.NORMAL]: 1,
+  [AlarmLevel.WARNING]: 2,
+  [AlarmLevel.DANGER]: 3,
+  [AlarmLevel.CRITICAL]: 4
+};
+
+// Fold live sensor readings back into the dashboard summary for this device
+const summarize = (device: DeviceSummary, sensors: SensorData[]): DeviceSummary => {
+  if (device.status === AlarmLevel.NO_DATA) return device;
+  const online = sensors.filter(s => s.isOnline);
+  const byType = (type: string) => online.find(s => s.type === type);
+  const status = online.reduce((worst, s) => severity[s.status] > severity[worst] ? s.status : worst, AlarmLevel.NORMAL);
+  const stamp = sensors[0]?.timestamp || device.lastUpdated;
+  return {
+    ...device,
+    status,
+    lastUpdated: stamp,
+    uhf_amp: byType('UHF')?.value ?? device.uhf_amp,
+    uhf_freq: byType('UHF')?.freqValue ?? device.uhf_freq,
+    tev_amp: byType('TEV')?.value ?? device.tev_amp,
+    tev_freq: byType('TEV')?.freqValue ?? device.tev_freq,
+    hfct_amp: byType('HFCT')?.value ?? device.hfct_amp,
+    hfct_freq: byType('HFCT')?.freqValue ?? device.hfct_freq,
+    ae_amp: byType('AE')?.value ?? device.ae_amp,
+    ae_freq: byType('AE')?.freqValue ?? device.ae_freq,
+    trend: [...device.trend.slice(1), byType('UHF')?.value ?? device.trend[device.trend.length - 1]]
+  };
+};
+
+const isRequest = (v: unknown): v is LiveStreamRequest => {
+  if (typeof v !== 'object' || v === null || Array.isArray(v)) return false;
+  const r = v as Record<string, unknown>;
+  return (r.type === 'subscribe' || r.type === 'unsubscribe')
+    && ['deviceId', 'sensorId', 'since'].every(k => r[k] === undefined || typeof r[k] === 'string');
+};
+
+const handleRequest = async (ws: WebSocket, state: ClientState, request: LiveStreamRequest) => {
+  if (request.type === 'unsubscribe') {
+    if (request.deviceId) state.devices.delete(request.deviceId);
+    if (request.sensorId) state.sensors.delete(request.sensorId);
+    return;
+  }
+  if (request.deviceId) {
+    state.devices.add(request.deviceId);
+    const snapshot = await provider.getDeviceSnapshot(request.deviceId, new Date().toISOString());
+    send(ws, { type: 'sensors', deviceId: request.deviceId, sensors: snapshot.sensors });
+  }
+  if (request.sensorId) {
+    state.sensors.add(request.sensorId);
+    const replay = await getReplay(request.sensorId);
+    const since = request.since;
+    if (since) {
+      const points = replay.history.filter(p => p.time > since);
+      if (points.length > 0) send(ws, { type: 'backfill', sensorId: request.sensorId, points });
+    }
+  }
+};
+
+const tick = async () => {
+  // Sensor streams advance once per tick regardless of how many clients watch them
+  const activeSensors = new Set<string>();
+  clients.forEach(state => state.sensors.forEach(id => activeSensors.add(id)));
+  const points = new Map<string, ChartDataPoint>();
+  for (const sensorId of activeSensors) {
+    points.set(sensorId, nextPoint(await getReplay(sensorId)));
+  }
+
+  // Readings are taken at the tick's time, so they move from tick to tick yet repeat for the same seed and time
+  const time = new Date().toISOString();
+  const snapshots = new Map<string, SensorData[]>();
+  for (const device of devices) {
+    snapshots.set(device.id, (await provider.getDeviceSnapshot(device.id, time)).sensors);
+  }
+  devices = devices.map(d => summarize(d, snapshots.get(d.id) || []));
+
+  clients.forEach((state, ws) => {
+    devices.forEach(device => send(ws, { type: 'device', device }));
+    state.devices.forEach(deviceId => {
+      const sensors = snapshots.get(deviceId);
+      if (sensors) send(ws, { type: 'sensors', deviceId, sensors });
+    });
+    state.sensors.forEach(sensorId => {
+      const point = points.get(sensorId);
+      if (point) send(ws, { type: 'point', sensorId, point });
+    });
+  });
+};
+
+const main = async () => {
+  devices = await provider.listDevices();
+  const wss = new WebSocketServer({ port: PORT });
+
+  wss.on('connection', (ws) => {
+    const state: ClientState = { devices: new Set(), sensors: new Set() };
+    clients.set(ws, state);
+    ws.on('message', (data) => {
+      let request: unknown;
+      try {
+        request = JSON.parse(String(data));
+      } catch (e) {
+        console.warn('Ignoring malformed request', e);
+        return send(ws, { type: 'error', error: 'invalid JSON' });
+      }
+      if (!isRequest(request)) return send(ws, { type: 'error', error: 'invalid request' });
+      handleRequest(ws, state, request).catch(e => {
+        console.warn('Request failed', e);
+        send(ws, { type: 'error', error: e instanceof Error ? e.message : String(e) });
+      });
+    });
+    ws.on('close', () => clients.delete(ws));
+  });
+
+  setInterval(() => { tick().catch(e => console.error('Tick failed', e)); }, TICK_MS);
+  if (DROP_MS > 0) {
+    setInterval(() => {
+      console.log(`Dropping ${clients.size} connection(s) to exercise reconnect`);
+      clients.forEach((_, ws) => ws.terminate());
+    }, DROP_MS);
+  }
+
+  console.log(`PD stream stand-in listening on ws://localhost:${PORT} (tick ${TICK_MS}ms)`);
+};
+
+main();
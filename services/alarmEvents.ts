@@ -0,0 +1,171 @@
+import { AlarmEvent, AlarmEventChannel, AlarmEventTransition, AlarmLevel, AlarmRules, ChannelType, DeviceSummary } from '../types';
+import { ALARM_CHANNELS, AlarmSample, nextLevel, severityOf, worstLevel } from './alarmRules';
+
+// Alarm event lifecycle. Each device channel has at most one open event: it
+// opens when readings qualify for a level, follows the level up and down, and
+// clears once readings fall below the clear thresholds. Levels held inside a
+// maintenance window or on a shelved channel are flagged as suppressed.
+
+const MAX_EVENTS = 500;
+const HISTORY_LIMIT = 240; // Samples kept per device channel for qualifier windows
+
+export interface ChannelReading extends AlarmSample {
+  projectId: string;
+  deviceId: string;
+  deviceName: string;
+  channel: ChannelType;
+}
+
+// Recent samples per `${deviceId}/${channel}`
+export type ReadingHistory = Record<string, AlarmSample[]>;
+
+const READING_KEYS: Record<ChannelType, { amp: keyof DeviceSummary; freq: keyof DeviceSummary }> = {
+  UHF: { amp: 'uhf_amp', freq: 'uhf_freq' },
+  TEV: { amp: 'tev_amp', freq: 'tev_freq' },
+  HFCT: { amp: 'hfct_amp', freq: 'hfct_freq' },
+  AE: { amp: 'ae_amp', freq: 'ae_freq' },
+};
+
+// Devices without data have no readings; their open events stay as they are until data returns
+export const deviceReadings = (device: DeviceSummary): ChannelReading[] => {
+  if (device.status === AlarmLevel.NO_DATA) return [];
+  const time = new Date(device.lastUpdated.replace(' ', 'T')).getTime();
+  return ALARM_CHANNELS.map(channel => ({
+    time: Number.isFinite(time) ? time : Date.now(),
+    projectId: device.projectId,
+    deviceId: device.id,
+    deviceName: device.name,
+    channel,
+    amp: device[READING_KEYS[channel].amp] as number,
+    freq: device[READING_KEYS[channel].freq] as number,
+  }));
+};
+
+const historyKey = (reading: ChannelReading) => `${reading.deviceId}/${reading.channel}`;
+
+// A reading is new when it is later than the last sample or its values changed; re-evaluating
+// the same reading (clock ticks, rule edits) must not add samples for the count qualifier
+const isNewReading = (last: AlarmSample | undefined, reading: ChannelReading) =>
+  !last || reading.time > last.time || reading.amp !== last.amp || reading.freq !== last.freq;
+
+// Appends one sample per new reading. lastUpdated only has minute resolution, so a live
+// update within the same minute is stamped just after the last sample to keep them in order.
+export const recordReadings = (history: ReadingHistory, readings: ChannelReading[]): ReadingHistory => {
+  let next = history;
+  readings.forEach(reading => {
+    const key = historyKey(reading);
+    const samples = next[key] || [];
+    const last = samples[samples.length - 1];
+    if (!isNewReading(last, reading)) return;
+    const time = last ? Math.max(reading.time, last.time + 1) : reading.time;
+    if (next === history) next = { ...history };
+    next[key] = [...samples, { time, amp: reading.amp, freq: reading.freq }].slice(-HISTORY_LIMIT);
+  });
+  return next;
+};
+
+export const isUnacknowledged = (event: AlarmEvent) => !event.acknowledgedAt;
+
+// Suppressed events are still listed in the log but do not ask for attention
+export const countUnacknowledged = (events: AlarmEvent[]) => events.filter(e => isUnacknowledged(e) && !e.suppressedBy).length;
+
+// Oldest cleared and acknowledged events go first; anything still needing attention is kept
+const trimEvents = (events: AlarmEvent[]) => {
+  let excess = events.length - MAX_EVENTS;
+  if (excess <= 0) return events;
+  const result = [...events];
+  for (let i = result.length - 1; i >= 0 && excess > 0; i--) {
+    if (result[i].clearedAt && result[i].acknowledgedAt) {
+      result.splice(i, 1);
+      excess--;
+    }
+  }
+  return result;
+};
+
+// Where an event belongs, and the level its latest reading puts it at
+export interface LevelUpdate {
+  projectId: string;
+  deviceId: string;
+  deviceName: string;
+  channel: AlarmEventChannel;
+  level: AlarmLevel;
+  values: Pick<AlarmEventTransition, 'amp' | 'freq' | 'growth'>;
+  suppressedBy?: string; // Maintenance window or shelf covering the channel
+}
+
+export type AlarmSubject = Pick<LevelUpdate, 'projectId' | 'deviceId' | 'channel'>;
+
+const findOpen = (events: AlarmEvent[], deviceId: string, channel: AlarmEventChannel) =>
+  events.findIndex(e => !e.clearedAt && e.deviceId === deviceId && e.channel === channel);
+
+export const openLevel = (events: AlarmEvent[], deviceId: string, channel: AlarmEventChannel): AlarmLevel =>
+  events[findOpen(events, deviceId, channel)]?.level ?? AlarmLevel.NORMAL;
+
+// Returns the same array when nothing changed, so callers can skip re-renders and writes.
+// Events are kept newest first.
+export const applyLevels = (events: AlarmEvent[], updates: LevelUpdate[], now = new Date().toISOString()): AlarmEvent[] => {
+  let next = events;
+  updates.forEach(({ level, values, suppressedBy, ...subject }) => {
+    const index = findOpen(next, subject.deviceId, subject.channel);
+    const open = index >= 0 ? next[index] : undefined;
+    const transition = { time: now, level, ...values, ...(suppressedBy ? { suppressed: true } : {}) };
+
+    if (!open) {
+      if (level === AlarmLevel.NORMAL) return;
+      next = [{
+        id: `${subject.deviceId}:${subject.channel}:${Date.parse(now)}`,
+        ...subject,
+        level,
+        peakLevel: level,
+        openedAt: now,
+        transitions: [transition],
+        ...(suppressedBy ? { suppressedBy } : {}),
+      }, ...next];
+      return;
+    }
+    if (level === open.level) {
+      // Suppression follows the channel: a window or shelf placed over a standing level
+      // quietens it, and a level still held once it ends stands as a real alarm
+      if (open.suppressedBy !== suppressedBy) {
+        const changed = { ...open };
+        if (suppressedBy) changed.suppressedBy = suppressedBy;
+        else delete changed.suppressedBy;
+        next = next.map((e, i) => i === index ? changed : e);
+      }
+      return;
+    }
+
+    const updated: AlarmEvent = level === AlarmLevel.NORMAL
+      ? { ...open, clearedAt: now, transitions: [...open.transitions, transition] }
+      : { ...open, level, peakLevel: worstLevel([open.peakLevel, level]), transitions: [...open.transitions, transition] };
+    // Escalating past what the operator saw needs a fresh acknowledgement
+    if (severityOf(level) > severityOf(open.level)) {
+      delete updated.acknowledgedAt;
+      delete updated.acknowledgedBy;
+      delete updated.ackComment;
+      if (suppressedBy) updated.suppressedBy = suppressedBy;
+      else delete updated.suppressedBy;
+    }
+    next = next.map((e, i) => i === index ? updated : e);
+  });
+  return next === events ? events : trimEvents(next);
+};
+
+export const applyReadings = (
+  events: AlarmEvent[],
+  readings: ChannelReading[],
+  history: ReadingHistory,
+  rulesFor: (reading: ChannelReading) => AlarmRules,
+  suppressedFor: (subject: AlarmSubject) => string | undefined = () => undefined,
+  now = new Date().toISOString()
+): AlarmEvent[] =>
+  applyLevels(events, readings.map(reading => {
+    const { projectId, deviceId, deviceName, channel, amp, freq } = reading;
+    const samples = history[historyKey(reading)] || [reading];
+    const level = nextLevel(rulesFor(reading), channel, samples, openLevel(events, deviceId, channel), Date.parse(now));
+    return { projectId, deviceId, deviceName, channel, level, values: { amp, freq }, suppressedBy: suppressedFor(reading) };
+  }), now);
+
+export const acknowledgeEvent = (events: AlarmEvent[], id: string, user: string, comment: string, now = new Date().toISOString()): AlarmEvent[] =>
+  events.map(e => e.id === id && !e.acknowledgedAt ? { ...e, acknowledgedAt: now, acknowledgedBy: user, ackComment: comment.trim() || undefined } : e);
@@ -0,0 +1,234 @@
+import { AlarmLevel, AlarmQualifier, AlarmRuleOverride, AlarmRuleOverrides, AlarmRules, AlarmThreshold, ChannelType, ChartDataPoint, DeviceSummary, ThresholdLevel } from '../types';
+
+// Alarm thresholds per channel. Defaults can be overridden per project, device
+// and sensor; the most specific value set for a channel/level/field wins.
+// A channel may also carry a qualifier (N of M samples, sustained duration,
+// pulse rate) that a crossing must meet before the level is raised.
+
+export const DEFAULT_ALARM_RULES: AlarmRules = {
+  UHF: {
+    [AlarmLevel.CRITICAL]: { freq: 150, amp: 66.0 },
+    [AlarmLevel.DANGER]: { freq: 90, amp: 55.0 },
+    [AlarmLevel.WARNING]: { freq: 30, amp: 40.0 }
+  },
+  TEV: {
+    [AlarmLevel.CRITICAL]: { freq: 150, amp: 70.0 },
+    [AlarmLevel.DANGER]: { freq: 90, amp: 54.0 },
+    [AlarmLevel.WARNING]: { freq: 30, amp: 40.0 }
+  },
+  AE: {
+    [AlarmLevel.CRITICAL]: { freq: 150, amp: 50.0 },
+    [AlarmLevel.DANGER]: { freq: 90, amp: 40.0 },
+    [AlarmLevel.WARNING]: { freq: 30, amp: 30.0 }
+  },
+  HFCT: {
+    [AlarmLevel.CRITICAL]: { freq: 150, amp: 60.0 },
+    [AlarmLevel.DANGER]: { freq: 90, amp: 50.0 },
+    [AlarmLevel.WARNING]: { freq: 30, amp: 35.0 }
+  }
+};
+
+export const ALARM_CHANNELS: ChannelType[] = ['UHF', 'TEV', 'HFCT', 'AE'];
+
+// Clear values default to this fraction of the raise values
+export const DEFAULT_CLEAR_RATIO = 0.95;
+
+// Highest severity first
+export const THRESHOLD_LEVELS: ThresholdLevel[] = [AlarmLevel.CRITICAL, AlarmLevel.DANGER, AlarmLevel.WARNING];
+
+export const EMPTY_ALARM_OVERRIDES: AlarmRuleOverrides = { project: {}, device: {}, sensor: {} };
+
+const SEVERITY: Record<AlarmLevel, number> = {
+  [AlarmLevel.NO_DATA]: 0,
+  [AlarmLevel.NORMAL]: 1,
+  [AlarmLevel.WARNING]: 2,
+  [AlarmLevel.DANGER]: 3,
+  [AlarmLevel.CRITICAL]: 4
+};
+
+export const severityOf = (level: AlarmLevel) => SEVERITY[level];
+
+export const worstLevel = (levels: AlarmLevel[]) =>
+  levels.reduce((worst, level) => SEVERITY[level] > SEVERITY[worst] ? level : worst, AlarmLevel.NORMAL);
+
+// --- Resolution ---
+
+export interface AlarmRuleTarget {
+  projectId?: string;
+  deviceId?: string;
+  sensorId?: string; // `${deviceId}/${sensorId}`
+}
+
+export const applyOverride = (rules: AlarmRules, override: AlarmRuleOverride | undefined): AlarmRules => {
+  if (!override) return rules;
+  const next = { ...rules };
+  ALARM_CHANNELS.forEach(channel => {
+    const levels = override[channel];
+    if (!levels) return;
+    next[channel] = { ...next[channel] };
+    THRESHOLD_LEVELS.forEach(level => {
+      if (levels[level]) next[channel][level] = { ...next[channel][level], ...levels[level] };
+    });
+    if (levels.qualifier) next[channel].qualifier = levels.qualifier;
+  });
+  return next;
+};
+
+export const resolveAlarmRules = (overrides: AlarmRuleOverrides, { projectId, deviceId, sensorId }: AlarmRuleTarget): AlarmRules => {
+  let rules = DEFAULT_ALARM_RULES;
+  if (projectId) rules = applyOverride(rules, overrides.project[projectId]);
+  if (deviceId) rules = applyOverride(rules, overrides.device[deviceId]);
+  if (sensorId) rules = applyOverride(rules, overrides.sensor[sensorId]);
+  return rules;
+};
+
+export const clearThreshold = (threshold: AlarmThreshold) => ({
+  amp: threshold.clearAmp ?? threshold.amp * DEFAULT_CLEAR_RATIO,
+  freq: threshold.clearFreq ?? threshold.freq * DEFAULT_CLEAR_RATIO
+});
+
+const isValidQualifier = (q: AlarmQualifier | undefined) => {
+  switch (q?.kind) {
+    case undefined:
+    case 'none': return true;
+    case 'count': return Number.isInteger(q.n) && Number.isInteger(q.m) && q.n >= 1 && q.n <= q.m;
+    case 'sustained': return q.minutes > 0;
+    case 'pulseRate': return q.rate >= 0 && Number.isInteger(q.cycles) && q.cycles >= 1;
+  }
+};
+
+// Thresholds must rise from WARNING to CRITICAL on both fields, clear values may not
+// exceed raise values and qualifiers need sensible parameters; returns the first offending channel
+export const findInvalidChannel = (rules: AlarmRules): ChannelType | null => {
+  for (const channel of ALARM_CHANNELS) {
+    const r = rules[channel];
+    const rising = (field: 'amp' | 'freq') =>
+      r[AlarmLevel.WARNING][field] < r[AlarmLevel.DANGER][field] && r[AlarmLevel.DANGER][field] < r[AlarmLevel.CRITICAL][field];
+    const clearsBelow = THRESHOLD_LEVELS.every(level => {
+      const clear = clearThreshold(r[level]);
+      return clear.amp <= r[level].amp && clear.freq <= r[level].freq;
+    });
+    if (!rising('amp') || !rising('freq') || !clearsBelow || !isValidQualifier(r.qualifier)) return channel;
+  }
+  return null;
+};
+
+// --- Evaluation ---
+
+export const getPointAlarmLevel = (rules: AlarmRules, channel: ChannelType, amp: number, freq: number): AlarmLevel => {
+  const channelRules = rules[channel];
+  if (!channelRules) return AlarmLevel.NORMAL;
+  for (const level of THRESHOLD_LEVELS) {
+    if (freq > channelRules[level].freq && amp > channelRules[level].amp) return level;
+  }
+  return AlarmLevel.NORMAL;
+};
+
+const POINT_KEYS: Record<ChannelType, { amp: keyof ChartDataPoint; freq: keyof ChartDataPoint }> = {
+  UHF: { amp: 'uhf_amp', freq: 'uhf_freq' },
+  TEV: { amp: 'tev_amp', freq: 'tev_freq' },
+  HFCT: { amp: 'hfct_amp', freq: 'hfct_freq' },
+  AE: { amp: 'ae_amp', freq: 'ae_freq' },
+};
+
+// Trend points are rated on UHF, TEV and AE only
+const POINT_CHANNELS: ChannelType[] = ['UHF', 'TEV', 'AE'];
+
+export const getPointStatus = (rules: AlarmRules, point: ChartDataPoint): AlarmLevel =>
+  worstLevel(POINT_CHANNELS.map(channel =>
+    getPointAlarmLevel(rules, channel, point[POINT_KEYS[channel].amp] as number, point[POINT_KEYS[channel].freq] as number)));
+
+// --- Qualified Evaluation ---
+
+export interface AlarmSample {
+  time: number; // ms
+  amp: number;
+  freq: number;
+}
+
+const isAbove = (threshold: { amp: number; freq: number }, sample: AlarmSample) =>
+  sample.amp > threshold.amp && sample.freq > threshold.freq;
+
+// Whether samples[end] raises `level` at time `now`: it must cross the threshold and meet the channel's qualifier
+const qualifies = (rules: AlarmRules, channel: ChannelType, level: ThresholdLevel, samples: AlarmSample[], end: number, now: number) => {
+  const threshold = rules[channel][level];
+  if (!isAbove(threshold, samples[end])) return false;
+  const q = rules[channel].qualifier;
+  switch (q?.kind) {
+    case undefined:
+    case 'none':
+      return true;
+    case 'count': {
+      let hits = 0;
+      for (let i = Math.max(0, end - q.m + 1); i <= end; i++) if (isAbove(threshold, samples[i])) hits++;
+      return hits >= q.n;
+    }
+    case 'sustained': {
+      // Held since the first sample of the run that crossed, up to now
+      let start = end;
+      while (start > 0 && isAbove(threshold, samples[start - 1])) start--;
+      return now - samples[start].time >= q.minutes * 60000;
+    }
+    case 'pulseRate': {
+      if (end + 1 < q.cycles) return false;
+      for (let i = end - q.cycles + 1; i <= end; i++) if (samples[i].freq <= q.rate) return false;
+      return true;
+    }
+  }
+};
+
+const qualifiedLevelAt = (rules: AlarmRules, channel: ChannelType, samples: AlarmSample[], end: number, now: number): AlarmLevel =>
+  THRESHOLD_LEVELS.find(level => qualifies(rules, channel, level, samples, end, now)) || AlarmLevel.NORMAL;
+
+// Level still held by a sample under the clear thresholds
+const heldLevel = (rules: AlarmRules, channel: ChannelType, sample: AlarmSample): AlarmLevel =>
+  THRESHOLD_LEVELS.find(level => isAbove(clearThreshold(rules[channel][level]), sample)) || AlarmLevel.NORMAL;
+
+const nextLevelAt = (rules: AlarmRules, channel: ChannelType, samples: AlarmSample[], end: number, current: AlarmLevel, now: number): AlarmLevel => {
+  const raised = qualifiedLevelAt(rules, channel, samples, end, now);
+  if (severityOf(raised) >= severityOf(current)) return raised;
+  // Stepping down needs no qualifier, only the clear thresholds
+  const held = heldLevel(rules, channel, samples[end]);
+  return severityOf(held) < severityOf(current) ? worstLevel([raised, held]) : current;
+};
+
+// Level after the newest sample (last in `samples`), given the level the channel was at. `now` may run
+// past the newest sample while it holds, so a sustained qualifier is met without further readings.
+export const nextLevel = (rules: AlarmRules, channel: ChannelType, samples: AlarmSample[], current: AlarmLevel, now?: number): AlarmLevel =>
+  samples.length === 0 ? current : nextLevelAt(rules, channel, samples, samples.length - 1, current, Math.max(now ?? 0, samples[samples.length - 1].time));
+
+export interface SeriesLevels {
+  raw: AlarmLevel[]; // Single-sample crossing, as getPointStatus rates it
+  qualified: AlarmLevel[]; // After qualifiers and clear thresholds
+  channels: Record<ChannelType, AlarmLevel[]>; // Qualified level per channel
+}
+
+// Rates a trend series point by point, carrying each channel's level from one point to the next
+export const evaluateSeries = (rules: AlarmRules, points: ChartDataPoint[]): SeriesLevels => {
+  const channels = {} as Record<ChannelType, AlarmLevel[]>;
+  ALARM_CHANNELS.forEach(channel => {
+    const samples = points.map(p => ({
+      time: new Date(p.time).getTime(),
+      amp: p[POINT_KEYS[channel].amp] as number,
+      freq: p[POINT_KEYS[channel].freq] as number
+    }));
+    let current: AlarmLevel = AlarmLevel.NORMAL;
+    channels[channel] = samples.map((sample, i) => (current = nextLevelAt(rules, channel, samples, i, current, sample.time)));
+  });
+  return {
+    raw: points.map(p => getPointStatus(rules, p)),
+    qualified: points.map((_, i) => worstLevel(POINT_CHANNELS.map(channel => channels[channel][i]))),
+    channels
+  };
+};
+
+// Device status from its latest channel readings. NO_DATA comes from the source and is kept as is.
+export const rollupDeviceStatus = (device: DeviceSummary, rules: AlarmRules): AlarmLevel => {
+  if (device.status === AlarmLevel.NO_DATA) return AlarmLevel.NO_DATA;
+  return worstLevel([
+    getPointAlarmLevel(rules, 'UHF', device.uhf_amp, device.uhf_freq),
+    getPointAlarmLevel(rules, 'TEV', device.tev_amp, device.tev_freq),
+    getPointAlarmLevel(rules, 'HFCT', device.hfct_amp, device.hfct_freq),
+    getPointAlarmLevel(rules, 'AE', device.ae_amp, device.ae_freq),
+  ]);
+};
@@ -0,0 +1,128 @@
+import { AlarmEvent, AlarmLevel, AnnunciatorProfile, AnnunciatorState, PopupPermission, UserRole } from '../types';
+import { severityOf } from './alarmRules';
+
+// Control-room annunciator. Open, unacknowledged alarms at the levels the user's
+// role listens to sound a tone per level until silenced, raise a desktop popup
+// when they open or escalate, and flash the tab title. Silencing is per event
+// and level, so an escalation sounds again; muting turns sound off for the session.
+
+export const ANNUNCIATOR_PROFILES: Record<UserRole, AnnunciatorProfile> = {
+  super_admin: { levels: [AlarmLevel.WARNING, AlarmLevel.DANGER, AlarmLevel.CRITICAL], sound: true, popup: true },
+  admin: { levels: [AlarmLevel.WARNING, AlarmLevel.DANGER, AlarmLevel.CRITICAL], sound: true, popup: true },
+  operator: { levels: [AlarmLevel.WARNING, AlarmLevel.DANGER, AlarmLevel.CRITICAL], sound: true, popup: true },
+  viewer: { levels: [AlarmLevel.DANGER, AlarmLevel.CRITICAL], sound: false, popup: true }
+};
+
+export const DEFAULT_ANNUNCIATOR_STATE: AnnunciatorState = { muted: false, silenced: [] };
+
+export const LEVEL_LABELS: Partial<Record<AlarmLevel, string>> = {
+  [AlarmLevel.WARNING]: '一级',
+  [AlarmLevel.DANGER]: '二级',
+  [AlarmLevel.CRITICAL]: '三级'
+};
+
+const silenceKey = (event: AlarmEvent) => `${event.id}:${event.level}`;
+
+const isAudible = (event: AlarmEvent, profile: AnnunciatorProfile) =>
+  !event.clearedAt && !event.acknowledgedAt && !event.suppressedBy && profile.levels.includes(event.level);
+
+// Events still calling for attention, loudest first
+export const annunciatedEvents = (events: AlarmEvent[], profile: AnnunciatorProfile, state: AnnunciatorState): AlarmEvent[] =>
+  events
+    .filter(e => isAudible(e, profile) && !state.silenced.includes(silenceKey(e)))
+    .sort((a, b) => severityOf(b.level) - severityOf(a.level));
+
+// Silences everything open at its current level. Keys of events that have since
+// cleared are dropped, so the list stays as short as the open events.
+export const silence = (state: AnnunciatorState, events: AlarmEvent[]): AnnunciatorState => ({
+  ...state,
+  silenced: events.filter(e => !e.clearedAt).map(silenceKey)
+});
+
+// Opened or escalated events worth a popup for this role
+export const popupEvents = (triggers: AlarmEvent[], profile: AnnunciatorProfile) =>
+  profile.popup ? triggers.filter(e => isAudible(e, profile)) : [];
+
+// --- Sound ---
+
+// Beep frequencies (Hz) and lengths per level, and how often the pattern repeats
+const TONES: Partial<Record<AlarmLevel, { freqs: number[]; beepMs: number; repeatMs: number }>> = {
+  [AlarmLevel.WARNING]: { freqs: [660], beepMs: 300, repeatMs: 10000 },
+  [AlarmLevel.DANGER]: { freqs: [880, 880], beepMs: 200, repeatMs: 5000 },
+  [AlarmLevel.CRITICAL]: { freqs: [1320, 990, 1320, 990], beepMs: 150, repeatMs: 2000 }
+};
+
+export const toneRepeatMs = (level: AlarmLevel) => TONES[level]?.repeatMs ?? 0;
+
+let audio: AudioContext | null = null;
+
+const audioContext = () => {
+  if (typeof AudioContext === 'undefined') return null;
+  audio ??= new AudioContext();
+  return audio;
+};
+
+// Browsers keep audio suspended until the page sees a user gesture; call this from one
+export const unlockAudio = () => {
+  const ctx = audioContext();
+  if (ctx?.state === 'suspended') ctx.resume().catch(() => undefined);
+};
+
+export const playTone = (level: AlarmLevel) => {
+  const tone = TONES[level];
+  const ctx = audioContext();
+  if (!tone || !ctx) return;
+  if (ctx.state === 'suspended') ctx.resume().catch(() => undefined);
+  const length = tone.beepMs / 1000;
+  tone.freqs.forEach((freq, i) => {
+    const start = ctx.currentTime + i * length * 1.5;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = 'square';
+    osc.frequency.value = freq;
+    gain.gain.setValueAtTime(0.15, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + length);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(start);
+    osc.stop(start + length);
+  });
+};
+
+// --- Desktop Popups ---
+
+export const popupPermission = (): PopupPermission =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+export const requestPopups = async (): Promise<PopupPermission> =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.requestPermission();
+
+// One popup per event; a later popup for the same event replaces the earlier one
+export const showPopup = (event: AlarmEvent, projectName: string, onClick: () => void) => {
+  if (popupPermission() !== 'granted') return;
+  const popup = new Notification(`[${LEVEL_LABELS[event.level] ?? event.level}] ${event.deviceName} 局放告警`, {
+    body: `${projectName} / ${event.channel}`,
+    tag: event.id,
+    requireInteraction: event.level === AlarmLevel.CRITICAL
+  });
+  popup.onclick = () => {
+    window.focus();
+    onClick();
+    popup.close();
+  };
+};
+
+// --- Tab Title ---
+
+// Alternates the tab title with a banner until the returned function is called
+export const flashTitle = (banner: string, intervalMs = 1000) => {
+  const original = document.title;
+  let showBanner = false;
+  const timer = setInterval(() => {
+    showBanner = !showBanner;
+    document.title = showBanner ? banner : original;
+  }, intervalMs);
+  return () => {
+    clearInterval(timer);
+    document.title = original;
+  };
+};
@@ -0,0 +1,110 @@
+import { AnomalyDirection, AnomalySensitivity, ChartDataPoint, SeriesAnomalies } from '../types';
+import { ALARM_CHANNELS } from './alarmRules';
+import { READING_KEYS } from './signalConditioning';
+
+// Adaptive baselines for the trend charts. Each channel's amplitude and pulse
+// rate are compared with the same sensor's own readings over the preceding two
+// weeks at the same time of day. A reading further from their median than the
+// sensitivity allows, counted in robust standard deviations (1.4826 × MAD), is
+// an anomaly. Alarm thresholds play no part: a sensor with a loud background is
+// judged against that background, a quiet one against its quiet.
+
+export const ANOMALY_SENSITIVITY: Record<AnomalySensitivity, { label: string; limit: number }> = {
+  low: { label: '低', limit: 5 },
+  medium: { label: '中', limit: 3.5 },
+  high: { label: '高', limit: 2.5 }
+};
+
+export const DEFAULT_ANOMALY_SENSITIVITY: AnomalySensitivity = 'medium';
+
+export const BASELINE_DAYS = 14;
+
+const BASELINE_MS = BASELINE_DAYS * 24 * 60 * 60 * 1000;
+const BAND_HOURS = 4; // The day is split into bands with a baseline each
+const MIN_BASELINE = 24; // Readings a band needs before anything is judged against it
+const MAD_TO_SIGMA = 1.4826;
+const MIN_SIGMA = { amp: 0.5, freq: 1 }; // Keeps very steady sensors from flagging every wobble
+
+interface Reading {
+  time: number;
+  value: number;
+}
+
+// First index whose value is not below `value`
+const lowerBound = (sorted: number[], value: number) => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+const middle = (sorted: number[]) => {
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Median absolute deviation: distances either side of the median merge outward in order
+const mad = (sorted: number[], centre: number) => {
+  const deviations: number[] = [];
+  let left = lowerBound(sorted, centre) - 1;
+  let right = left + 1;
+  while (deviations.length <= sorted.length >> 1) {
+    const below = left >= 0 ? centre - sorted[left] : Infinity;
+    const above = right < sorted.length ? sorted[right] - centre : Infinity;
+    if (below <= above) { deviations.push(below); left--; }
+    else { deviations.push(above); right++; }
+  }
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? deviations[mid] : (deviations[mid - 1] + deviations[mid]) / 2;
+};
+
+const bandOf = (time: number) => Math.floor(new Date(time).getHours() / BAND_HOURS);
+
+// Baseline of one band over the BASELINE_MS before `time`, kept sorted as the
+// window slides. Calls must come in time order.
+const rollingBaseline = (readings: Reading[]) => {
+  const sorted: number[] = [];
+  let from = 0;
+  let to = 0;
+  return (time: number) => {
+    for (; to < readings.length && readings[to].time < time; to++) {
+      sorted.splice(lowerBound(sorted, readings[to].value), 0, readings[to].value);
+    }
+    for (; from < to && readings[from].time < time - BASELINE_MS; from++) {
+      sorted.splice(lowerBound(sorted, readings[from].value), 1);
+    }
+    if (sorted.length < MIN_BASELINE) return null;
+    const centre = middle(sorted);
+    return { centre, spread: MAD_TO_SIGMA * mad(sorted, centre) };
+  };
+};
+
+// Flags each of `points` against baselines learnt from `reference`, which should
+// cover the BASELINE_DAYS before the first point as well as the points' own span.
+// Both must be in time order; points without a full baseline are never flagged.
+export const detectAnomalies = (reference: ChartDataPoint[], points: ChartDataPoint[], sensitivity: AnomalySensitivity): SeriesAnomalies => {
+  const limit = ANOMALY_SENSITIVITY[sensitivity].limit;
+  const referenceTimes = reference.map(p => new Date(p.time).getTime());
+  const referenceBands = referenceTimes.map(bandOf);
+  const pointTimes = points.map(p => new Date(p.time).getTime());
+
+  const judge = (key: keyof ChartDataPoint, field: 'amp' | 'freq'): (AnomalyDirection | null)[] => {
+    const baselines = Array.from({ length: 24 / BAND_HOURS }, (_, band) => rollingBaseline(
+      reference.flatMap((p, i) => referenceBands[i] === band ? [{ time: referenceTimes[i], value: p[key] as number }] : [])));
+    return points.map((p, i) => {
+      const baseline = baselines[bandOf(pointTimes[i])](pointTimes[i]);
+      if (!baseline) return null;
+      const z = ((p[key] as number) - baseline.centre) / Math.max(MIN_SIGMA[field], baseline.spread);
+      return z > limit ? 'high' : z < -limit ? 'low' : null;
+    });
+  };
+
+  return Object.fromEntries(ALARM_CHANNELS.map(channel => [channel, {
+    amp: judge(READING_KEYS[channel].amp, 'amp'),
+    freq: judge(READING_KEYS[channel].freq, 'freq')
+  }])) as SeriesAnomalies;
+};
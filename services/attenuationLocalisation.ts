@@ -0,0 +1,108 @@
+import { AlarmLevel, AttenuationEstimate, ChannelAttenuation, ChannelType, HeatCell, Vec3 } from '../types';
+import { GIS_COMPARTMENTS, getDistance } from '../constants';
+import { DEFAULT_ALARM_RULES } from './alarmRules';
+import { TWIN_UNITS_PER_METRE } from './localisation';
+
+// Amplitude-attenuation localisation for sites without synchronous sampling.
+// Readings are put on one scale (dB over each channel's warning threshold), and
+// every point of a grid over the bay is scored by how well one source there,
+// losing signal with distance and at each basin insulator, explains them. The
+// normalised scores form the probability heatmap.
+
+export const CHANNEL_ATTENUATION: Record<ChannelType, ChannelAttenuation> = {
+  UHF: { perMetreDb: 6, perBarrierDb: 4 },
+  TEV: { perMetreDb: 10, perBarrierDb: 3 },
+  HFCT: { perMetreDb: 5, perBarrierDb: 1 },
+  AE: { perMetreDb: 20, perBarrierDb: 15 } // Sound barely crosses an insulator
+};
+
+const DETECTION_DB = -3; // Readings below this are background: the source is at most this loud there
+const SIGMA_DB = 4; // Spread of readings around the model
+const MIN_SENSORS = 3;
+
+// Candidate grid, twin units. Only points inside a compartment can hold a source.
+const CELL = 20;
+const GRID = { x: [-240, 240], y: [-20, 100], z: [-30, 30] };
+
+export interface AmplitudeReading {
+  sensorId: string;
+  channel: ChannelType;
+  amplitude: number; // dBmV
+  position: Vec3;
+}
+
+// Index into GIS_COMPARTMENTS of the one nearest `x`
+export const compartmentOf = (x: number) => {
+  let best = 0;
+  GIS_COMPARTMENTS.forEach((c, i) => {
+    const centre = (c.minX + c.maxX) / 2;
+    const bestCentre = (GIS_COMPARTMENTS[best].minX + GIS_COMPARTMENTS[best].maxX) / 2;
+    if (Math.abs(x - centre) < Math.abs(x - bestCentre)) best = i;
+  });
+  return best;
+};
+
+const range = ([from, to]: number[]) => Array.from({ length: Math.floor((to - from) / CELL) + 1 }, (_, i) => from + i * CELL);
+
+// Expected loss (dB) from `source` to a sensor
+const lossDb = (source: Vec3, reading: AmplitudeReading, models: Record<ChannelType, ChannelAttenuation>) => {
+  const model = models[reading.channel];
+  const barriers = Math.abs(compartmentOf(source[0]) - compartmentOf(reading.position[0]));
+  return model.perMetreDb * getDistance(source, reading.position) / TWIN_UNITS_PER_METRE + model.perBarrierDb * barriers;
+};
+
+// Misfit of a source at `source`, with its strength set to best explain the detections
+const misfit = (source: Vec3, levels: number[], readings: AmplitudeReading[], models: Record<ChannelType, ChannelAttenuation>) => {
+  const losses = readings.map(r => lossDb(source, r, models));
+  const detected = levels.flatMap((level, i) => level > DETECTION_DB ? [i] : []);
+  const strength = detected.reduce((sum, i) => sum + levels[i] + losses[i], 0) / detected.length;
+  return levels.reduce((sum, level, i) => {
+    const predicted = strength - losses[i];
+    // Background sensors only object when the model says they should have heard it
+    const error = level > DETECTION_DB ? predicted - level : Math.max(0, predicted - DETECTION_DB);
+    return sum + error * error;
+  }, 0);
+};
+
+// Null without enough sensors or when no sensor stands out from the background
+export const locateByAttenuation = (
+  readings: AmplitudeReading[],
+  models: Record<ChannelType, ChannelAttenuation> = CHANNEL_ATTENUATION
+): AttenuationEstimate | null => {
+  if (readings.length < MIN_SENSORS) return null;
+  const levels = readings.map(r => r.amplitude - DEFAULT_ALARM_RULES[r.channel][AlarmLevel.WARNING].amp);
+  if (!levels.some(l => l > DETECTION_DB)) return null;
+
+  const points: { position: Vec3; sse: number }[] = [];
+  range(GRID.x).filter(x => GIS_COMPARTMENTS.some(c => x >= c.minX && x <= c.maxX)).forEach(x =>
+    range(GRID.y).forEach(y => range(GRID.z).forEach(z => {
+      const position: Vec3 = [x, y, z];
+      points.push({ position, sse: misfit(position, levels, readings, models) });
+    })));
+
+  // Relative to the best fit so the exponentials stay in range
+  const bestSse = Math.min(...points.map(p => p.sse));
+  const weights = points.map(p => Math.exp(-(p.sse - bestSse) / (2 * SIGMA_DB ** 2)));
+  const total = weights.reduce((a, b) => a + b, 0);
+
+  // Collapse depth: the heatmap is drawn on the front view
+  const byCell = new Map<string, HeatCell & { depth: number }>();
+  points.forEach((p, i) => {
+    const key = `${p.position[0]}:${p.position[1]}`;
+    const cell = byCell.get(key) ?? { x: p.position[0], y: p.position[1], probability: 0, depth: 0 };
+    cell.probability += weights[i] / total;
+    cell.depth += p.position[2] * weights[i] / total;
+    byCell.set(key, cell);
+  });
+  const cells = [...byCell.values()];
+  const peak = cells.reduce((a, b) => b.probability > a.probability ? b : a);
+  const position: Vec3 = [peak.x, peak.y, peak.depth / peak.probability];
+
+  return {
+    position,
+    cells: cells.map(({ x, y, probability }) => ({ x, y, probability })),
+    cellSize: CELL,
+    residualDb: Math.sqrt(misfit(position, levels, readings, models) / readings.length),
+    sensorIds: readings.map(r => r.sensorId)
+  };
+};
@@ -0,0 +1,149 @@
+import { ChannelCoincidence, ChannelType, CompartmentConfirmation, ConditioningSettings, PdConfirmation, PulseRecord, SensorData } from '../types';
+import { GIS_COMPARTMENTS, SENSOR_TEMPLATE } from '../constants';
+import { dataProvider } from './dataProvider';
+import { ALARM_CHANNELS } from './alarmRules';
+import { compartmentOf } from './attenuationLocalisation';
+import { conditionPulses } from './signalConditioning';
+
+// Cross-channel confirmation. A pulse on one sensor type alone may well be
+// interference; the same discharges timed on a second type in the same gas
+// compartment are far more credible. Sensors are grouped by compartment, their
+// conditioned pulses matched within each pair's coincidence window, and the
+// matches beyond what chance would give turn into a confidence per compartment.
+
+export type ConfirmationSensor = Pick<SensorData, 'id' | 'type' | 'location' | 'position3d'> & { isOnline?: boolean };
+
+export interface SensorPulses {
+  sensor: ConfirmationSensor;
+  pulses: PulseRecord[]; // Conditioned, in time order
+}
+
+// Electrical channels see a discharge within nanoseconds of each other; its
+// sound reaches the AE sensor up to a few milliseconds later
+const ELECTRICAL_WINDOW_MS = 1e-3;
+const AE_WINDOW_MS = 3;
+
+// Sound and electromagnetic waves do not share interference, so agreement with AE counts for more
+const PAIR_WEIGHT = { acoustic: 0.9, electrical: 0.65 };
+
+const MIN_PULSES = 10; // A sensor with fewer conditioned pulses is not counted as active
+const MIN_COINCIDENCES = 5;
+export const CONFIRM_CONFIDENCE = 0.6;
+
+// --- Grouping ---
+
+// Compartment named at the start of the location, else the one the sensor sits in
+export const sensorCompartment = (sensor: ConfirmationSensor) =>
+  GIS_COMPARTMENTS.find(c => sensor.location?.split(' ')[0] === c.id)?.id ?? GIS_COMPARTMENTS[compartmentOf(sensor.position3d[0])].id;
+
+// Sensors of the device template under the ids snapshots give them
+export const templateSensors = (deviceId: string): ConfirmationSensor[] =>
+  SENSOR_TEMPLATE.map(s => ({ id: `${deviceId}-${s.id}`, type: s.type || '', location: s.location || '', position3d: s.position3d || [0, 0, 0] }));
+
+const isChannel = (type: string): type is ChannelType => (ALARM_CHANNELS as string[]).includes(type);
+
+// --- Coincidence ---
+
+// First index whose timestamp is not below `time`
+const firstFrom = (pulses: PulseRecord[], time: number) => {
+  let low = 0;
+  let high = pulses.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (pulses[mid].timestamp < time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+// Pulses on `a` with a partner on `b` within [from, to] ms after them, against
+// the share a random scatter of `b`'s pulses over `spanMs` would give
+const coincide = (a: PulseRecord[], b: PulseRecord[], from: number, to: number, spanMs: number) => {
+  const matched = a.filter(p => {
+    const i = firstFrom(b, p.timestamp + from);
+    return i < b.length && b[i].timestamp <= p.timestamp + to;
+  }).length;
+  const chance = 1 - Math.exp(-(b.length / spanMs) * (to - from));
+  const observed = a.length > 0 ? matched / a.length : 0;
+  const excess = matched < MIN_COINCIDENCES || chance >= 1 ? 0 : Math.max(0, (observed - chance) / (1 - chance));
+  return { matched, excess };
+};
+
+const pairOf = (x: SensorPulses, y: SensorPulses, spanMs: number): ChannelCoincidence & { weight: number } => {
+  // The electrical sensor leads; AE only ever lags
+  const [first, second] = x.sensor.type === 'AE' ? [y, x] : [x, y];
+  const acoustic = second.sensor.type === 'AE';
+  const { matched, excess } = acoustic
+    ? coincide(first.pulses, second.pulses, 0, AE_WINDOW_MS, spanMs)
+    : coincide(first.pulses, second.pulses, -ELECTRICAL_WINDOW_MS, ELECTRICAL_WINDOW_MS, spanMs);
+  return {
+    sensorIds: [first.sensor.id, second.sensor.id],
+    channels: [first.sensor.type as ChannelType, second.sensor.type as ChannelType],
+    matched,
+    excess: Math.round(excess * 100) / 100,
+    weight: acoustic ? PAIR_WEIGHT.acoustic : PAIR_WEIGHT.electrical
+  };
+};
+
+const confirmCompartment = (compartment: string, samples: SensorPulses[], spanMs: number): CompartmentConfirmation => {
+  const active = samples.filter(s => s.pulses.length >= MIN_PULSES);
+  const pairs = active.flatMap((x, i) => active.slice(i + 1)
+    .filter(y => y.sensor.type !== x.sensor.type)
+    .map(y => pairOf(x, y, spanMs)));
+  const confidence = 1 - pairs.reduce((doubt, p) => doubt * (1 - p.weight * p.excess), 1);
+  return {
+    compartment,
+    sensorIds: samples.map(s => s.sensor.id),
+    activeSensorIds: active.map(s => s.sensor.id),
+    pairs: pairs.map(({ weight, ...pair }) => pair),
+    confidence: Math.round(confidence * 100) / 100,
+    confirmed: confidence >= CONFIRM_CONFIDENCE
+  };
+};
+
+// Sensors that are offline or on no known channel are left out. `spanMs` is the
+// acquisition the pulses were taken over.
+export const confirmPd = (samples: SensorPulses[], spanMs: number): PdConfirmation => {
+  const usable = samples.filter(s => s.sensor.isOnline !== false && isChannel(s.sensor.type));
+  const compartments = GIS_COMPARTMENTS
+    .map(c => confirmCompartment(c.id, usable.filter(s => sensorCompartment(s.sensor) === c.id), spanMs))
+    .filter(c => c.sensorIds.length > 0);
+  const confidence = Math.max(0, ...compartments.map(c => c.confidence));
+  return { compartments, confidence, confirmed: compartments.some(c => c.confirmed) };
+};
+
+// Conditions each sensor's pulses for the acquisition ending at `time` (ISO) and confirms them
+export const loadPdConfirmation = async (
+  deviceId: string,
+  time: string,
+  settings: ConditioningSettings,
+  sensors: ConfirmationSensor[] = templateSensors(deviceId)
+): Promise<PdConfirmation> => {
+  const reference = await dataProvider.getReferencePulses(deviceId, time);
+  const samples = await Promise.all(sensors.filter(s => isChannel(s.type)).map(async sensor => {
+    const channel = sensor.type as ChannelType;
+    const records = await dataProvider.getPulseRecords(sensor.id, channel, time);
+    return { sensor, records, pulses: conditionPulses(records, reference, settings[channel]).accepted };
+  }));
+  // Background pulses run through the whole acquisition, so together they mark its span
+  const times = samples.flatMap(s => s.records.map(r => r.timestamp));
+  const spanMs = times.length > 1 ? Math.max(...times) - Math.min(...times) : 0;
+  return spanMs > 0 ? confirmPd(samples, spanMs) : confirmPd([], 1);
+};
+
+// --- Report ---
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+// Conclusion sentence for the diagnosis report; empty while no sensor shows PD
+export const describePdConfirmation = (confirmation: PdConfirmation) => {
+  const best = confirmation.compartments
+    .filter(c => c.activeSensorIds.length > 0)
+    .sort((a, b) => b.confidence - a.confidence)[0];
+  if (!best) return '';
+  if (best.confirmed) {
+    const agreeing = [...new Set(best.pairs.filter(p => p.excess > 0).flatMap(p => p.channels))];
+    return `多通道印证：${best.compartment} 气室 ${agreeing.join('、')} 脉冲时间同步（置信度 ${percent(best.confidence)}），确认为设备内部局部放电。`;
+  }
+  return `多通道印证：局放信号未获其他通道同步印证（置信度 ${percent(best.confidence)}），不排除外部干扰，建议结合带电检测复核。`;
+};
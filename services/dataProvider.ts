@@ -0,0 +1,7 @@
+import { DataProvider } from '../types';
+import { createSimulatedDataProvider } from './simulatedDataProvider';
+import { resolveScenario } from './scenarios';
+
+// Single swap point for the data source. Replace the simulator with a
+// backend-backed DataProvider here; components only depend on the interface.
+export const dataProvider: DataProvider = createSimulatedDataProvider(resolveScenario(new URLSearchParams(window.location.search)));
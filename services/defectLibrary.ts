@@ -0,0 +1,93 @@
+import { DefectGrowth, DefectModel, DefectType } from '../types';
+
+// Characteristic behaviour of each GIS defect type. The simulator takes phase
+// distribution, pulse rate, per-channel response and growth from here, so the
+// PRPD/PRPS charts, trend series and device status all tell the same story.
+export const DEFECT_MODELS: Record<DefectType, DefectModel> = {
+  floating: {
+    type: 'floating',
+    name: '悬浮电位放电',
+    signature: '两簇对称、幅值稳定且接近的脉冲，重复率低；超声信号强，与特高频同步出现',
+    typicalZoneId: 'U1',
+    phaseClusters: [{ center: 60, spread: 25, weight: 0.5 }, { center: 240, spread: 25, weight: 0.5 }],
+    amplitude: 'flat',
+    pulseRate: 4,
+    channelGain: { UHF: 1, TEV: 0.8, HFCT: 0.6, AE: 0.9 },
+    growth: 'step',
+    external: false,
+  },
+  corona: {
+    type: 'corona',
+    name: '尖端电晕放电',
+    signature: '脉冲集中在负半周峰值附近，幅值小、数量多；高频电流比特高频更灵敏',
+    typicalZoneId: 'T',
+    phaseClusters: [{ center: 270, spread: 20, weight: 1 }],
+    amplitude: 'low',
+    pulseRate: 12,
+    channelGain: { UHF: 0.5, TEV: 0.4, HFCT: 0.8, AE: 0.3 },
+    growth: 'linear',
+    external: false,
+  },
+  void: {
+    type: 'void',
+    name: '绝缘内部气隙放电',
+    signature: '正负半周上升沿各一簇，幅值随工频正弦包络变化；超声信号弱',
+    typicalZoneId: 'CB',
+    phaseClusters: [{ center: 45, spread: 30, weight: 0.5 }, { center: 225, spread: 30, weight: 0.5 }],
+    amplitude: 'sine',
+    pulseRate: 8,
+    channelGain: { UHF: 1, TEV: 0.6, HFCT: 0.5, AE: 0.2 },
+    growth: 'accelerating',
+    external: false,
+  },
+  particle: {
+    type: 'particle',
+    name: '自由金属微粒',
+    signature: '相位分布无规律，幅值离散大、偶发大脉冲；超声信号最强，放电时有时无',
+    typicalZoneId: 'CB',
+    phaseClusters: [],
+    amplitude: 'heavy-tail',
+    pulseRate: 2,
+    channelGain: { UHF: 0.7, TEV: 0.4, HFCT: 0.3, AE: 1 },
+    growth: 'intermittent',
+    external: false,
+  },
+  surface: {
+    type: 'surface',
+    name: '沿面放电',
+    signature: '正负半周两簇不对称、相位展宽大，幅值随时间持续增长',
+    typicalZoneId: 'T',
+    phaseClusters: [{ center: 30, spread: 40, weight: 0.65 }, { center: 210, spread: 40, weight: 0.35 }],
+    amplitude: 'sine',
+    pulseRate: 6,
+    channelGain: { UHF: 0.8, TEV: 0.7, HFCT: 0.6, AE: 0.4 },
+    growth: 'accelerating',
+    external: false,
+  },
+  interference: {
+    type: 'interference',
+    name: '外部干扰',
+    signature: '全相位均匀分布、幅值恒定，各测点读数相近；超声无响应，不应判为内部缺陷',
+    typicalZoneId: 'CB',
+    phaseClusters: [],
+    amplitude: 'flat',
+    pulseRate: 10,
+    channelGain: { UHF: 1, TEV: 0.5, HFCT: 0.2, AE: 0 },
+    growth: 'constant',
+    external: true,
+  },
+};
+
+export const DEFECT_TYPES = Object.keys(DEFECT_MODELS) as DefectType[];
+
+// Development factor 0..1 from ramp progress 0..1. `burst` is a slowly varying
+// 0..1 draw used by defects that come and go.
+export const applyGrowth = (growth: DefectGrowth, progress: number, burst: number) => {
+  switch (growth) {
+    case 'linear': return progress;
+    case 'accelerating': return progress * progress;
+    case 'step': return progress < 0.5 ? progress * 0.3 : 1; // Barely visible until the contact gives way
+    case 'intermittent': return progress * (burst > 0.55 ? 1 : 0.4);
+    case 'constant': return 1;
+  }
+};
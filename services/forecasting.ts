@@ -0,0 +1,213 @@
+import { AlarmLevel, AlarmRules, ChannelType, Forecast, ForecastModel, ForecastPoint, ThresholdCrossing, ThresholdLevel } from '../types';
+import { DEFAULT_ALARM_RULES } from './alarmRules';
+import { DailyValue, HISTORY_DAYS } from './deviceHistory';
+
+// Forecasts of the daily device history. Three models are fitted robustly
+// (Theil–Sen, so a few bad days do not tilt them): a straight line, an
+// exponential (a line through the logs) and a line plus an hour-of-day profile.
+// Whichever best predicts the last fifth of the history from the rest is refitted
+// on all of it and projected forward with a 90% prediction band, and the days
+// left until each alarm threshold are read off the projection.
+
+export const FORECAST_MODEL_LABELS: Record<ForecastModel, string> = {
+  linear: '稳健线性',
+  exponential: '指数增长',
+  diurnal: '线性 + 日周期'
+};
+
+export const FORECAST_DAYS = 30; // Drawn ahead of the history
+export const SEARCH_DAYS = 365; // How far ahead threshold crossings are looked for
+
+const MODELS: ForecastModel[] = ['linear', 'exponential', 'diurnal']; // Simplest first, it wins ties
+const FORECAST_LEVELS: ThresholdLevel[] = [AlarmLevel.DANGER, AlarmLevel.CRITICAL];
+const MIN_POINTS = 14;
+const HOLDOUT = 0.2;
+const Z90 = 1.645;
+const MAD_TO_SIGMA = 1.4826;
+const LOG_FLOOR = 0.1; // Keeps quiet days out of log(0)
+const MIN_DIURNAL_HOURS = 12; // Hours of the day the history must cover before the diurnal model competes
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The device history has no channel of its own; it is rated on the UHF thresholds
+const FORECAST_CHANNEL: ChannelType = 'UHF';
+
+interface Sample {
+  x: number; // Days since the first reading
+  hour: number;
+  y: number;
+}
+
+// Line plus hour-of-day offsets, on the log scale for the exponential model
+interface Fit {
+  slope: number;
+  intercept: number;
+  profile: number[]; // 24 offsets, all 0 unless diurnal
+  log: boolean;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+// --- Fitting ---
+
+const theilSen = (xs: number[], ys: number[]) => {
+  const slopes: number[] = [];
+  for (let i = 0; i < xs.length; i++) {
+    for (let j = i + 1; j < xs.length; j++) {
+      if (xs[j] !== xs[i]) slopes.push((ys[j] - ys[i]) / (xs[j] - xs[i]));
+    }
+  }
+  const slope = slopes.length > 0 ? median(slopes) : 0;
+  return { slope, intercept: median(ys.map((y, i) => y - slope * xs[i])) };
+};
+
+const scaled = (fit: Fit, y: number) => fit.log ? Math.log(Math.max(LOG_FLOOR, y)) : y;
+const unscaled = (fit: Fit, v: number) => fit.log ? Math.exp(v) : v;
+const predict = (fit: Fit, x: number, hour: number) => fit.intercept + fit.slope * x + fit.profile[hour];
+
+// Null when the samples cannot support the model
+const fitModel = (model: ForecastModel, samples: Sample[]): Fit | null => {
+  const log = model === 'exponential';
+  const xs = samples.map(s => s.x);
+  const ys = samples.map(s => log ? Math.log(Math.max(LOG_FLOOR, s.y)) : s.y);
+  const { slope, intercept } = theilSen(xs, ys);
+  const profile = new Array(24).fill(0);
+  if (model === 'diurnal') {
+    const byHour: number[][] = Array.from({ length: 24 }, () => []);
+    samples.forEach((s, i) => byHour[s.hour].push(ys[i] - (intercept + slope * s.x)));
+    if (byHour.filter(r => r.length > 0).length < MIN_DIURNAL_HOURS) return null;
+    byHour.forEach((residuals, hour) => { if (residuals.length > 0) profile[hour] = median(residuals); });
+  }
+  return { slope, intercept, profile, log };
+};
+
+// Mean absolute error on the held-out tail of a fit to everything before it
+const holdoutError = (model: ForecastModel, samples: Sample[]) => {
+  const split = Math.floor(samples.length * (1 - HOLDOUT));
+  const fit = fitModel(model, samples.slice(0, split));
+  if (!fit) return null;
+  const tail = samples.slice(split);
+  return tail.reduce((sum, s) => sum + Math.abs(unscaled(fit, predict(fit, s.x, s.hour)) - s.y), 0) / tail.length;
+};
+
+// --- Forecast ---
+
+// Null with fewer than MIN_POINTS readings
+export const forecastSeries = (values: DailyValue[], thresholds: Partial<Record<ThresholdLevel, number>>): Forecast | null => {
+  if (values.length < MIN_POINTS) return null;
+  const t0 = new Date(values[0].time).getTime();
+  const samples: Sample[] = values.map(v => {
+    const t = new Date(v.time);
+    return { x: (t.getTime() - t0) / DAY_MS, hour: t.getHours(), y: v.value };
+  });
+
+  const scored = MODELS.map(model => ({ model, error: holdoutError(model, samples) }))
+    .filter((m): m is { model: ForecastModel; error: number } => m.error !== null);
+  const model = scored.reduce((best, m) => m.error < best.error ? m : best).model;
+  const fit = fitModel(model, samples)!;
+
+  // Prediction band widens with distance from the centre of the history
+  const residuals = samples.map(s => scaled(fit, s.y) - predict(fit, s.x, s.hour));
+  const sigma = MAD_TO_SIGMA * median(residuals.map(Math.abs));
+  const meanX = samples.reduce((sum, s) => sum + s.x, 0) / samples.length;
+  const sxx = samples.reduce((sum, s) => sum + (s.x - meanX) ** 2, 0);
+  const halfWidth = (x: number) => Z90 * sigma * Math.sqrt(1 + 1 / samples.length + (sxx > 0 ? (x - meanX) ** 2 / sxx : 0));
+
+  const last = samples[samples.length - 1];
+  const lastTime = new Date(values[values.length - 1].time).getTime();
+  const at = (day: number) => {
+    const x = last.x + day;
+    const centre = predict(fit, x, last.hour);
+    return { x, centre, band: halfWidth(x) };
+  };
+
+  const points: ForecastPoint[] = Array.from({ length: FORECAST_DAYS + 1 }, (_, day) => {
+    const { centre, band } = at(day);
+    return {
+      time: new Date(lastTime + day * DAY_MS).toISOString(),
+      value: round1(Math.max(0, unscaled(fit, centre))),
+      lower: round1(Math.max(0, unscaled(fit, centre - band))),
+      upper: round1(unscaled(fit, centre + band))
+    };
+  });
+
+  // Crossings are judged on each day's peak hour
+  const toPeak = Math.max(...fit.profile) - fit.profile[last.hour];
+  const firstDay = (band: number) => (threshold: number) => {
+    for (let day = 0; day <= SEARCH_DAYS; day++) {
+      const { centre, band: width } = at(day);
+      if (unscaled(fit, centre + toPeak + band * width) >= threshold) return day;
+    }
+    return null;
+  };
+  const crossings: ThresholdCrossing[] = FORECAST_LEVELS.flatMap(level => {
+    const threshold = thresholds[level];
+    if (threshold === undefined) return [];
+    if (last.y >= threshold) return [{ level, threshold, days: 0, earliestDays: 0 }];
+    return [{ level, threshold, days: firstDay(0)(threshold), earliestDays: firstDay(1)(threshold) }];
+  });
+
+  return { model, points, crossings };
+};
+
+export interface HistoryForecast {
+  amplitude: Forecast | null;
+  rate: Forecast | null; // Null too while fewer days than needed have a recorded rate
+}
+
+export const forecastHistory = (history: DailyValue[], rules: AlarmRules = DEFAULT_ALARM_RULES): HistoryForecast => {
+  const values = history.slice(-HISTORY_DAYS);
+  const channel = rules[FORECAST_CHANNEL];
+  const thresholds = (field: 'amp' | 'freq') => Object.fromEntries(FORECAST_LEVELS.map(level => [level, channel[level][field]]));
+  return {
+    amplitude: forecastSeries(values, thresholds('amp')),
+    rate: forecastSeries(values.flatMap(v => v.rate !== undefined ? [{ time: v.time, value: v.rate }] : []), thresholds('freq'))
+  };
+};
+
+// --- Report ---
+
+const LEVEL_NAMES: Record<ThresholdLevel, string> = {
+  [AlarmLevel.WARNING]: '一级',
+  [AlarmLevel.DANGER]: '二级',
+  [AlarmLevel.CRITICAL]: '三级'
+};
+
+const PLANNING_DAYS = 90; // Crossings further out than this are left to routine planning
+
+const describeCrossing = (c: ThresholdCrossing) => {
+  const name = LEVEL_NAMES[c.level];
+  if (c.days === 0) return `已达${name}阈值`;
+  if (c.days !== null) return `约 ${c.days} 天后达${name}阈值（最早 ${c.earliestDays} 天）`;
+  if (c.earliestDays !== null) return `${SEARCH_DAYS} 天内预计不达${name}阈值（最早 ${c.earliestDays} 天）`;
+  return `${SEARCH_DAYS} 天内不达${name}阈值`;
+};
+
+// Higher levels are only mentioned once the one below could be reached
+const describeForecast = (label: string, forecast: Forecast) => {
+  const parts: string[] = [];
+  for (const c of forecast.crossings) {
+    parts.push(describeCrossing(c));
+    if (c.earliestDays === null) break;
+  }
+  return `${label}（${FORECAST_MODEL_LABELS[forecast.model]}模型）${parts.join('，')}`;
+};
+
+// Conclusion sentence for the diagnosis report; empty when there is nothing to forecast
+export const describeHistoryForecast = ({ amplitude, rate }: HistoryForecast) => {
+  const parts = [
+    amplitude && describeForecast(`${FORECAST_CHANNEL} 幅值`, amplitude),
+    rate && describeForecast('放电频次', rate)
+  ].filter((p): p is string => !!p);
+  if (parts.length === 0) return '';
+
+  const ahead = [amplitude, rate].flatMap(f => f?.crossings ?? [])
+    .flatMap(c => c.days !== 0 && c.earliestDays !== null && c.earliestDays <= PLANNING_DAYS ? [c.earliestDays] : []);
+  const advice = ahead.length > 0 ? `按最早预计时间，建议在 ${Math.min(...ahead)} 天内安排停电检修。` : '';
+  return `趋势预测：${parts.join('；')}。${advice}`;
+};
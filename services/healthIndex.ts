@@ -0,0 +1,110 @@
+import { AlarmLevel, AlarmRules, DeviceSummary, HealthIndex, HealthIndicator, HealthWeightOverrides, HealthWeights, PdConfirmation, TrendAlarmRules } from '../types';
+import { deviceReadings } from './alarmEvents';
+import { TrendMetrics } from './deviceHistory';
+
+// Device health index: six indicators, each a 0–1 stress, combined by weights
+// set per device type into a 0–100 score where 100 means no sign of trouble.
+// Unlike the alarm status it moves before any threshold is crossed, so devices
+// in the same status can still be ranked.
+
+export const HEALTH_INDICATORS: HealthIndicator[] = ['amplitude', 'repetition', 'growth', 'confirmation', 'environment', 'availability'];
+
+export const HEALTH_INDICATOR_LABELS: Record<HealthIndicator, string> = {
+  amplitude: '放电幅值',
+  repetition: '放电频次',
+  growth: '趋势增长',
+  confirmation: '多通道印证',
+  environment: '环境应力',
+  availability: '数据完整性'
+};
+
+export const DEFAULT_HEALTH_WEIGHTS: HealthWeights = {
+  amplitude: 30,
+  repetition: 15,
+  growth: 20,
+  confirmation: 15,
+  environment: 10,
+  availability: 10
+};
+
+// Score bands, worst last
+export const HEALTH_GRADES = [
+  { min: 85, label: '良好', color: '#22c55e' },
+  { min: 70, label: '注意', color: '#eab308' },
+  { min: 50, label: '异常', color: '#f97316' },
+  { min: 0, label: '严重', color: '#ef4444' }
+];
+
+export const healthGrade = (score: number) => HEALTH_GRADES.find(g => score >= g.min) || HEALTH_GRADES[HEALTH_GRADES.length - 1];
+
+const STALE_AFTER_MIN = 30; // Readings this old start to count against availability
+const LOST_AFTER_MIN = 24 * 60;
+
+export const resolveHealthWeights = (overrides: HealthWeightOverrides, deviceType?: string): HealthWeights =>
+  deviceType && overrides[deviceType] ? { ...DEFAULT_HEALTH_WEIGHTS, ...overrides[deviceType] } : DEFAULT_HEALTH_WEIGHTS;
+
+// Weights must be non-negative and not all zero; returns the first offending indicator
+export const findInvalidWeight = (weights: HealthWeights): HealthIndicator | null => {
+  const bad = HEALTH_INDICATORS.find(i => !Number.isFinite(weights[i]) || weights[i] < 0);
+  if (bad) return bad;
+  return HEALTH_INDICATORS.some(i => weights[i] > 0) ? null : HEALTH_INDICATORS[0];
+};
+
+// --- Indicators ---
+
+const ramp = (x: number, from: number, to: number) => Math.min(1, Math.max(0, (x - from) / (to - from)));
+
+// Percentile of a reading on its channel's alarm bands: the 50th at the WARNING
+// threshold, the 75th at DANGER, the 90th at CRITICAL and the 100th 30% past it
+const bandPercentile = (value: number, warning: number, danger: number, critical: number) => {
+  const stops: [number, number][] = [[warning * 0.5, 0], [warning, 0.5], [danger, 0.75], [critical, 0.9], [critical * 1.3, 1]];
+  if (value <= stops[0][0]) return 0;
+  for (let i = 1; i < stops.length; i++) {
+    const [v0, p0] = stops[i - 1];
+    const [v1, p1] = stops[i];
+    if (value <= v1) return p0 + (p1 - p0) * (value - v0) / (v1 - v0);
+  }
+  return 1;
+};
+
+// Null for a device without data: its last readings say nothing about it now
+export const healthIndex = (
+  device: DeviceSummary,
+  rules: AlarmRules,
+  trendRules: TrendAlarmRules,
+  metrics: TrendMetrics | undefined,
+  confirmation: PdConfirmation | undefined, // From loadPdConfirmation, so the score agrees with the confirmation panel
+  weights: HealthWeights,
+  now = Date.now()
+): HealthIndex | null => {
+  const readings = deviceReadings(device);
+  if (readings.length === 0) return null;
+
+  const band = (field: 'amp' | 'freq') => Math.max(...readings.map(r => {
+    const t = rules[r.channel];
+    return bandPercentile(r[field], t[AlarmLevel.WARNING][field], t[AlarmLevel.DANGER][field], t[AlarmLevel.CRITICAL][field]);
+  }));
+  const ageMin = (now - readings[0].time) / 60000;
+
+  const stress: Record<HealthIndicator, number> = {
+    amplitude: band('amp'),
+    repetition: band('freq'),
+    // Growth counts in full once it reaches the window's CRITICAL trend threshold
+    growth: metrics ? Math.max(
+      ramp(metrics.d7.growth, 0, trendRules.MA7[AlarmLevel.CRITICAL]),
+      ramp(metrics.d30.growth, 0, trendRules.MA30[AlarmLevel.CRITICAL])
+    ) : 0,
+    confirmation: confirmation?.confidence ?? 0,
+    environment: Math.max(ramp(device.temp, 35, 55), ramp(device.humidity, 75, 95)),
+    availability: ramp(ageMin, STALE_AFTER_MIN, LOST_AFTER_MIN)
+  };
+
+  const total = HEALTH_INDICATORS.reduce((sum, i) => sum + weights[i], 0);
+  const normalised = Object.fromEntries(HEALTH_INDICATORS.map(i => [i, total > 0 ? weights[i] / total : 1 / HEALTH_INDICATORS.length])) as HealthWeights;
+  const penalty = HEALTH_INDICATORS.reduce((sum, i) => sum + normalised[i] * stress[i], 0);
+  return { score: Math.round(100 * (1 - penalty)), stress, weights: normalised };
+};
+
+// Lower health first; devices without a score go last
+export const compareHealth = (a: DeviceSummary, b: DeviceSummary) =>
+  (a.health?.score ?? 101) - (b.health?.score ?? 101);
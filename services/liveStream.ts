@@ -0,0 +1,161 @@
+import { ChartDataPoint, DeviceSummary, LiveStreamMessage, LiveStreamRequest, LiveStreamStatus, SensorData } from '../types';
+
+interface LiveStreamOptions {
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface LiveStreamClient {
+  start: () => void;
+  stop: () => void;
+  subscribeDevice: (deviceId: string, onSensors: (sensors: SensorData[]) => void) => () => void;
+  subscribeTrend: (sensorId: string, onPoints: (points: ChartDataPoint[]) => void) => () => void;
+  onDeviceSummary: (listener: (device: DeviceSummary) => void) => () => void;
+  onStatus: (listener: (status: LiveStreamStatus) => void) => () => void;
+}
+
+// Append streamed points to a rolling window, keeping its length stable so the chart scrolls
+export const appendLivePoints = (series: ChartDataPoint[], points: ChartDataPoint[]): ChartDataPoint[] => {
+  const lastTime = series.length > 0 ? series[series.length - 1].time : '';
+  const fresh = points.filter(p => p.time > lastTime);
+  if (fresh.length === 0) return series;
+  const merged = [...series, ...fresh];
+  return series.length > 0 ? merged.slice(Math.max(0, merged.length - series.length)) : merged;
+};
+
+export const createLiveStreamClient = (url: string, { baseDelayMs = 1000, maxDelayMs = 30000 }: LiveStreamOptions = {}): LiveStreamClient => {
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let running = false;
+
+  const deviceListeners = new Map<string, Set<(sensors: SensorData[]) => void>>();
+  const trendListeners = new Map<string, Set<(points: ChartDataPoint[]) => void>>();
+  const summaryListeners = new Set<(device: DeviceSummary) => void>();
+  const statusListeners = new Set<(status: LiveStreamStatus) => void>();
+  // Newest point seen per sensor, used to request a backfill after a reconnect
+  const lastPointTime = new Map<string, string>();
+
+  const setStatus = (status: LiveStreamStatus) => statusListeners.forEach(l => l(status));
+
+  const send = (request: LiveStreamRequest) => {
+    if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(request));
+  };
+
+  const deliverPoints = (sensorId: string, points: ChartDataPoint[]) => {
+    const since = lastPointTime.get(sensorId) || '';
+    const fresh = points.filter(p => p.time > since).sort((a, b) => a.time.localeCompare(b.time));
+    if (fresh.length === 0) return;
+    lastPointTime.set(sensorId, fresh[fresh.length - 1].time);
+    trendListeners.get(sensorId)?.forEach(l => l(fresh));
+  };
+
+  const handleMessage = (raw: string) => {
+    let message: LiveStreamMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch (e) {
+      console.error('Discarding malformed live stream frame', e);
+      return;
+    }
+    switch (message.type) {
+      case 'sensors': deviceListeners.get(message.deviceId)?.forEach(l => l(message.sensors)); break;
+      case 'device': summaryListeners.forEach(l => l(message.device)); break;
+      case 'point': deliverPoints(message.sensorId, [message.point]); break;
+      case 'backfill': deliverPoints(message.sensorId, message.points); break;
+      case 'error': console.warn('Live stream refused a request:', message.error); break;
+    }
+  };
+
+  const scheduleReconnect = () => {
+    // Exponential backoff with jitter so many wall screens don't reconnect in lockstep
+    const delay = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt)) * (0.5 + Math.random() * 0.5);
+    attempt++;
+    setStatus('reconnecting');
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  const connect = () => {
+    reconnectTimer = null;
+    if (!running) return;
+    setStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+    const ws = new WebSocket(url);
+    socket = ws;
+
+    ws.onopen = () => {
+      attempt = 0;
+      setStatus('open');
+      deviceListeners.forEach((_, deviceId) => send({ type: 'subscribe', deviceId }));
+      trendListeners.forEach((_, sensorId) => send({ type: 'subscribe', sensorId, since: lastPointTime.get(sensorId) }));
+    };
+    ws.onmessage = (event) => handleMessage(String(event.data));
+    ws.onclose = () => {
+      if (socket === ws) socket = null;
+      if (running) scheduleReconnect();
+    };
+    // onclose always follows onerror, reconnection is handled there
+    ws.onerror = () => ws.close();
+  };
+
+  const addListener = <T>(map: Map<string, Set<T>>, key: string, listener: T, onFirst: () => void, onLast: () => void) => {
+    if (!map.has(key)) {
+      map.set(key, new Set());
+      onFirst();
+    }
+    map.get(key)!.add(listener);
+    return () => {
+      const set = map.get(key);
+      if (!set) return;
+      set.delete(listener);
+      if (set.size === 0) {
+        map.delete(key);
+        onLast();
+      }
+    };
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      attempt = 0;
+      connect();
+    },
+    stop: () => {
+      running = false;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      socket?.close();
+      socket = null;
+      setStatus('idle');
+    },
+    subscribeDevice: (deviceId, onSensors) => addListener(deviceListeners, deviceId, onSensors,
+      () => send({ type: 'subscribe', deviceId }),
+      () => send({ type: 'unsubscribe', deviceId })
+    ),
+    subscribeTrend: (sensorId, onPoints) => addListener(trendListeners, sensorId, onPoints,
+      () => {
+        // A fresh subscription starts from "now"; the initial window comes from the DataProvider
+        lastPointTime.set(sensorId, new Date().toISOString());
+        send({ type: 'subscribe', sensorId });
+      },
+      () => {
+        lastPointTime.delete(sensorId);
+        send({ type: 'unsubscribe', sensorId });
+      }
+    ),
+    onDeviceSummary: (listener) => {
+      summaryListeners.add(listener);
+      return () => { summaryListeners.delete(listener); };
+    },
+    onStatus: (listener) => {
+      statusListeners.add(listener);
+      return () => { statusListeners.delete(listener); };
+    },
+  };
+};
+
+// Enabled by setting PD_STREAM_URL (e.g. ws://localhost:8787) in .env.local
+const STREAM_URL = process.env.PD_STREAM_URL;
+
+export const liveStream: LiveStreamClient | null = STREAM_URL ? createLiveStreamClient(STREAM_URL) : null;
@@ -0,0 +1,191 @@
+import { SourceEstimate, UhfArrival, Vec3 } from '../types';
+
+// UHF time-difference-of-arrival localisation. Each UHF sensor times the leading
+// edge of the same pulse; every difference against the earliest sensor puts the
+// source on one sheet of a hyperboloid, and a least-squares fit finds where they
+// meet. The error ellipsoid follows from the timing accuracy and the geometry.
+// Positions are in twin units, the frame SensorData.position3d is drawn in.
+
+export const TWIN_UNITS_PER_METRE = 100;
+export const UHF_VELOCITY_M_PER_NS = 0.3; // Close to c; SF6 barely slows UHF waves
+export const AE_VELOCITY_M_PER_NS = 1e-6; // About 1000 m/s, through the gas and along the enclosure wall
+export const TIMING_SIGMA_NS = 0.1; // One-sigma leading-edge timing error per sensor
+
+const MIN_SENSORS = 4; // Three differences for three coordinates
+const MAX_ITERATIONS = 50;
+const CHI_95_3D = Math.sqrt(7.815); // Scales one-sigma radii to a 95% ellipsoid in 3D
+
+// --- Small Linear Algebra ---
+
+type Mat3 = [Vec3, Vec3, Vec3];
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const scale = (a: Vec3, k: number): Vec3 => [a[0] * k, a[1] * k, a[2] * k];
+const norm = (a: Vec3) => Math.hypot(a[0], a[1], a[2]);
+
+const det3 = (m: Mat3) =>
+  m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+  m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+  m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+
+const inverse3 = (m: Mat3): Mat3 | null => {
+  const det = det3(m);
+  if (!Number.isFinite(det) || Math.abs(det) < 1e-18) return null;
+  const c = (r: number, k: number) => {
+    const rows = [0, 1, 2].filter(i => i !== r);
+    const cols = [0, 1, 2].filter(i => i !== k);
+    const minor = m[rows[0]][cols[0]] * m[rows[1]][cols[1]] - m[rows[0]][cols[1]] * m[rows[1]][cols[0]];
+    return ((r + k) % 2 ? -minor : minor) / det;
+  };
+  return [[c(0, 0), c(1, 0), c(2, 0)], [c(0, 1), c(1, 1), c(2, 1)], [c(0, 2), c(1, 2), c(2, 2)]];
+};
+
+const mulVec = (m: Mat3, v: Vec3): Vec3 => [
+  m[0][0] * v[0] + m[0][1] * v[1] + m[0][2] * v[2],
+  m[1][0] * v[0] + m[1][1] * v[1] + m[1][2] * v[2],
+  m[2][0] * v[0] + m[2][1] * v[1] + m[2][2] * v[2]
+];
+
+// Eigenvalues and unit eigenvectors of a symmetric 3×3 matrix (cyclic Jacobi), largest first
+const eigenSymmetric = (input: Mat3): { values: Vec3; vectors: Mat3 } => {
+  const a = input.map(row => [...row]) as Mat3;
+  const v: Mat3 = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+  for (let sweep = 0; sweep < 50; sweep++) {
+    const off = a[0][1] ** 2 + a[0][2] ** 2 + a[1][2] ** 2;
+    if (off < 1e-30) break;
+    for (const [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+      if (Math.abs(a[p][q]) < 1e-30) continue;
+      const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+      const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+      const c = 1 / Math.sqrt(t * t + 1);
+      const s = t * c;
+      for (let k = 0; k < 3; k++) {
+        const akp = a[k][p], akq = a[k][q];
+        a[k][p] = c * akp - s * akq;
+        a[k][q] = s * akp + c * akq;
+      }
+      for (let k = 0; k < 3; k++) {
+        const apk = a[p][k], aqk = a[q][k];
+        a[p][k] = c * apk - s * aqk;
+        a[q][k] = s * apk + c * aqk;
+      }
+      for (let k = 0; k < 3; k++) {
+        const vkp = v[k][p], vkq = v[k][q];
+        v[k][p] = c * vkp - s * vkq;
+        v[k][q] = s * vkp + c * vkq;
+      }
+    }
+  }
+  const order = [0, 1, 2].sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map(i => a[i][i]) as Vec3,
+    vectors: order.map(i => [v[0][i], v[1][i], v[2][i]]) as Mat3
+  };
+};
+
+// --- Solver ---
+
+interface Fit {
+  position: Vec3; // Metres
+  cost: number;
+  normal: Mat3; // Jᵀ W J at the solution
+  residuals: number[];
+}
+
+// Differences share the reference sensor's timing error, so they are correlated:
+// Cov = σ²(I + 11ᵀ), whose inverse is (I − 11ᵀ/(m+1)) / σ²
+const weighted = (a: number[], b: number[]) => {
+  const sumA = a.reduce((s, x) => s + x, 0);
+  const sumB = b.reduce((s, x) => s + x, 0);
+  return a.reduce((s, x, i) => s + x * b[i], 0) - (sumA * sumB) / (a.length + 1);
+};
+
+const fit = (sensors: Vec3[], deltas: number[], velocity: number, start: Vec3): Fit | null => {
+  const [ref, ...others] = sensors;
+  let position = start;
+  let lambda = 1e-3;
+
+  const evaluate = (p: Vec3) => {
+    const dRef = norm(sub(p, ref)) || 1e-9;
+    const residuals: number[] = [];
+    const jacobian: Vec3[] = [];
+    others.forEach((s, i) => {
+      const d = norm(sub(p, s)) || 1e-9;
+      residuals.push(deltas[i] - (d - dRef) / velocity);
+      jacobian.push(scale(sub(scale(sub(p, s), 1 / d), scale(sub(p, ref), 1 / dRef)), 1 / velocity));
+    });
+    const column = (k: number) => jacobian.map(row => row[k]);
+    const normal = [0, 1, 2].map(r => [0, 1, 2].map(k => weighted(column(r), column(k)))) as Mat3;
+    const gradient = [0, 1, 2].map(k => weighted(column(k), residuals)) as Vec3;
+    return { residuals, normal, gradient, cost: weighted(residuals, residuals) };
+  };
+
+  let current = evaluate(position);
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const damped = current.normal.map((row, r) => row.map((x, k) => r === k ? x * (1 + lambda) : x)) as Mat3;
+    const inv = inverse3(damped);
+    if (!inv) return null;
+    const step = mulVec(inv, current.gradient);
+    const candidate = add(position, step);
+    const next = evaluate(candidate);
+    if (next.cost < current.cost) {
+      position = candidate;
+      current = next;
+      lambda = Math.max(lambda / 10, 1e-9);
+      if (norm(step) < 1e-6) break;
+    } else {
+      lambda *= 10;
+      if (lambda > 1e9) break;
+    }
+  }
+  return { position, cost: current.cost, normal: current.normal, residuals: current.residuals };
+};
+
+// Estimates the source from arrival times and sensor positions. Sensors without
+// a position are skipped; null when fewer than four remain or the geometry
+// cannot fix a point (e.g. every sensor in one line).
+export const locateSource = (
+  arrivals: UhfArrival[],
+  positions: Record<string, Vec3>,
+  velocity = UHF_VELOCITY_M_PER_NS,
+  sigmaNs = TIMING_SIGMA_NS
+): SourceEstimate | null => {
+  const usable = arrivals
+    .filter(a => positions[a.sensorId] && Number.isFinite(a.arrivalNs))
+    .sort((a, b) => a.arrivalNs - b.arrivalNs);
+  if (usable.length < MIN_SENSORS) return null;
+
+  const sensors = usable.map(a => scale(positions[a.sensorId], 1 / TWIN_UNITS_PER_METRE));
+  const deltas = usable.slice(1).map(a => a.arrivalNs - usable[0].arrivalNs);
+
+  // Start at the centroid and next to each sensor so a poor start cannot trap the fit
+  const centroid = scale(sensors.reduce(add, [0, 0, 0]), 1 / sensors.length);
+  const starts = [centroid, ...sensors.map(s => add(scale(s, 0.8), scale(centroid, 0.2)))];
+  let best: Fit | null = null;
+  for (const start of starts) {
+    const result = fit(sensors, deltas, velocity, start);
+    if (result && (!best || result.cost < best.cost)) best = result;
+  }
+  if (!best) return null;
+
+  const covariance = inverse3(best.normal.map(row => row.map(x => x / sigmaNs ** 2)) as Mat3);
+  if (!covariance) return null;
+  const { values, vectors } = eigenSymmetric(covariance);
+  const m = best.residuals.length;
+
+  return {
+    position: scale(best.position, TWIN_UNITS_PER_METRE),
+    ellipsoid: {
+      radii: values.map(v => Math.sqrt(Math.max(0, v)) * CHI_95_3D * TWIN_UNITS_PER_METRE) as Vec3,
+      axes: vectors,
+      confidence: 0.95
+    },
+    residualNs: Math.sqrt(best.residuals.reduce((s, r) => s + r * r, 0) / m),
+    sensorIds: usable.map(a => a.sensorId)
+  };
+};
+
+// Time a pulse from `source` takes to reach `sensor`, both in twin units
+export const travelTimeNs = (source: Vec3, sensor: Vec3, velocity = UHF_VELOCITY_M_PER_NS) =>
+  norm(sub(source, sensor)) / TWIN_UNITS_PER_METRE / velocity;
@@ -0,0 +1,58 @@
+import { AlarmEventChannel, AlarmLevel, DeviceSummary, MaintenanceWindow, SensorData } from '../types';
+
+// Maintenance windows. A window covers a whole project, one device, or one sensor
+// (and with it the device channel that sensor reports on) between start and end.
+
+const MAX_WINDOWS = 200;
+
+export const MAINTENANCE = 'MAINTENANCE';
+
+// What status views show: anything under maintenance shows as such, whatever its readings say
+export type DisplayStatus = AlarmLevel | typeof MAINTENANCE;
+
+export const displayStatus = (item: { status: AlarmLevel; maintenance?: MaintenanceWindow }): DisplayStatus =>
+  item.maintenance ? MAINTENANCE : item.status;
+
+export const isActiveWindow = (window: MaintenanceWindow, now: number) =>
+  Date.parse(window.start) <= now && now < Date.parse(window.end);
+
+export const activeWindows = (windows: MaintenanceWindow[], now = Date.now()) =>
+  windows.filter(w => isActiveWindow(w, now));
+
+// Window covering the whole device, if any
+export const deviceWindow = (windows: MaintenanceWindow[], device: Pick<DeviceSummary, 'id' | 'projectId'>) =>
+  windows.find(w => (w.scope === 'project' && w.targetId === device.projectId) || (w.scope === 'device' && w.targetId === device.id));
+
+export const sensorWindow = (windows: MaintenanceWindow[], device: Pick<DeviceSummary, 'id' | 'projectId'>, sensor: Pick<SensorData, 'id'>) =>
+  deviceWindow(windows, device) || windows.find(w => w.scope === 'sensor' && w.targetId === `${device.id}/${sensor.id}`);
+
+// Window suppressing an alarm on a device channel. Sensor windows only reach the
+// channel their sensor reports on; moving-average windows follow the device.
+export const alarmWindow = (windows: MaintenanceWindow[], subject: { projectId: string; deviceId: string; channel: AlarmEventChannel }) =>
+  deviceWindow(windows, { id: subject.deviceId, projectId: subject.projectId })
+  || windows.find(w => w.scope === 'sensor' && w.deviceId === subject.deviceId && w.channel === subject.channel);
+
+// Returns a message describing what is wrong, or null when the window can be saved
+export const windowError = (window: Pick<MaintenanceWindow, 'targetId' | 'start' | 'end' | 'reason' | 'owner'>): string | null => {
+  if (!window.targetId) return '请选择检修对象';
+  const start = Date.parse(window.start);
+  const end = Date.parse(window.end);
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return '请填写开始和结束时间';
+  if (end <= start) return '结束时间必须晚于开始时间';
+  if (!window.reason.trim()) return '请填写检修原因';
+  if (!window.owner.trim()) return '请填写负责人';
+  return null;
+};
+
+// Newest start first; the oldest finished windows go once the list is full
+export const addWindow = (windows: MaintenanceWindow[], window: MaintenanceWindow, now = Date.now()): MaintenanceWindow[] => {
+  const next = [window, ...windows.filter(w => w.id !== window.id)].sort((a, b) => b.start.localeCompare(a.start));
+  let excess = next.length - MAX_WINDOWS;
+  for (let i = next.length - 1; i >= 0 && excess > 0; i--) {
+    if (Date.parse(next[i].end) <= now) {
+      next.splice(i, 1);
+      excess--;
+    }
+  }
+  return next;
+};
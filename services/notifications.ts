@@ -0,0 +1,223 @@
+import { AlarmEvent, AlarmLevel, NotificationChannel, NotificationMessage, NotificationRecord, NotificationRoute, NotificationSettings, OnCallGroup, QuietHours, User } from '../types';
+import { severityOf } from './alarmRules';
+import { isShelfId } from './shelving';
+
+// Alarm notifications. When an event opens or escalates, the routing table picks
+// the on-call groups to tell and the channels to use; recipients come from the
+// users' email and phone in System Settings. Dedup and quiet hours are decided
+// here, delivery goes through the notification gateway (server/notifyGateway.ts),
+// which speaks webhook, SMTP and the SMS API on the browser's behalf.
+
+const MAX_RECORDS = 300;
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['webhook', 'email', 'sms'];
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  groups: [{ id: 'group-oncall', name: '运维值班组', userIds: [] }],
+  routes: [{
+    id: 'route-default',
+    projectId: '*',
+    levels: [AlarmLevel.DANGER, AlarmLevel.CRITICAL],
+    groupId: 'group-oncall',
+    channels: ['email', 'sms'],
+    enabled: true
+  }],
+  quietHours: { enabled: false, start: '22:00', end: '07:00', bypassLevels: [AlarmLevel.CRITICAL] },
+  dedupMinutes: 30
+};
+
+// --- Triggers ---
+
+// Events that opened or escalated between two snapshots of the event list, or whose
+// level outlasted its maintenance window or shelf. Steps down and clears are not announced;
+// the log and dashboard show those.
+export const notificationTriggers = (prev: AlarmEvent[], next: AlarmEvent[]): AlarmEvent[] => {
+  if (prev === next) return [];
+  const before = new Map(prev.map(e => [e.id, e]));
+  return next.filter(e => {
+    if (e.clearedAt) return false;
+    const old = before.get(e.id);
+    return !old || severityOf(e.level) > severityOf(old.level) || (!!old.suppressedBy && !e.suppressedBy);
+  });
+};
+
+export const matchRoutes = (routes: NotificationRoute[], event: AlarmEvent): NotificationRoute[] =>
+  routes.filter(r => r.enabled && (r.projectId === '*' || r.projectId === event.projectId) && r.levels.includes(event.level));
+
+// Contact details for a group on one channel. Inactive accounts and users without the detail are skipped.
+export const resolveRecipients = (group: OnCallGroup, channel: NotificationChannel, directory: User[]): string[] => {
+  if (channel === 'webhook') return group.webhookUrl ? [group.webhookUrl] : [];
+  const members = directory.filter(u => u.status === 'active' && group.userIds.includes(u.id));
+  const details = members.map(u => (channel === 'email' ? u.email : u.phone)?.trim()).filter((d): d is string => !!d);
+  return [...new Set(details)];
+};
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export const isQuietTime = (quiet: QuietHours, date: Date): boolean => {
+  if (!quiet.enabled) return false;
+  const start = toMinutes(quiet.start);
+  const end = toMinutes(quiet.end);
+  const now = date.getHours() * 60 + date.getMinutes();
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+const dedupKey = (r: Pick<NotificationRecord, 'deviceId' | 'eventChannel' | 'level' | 'channel' | 'recipient'>) =>
+  `${r.deviceId}/${r.eventChannel}|${r.level}|${r.channel}|${r.recipient}`;
+
+// --- Planning ---
+
+export interface NotificationPlan {
+  records: NotificationRecord[]; // Pending deliveries and suppressed notices, to add to the log
+  messages: Record<string, NotificationMessage>; // Keyed by the pending record's id
+}
+
+export const formatMessage = (event: AlarmEvent, projectName: string, channel: NotificationChannel, recipient: string): NotificationMessage => {
+  const latest = event.transitions[event.transitions.length - 1];
+  const reading = latest?.growth !== undefined
+    ? `${latest.amp} dBmV, 增长 ${latest.growth}%`
+    : latest ? `${latest.amp} dBmV, ${latest.freq ?? '-'} 次/秒` : '';
+  const subject = `[${event.level}] ${event.deviceName} ${event.channel} 局放告警`;
+  return {
+    channel,
+    to: recipient,
+    subject,
+    text: `${projectName} / ${event.deviceName} / ${event.channel}: ${event.level}${reading ? ` (${reading})` : ''}, ${new Date(latest?.time ?? event.openedAt).toLocaleString()}`,
+    level: event.level,
+    eventId: event.id
+  };
+};
+
+// Works out who hears about each trigger. Anything under maintenance or shelved, already
+// pending or sent inside the dedup window, or falling in quiet hours, is logged as
+// suppressed instead.
+export const planNotifications = (
+  triggers: AlarmEvent[],
+  settings: NotificationSettings,
+  directory: User[],
+  log: NotificationRecord[],
+  projectName: (projectId: string) => string,
+  now = new Date()
+): NotificationPlan => {
+  const plan: NotificationPlan = { records: [], messages: {} };
+  const since = now.getTime() - settings.dedupMinutes * 60000;
+  const recent = new Set(log
+    .filter(r => (r.status === 'sent' || r.status === 'pending') && Date.parse(r.time) >= since)
+    .map(dedupKey));
+  const quiet = isQuietTime(settings.quietHours, now);
+
+  triggers.forEach(event => {
+    matchRoutes(settings.routes, event).forEach(route => {
+      const group = settings.groups.find(g => g.id === route.groupId);
+      if (!group) return;
+      route.channels.forEach(channel => {
+        resolveRecipients(group, channel, directory).forEach(recipient => {
+          const record: NotificationRecord = {
+            id: `${event.id}:${route.id}:${channel}:${recipient}:${now.getTime()}`,
+            time: now.toISOString(),
+            eventId: event.id,
+            routeId: route.id,
+            projectId: event.projectId,
+            deviceId: event.deviceId,
+            deviceName: event.deviceName,
+            eventChannel: event.channel,
+            level: event.level,
+            channel,
+            recipient,
+            status: 'pending',
+            attempts: 0
+          };
+          const key = dedupKey(record);
+          if (event.suppressedBy) {
+            plan.records.push({ ...record, status: 'suppressed', reason: isShelfId(event.suppressedBy) ? '告警已搁置' : '检修期间' });
+          } else if (recent.has(key)) {
+            plan.records.push({ ...record, status: 'suppressed', reason: `${settings.dedupMinutes} 分钟内已通知` });
+          } else if (quiet && !settings.quietHours.bypassLevels.includes(event.level)) {
+            plan.records.push({ ...record, status: 'suppressed', reason: '静默时段' });
+          } else {
+            recent.add(key);
+            plan.records.push(record);
+            plan.messages[record.id] = formatMessage(event, projectName(event.projectId), channel, recipient);
+          }
+        });
+      });
+    });
+  });
+  return plan;
+};
+
+// Newest first, capped
+export const addRecords = (log: NotificationRecord[], records: NotificationRecord[]): NotificationRecord[] =>
+  records.length === 0 ? log : [...records.slice().reverse(), ...log].slice(0, MAX_RECORDS);
+
+export const updateRecord = (log: NotificationRecord[], id: string, changes: Partial<NotificationRecord>): NotificationRecord[] =>
+  log.map(r => r.id === id ? { ...r, ...changes } : r);
+
+// Deliveries still pending when the page closed never got an answer
+export const settleInterrupted = (log: NotificationRecord[]): NotificationRecord[] =>
+  log.some(r => r.status === 'pending')
+    ? log.map(r => r.status === 'pending' ? { ...r, status: 'failed', reason: '发送过程中页面已关闭' } : r)
+    : log;
+
+// --- Delivery ---
+
+interface DeliveryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  token?: string; // The gateway's PD_NOTIFY_TOKEN, if it sets one
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  attempts: number;
+  reason?: string;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Posts one message to the gateway. Network errors and 5xx replies are retried with
+// exponential backoff; a 4xx means the message itself is wrong and is not retried.
+export const deliver = async (
+  gatewayUrl: string,
+  message: NotificationMessage,
+  { attempts = 4, baseDelayMs = 2000, token = NOTIFY_TOKEN }: DeliveryOptions = {}
+): Promise<DeliveryResult> => {
+  let reason = '';
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      const res = await fetch(gatewayUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        body: JSON.stringify(message)
+      });
+      if (res.ok) return { ok: true, attempts: attempt };
+      reason = `${res.status} ${(await res.text()).slice(0, 200)}`.trim();
+      if (res.status < 500) return { ok: false, attempts: attempt, reason };
+    } catch (e) {
+      reason = e instanceof Error ? e.message : String(e);
+    }
+    if (attempt < attempts) await wait(baseDelayMs * 2 ** (attempt - 1));
+  }
+  return { ok: false, attempts, reason };
+};
+
+// Enabled by setting PD_NOTIFY_URL (e.g. http://localhost:8788/notify) in .env.local
+export const NOTIFY_URL = process.env.PD_NOTIFY_URL || '';
+// The gateway's PD_NOTIFY_TOKEN, if it sets one. It is compiled into the bundle and so is
+// readable by anyone who loads the app: a same-origin courtesy check, not authentication.
+export const NOTIFY_TOKEN = process.env.PD_NOTIFY_TOKEN || '';
+
+// Sends every pending message in the plan and reports each outcome as it lands
+export const sendPlan = (plan: NotificationPlan, onResult: (id: string, changes: Partial<NotificationRecord>) => void, gatewayUrl = NOTIFY_URL) =>
+  Promise.all(Object.entries(plan.messages).map(async ([id, message]) => {
+    if (!gatewayUrl) {
+      onResult(id, { status: 'failed', reason: '未配置通知网关 (PD_NOTIFY_URL)' });
+      return;
+    }
+    const result = await deliver(gatewayUrl, message);
+    onResult(id, result.ok ? { status: 'sent', attempts: result.attempts } : { status: 'failed', attempts: result.attempts, reason: result.reason });
+  }));
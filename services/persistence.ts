@@ -0,0 +1,391 @@
+import { AlarmEvent, AlarmLevel, AlarmRuleOverrides, AlarmShelf, AnnunciatorState, AnomalySensitivity, ChatSession, ConditioningSettings, ConfigDevice, ConfigSensor, DeviceEdits, DeviceSummary, HealthWeightOverrides, IPC, MaintenanceWindow, NotificationRecord, NotificationSettings, PrdMarker, Project, TrendAlarmRuleOverrides, User } from '../types';
+
+// localStorage access for persisted app state. The stored layout carries a
+// schema version; `runMigrations` upgrades older layouts before anything reads
+// them, and loaders validate every record so a corrupt entry is set aside
+// instead of breaking startup.
+
+export const CURRENT_SCHEMA_VERSION = 9;
+const SCHEMA_VERSION_KEY = 'pd_schema_version';
+const QUARANTINE_PREFIX = 'pd_quarantine:';
+
+export const STORAGE_KEYS = {
+  projects: 'pd_config_projects',
+  configDevices: 'pd_config_devices',
+  ipcs: 'pd_config_ipcs',
+  sensors: 'pd_config_sensors',
+  dashboardDevices: 'pd_dashboard_devices',
+  dashboardSource: 'pd_dashboard_source', // DataProvider namespace the cached devices and alarm events came from
+  dashboardDeviceEdits: 'pd_dashboard_device_edits', // Edits set aside by a re-seed until the provider's devices take them
+  sensorPositions: 'pd_sensor_positions',
+  prdMarkers: 'prd-annotations-data',
+  users: 'sys_users',
+  superAdmin: 'sys_super_admin',
+  superAdminPassword: 'sys_sa_pwd',
+  chatSessions: 'ai_chat_sessions',
+  aiWindowPosition: 'ai_window_position',
+  alarmRules: 'pd_alarm_rules',
+  alarmEvents: 'pd_alarm_events',
+  trendAlarmRules: 'pd_trend_alarm_rules',
+  notificationSettings: 'pd_notification_settings',
+  notificationLog: 'pd_notification_log',
+  maintenanceWindows: 'pd_maintenance_windows',
+  alarmShelves: 'pd_alarm_shelves',
+  conditioning: 'pd_signal_conditioning',
+  healthWeights: 'pd_health_weights',
+  anomalySensitivity: 'pd_anomaly_sensitivity',
+} as const;
+
+// --- Migrations ---
+
+interface Migration {
+  to: number;
+  description: string;
+  up: (storage: Storage) => void;
+}
+
+const renameKey = (storage: Storage, from: string, to: string) => {
+  const value = storage.getItem(from);
+  if (value === null) return;
+  if (storage.getItem(to) === null) storage.setItem(to, value);
+  storage.removeItem(from);
+};
+
+const V5_CONFIG_KEYS: Record<string, string> = {
+  pd_config_v5_projects: STORAGE_KEYS.projects,
+  pd_config_v5_devices: STORAGE_KEYS.configDevices,
+  pd_config_v5_ipcs: STORAGE_KEYS.ipcs,
+  pd_config_v5_sensors: STORAGE_KEYS.sensors,
+};
+
+const parseOr = (raw: string | null, fallback: unknown): unknown => {
+  try {
+    return raw === null ? fallback : JSON.parse(raw);
+  } catch {
+    return fallback;
+  }
+};
+
+// Drops the cached device summaries so they are re-seeded from the data provider, setting
+// aside what users changed on them. Uploaded images were stored inline as data URLs.
+const reseedDevices = (storage: Storage) => {
+  const list = parseOr(storage.getItem(STORAGE_KEYS.dashboardDevices), []);
+  const stored = parseOr(storage.getItem(STORAGE_KEYS.dashboardDeviceEdits), {});
+  const edits: Fields = isObject(stored) ? { ...stored } : {};
+  if (Array.isArray(list)) list.forEach(device => {
+    if (isObject(device) && typeof device.id === 'string' && typeof device.customImage === 'string' && device.customImage.startsWith('data:')) {
+      edits[device.id] = { customImage: device.customImage };
+    }
+  });
+  if (Object.keys(edits).length > 0) storage.setItem(STORAGE_KEYS.dashboardDeviceEdits, JSON.stringify(edits));
+  storage.removeItem(STORAGE_KEYS.dashboardDevices);
+};
+
+// Ordered oldest first. Each entry upgrades the layout from `to - 1` to `to`.
+const MIGRATIONS: Migration[] = [
+  {
+    to: 6,
+    description: 'Drop the version suffix from config keys',
+    up: (storage) => {
+      Object.entries(V5_CONFIG_KEYS).forEach(([from, to]) => renameKey(storage, from, to));
+    },
+  },
+  {
+    to: 7,
+    description: 'Re-seed cached device summaries so their readings can be rated against alarm thresholds',
+    up: reseedDevices,
+  },
+  {
+    to: 8,
+    description: 'Grant the alarm log to accounts that can see the dashboard',
+    up: (storage) => {
+      const grant = (user: unknown) => {
+        if (!isObject(user) || !isStringArray(user.permissions)) return user;
+        const permissions = user.permissions;
+        return permissions.includes('dashboard') && !permissions.includes('alarms') ? { ...user, permissions: [...permissions, 'alarms'] } : user;
+      };
+      const superAdmin = storage.getItem(STORAGE_KEYS.superAdmin);
+      if (superAdmin !== null) storage.setItem(STORAGE_KEYS.superAdmin, JSON.stringify(grant(JSON.parse(superAdmin))));
+      const users = storage.getItem(STORAGE_KEYS.users);
+      if (users !== null) {
+        const list = JSON.parse(users);
+        if (Array.isArray(list)) storage.setItem(STORAGE_KEYS.users, JSON.stringify(list.map(grant)));
+      }
+    },
+  },
+  {
+    to: 9,
+    description: 'Re-seed cached device summaries so they carry a device type for trend alarm rules',
+    up: reseedDevices,
+  },
+];
+
+// Layouts written before the version key existed are v5; an empty store is a fresh install
+const readStoredVersion = (storage: Storage): number => {
+  const raw = storage.getItem(SCHEMA_VERSION_KEY);
+  if (raw !== null) return Number(raw) || 0;
+  const knownKeys = [...Object.keys(V5_CONFIG_KEYS), ...Object.values(STORAGE_KEYS)];
+  return knownKeys.some(key => storage.getItem(key) !== null) ? 5 : CURRENT_SCHEMA_VERSION;
+};
+
+// Call once before the app renders
+export const runMigrations = (storage: Storage = localStorage) => {
+  let version = readStoredVersion(storage);
+  for (const migration of MIGRATIONS) {
+    if (migration.to <= version) continue;
+    try {
+      migration.up(storage);
+      version = migration.to;
+      storage.setItem(SCHEMA_VERSION_KEY, String(version));
+    } catch (e) {
+      // Stop at the last good version; loaders quarantine whatever is left unreadable
+      console.error(`Storage migration to v${migration.to} (${migration.description}) failed`, e);
+      return;
+    }
+  }
+  storage.setItem(SCHEMA_VERSION_KEY, String(version));
+};
+
+// --- Validation ---
+
+export type Guard<T> = (value: unknown) => value is T;
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+// Required fields must be present with the right type. Form-created records
+// often leave descriptive fields blank, so those are only type-checked when set.
+const required = (value: Fields, keys: string[], type: 'string' | 'number' | 'boolean') =>
+  keys.every(k => typeof value[k] === type);
+
+const optional = (value: Fields, keys: string[], type: 'string' | 'number' | 'boolean') =>
+  keys.every(k => value[k] === undefined || typeof value[k] === type);
+
+const ALARM_LEVELS = Object.values(AlarmLevel) as string[];
+const USER_ROLES = ['super_admin', 'admin', 'operator', 'viewer'];
+
+export const isProject: Guard<Project> = (v): v is Project =>
+  isObject(v) && required(v, ['id'], 'string') && optional(v, ['name', 'type', 'description', 'createdAt'], 'string');
+
+export const isConfigDevice: Guard<ConfigDevice> = (v): v is ConfigDevice =>
+  isObject(v) && required(v, ['id', 'projectId'], 'string') && optional(v, ['name', 'deviceType', 'description', 'image'], 'string');
+
+export const isIPC: Guard<IPC> = (v): v is IPC =>
+  isObject(v) && required(v, ['id'], 'string') && optional(v, ['sn', 'name', 'description', 'ip'], 'string');
+
+export const isConfigSensor: Guard<ConfigSensor> = (v): v is ConfigSensor =>
+  isObject(v) && required(v, ['id', 'projectId', 'deviceId'], 'string')
+  && optional(v, ['ipcId', 'sn', 'name', 'type', 'description', 'status'], 'string')
+  && (v.channels === undefined || (Array.isArray(v.channels) && v.channels.every(c => isObject(c) && optional(c, ['type', 'location'], 'string'))));
+
+export const isDeviceSummary: Guard<DeviceSummary> = (v): v is DeviceSummary =>
+  isObject(v) && required(v, ['id', 'projectId', 'name', 'station', 'lastUpdated'], 'string')
+  && ALARM_LEVELS.includes(v.status as string)
+  && required(v, ['uhf_amp', 'uhf_freq', 'tev_amp', 'tev_freq', 'hfct_amp', 'hfct_freq', 'ae_amp', 'ae_freq', 'temp', 'humidity'], 'number')
+  && Array.isArray(v.trend) && v.trend.every(n => typeof n === 'number')
+  && optional(v, ['customImage', 'deviceType'], 'string');
+
+export const isPrdMarker: Guard<PrdMarker> = (v): v is PrdMarker =>
+  isObject(v) && required(v, ['id', 'contextId'], 'string') && required(v, ['x', 'y'], 'number')
+  && optional(v, ['title', 'userStory', 'acceptanceCriteria', 'priority'], 'string');
+
+export const isUser: Guard<User> = (v): v is User =>
+  isObject(v) && required(v, ['id', 'username', 'displayName'], 'string')
+  && USER_ROLES.includes(v.role as string)
+  && isStringArray(v.permissions)
+  && (v.status === 'active' || v.status === 'inactive')
+  && optional(v, ['avatar', 'email', 'phone', 'lastLogin', 'createdAt'], 'string');
+
+export const isChatSession: Guard<ChatSession> = (v): v is ChatSession =>
+  isObject(v) && required(v, ['id', 'title', 'timestamp'], 'string')
+  && Array.isArray(v.messages)
+  && v.messages.every(m => isObject(m) && required(m, ['id', 'text'], 'string') && (m.role === 'user' || m.role === 'model'));
+
+export const isSensorPositions: Guard<Record<string, [number, number, number]>> = (v): v is Record<string, [number, number, number]> =>
+  isObject(v) && Object.values(v).every(p => Array.isArray(p) && p.length === 3 && p.every(n => typeof n === 'number'));
+
+const isQualifier = (q: unknown) =>
+  isObject(q) && (
+    q.kind === 'none'
+    || (q.kind === 'count' && required(q, ['n', 'm'], 'number'))
+    || (q.kind === 'sustained' && required(q, ['minutes'], 'number'))
+    || (q.kind === 'pulseRate' && required(q, ['rate', 'cycles'], 'number')));
+
+const isThresholdOverride = (v: unknown) =>
+  isObject(v) && Object.values(v).every(levels =>
+    isObject(levels) && Object.entries(levels).every(([key, t]) => key === 'qualifier'
+      ? isQualifier(t)
+      : isObject(t) && optional(t, ['amp', 'freq', 'clearAmp', 'clearFreq'], 'number')));
+
+export const isAlarmRuleOverrides: Guard<AlarmRuleOverrides> = (v): v is AlarmRuleOverrides =>
+  isObject(v) && (['project', 'device', 'sensor'] as const).every(scope => isObject(v[scope]) && Object.values(v[scope] as Fields).every(isThresholdOverride));
+
+const TREND_WINDOWS = ['MA7', 'MA30', 'MA90'];
+
+export const isTrendAlarmRuleOverrides: Guard<TrendAlarmRuleOverrides> = (v): v is TrendAlarmRuleOverrides =>
+  isObject(v) && Object.values(v).every(windows =>
+    isObject(windows) && Object.entries(windows).every(([window, levels]) => TREND_WINDOWS.includes(window) && isObject(levels)
+      && optional(levels, [AlarmLevel.WARNING, AlarmLevel.DANGER, AlarmLevel.CRITICAL], 'number')));
+
+const HEALTH_INDICATORS = ['amplitude', 'repetition', 'growth', 'confirmation', 'environment', 'availability'];
+
+export const isHealthWeightOverrides: Guard<HealthWeightOverrides> = (v): v is HealthWeightOverrides =>
+  isObject(v) && Object.values(v).every(weights =>
+    isObject(weights) && Object.keys(weights).every(k => HEALTH_INDICATORS.includes(k)) && optional(weights, HEALTH_INDICATORS, 'number'));
+
+const SENSOR_CHANNELS = ['UHF', 'TEV', 'HFCT', 'AE'];
+const CHANNELS = [...SENSOR_CHANNELS, ...TREND_WINDOWS];
+
+export const isAlarmEvent: Guard<AlarmEvent> = (v): v is AlarmEvent =>
+  isObject(v) && required(v, ['id', 'projectId', 'deviceId', 'deviceName', 'openedAt'], 'string')
+  && CHANNELS.includes(v.channel as string)
+  && ALARM_LEVELS.includes(v.level as string) && ALARM_LEVELS.includes(v.peakLevel as string)
+  && Array.isArray(v.transitions)
+  && v.transitions.every(t => isObject(t) && required(t, ['time'], 'string') && required(t, ['amp'], 'number') && optional(t, ['freq', 'growth'], 'number') && optional(t, ['suppressed'], 'boolean') && ALARM_LEVELS.includes(t.level as string))
+  && optional(v, ['clearedAt', 'acknowledgedAt', 'acknowledgedBy', 'ackComment', 'suppressedBy'], 'string');
+
+export const isMaintenanceWindow: Guard<MaintenanceWindow> = (v): v is MaintenanceWindow =>
+  isObject(v) && required(v, ['id', 'targetId', 'targetName', 'projectId', 'start', 'end', 'reason', 'owner', 'createdAt'], 'string')
+  && ['project', 'device', 'sensor'].includes(v.scope as string)
+  && optional(v, ['deviceId'], 'string')
+  && (v.channel === undefined || SENSOR_CHANNELS.includes(v.channel as string));
+
+export const isAlarmShelf: Guard<AlarmShelf> = (v): v is AlarmShelf =>
+  isObject(v) && required(v, ['id', 'projectId', 'deviceId', 'deviceName', 'sensorId', 'sensorName', 'reason', 'shelvedBy', 'shelvedAt', 'expiresAt'], 'string')
+  && SENSOR_CHANNELS.includes(v.channel as string)
+  && optional(v, ['unshelvedAt', 'unshelvedBy'], 'string');
+
+export const isConditioningSettings: Guard<ConditioningSettings> = (v): v is ConditioningSettings =>
+  isObject(v) && SENSOR_CHANNELS.every(channel => {
+    const c = v[channel];
+    return isObject(c) && required(c, ['noiseFloorDbmv'], 'number') && required(c, ['referenceRejection', 'shapeFilter'], 'boolean')
+      && Array.isArray(c.phaseGates) && c.phaseGates.every(g => isObject(g) && required(g, ['from', 'to'], 'number'));
+  });
+
+export const isDeviceEdits: Guard<DeviceEdits> = (v): v is DeviceEdits =>
+  isObject(v) && Object.values(v).every(e => isObject(e) && optional(e, ['customImage'], 'string'));
+
+export const isSourceNamespace: Guard<string> = (v): v is string => typeof v === 'string';
+
+export const isAnomalySensitivity: Guard<AnomalySensitivity> = (v): v is AnomalySensitivity =>
+  v === 'low' || v === 'medium' || v === 'high';
+
+const NOTIFICATION_CHANNELS = ['webhook', 'email', 'sms'];
+
+const isLevelList = (v: unknown) => Array.isArray(v) && v.every(l => ALARM_LEVELS.includes(l as string));
+
+export const isNotificationSettings: Guard<NotificationSettings> = (v): v is NotificationSettings =>
+  isObject(v) && required(v, ['dedupMinutes'], 'number')
+  && Array.isArray(v.groups) && v.groups.every(g => isObject(g) && required(g, ['id', 'name'], 'string') && isStringArray(g.userIds) && optional(g, ['webhookUrl'], 'string'))
+  && Array.isArray(v.routes) && v.routes.every(r => isObject(r) && required(r, ['id', 'projectId', 'groupId'], 'string') && required(r, ['enabled'], 'boolean')
+    && isLevelList(r.levels) && isStringArray(r.channels) && r.channels.every(c => NOTIFICATION_CHANNELS.includes(c)))
+  && isObject(v.quietHours) && required(v.quietHours, ['enabled'], 'boolean') && required(v.quietHours, ['start', 'end'], 'string') && isLevelList(v.quietHours.bypassLevels);
+
+export const isNotificationRecord: Guard<NotificationRecord> = (v): v is NotificationRecord =>
+  isObject(v) && required(v, ['id', 'time', 'eventId', 'routeId', 'projectId', 'deviceId', 'deviceName', 'recipient'], 'string')
+  && required(v, ['attempts'], 'number')
+  && CHANNELS.includes(v.eventChannel as string) && ALARM_LEVELS.includes(v.level as string)
+  && NOTIFICATION_CHANNELS.includes(v.channel as string)
+  && ['pending', 'sent', 'failed', 'suppressed'].includes(v.status as string)
+  && optional(v, ['reason'], 'string');
+
+export const isWindowPosition: Guard<{ x: number; y: number }> = (v): v is { x: number; y: number } =>
+  isObject(v) && required(v, ['x', 'y'], 'number');
+
+export const isAnnunciatorState: Guard<AnnunciatorState> = (v): v is AnnunciatorState =>
+  isObject(v) && typeof v.muted === 'boolean'
+  && Array.isArray(v.silenced) && v.silenced.every(k => typeof k === 'string');
+
+// --- Load / Save ---
+
+// Move an unreadable value aside under a timestamped key so it can be inspected or recovered later
+const quarantine = (key: string, raw: string, reason: string) => {
+  const quarantineKey = `${QUARANTINE_PREFIX}${key}:${Date.now()}`;
+  try {
+    localStorage.setItem(quarantineKey, raw);
+  } catch (e) {
+    console.error(`Could not quarantine "${key}"`, e);
+  }
+  console.warn(`Quarantined corrupt "${key}" (${reason}) as ${quarantineKey}`);
+};
+
+const readJson = (key: string): { found: boolean; value?: unknown } => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return { found: false };
+  try {
+    return { found: true, value: JSON.parse(raw) };
+  } catch {
+    quarantine(key, raw, 'invalid JSON');
+    localStorage.removeItem(key);
+    return { found: false };
+  }
+};
+
+export const hasRecord = (key: string) => localStorage.getItem(key) !== null;
+
+export const removeRecord = (key: string) => localStorage.removeItem(key);
+
+export const loadRecord = <T>(key: string, guard: Guard<T>, fallback: T): T => {
+  const { found, value } = readJson(key);
+  if (!found) return fallback;
+  if (guard(value)) return value;
+  quarantine(key, JSON.stringify(value), 'shape mismatch');
+  localStorage.removeItem(key);
+  return fallback;
+};
+
+// Arrays are checked item by item: valid items are kept, invalid ones are quarantined together
+export const loadList = <T>(key: string, guard: Guard<T>, fallback: T[]): T[] => {
+  const { found, value } = readJson(key);
+  if (!found) return fallback;
+  if (!Array.isArray(value)) {
+    quarantine(key, JSON.stringify(value), 'expected an array');
+    localStorage.removeItem(key);
+    return fallback;
+  }
+  const valid = value.filter(guard);
+  if (valid.length < value.length) {
+    quarantine(key, JSON.stringify(value.filter(item => !guard(item))), `${value.length - valid.length} invalid item(s)`);
+    saveRecord(key, valid);
+  }
+  return valid;
+};
+
+export const saveRecord = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to persist "${key}"`, e);
+  }
+};
+
+// --- Session State ---
+
+// Choices that last only until the browser session ends (e.g. muting the
+// annunciator). Not versioned or quarantined: a bad value just falls back.
+export const SESSION_KEYS = {
+  annunciator: 'pd_annunciator',
+} as const;
+
+export const loadSessionRecord = <T>(key: string, guard: Guard<T>, fallback: T): T => {
+  try {
+    const raw = sessionStorage.getItem(key);
+    const value: unknown = raw === null ? null : JSON.parse(raw);
+    return guard(value) ? value : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveSessionRecord = (key: string, value: unknown) => {
+  try {
+    sessionStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to keep "${key}" for the session`, e);
+  }
+};
@@ -0,0 +1,97 @@
+import { HistogramBins, PhaseBinStats, PrpdHistogram, PrpdPoint, PrpsPoint, PulseRecord } from '../types';
+
+// Phase-resolved processing of raw pulse records: the PRPD phase × amplitude
+// histogram (n-q-φ) with per-phase count, max and mean (n-φ, qmax-φ, qmean-φ),
+// and the PRPS stack of the same pulses split by power cycle.
+
+export const POWER_FREQUENCY_HZ = 50;
+export const CYCLE_MS = 1000 / POWER_FREQUENCY_HZ;
+
+export const PHASE_BIN_OPTIONS = [1, 2, 5, 10, 20];
+export const AMPLITUDE_BIN_OPTIONS = [1, 2, 5, 10];
+export const DEFAULT_BINS: HistogramBins = { phaseDeg: 5, amplitudeDbmv: 2 };
+
+// Amplitudes outside this range land in the edge bins
+const AMPLITUDE_RANGE: [number, number] = [0, 100];
+
+const wrapPhase = (phase: number) => ((phase % 360) + 360) % 360;
+
+const binOf = (value: number, width: number, count: number) =>
+  Math.min(count - 1, Math.max(0, Math.floor(value / width)));
+
+// Zero crossing of the power cycle a pulse fell in
+const cycleStart = (record: PulseRecord) => record.timestamp - (wrapPhase(record.phase) / 360) * CYCLE_MS;
+
+// Power cycle index of each record, counted from the first cycle in the set
+const cycleIndices = (records: PulseRecord[]) => {
+  const first = Math.min(...records.map(cycleStart));
+  return records.map(r => Math.round((cycleStart(r) - first) / CYCLE_MS));
+};
+
+export const buildPrpdHistogram = (records: PulseRecord[], bins: HistogramBins = DEFAULT_BINS): PrpdHistogram => {
+  const phaseBins = Math.ceil(360 / bins.phaseDeg);
+  const [ampMin, ampMax] = AMPLITUDE_RANGE;
+  const ampBins = Math.ceil((ampMax - ampMin) / bins.amplitudeDbmv);
+  const counts = Array.from({ length: phaseBins }, () => new Array<number>(ampBins).fill(0));
+  const sums = new Array<number>(phaseBins).fill(0);
+  const maxes = new Array<number>(phaseBins).fill(0);
+
+  records.forEach(r => {
+    const p = binOf(wrapPhase(r.phase), bins.phaseDeg, phaseBins);
+    counts[p][binOf(r.amplitude - ampMin, bins.amplitudeDbmv, ampBins)]++;
+    sums[p] += r.amplitude;
+    maxes[p] = Math.max(maxes[p], r.amplitude);
+  });
+
+  const phaseStats: PhaseBinStats[] = counts.map((row, p) => {
+    const count = row.reduce((a, b) => a + b, 0);
+    return {
+      phase: (p + 0.5) * bins.phaseDeg,
+      count,
+      max: count ? maxes[p] : 0,
+      mean: count ? sums[p] / count : 0
+    };
+  });
+
+  const indices = records.length ? cycleIndices(records) : [];
+  return {
+    bins,
+    amplitudeMin: ampMin,
+    counts,
+    phaseStats,
+    total: records.length,
+    cycles: indices.length ? Math.max(...indices) + 1 : 0
+  };
+};
+
+// Occupied histogram cells at their bin centres
+export const nqPhi = (histogram: PrpdHistogram): PrpdPoint[] => {
+  const { bins, amplitudeMin, counts } = histogram;
+  const points: PrpdPoint[] = [];
+  counts.forEach((row, p) => row.forEach((count, a) => {
+    if (count > 0) {
+      points.push({
+        x: (p + 0.5) * bins.phaseDeg,
+        y: amplitudeMin + (a + 0.5) * bins.amplitudeDbmv,
+        z: count
+      });
+    }
+  }));
+  return points;
+};
+
+// One cell per power cycle and phase bin holding the largest pulse in it
+export const buildPrpsStack = (records: PulseRecord[], phaseDeg = DEFAULT_BINS.phaseDeg): PrpsPoint[] => {
+  if (records.length === 0) return [];
+  const indices = cycleIndices(records);
+  const phaseBins = Math.ceil(360 / phaseDeg);
+  const cells = new Map<string, PrpsPoint>();
+  records.forEach((r, i) => {
+    const phase = binOf(wrapPhase(r.phase), phaseDeg, phaseBins) * phaseDeg;
+    const key = `${indices[i]}:${phase}`;
+    const cell = cells.get(key);
+    if (!cell) cells.set(key, { phase, cycle: indices[i], amp: r.amplitude });
+    else cell.amp = Math.max(cell.amp, r.amplitude);
+  });
+  return [...cells.values()].sort((a, b) => a.cycle - b.cycle || a.phase - b.phase);
+};
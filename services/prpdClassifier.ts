@@ -0,0 +1,169 @@
+import { ChannelType, DefectType, PrpdClassification, PrpdClassScore, PrpdFeatures, PulseRecord } from '../types';
+import { DEFECT_MODELS } from './defectLibrary';
+
+// Rule-based PRPD pattern recognition. Pulses above the noise floor are reduced
+// to phase-resolved features (per half-cycle skewness and kurtosis, half-cycle
+// asymmetry and cross-correlation, peak count, phase spread, amplitude spread),
+// and each defect class scores how well the features fit its textbook pattern.
+
+const NOISE_FLOOR_DBMV = 15; // Background dots sit below this
+const MIN_PULSES = 20; // Fewer pulses than this is no pattern at all
+const MIN_CONFIDENCE = 0.55; // Below this the best class is reported as a guess only
+const BIN_DEG = 20;
+const BINS = 360 / BIN_DEG;
+
+// --- Features ---
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / (values.length || 1);
+
+// Skewness and excess kurtosis (0 for a normal distribution) of phases weighted
+// by pulse height above the noise floor, so an amplitude envelope shows up as skew
+const moments = (pulses: { phase: number; weight: number }[]) => {
+  const total = pulses.reduce((sum, p) => sum + p.weight, 0);
+  if (pulses.length < 3 || total === 0) return { skewness: 0, kurtosis: 0 };
+  const moment = (f: (phase: number) => number) => pulses.reduce((sum, p) => sum + p.weight * f(p.phase), 0) / total;
+  const m = moment(x => x);
+  const variance = moment(x => (x - m) ** 2);
+  if (variance === 0) return { skewness: 0, kurtosis: 0 };
+  const sd = Math.sqrt(variance);
+  return {
+    skewness: moment(x => ((x - m) / sd) ** 3),
+    kurtosis: moment(x => ((x - m) / sd) ** 4) - 3
+  };
+};
+
+const pearson = (a: number[], b: number[]) => {
+  const ma = mean(a);
+  const mb = mean(b);
+  let num = 0, da = 0, db = 0;
+  a.forEach((v, i) => {
+    num += (v - ma) * (b[i] - mb);
+    da += (v - ma) ** 2;
+    db += (b[i] - mb) ** 2;
+  });
+  return da === 0 || db === 0 ? 0 : num / Math.sqrt(da * db);
+};
+
+// Pulse count per phase bin, lightly smoothed around the cycle
+const phaseHistogram = (phases: number[]) => {
+  const raw = new Array(BINS).fill(0);
+  phases.forEach(p => { raw[Math.floor((((p % 360) + 360) % 360) / BIN_DEG) % BINS]++; });
+  return raw.map((v, i) => (raw[(i - 1 + BINS) % BINS] + 2 * v + raw[(i + 1) % BINS]) / 4);
+};
+
+// Local maxima of the circular histogram standing above a third of the tallest bin
+const countPeaks = (hist: number[]) => {
+  const max = Math.max(...hist);
+  if (max === 0) return 0;
+  return hist.filter((v, i) => v >= max / 3 && v > hist[(i - 1 + BINS) % BINS] && v >= hist[(i + 1) % BINS]).length;
+};
+
+export const extractFeatures = (records: PulseRecord[]): PrpdFeatures => {
+  const pulses = records.filter(r => r.amplitude > NOISE_FLOOR_DBMV);
+  const phases = pulses.map(r => ((r.phase % 360) + 360) % 360);
+  const weighted = pulses.map((r, i) => ({ phase: phases[i], weight: r.amplitude - NOISE_FLOOR_DBMV }));
+  const positive = weighted.filter(p => p.phase < 180);
+  const negative = weighted.filter(p => p.phase >= 180).map(p => ({ ...p, phase: p.phase - 180 }));
+  const hist = phaseHistogram(phases);
+  const max = Math.max(...hist);
+  const amps = pulses.map(r => r.amplitude);
+  const ampMean = mean(amps);
+  const pos = moments(positive);
+  const neg = moments(negative);
+  return {
+    pulseCount: pulses.length,
+    skewness: { positive: pos.skewness, negative: neg.skewness },
+    kurtosis: { positive: pos.kurtosis, negative: neg.kurtosis },
+    asymmetry: phases.length ? (positive.length - negative.length) / phases.length : 0,
+    crossCorrelation: pearson(hist.slice(0, BINS / 2), hist.slice(BINS / 2)),
+    peaks: countPeaks(hist),
+    phaseSpread: max > 0 ? hist.filter(v => v >= max * 0.2).length / BINS : 0,
+    amplitudeCv: ampMean > 0 ? Math.sqrt(mean(amps.map(a => (a - ampMean) ** 2))) / ampMean : 0
+  };
+};
+
+// --- Rules ---
+
+// Soft membership: 0 at `from`, 1 at `to` (either order), linear in between
+const ramp = (x: number, from: number, to: number) =>
+  Math.min(1, Math.max(0, (x - from) / (to - from)));
+
+const meanSkew = (f: PrpdFeatures) => (f.skewness.positive + f.skewness.negative) / 2;
+
+const peaksNear = (peaks: number, target: number) => Math.max(0, 1 - Math.abs(peaks - target) * 0.5);
+
+// Each rule is a weighted list of memberships; a class scores their weighted mean
+const RULES: Record<DefectType, (f: PrpdFeatures) => [number, number][]> = {
+  // Two symmetric clusters on the rising edges, amplitude growing towards the peak
+  void: f => [
+    [peaksNear(f.peaks, 2), 2],
+    [ramp(Math.abs(f.asymmetry), 0.25, 0.1), 2],
+    [ramp(f.crossCorrelation, 0.3, 0.7), 2],
+    [ramp(f.phaseSpread, 0.75, 0.5), 1],
+    [ramp(-meanSkew(f), 0.05, 0.2), 2],
+    [ramp(f.amplitudeCv, 0.1, 0.18), 1]
+  ],
+  // Two symmetric clusters of nearly equal, steady amplitude
+  floating: f => [
+    [peaksNear(f.peaks, 2), 2],
+    [ramp(Math.abs(f.asymmetry), 0.35, 0.15), 2],
+    [ramp(f.crossCorrelation, 0.3, 0.7), 2],
+    [ramp(f.phaseSpread, 0.75, 0.5), 1],
+    [ramp(Math.abs(meanSkew(f)), 0.15, 0.05), 1],
+    [ramp(f.amplitudeCv, 0.2, 0.12), 2]
+  ],
+  // One narrow cluster in the negative half-cycle
+  corona: f => [
+    [peaksNear(f.peaks, 1), 2],
+    [ramp(-f.asymmetry, 0.5, 0.85), 3],
+    [ramp(f.phaseSpread, 0.45, 0.25), 1]
+  ],
+  // Two broad clusters, one clearly bigger than the other
+  surface: f => [
+    [peaksNear(f.peaks, 2), 1],
+    [Math.min(ramp(Math.abs(f.asymmetry), 0.1, 0.25), ramp(Math.abs(f.asymmetry), 0.65, 0.45)), 3],
+    [ramp(f.crossCorrelation, 0, 0.4), 1],
+    [ramp(f.phaseSpread, 0.4, 0.55), 1],
+    [ramp(f.phaseSpread, 0.8, 0.65), 1],
+    [ramp(f.amplitudeCv, 0.15, 0.25), 1]
+  ],
+  // Not phase-locked, with a few very large pulses among many small ones
+  particle: f => [
+    [ramp(f.phaseSpread, 0.55, 0.8), 2],
+    [ramp(f.amplitudeCv, 0.3, 0.5), 2],
+    [ramp(Math.abs(f.asymmetry), 0.4, 0.2), 1]
+  ],
+  // Spread over the whole cycle at a constant amplitude
+  interference: f => [
+    [ramp(f.phaseSpread, 0.55, 0.8), 2],
+    [ramp(f.amplitudeCv, 0.25, 0.12), 2],
+    [ramp(Math.abs(f.asymmetry), 0.3, 0.1), 1]
+  ]
+};
+
+const scoreClass = (memberships: [number, number][]) =>
+  memberships.reduce((sum, [m, w]) => sum + m * w, 0) / memberships.reduce((sum, [, w]) => sum + w, 0);
+
+export const classifyPrpd = (records: PulseRecord[]): PrpdClassification => {
+  const features = extractFeatures(records);
+  if (features.pulseCount < MIN_PULSES) return { features, defect: null, confidence: 0, scores: [] };
+  const scores: PrpdClassScore[] = (Object.keys(RULES) as DefectType[])
+    .map(defect => ({ defect, score: scoreClass(RULES[defect](features)) }))
+    .sort((a, b) => b.score - a.score);
+  const [best, second] = scores;
+  // A close runner-up makes the call less certain
+  const confidence = best.score * (1 - 0.5 * (second.score / best.score) ** 4);
+  return { features, defect: confidence >= MIN_CONFIDENCE ? best.defect : null, confidence, scores };
+};
+
+// One line for reports and headers
+export const describeClassification = (result: PrpdClassification, channel: ChannelType) => {
+  if (result.features.pulseCount < MIN_PULSES) return `${channel} 通道 PRPD 图谱未见明显局放脉冲。`;
+  if (!result.defect) {
+    const guess = DEFECT_MODELS[result.scores[0].defect].name;
+    return `${channel} 通道 PRPD 图谱特征不典型（最接近${guess}，置信度 ${Math.round(result.confidence * 100)}%），建议结合超声、特高频等手段复核。`;
+  }
+  const model = DEFECT_MODELS[result.defect];
+  const verdict = model.external ? '判为外部干扰，不应视为设备内部缺陷' : `呈现${model.name}特征`;
+  return `${channel} 通道 PRPD 图谱${verdict}（置信度 ${Math.round(result.confidence * 100)}%）：${model.signature}。`;
+};
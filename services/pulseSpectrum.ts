@@ -0,0 +1,276 @@
+import { ChannelType, PulseRecord, PulseSpectrum, PulseWaveform, SpectrogramCell, SpectrumWindow, TfCluster, TfMap, TfPoint } from '../types';
+import { dataProvider } from './dataProvider';
+
+// Frequency analysis of pulse waveforms: a windowed FFT with the dominant
+// frequency and its 3 dB bandwidth, a short-time spectrogram, and the
+// equivalent time-length T and frequency F of each pulse. Pulses from one
+// source share a waveform, so on the T-F map they gather into a cluster of
+// their own; k-means separates the clusters.
+
+export const SPECTRUM_WINDOWS: Record<SpectrumWindow, string> = {
+  rectangular: '矩形窗',
+  hann: '汉宁窗',
+  hamming: '汉明窗',
+  blackman: '布莱克曼窗'
+};
+
+export const DEFAULT_SPECTRUM_WINDOW: SpectrumWindow = 'hann';
+
+const FLOOR_DB = -80;
+const BANDWIDTH_DB = -3;
+const SEGMENT = 64; // Spectrogram segment, samples
+const HOP = 16;
+const SPECTROGRAM_FLOOR_DB = -40; // Quieter cells are left off the spectrogram
+
+const MAX_CLUSTERS = 4;
+const MIN_SILHOUETTE = 0.55; // Below this the map is taken as one source
+const SILHOUETTE_GAIN = 0.05; // What one more cluster must add to be worth it
+const SILHOUETTE_SAMPLE = 400; // Points the silhouette is scored on
+const KMEANS_ITERATIONS = 30;
+
+// Range maps look at this many acquisitions at most, and the largest pulses of each
+export const RANGE_ACQUISITIONS = 24;
+const PULSES_PER_ACQUISITION = 40;
+
+// --- FFT ---
+
+const windowWeight = (window: SpectrumWindow, i: number, n: number) => {
+  const x = (2 * Math.PI * i) / (n - 1);
+  switch (window) {
+    case 'rectangular': return 1;
+    case 'hann': return 0.5 - 0.5 * Math.cos(x);
+    case 'hamming': return 0.54 - 0.46 * Math.cos(x);
+    case 'blackman': return 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+  }
+};
+
+// In-place iterative radix-2 FFT; the length must be a power of two
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+};
+
+// One-sided power of `samples` under `window`, zero-padded to a power of two
+const powerSpectrum = (samples: number[], window: SpectrumWindow) => {
+  let n = 1;
+  while (n < samples.length) n <<= 1;
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  samples.forEach((s, i) => { re[i] = s * windowWeight(window, i, samples.length); });
+  fft(re, im);
+  return { n, power: Array.from({ length: n / 2 + 1 }, (_, k) => re[k] * re[k] + im[k] * im[k]) };
+};
+
+const toDb = (power: number, max: number) => max > 0 && power > 0 ? Math.max(FLOOR_DB, 10 * Math.log10(power / max)) : FLOOR_DB;
+
+// --- Equivalent Time-Length and Frequency ---
+
+// T and F of a waveform (Cavallini et al.): the energy-weighted spread of the
+// pulse about its centre in time, and of its spectrum about 0 Hz
+const equivalentTf = (waveform: PulseWaveform) => {
+  const { samples, sampleNs } = waveform;
+  const energy = samples.reduce((sum, s) => sum + s * s, 0);
+  if (energy === 0) return { timeNs: 0, freqHz: 0 };
+  const centre = samples.reduce((sum, s, i) => sum + i * sampleNs * s * s, 0) / energy;
+  const timeNs = Math.sqrt(samples.reduce((sum, s, i) => sum + (i * sampleNs - centre) ** 2 * s * s, 0) / energy);
+  const { n, power } = powerSpectrum(samples, 'rectangular');
+  const df = 1e9 / (n * sampleNs);
+  const total = power.reduce((a, b) => a + b, 0);
+  const freqHz = Math.sqrt(power.reduce((sum, p, k) => sum + (k * df) ** 2 * p, 0) / total);
+  return { timeNs, freqHz };
+};
+
+// --- Spectrum ---
+
+export const pulseSpectrum = (waveform: PulseWaveform, window: SpectrumWindow = DEFAULT_SPECTRUM_WINDOW): PulseSpectrum => {
+  const { n, power } = powerSpectrum(waveform.samples, window);
+  const df = 1e9 / (n * waveform.sampleNs);
+  // DC carries no PD information
+  let peak = 1;
+  for (let k = 2; k < power.length; k++) if (power[k] > power[peak]) peak = k;
+  const max = power[peak];
+  const db = power.map(p => toDb(p, max));
+
+  let low = peak;
+  let high = peak;
+  while (low > 1 && db[low - 1] >= BANDWIDTH_DB) low--;
+  while (high < db.length - 1 && db[high + 1] >= BANDWIDTH_DB) high++;
+
+  const { timeNs, freqHz } = equivalentTf(waveform);
+  return {
+    points: db.map((value, k) => ({ freqHz: k * df, db: value })),
+    dominantHz: peak * df,
+    bandwidthHz: (high - low + 1) * df,
+    equivalentTimeNs: timeNs,
+    equivalentFreqHz: freqHz
+  };
+};
+
+// Short-time spectra of overlapping segments, in dB below the strongest cell
+export const spectrogram = (waveform: PulseWaveform, window: SpectrumWindow = DEFAULT_SPECTRUM_WINDOW): SpectrogramCell[] => {
+  const { samples, sampleNs } = waveform;
+  const df = 1e9 / (SEGMENT * sampleNs);
+  const segments: { timeNs: number; power: number[] }[] = [];
+  for (let start = 0; start + SEGMENT <= samples.length; start += HOP) {
+    segments.push({
+      timeNs: (start + SEGMENT / 2) * sampleNs,
+      power: powerSpectrum(samples.slice(start, start + SEGMENT), window).power
+    });
+  }
+  const max = Math.max(0, ...segments.flatMap(s => s.power));
+  return segments.flatMap(({ timeNs, power }) => power.flatMap((p, k) => {
+    const db = toDb(p, max);
+    return db >= SPECTROGRAM_FLOOR_DB ? [{ timeNs, freqHz: k * df, db }] : [];
+  }));
+};
+
+// --- T-F Map ---
+
+type Feature = [number, number];
+
+const distance2 = (a: Feature, b: Feature) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2;
+
+const nearest = (f: Feature, centres: Feature[]) => {
+  let best = 0;
+  centres.forEach((c, i) => { if (distance2(f, c) < distance2(f, centres[best])) best = i; });
+  return best;
+};
+
+// k-means seeded with the point nearest the mean and then the farthest from
+// the centres so far, so the same pulses always give the same clusters
+const kMeans = (features: Feature[], k: number) => {
+  const mean: Feature = [0, 1].map(d => features.reduce((sum, f) => sum + f[d], 0) / features.length) as Feature;
+  const centres: Feature[] = [features[nearest(mean, features)]];
+  while (centres.length < k) {
+    let far = 0;
+    features.forEach((f, i) => {
+      if (distance2(f, centres[nearest(f, centres)]) > distance2(features[far], centres[nearest(features[far], centres)])) far = i;
+    });
+    centres.push(features[far]);
+  }
+  let labels = features.map(f => nearest(f, centres));
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    centres.forEach((_, c) => {
+      const members = features.filter((_, i) => labels[i] === c);
+      if (members.length > 0) centres[c] = [0, 1].map(d => members.reduce((sum, f) => sum + f[d], 0) / members.length) as Feature;
+    });
+    const next = features.map(f => nearest(f, centres));
+    if (next.every((l, i) => l === labels[i])) break;
+    labels = next;
+  }
+  return labels;
+};
+
+// Mean silhouette over an even sample of the points
+const silhouette = (features: Feature[], labels: number[], k: number) => {
+  const step = Math.max(1, Math.floor(features.length / SILHOUETTE_SAMPLE));
+  let total = 0;
+  let counted = 0;
+  for (let i = 0; i < features.length; i += step) {
+    const sums = new Array(k).fill(0);
+    const counts = new Array(k).fill(0);
+    features.forEach((f, j) => {
+      if (j === i) return;
+      sums[labels[j]] += Math.sqrt(distance2(features[i], f));
+      counts[labels[j]]++;
+    });
+    if (counts[labels[i]] === 0) continue;
+    const own = sums[labels[i]] / counts[labels[i]];
+    const other = Math.min(...sums.map((s, c) => c === labels[i] || counts[c] === 0 ? Infinity : s / counts[c]));
+    total += Number.isFinite(other) ? (other - own) / Math.max(own, other) : 0;
+    counted++;
+  }
+  return counted > 0 ? total / counted : 0;
+};
+
+// T and F span decades between channels and sources, so clustering works on
+// their logs, each scaled to unit spread
+const clusterLabels = (points: { timeNs: number; freqHz: number }[]) => {
+  const raw = points.map(p => [Math.log10(Math.max(p.timeNs, 1e-3)), Math.log10(Math.max(p.freqHz, 1))] as Feature);
+  const spread = [0, 1].map(d => {
+    const mean = raw.reduce((sum, f) => sum + f[d], 0) / raw.length;
+    return Math.sqrt(raw.reduce((sum, f) => sum + (f[d] - mean) ** 2, 0) / raw.length) || 1;
+  });
+  const features = raw.map(f => [f[0] / spread[0], f[1] / spread[1]] as Feature);
+
+  let best = { labels: features.map(() => 0), score: MIN_SILHOUETTE };
+  for (let k = 2; k <= Math.min(MAX_CLUSTERS, features.length - 1); k++) {
+    const labels = kMeans(features, k);
+    const score = silhouette(features, labels, k);
+    if (score > best.score + (k > 2 ? SILHOUETTE_GAIN : 0)) best = { labels, score };
+  }
+  return best.labels;
+};
+
+// Pulses and their waveforms in the same order
+export const buildTfMap = (pulses: PulseRecord[], waveforms: PulseWaveform[]): TfMap => {
+  if (pulses.length === 0) return { points: [], clusters: [] };
+  const tf = waveforms.map(equivalentTf);
+  const labels = clusterLabels(tf);
+
+  // Renumber so the cluster with the most pulses comes first
+  const sizes = new Map<number, number>();
+  labels.forEach(l => sizes.set(l, (sizes.get(l) || 0) + 1));
+  const order = [...sizes.keys()].sort((a, b) => sizes.get(b)! - sizes.get(a)!);
+  const points: TfPoint[] = pulses.map((p, i) => ({ ...tf[i], amplitude: p.amplitude, phase: p.phase, cluster: order.indexOf(labels[i]) }));
+
+  const clusters: TfCluster[] = order.map((_, c) => {
+    const members = points.filter(p => p.cluster === c);
+    const mean = (value: (p: TfPoint) => number) => members.reduce((sum, p) => sum + value(p), 0) / members.length;
+    return { count: members.length, timeNs: mean(p => p.timeNs), freqHz: mean(p => p.freqHz), amplitude: mean(p => p.amplitude) };
+  });
+  return { points, clusters };
+};
+
+// T-F map of the pulses at or above `floorDbmv` over one or more acquisitions.
+// Each acquisition contributes at most its largest PULSES_PER_ACQUISITION pulses.
+export const loadTfMap = async (sensorId: string, channel: ChannelType, times: string[], floorDbmv: number): Promise<TfMap> => {
+  const batches = await Promise.all(times.map(async time => {
+    const pulses = (await dataProvider.getPulseRecords(sensorId, channel, time))
+      .filter(p => p.amplitude >= floorDbmv)
+      .sort((a, b) => b.amplitude - a.amplitude)
+      .slice(0, PULSES_PER_ACQUISITION);
+    return { pulses, waveforms: await dataProvider.getPulseWaveforms(sensorId, channel, pulses) };
+  }));
+  return buildTfMap(batches.flatMap(b => b.pulses), batches.flatMap(b => b.waveforms));
+};
+
+// Evenly spaced acquisitions of a series for a range map
+export const rangeTimes = (times: string[]) => {
+  if (times.length <= RANGE_ACQUISITIONS) return times;
+  const step = (times.length - 1) / (RANGE_ACQUISITIONS - 1);
+  return Array.from({ length: RANGE_ACQUISITIONS }, (_, i) => times[Math.round(i * step)]);
+};
+
+// --- Formatting ---
+
+export const formatHz = (hz: number) =>
+  hz >= 1e9 ? `${(hz / 1e9).toFixed(2)} GHz` : hz >= 1e6 ? `${(hz / 1e6).toFixed(1)} MHz` : `${(hz / 1e3).toFixed(1)} kHz`;
+
+export const formatNs = (ns: number) =>
+  ns >= 1e6 ? `${(ns / 1e6).toFixed(2)} ms` : ns >= 1e3 ? `${(ns / 1e3).toFixed(2)} µs` : `${ns.toFixed(1)} ns`;
@@ -0,0 +1,78 @@
+import { SimulationScenario } from '../types';
+import { DEFECT_MODELS, DEFECT_TYPES } from './defectLibrary';
+
+// Named simulator scenarios. Pick one with ?scenario=<id>&seed=<n> in the URL
+// (or PD_SCENARIO / PD_SEED for the stream server); the same scenario and seed
+// always produce the same devices, sensors, trends, PRPD and PD source.
+export const SCENARIOS: SimulationScenario[] = [
+  {
+    id: 'default',
+    name: '默认演示',
+    description: '三座变电站混合工况：1 台三级、2 台二级、3 台一级告警，1 台无数据，部分测点随机离线',
+    seed: 1,
+    faults: [
+      { deviceId: 'dev-0', zoneId: 'CB', defect: 'floating', intensity: 1, rampDays: 0 },
+      { deviceId: 'dev-1', zoneId: 'U1', defect: 'floating', intensity: 0.5, rampDays: 0 },
+      { deviceId: 'dev-2', zoneId: 'T', defect: 'corona', intensity: 0.7, rampDays: 0 },
+      { deviceId: 'dev-3', zoneId: 'CB', defect: 'void', intensity: 0.45, rampDays: 0 },
+      { deviceId: 'dev-4', zoneId: 'U1', defect: 'surface', intensity: 0.45, rampDays: 0 },
+      { deviceId: 'dev-5', zoneId: 'T', defect: 'corona', intensity: 0.45, rampDays: 0 },
+    ],
+    outages: [],
+    outageRate: 0.2,
+    noDataDevices: ['dev-12'],
+  },
+  {
+    id: 'cb-void-ramp',
+    name: 'CB 气室空穴放电（7 天发展）',
+    description: 'dev-0 CB 气室内部空穴放电，7 天内由无到三级告警逐步发展，其余设备正常',
+    seed: 7,
+    faults: [
+      { deviceId: 'dev-0', zoneId: 'CB', defect: 'void', intensity: 1, rampDays: 7 },
+    ],
+    outages: [],
+    outageRate: 0,
+    noDataDevices: [],
+  },
+  {
+    id: 't-terminal-offline',
+    name: 'T 终端传感器离线',
+    description: '全部设备 T 终端 HFCT 测点通讯中断，无放电缺陷',
+    seed: 3,
+    faults: [],
+    outages: [{ location: 'T 终端' }],
+    outageRate: 0,
+    noDataDevices: [],
+  },
+  {
+    id: 'all-normal',
+    name: '全站正常',
+    description: '所有设备在线且无局放，用于基线截图与回归比对',
+    seed: 1,
+    faults: [],
+    outages: [],
+    outageRate: 0,
+    noDataDevices: [],
+  },
+  // One rehearsal scenario per defect type: dev-0 develops the defect in its typical zone over 3 days
+  ...DEFECT_TYPES.map((type): SimulationScenario => {
+    const model = DEFECT_MODELS[type];
+    return {
+      id: `training-${type}`,
+      name: `培训：${model.name}`,
+      description: `dev-0 ${model.typicalZoneId} 区域出现${model.name}，3 天内逐步发展。判别要点：${model.signature}`,
+      seed: 11,
+      faults: [{ deviceId: 'dev-0', zoneId: model.typicalZoneId, defect: type, intensity: 1, rampDays: 3 }],
+      outages: [],
+      outageRate: 0,
+      noDataDevices: [],
+    };
+  }),
+];
+
+export const resolveScenario = (params: URLSearchParams): { scenario: SimulationScenario; seed: number } => {
+  const scenario = SCENARIOS.find(s => s.id === params.get('scenario')) || SCENARIOS[0];
+  const seedParam = params.get('seed');
+  const seed = seedParam && Number.isFinite(Number(seedParam)) ? Number(seedParam) : scenario.seed;
+  return { scenario, seed };
+};
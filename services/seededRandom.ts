@@ -0,0 +1,39 @@
+// Deterministic random numbers for the simulator. Every draw is derived from a
+// seed plus a key describing what is being generated, so a value never depends
+// on how many other values were generated before it.
+
+// FNV-1a over the string form of each part
+export const hashSeed = (...parts: (string | number)[]): number => {
+  let hash = 0x811c9dc5;
+  const text = parts.join('|');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast and good enough for visual simulation
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Single uniform draw in [0, 1) for a key
+export const unitHash = (...parts: (string | number)[]) => createRng(hashSeed(...parts))();
+
+// Smooth value noise in [0, 1): interpolates keyed draws at integer steps of `t`
+export const valueNoise = (key: string, t: number) => {
+  const i = Math.floor(t);
+  const f = t - i;
+  const a = unitHash(key, i);
+  const b = unitHash(key, i + 1);
+  const s = f * f * (3 - 2 * f);
+  return a + (b - a) * s;
+};
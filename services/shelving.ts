@@ -0,0 +1,66 @@
+import { AlarmEventChannel, AlarmShelf, SensorData, UserRole } from '../types';
+
+// Alarm shelving. An operator sets a nagging device channel aside for a fixed
+// time with a reason; it unshelves by itself at expiry or can be lifted early.
+// How long a shelf may last depends on the role.
+
+const MAX_SHELVES = 300;
+const SHELF_PREFIX = 'shelf-';
+
+export const SHELF_LIMIT_HOURS: Record<UserRole, number> = {
+  super_admin: 72,
+  admin: 24,
+  operator: 8,
+  viewer: 0
+};
+
+const SHELF_DURATIONS_HOURS = [1, 2, 4, 8, 24, 72];
+
+// Durations offered to a role, shortest first; empty when the role may not shelve
+export const shelfDurations = (role: UserRole) => SHELF_DURATIONS_HOURS.filter(h => h <= SHELF_LIMIT_HOURS[role]);
+
+export const newShelfId = (now = Date.now()) => `${SHELF_PREFIX}${now}`;
+
+// Whether an event's suppression comes from a shelf rather than a maintenance window
+export const isShelfId = (id: string | undefined) => !!id?.startsWith(SHELF_PREFIX);
+
+export type ShelfState = 'active' | 'expired' | 'lifted';
+
+export const shelfState = (shelf: AlarmShelf, now: number): ShelfState =>
+  shelf.unshelvedAt ? 'lifted' : now < Date.parse(shelf.expiresAt) ? 'active' : 'expired';
+
+export const activeShelves = (shelves: AlarmShelf[], now = Date.now()) =>
+  shelves.filter(s => shelfState(s, now) === 'active');
+
+export const channelShelf = (shelves: AlarmShelf[], subject: { deviceId: string; channel: AlarmEventChannel }) =>
+  shelves.find(s => s.deviceId === subject.deviceId && s.channel === subject.channel);
+
+// Alarms are kept per device channel, so every sensor on a shelved channel shows as shelved
+export const sensorShelf = (shelves: AlarmShelf[], deviceId: string, sensor: Pick<SensorData, 'type'>) =>
+  shelves.find(s => s.deviceId === deviceId && s.channel === sensor.type);
+
+// Returns a message describing what is wrong, or null when the shelf can be placed
+export const shelfError = (hours: number, reason: string, role: UserRole): string | null => {
+  const limit = SHELF_LIMIT_HOURS[role];
+  if (limit <= 0) return '当前角色无权搁置告警';
+  if (!(hours > 0)) return '请选择搁置时长';
+  if (hours > limit) return `当前角色最长可搁置 ${limit} 小时`;
+  if (!reason.trim()) return '请填写搁置原因';
+  return null;
+};
+
+// Newest first; the oldest ended shelves go once the list is full
+export const addShelf = (shelves: AlarmShelf[], shelf: AlarmShelf, now = Date.now()): AlarmShelf[] => {
+  const next = [shelf, ...shelves];
+  let excess = next.length - MAX_SHELVES;
+  for (let i = next.length - 1; i >= 0 && excess > 0; i--) {
+    if (shelfState(next[i], now) !== 'active') {
+      next.splice(i, 1);
+      excess--;
+    }
+  }
+  return next;
+};
+
+export const unshelve = (shelves: AlarmShelf[], id: string, user: string, now = new Date().toISOString()): AlarmShelf[] =>
+  shelves.map(s => s.id === id && shelfState(s, Date.parse(now)) === 'active' ? { ...s, unshelvedAt: now, unshelvedBy: user } : s);
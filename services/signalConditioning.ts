@@ -0,0 +1,185 @@
+import { AlarmLevel, ChannelConditioning, ChannelType, ChartDataPoint, ConditionedPulses, ConditionedSeries, ConditioningSettings, DeviceSummary, PhaseWindow, PulseRecord, ReferencePulse, RejectCounts } from '../types';
+import { SENSOR_TEMPLATE } from '../constants';
+import { dataProvider } from './dataProvider';
+import { ALARM_CHANNELS } from './alarmRules';
+
+// Signal conditioning ahead of alarm evaluation. Every acquisition's pulses go
+// through a per-channel noise floor, phase blanking gates, coincidence rejection
+// against the device's reference antenna and a pulse-shape check. Readings are
+// then corrected for the interference that was thrown out, and what each stage
+// rejected is counted so views can show raw and cleaned data side by side.
+
+export const DEFAULT_CHANNEL_CONDITIONING: ChannelConditioning = {
+  noiseFloorDbmv: 15,
+  phaseGates: [],
+  referenceRejection: true,
+  shapeFilter: true
+};
+
+export const DEFAULT_CONDITIONING: ConditioningSettings = {
+  UHF: DEFAULT_CHANNEL_CONDITIONING,
+  TEV: DEFAULT_CHANNEL_CONDITIONING,
+  HFCT: DEFAULT_CHANNEL_CONDITIONING,
+  AE: DEFAULT_CHANNEL_CONDITIONING
+};
+
+// Slowest rise and longest width (ns) a PD pulse keeps by the time it reaches each sensor type
+export const PULSE_SHAPE_LIMITS: Record<ChannelType, { riseNs: number; widthNs: number }> = {
+  UHF: { riseNs: 2, widthNs: 40 },
+  TEV: { riseNs: 10, widthNs: 200 },
+  HFCT: { riseNs: 50, widthNs: 1000 },
+  AE: { riseNs: 1e5, widthNs: 6e5 }
+};
+
+const COINCIDENCE_MS = 2e-4; // Pulses this close to a reference pulse came in with it
+const CHUNK = 48; // Points conditioned between yields to the UI
+
+export const READING_KEYS: Record<ChannelType, { amp: keyof ChartDataPoint & keyof DeviceSummary; freq: keyof ChartDataPoint & keyof DeviceSummary }> = {
+  UHF: { amp: 'uhf_amp', freq: 'uhf_freq' },
+  TEV: { amp: 'tev_amp', freq: 'tev_freq' },
+  HFCT: { amp: 'hfct_amp', freq: 'hfct_freq' },
+  AE: { amp: 'ae_amp', freq: 'ae_freq' }
+};
+
+const emptyRejectCounts = (): RejectCounts => ({ noise: 0, phase: 0, reference: 0, shape: 0 });
+
+// --- Pulses ---
+
+const inWindow = (phase: number, { from, to }: PhaseWindow) => {
+  const p = ((phase % 360) + 360) % 360;
+  return from <= to ? p >= from && p <= to : p >= from || p <= to;
+};
+
+// Reference timestamps are sorted, so the nearest one is found by bisection
+const nearReference = (timestamp: number, reference: ReferencePulse[]) => {
+  let low = 0;
+  let high = reference.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (reference[mid].timestamp < timestamp) low = mid + 1;
+    else high = mid;
+  }
+  return [low - 1, low].some(i => i >= 0 && i < reference.length && Math.abs(reference[i].timestamp - timestamp) <= COINCIDENCE_MS);
+};
+
+const tooSlow = (record: PulseRecord) => {
+  const limit = PULSE_SHAPE_LIMITS[record.channel];
+  return (record.riseNs ?? 0) > limit.riseNs || (record.widthNs ?? 0) > limit.widthNs;
+};
+
+// Each pulse is charged to the first stage that rejects it. Units that do not
+// report pulse shape pass the shape check.
+export const conditionPulses = (records: PulseRecord[], reference: ReferencePulse[], settings: ChannelConditioning): ConditionedPulses => {
+  const rejected = emptyRejectCounts();
+  const accepted = records.filter(r => {
+    if (r.amplitude < settings.noiseFloorDbmv) rejected.noise++;
+    else if (settings.phaseGates.some(g => inWindow(r.phase, g))) rejected.phase++;
+    else if (settings.referenceRejection && nearReference(r.timestamp, reference)) rejected.reference++;
+    else if (settings.shapeFilter && tooSlow(r)) rejected.shape++;
+    else return true;
+    return false;
+  });
+  return { accepted, rejected };
+};
+
+// Pulses an interference stage threw out; sub-floor background is not interference
+const interferenceCount = (rejected: RejectCounts) => rejected.phase + rejected.reference + rejected.shape;
+
+// --- Readings ---
+
+// Corrects one channel reading for the interference removed from its acquisition.
+// The reading's amplitude is taken down by how far the loudest raw pulse stood
+// above the loudest one left, and its pulse rate by the share of pulses dropped.
+// Background below the floor stays in the reading as it always has.
+export const conditionReading = (amp: number, freq: number, records: PulseRecord[], result: ConditionedPulses, noiseFloorDbmv: number) => {
+  const removed = interferenceCount(result.rejected);
+  if (removed === 0 || records.length === 0) return { amp, freq, removed };
+  const kept = new Set(result.accepted);
+  const rawMax = Math.max(...records.map(r => r.amplitude));
+  const keptMax = Math.max(0, ...records.filter(r => kept.has(r) || r.amplitude < noiseFloorDbmv).map(r => r.amplitude));
+  return {
+    amp: amp - Math.max(0, rawMax - keptMax),
+    freq: freq * (1 - removed / records.length),
+    removed
+  };
+};
+
+const conditionChannel = async (sensorId: string, channel: ChannelType, time: string, reference: ReferencePulse[], settings: ConditioningSettings) => {
+  const records = await dataProvider.getPulseRecords(sensorId, channel, time);
+  return { records, result: conditionPulses(records, reference, settings[channel]) };
+};
+
+// --- Series ---
+
+export type ConditioningCache = Map<string, { point: ChartDataPoint; rejected: Record<ChannelType, number> }>;
+
+const deviceOfSeries = (seriesId: string) => seriesId.split('/')[0];
+
+const conditionPoint = async (seriesId: string, point: ChartDataPoint, settings: ConditioningSettings) => {
+  const reference = await dataProvider.getReferencePulses(deviceOfSeries(seriesId), point.time);
+  let cleaned = point;
+  const rejected = {} as Record<ChannelType, number>;
+  for (const channel of ALARM_CHANNELS) {
+    const { records, result } = await conditionChannel(seriesId, channel, point.time, reference, settings);
+    const keys = READING_KEYS[channel];
+    const reading = conditionReading(point[keys.amp] as number, point[keys.freq] as number, records, result, settings[channel].noiseFloorDbmv);
+    if (reading.removed > 0) cleaned = { ...cleaned, [keys.amp]: reading.amp, [keys.freq]: reading.freq };
+    rejected[channel] = reading.removed;
+  }
+  return { point: cleaned, rejected };
+};
+
+// Conditions a trend series a chunk at a time so long ranges do not freeze the
+// page. Points already in `cache` (keyed by time) are reused, so a live update
+// only conditions what is new. Resolves null once `cancelled` reports true.
+export const conditionSeries = async (
+  seriesId: string,
+  points: ChartDataPoint[],
+  settings: ConditioningSettings,
+  cache: ConditioningCache = new Map(),
+  cancelled: () => boolean = () => false
+): Promise<ConditionedSeries | null> => {
+  const series: ConditionedSeries = { points: [], rejected: [] };
+  let fresh = 0;
+  for (const point of points) {
+    let entry = cache.get(point.time);
+    if (!entry) {
+      if (fresh > 0 && fresh % CHUNK === 0) {
+        await new Promise(resolve => setTimeout(resolve));
+        if (cancelled()) return null;
+      }
+      entry = await conditionPoint(seriesId, point, settings);
+      cache.set(point.time, entry);
+      fresh++;
+    }
+    series.points.push(entry.point);
+    series.rejected.push(entry.rejected);
+  }
+  return cancelled() ? null : series;
+};
+
+// --- Devices ---
+
+// First sensor of each type on the device template: the one its summary readings come from
+const SUMMARY_SENSORS = Object.fromEntries(ALARM_CHANNELS.map(channel =>
+  [channel, SENSOR_TEMPLATE.find(s => s.type === channel)?.id])) as Record<ChannelType, string | undefined>;
+
+// Conditions each device's latest readings. Devices with nothing removed come
+// back as the same object, so rating and alarm memos downstream stay put.
+export const conditionDevices = (devices: DeviceSummary[], settings: ConditioningSettings): Promise<DeviceSummary[]> =>
+  Promise.all(devices.map(async device => {
+    const t = new Date(device.lastUpdated.replace(' ', 'T'));
+    if (device.status === AlarmLevel.NO_DATA || !Number.isFinite(t.getTime())) return device;
+    const time = t.toISOString();
+    const reference = await dataProvider.getReferencePulses(device.id, time);
+    let cleaned = device;
+    for (const channel of ALARM_CHANNELS) {
+      const sensor = SUMMARY_SENSORS[channel];
+      if (!sensor) continue;
+      const { records, result } = await conditionChannel(`${device.id}-${sensor}`, channel, time, reference, settings);
+      const keys = READING_KEYS[channel];
+      const reading = conditionReading(device[keys.amp] as number, device[keys.freq] as number, records, result, settings[channel].noiseFloorDbmv);
+      if (reading.removed > 0) cleaned = { ...cleaned, [keys.amp]: Math.ceil(reading.amp), [keys.freq]: Math.ceil(reading.freq) };
+    }
+    return cleaned;
+  }));
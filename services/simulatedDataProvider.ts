@@ -0,0 +1,535 @@
+import { AlarmLevel, ChannelType, ChartDataPoint, DataProvider, DeviceSnapshot, DefectModel, DeviceSummary, PDSource, PulseRecord, PulseWaveform, ReferencePulse, ScenarioFault, SensorData, SimulationScenario, TrendQuery, UhfArrival, Vec3 } from '../types';
+import { MOCK_PROJECTS, PD_ZONES, PROJECT_IDS, SENSOR_TEMPLATE, getDistance, getNowStr } from '../constants';
+import { createRng, hashSeed, unitHash, valueNoise } from './seededRandom';
+import { DEFECT_MODELS, applyGrowth } from './defectLibrary';
+import { DEFAULT_ALARM_RULES } from './alarmRules';
+import { CYCLE_MS } from './phaseResolved';
+import { AE_VELOCITY_M_PER_NS, TIMING_SIGMA_NS, UHF_VELOCITY_M_PER_NS, travelTimeNs } from './localisation';
+
+// Scenario-driven simulator. Every value is a pure function of (scenario, seed,
+// what is being generated, and its timestamp), so two components asking for the
+// same sensor at the same time always agree.
+
+interface SimulationContext {
+  scenario: SimulationScenario;
+  key: string; // `${scenario.id}:${seed}`, mixed into every hash
+  anchor: number; // Slot-aligned "now" that fault ramps end at, fixed for the provider's lifetime
+}
+
+const DEVICE_COUNT = 13;
+const SLOT_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FALLOFF_DISTANCE = 240; // Beyond this a sensor no longer sees the source
+const READING_DRIFT_MS = 60 * 1000; // Snapshot readings wander between knots this far apart
+
+const templatePosition = (type: ChannelType): Vec3 =>
+  (SENSOR_TEMPLATE.find(t => t.type === type)?.position3d || [0, 0, 0]) as Vec3;
+
+// Trend ids look like `${deviceId}/node-0`, snapshot sensor ids like `${deviceId}-s3`
+const deviceOf = (sensorId: string) => sensorId.includes('/') ? sensorId.split('/')[0] : sensorId.replace(/-s\d+$/, '');
+
+// A snapshot sensor sits where the template puts it; other ids stand for the first sensor of the type
+const sensorPosition = (sensorId: string, type: ChannelType): Vec3 => {
+  const templateId = sensorId.match(/-(s\d+)$/)?.[1];
+  const sensor = templateId ? SENSOR_TEMPLATE.find(t => t.id === templateId && t.type === type) : undefined;
+  return (sensor?.position3d as Vec3) || templatePosition(type);
+};
+
+// --- Fault Model ---
+
+// 0..1 development of a fault at `time`, shaped by its defect's growth curve
+const faultProgress = (ctx: SimulationContext, fault: ScenarioFault, time: number) => {
+  const rampMs = fault.rampDays * DAY_MS;
+  const p = rampMs <= 0 ? 1 : Math.min(1, Math.max(0, (time - (ctx.anchor - rampMs)) / rampMs));
+  const burst = valueNoise(`${ctx.key}|${fault.deviceId}|${fault.zoneId}|burst`, time / (2 * SLOT_MS));
+  return applyGrowth(DEFECT_MODELS[fault.defect].growth, p, burst);
+};
+
+const sourcePosition = (ctx: SimulationContext, fault: ScenarioFault): Vec3 => {
+  const zone = PD_ZONES.find(z => z.id === fault.zoneId) || PD_ZONES[0];
+  const rng = createRng(hashSeed(ctx.key, fault.deviceId, fault.zoneId, 'source'));
+  return [
+    Math.round(zone.minX + rng() * (zone.maxX - zone.minX)),
+    Math.round(zone.minY + rng() * (zone.maxY - zone.minY)),
+    zone.z
+  ];
+};
+
+// Strongest fault on the device as seen by a sensor, scaled by distance and by
+// how well that sensor type picks up the defect. External interference reaches
+// every sensor equally.
+const strongestFault = (ctx: SimulationContext, deviceId: string, type: ChannelType, time: number, position = templatePosition(type)) => {
+  let best: { fault: ScenarioFault; model: DefectModel; score: number } | null = null;
+  for (const fault of ctx.scenario.faults) {
+    if (fault.deviceId !== deviceId) continue;
+    const model = DEFECT_MODELS[fault.defect];
+    const falloff = model.external ? 1 : Math.max(0, 1 - getDistance(position, sourcePosition(ctx, fault)) / FALLOFF_DISTANCE);
+    const score = fault.intensity * faultProgress(ctx, fault, time) * falloff * model.channelGain[type];
+    if (!best || score > best.score) best = { fault, model, score };
+  }
+  return best;
+};
+
+const scoreToLevel = (score: number) => {
+  if (score >= 0.55) return AlarmLevel.CRITICAL;
+  if (score >= 0.4) return AlarmLevel.DANGER;
+  if (score >= 0.2) return AlarmLevel.WARNING;
+  return AlarmLevel.NORMAL;
+};
+
+const SEVERITY: Record<AlarmLevel, number> = {
+  [AlarmLevel.NO_DATA]: 0,
+  [AlarmLevel.NORMAL]: 1,
+  [AlarmLevel.WARNING]: 2,
+  [AlarmLevel.DANGER]: 3,
+  [AlarmLevel.CRITICAL]: 4
+};
+
+const offlineLocations = (ctx: SimulationContext, deviceId: string): string[] => {
+  const locations = ctx.scenario.outages.filter(o => !o.deviceId || o.deviceId === deviceId).map(o => o.location);
+  if (unitHash(ctx.key, deviceId, 'outage') < ctx.scenario.outageRate) {
+    locations.push(unitHash(ctx.key, deviceId, 'outage-location') < 0.5 ? 'CB 气室' : 'T 终端');
+  }
+  return locations;
+};
+
+// Summary reading for a channel. It crosses the default WARNING/DANGER/CRITICAL
+// thresholds at the same scores `scoreToLevel` uses, so rating the summary
+// against default rules reproduces the scenario's device status.
+const LEVEL_SCORES: [number, AlarmLevel.WARNING | AlarmLevel.DANGER | AlarmLevel.CRITICAL][] = [
+  [0.2, AlarmLevel.WARNING], [0.4, AlarmLevel.DANGER], [0.55, AlarmLevel.CRITICAL]
+];
+
+const channelReading = (type: ChannelType, field: 'amp' | 'freq', score: number, noise: number) => {
+  const rules = DEFAULT_ALARM_RULES[type];
+  const critical = rules[AlarmLevel.CRITICAL][field];
+  const stops: [number, number][] = [
+    [0, rules[AlarmLevel.WARNING][field] * (0.5 + 0.4 * noise)],
+    ...LEVEL_SCORES.map(([s, level]): [number, number] => [s, rules[level][field]]),
+    [1, critical * 1.3]
+  ];
+  for (let i = 1; i < stops.length; i++) {
+    const [s0, v0] = stops[i - 1];
+    const [s1, v1] = stops[i];
+    if (score <= s1) return v0 + (v1 - v0) * (score - s0) / (s1 - s0);
+  }
+  return critical * 1.3;
+};
+
+// --- Devices & Snapshots ---
+
+// Readings at `time`, by default the anchor. Live streams ask for successive times and see the readings move.
+const simulateDevice = (ctx: SimulationContext, deviceId: string, time?: number): DeviceSnapshot => {
+  const now = time ?? ctx.anchor;
+  const noData = ctx.scenario.noDataDevices.includes(deviceId);
+  const offline = offlineLocations(ctx, deviceId);
+
+  const sensors = SENSOR_TEMPLATE.map((sensor, index) => {
+    const isOnline = !noData && !offline.includes(sensor.location || '');
+    const type = sensor.type as ChannelType;
+    const score = strongestFault(ctx, deviceId, type, now, sensor.position3d as Vec3)?.score || 0;
+
+    let status = scoreToLevel(score);
+    let value = channelReading(type, 'amp', score, valueNoise(`${ctx.key}|${deviceId}|${sensor.id || index}|value`, now / READING_DRIFT_MS));
+    let freq = channelReading(type, 'freq', score, valueNoise(`${ctx.key}|${deviceId}|${sensor.id || index}|freq`, now / READING_DRIFT_MS));
+
+    if (!isOnline) {
+      status = AlarmLevel.NORMAL;
+      value = 0;
+      freq = 0;
+    }
+
+    return {
+      ...sensor,
+      id: `${deviceId}-${sensor.id}`,
+      name: sensor.name || `S-${200 + index}`,
+      sn: sensor.sn || `SN-${1000 + index}`,
+      status,
+      value: Math.ceil(value),
+      freqValue: Math.ceil(freq),
+      timestamp: getNowStr(time === undefined ? undefined : new Date(time)),
+      isOnline
+    } as SensorData;
+  });
+
+  // The most developed internal fault on the device is the one the 3D view locates
+  let pdSource: PDSource | null = null;
+  if (!noData) {
+    let strongest = 0;
+    for (const fault of ctx.scenario.faults) {
+      if (fault.deviceId !== deviceId || DEFECT_MODELS[fault.defect].external) continue;
+      const severity = fault.intensity * faultProgress(ctx, fault, now);
+      if (severity <= strongest) continue;
+      strongest = severity;
+      pdSource = {
+        position3d: sourcePosition(ctx, fault),
+        locationName: (PD_ZONES.find(z => z.id === fault.zoneId) || PD_ZONES[0]).name,
+        intensity: Math.round(60 + 40 * severity)
+      };
+    }
+  }
+
+  return { sensors, pdSource, uhfArrivals: pdSource ? uhfArrivals(ctx, deviceId, sensors, pdSource.position3d) : [] };
+};
+
+// Arrival of one pulse at each online UHF sensor, with leading-edge timing jitter
+const uhfArrivals = (ctx: SimulationContext, deviceId: string, sensors: SensorData[], source: Vec3): UhfArrival[] => {
+  const rng = createRng(hashSeed(ctx.key, deviceId, 'tdoa'));
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+  const trigger = 5 + rng() * 10; // Pulse emitted this long after the acquisition trigger (ns)
+  return sensors
+    .filter(s => s.type === 'UHF' && s.isOnline)
+    .map(s => ({
+      sensorId: s.id,
+      arrivalNs: trigger + travelTimeNs(source, s.position3d) + gaussian() * TIMING_SIGMA_NS
+    }));
+};
+
+const simulateDevices = (ctx: SimulationContext): DeviceSummary[] => {
+  const now = ctx.anchor;
+  return Array.from({ length: DEVICE_COUNT }, (_, i) => {
+    const id = `dev-${i}`;
+    const rng = createRng(hashSeed(ctx.key, id, 'summary'));
+    const online = simulateDevice(ctx, id).sensors.filter(s => s.isOnline);
+    const status = ctx.scenario.noDataDevices.includes(id)
+      ? AlarmLevel.NO_DATA
+      : online.reduce((worst, s) => SEVERITY[s.status] > SEVERITY[worst] ? s.status : worst, AlarmLevel.NORMAL);
+    const channelScore = (type: ChannelType, time = now) => strongestFault(ctx, id, type, time)?.score || 0;
+    // Offline sensors report a quiet baseline rather than the fault they can no longer see
+    const reading = (type: ChannelType, field: 'amp' | 'freq') =>
+      Math.ceil(channelReading(type, field, online.some(s => s.type === type) ? channelScore(type) : 0, rng()));
+
+    // 30-day UHF sparkline follows the fault's development
+    const trend = Array.from({ length: 30 }, (_, k) => 20 + rng() * 10 + 50 * channelScore('UHF', now - (29 - k) * DAY_MS));
+
+    return {
+      id,
+      projectId: PROJECT_IDS[i % 3], // Assign to one of the 3 simulated projects
+      name: `500kV GIS ${['A', 'B', 'C'][i % 3]}相间隔 ${Math.floor(i / 3) + 1}0${i % 3 + 1}`,
+      station: ['春晓变电站', '宁海变电站', '北仑变电站'][i % 3],
+      status,
+      deviceType: 'GIS组合开关',
+      lastUpdated: getNowStr(),
+      uhf_amp: reading('UHF', 'amp'),
+      uhf_freq: reading('UHF', 'freq'),
+      tev_amp: reading('TEV', 'amp'),
+      tev_freq: reading('TEV', 'freq'),
+      hfct_amp: reading('HFCT', 'amp'),
+      hfct_freq: reading('HFCT', 'freq'),
+      ae_amp: reading('AE', 'amp'),
+      ae_freq: reading('AE', 'freq'),
+      temp: Number((20 + rng() * 5).toFixed(1)),
+      humidity: Math.floor(45 + rng() * 15),
+      trend
+    };
+  });
+};
+
+// --- Trend ---
+
+interface ChannelProfile {
+  amp: number;
+  ampSpread: number;
+  freq: number;
+  freqSpread: number;
+  ampBoost: number; // Added at full fault score
+  freqBoost: number; // Added at full fault score for a defect firing REFERENCE_PULSE_RATE pulses per cycle
+}
+
+const REFERENCE_PULSE_RATE = 8;
+
+const CHANNEL_PROFILES: Record<ChannelType, ChannelProfile> = {
+  UHF: { amp: 20, ampSpread: 15, freq: 40, freqSpread: 60, ampBoost: 45, freqBoost: 150 },
+  TEV: { amp: 25, ampSpread: 20, freq: 80, freqSpread: 100, ampBoost: 45, freqBoost: 150 },
+  HFCT: { amp: 30, ampSpread: 10, freq: 15, freqSpread: 20, ampBoost: 25, freqBoost: 60 },
+  AE: { amp: 8, ampSpread: 6, freq: 2, freqSpread: 6, ampBoost: 45, freqBoost: 150 },
+};
+
+// Switching transients now and then kick the UHF and TEV sensors; 0 when the slot has none
+const spikeAmplitude = (ctx: SimulationContext, sensorId: string, type: ChannelType, slot: number) => {
+  const key = `${ctx.key}|${sensorId}`;
+  if (unitHash(key, 'spike', slot) <= 0.98 || (type !== 'UHF' && type !== 'TEV')) return 0;
+  return 15 + unitHash(key, type, 'spike-amp', slot) * 10;
+};
+
+// Points sit on absolute 15-minute slots, so overlapping ranges return identical values
+const trendPoint = (ctx: SimulationContext, sensorId: string, slot: number): ChartDataPoint => {
+  const time = slot * SLOT_MS;
+  const deviceId = deviceOf(sensorId);
+  const key = `${ctx.key}|${sensorId}`;
+  const spike = unitHash(key, 'spike', slot) > 0.98;
+  let isAlarm = spike;
+
+  const channel = (type: ChannelType) => {
+    const p = CHANNEL_PROFILES[type];
+    const noise = 0.65 * valueNoise(`${key}|${type}|slow`, slot / 16) + 0.35 * valueNoise(`${key}|${type}|fast`, slot / 2);
+    const freqNoise = valueNoise(`${key}|${type}|freq`, slot / 4);
+    const hit = strongestFault(ctx, deviceId, type, time);
+    const score = hit?.score || 0;
+    const rate = hit ? hit.model.pulseRate / REFERENCE_PULSE_RATE : 1;
+    if (score >= 0.2) isAlarm = true;
+    const spikeAmp = spikeAmplitude(ctx, sensorId, type, slot);
+    const spikeFreq = spike && type === 'TEV' ? 150 : 0;
+    return {
+      amp: p.amp + p.ampSpread * noise + p.ampBoost * score + spikeAmp,
+      freq: p.freq + p.freqSpread * freqNoise + p.freqBoost * score * rate + spikeFreq
+    };
+  };
+
+  const uhf = channel('UHF');
+  const tev = channel('TEV');
+  const hfct = channel('HFCT');
+  const ae = channel('AE');
+  const dayPhase = (time % DAY_MS) / DAY_MS * Math.PI * 2;
+
+  return {
+    time: new Date(time).toISOString(),
+    uhf_amp: uhf.amp,
+    tev_amp: tev.amp,
+    hfct_amp: hfct.amp,
+    ae_amp: ae.amp,
+    uhf_freq: uhf.freq,
+    tev_freq: tev.freq,
+    hfct_freq: hfct.freq,
+    ae_freq: ae.freq,
+    temperature: 20 + Math.sin(dayPhase) * 5 + unitHash(key, 'temp', slot),
+    humidity: 50 + Math.cos(dayPhase) * 10 + unitHash(key, 'humidity', slot),
+    isAlarm
+  };
+};
+
+const generateTrendSeries = (ctx: SimulationContext, sensorId: string, { range, start: customStart, end: customEnd }: TrendQuery): ChartDataPoint[] => {
+  const now = new Date();
+  let startTime = new Date();
+  let points = 0;
+
+  switch (range) {
+    case '24h': startTime.setHours(now.getHours() - 24); points = DAY_MS / SLOT_MS; break;
+    case '7d': startTime.setDate(now.getDate() - 7); points = (7 * DAY_MS) / SLOT_MS; break;
+    case '1m': startTime.setMonth(now.getMonth() - 1); points = (30 * DAY_MS) / SLOT_MS; break;
+    case 'custom':
+      if (customStart && customEnd) {
+        startTime = new Date(customStart);
+        points = Math.max(4, Math.floor((customEnd.getTime() - customStart.getTime()) / SLOT_MS));
+      } else {
+        startTime.setHours(now.getHours() - 24);
+        points = DAY_MS / SLOT_MS;
+      }
+      break;
+  }
+
+  const firstSlot = Math.ceil(startTime.getTime() / SLOT_MS);
+  return Array.from({ length: points }, (_, i) => trendPoint(ctx, sensorId, firstSlot + i));
+};
+
+// --- Pulse Records ---
+
+const sampleContext = (ctx: SimulationContext, sensorId: string, channel: ChannelType, time: string) => {
+  const t = new Date(time).getTime();
+  const at = Number.isFinite(t) ? t : Date.now();
+  const position = sensorPosition(sensorId, channel);
+  const hit = strongestFault(ctx, deviceOf(sensorId), channel, at, position);
+  return {
+    rng: createRng(hashSeed(ctx.key, sensorId, channel, time)),
+    score: hit?.score || 0,
+    model: hit?.model || null,
+    fault: hit?.fault || null,
+    position
+  };
+};
+
+// Phase of one pulse: inside one of the defect's clusters, or anywhere if it is not phase-locked
+const pulsePhase = (model: DefectModel, rng: () => number) => {
+  if (model.phaseClusters.length === 0) return rng() * 360;
+  const r = rng();
+  let acc = 0;
+  let cluster = model.phaseClusters[model.phaseClusters.length - 1];
+  for (const c of model.phaseClusters) {
+    acc += c.weight;
+    if (r < acc) { cluster = c; break; }
+  }
+  return (cluster.center + (rng() - 0.5) * cluster.spread * 2 + 360) % 360;
+};
+
+const pulseAmplitude = (model: DefectModel, phase: number, score: number, rng: () => number) => {
+  const base = 20 + 40 * score;
+  switch (model.amplitude) {
+    case 'sine': return base * Math.abs(Math.sin((phase * Math.PI) / 180)) + rng() * 20 + 10;
+    case 'flat': return base * 0.8 + rng() * 8;
+    case 'low': return 10 + base * 0.5 * rng();
+    case 'heavy-tail': return 10 + base * 1.5 * rng() ** 3;
+  }
+};
+
+const ACQUISITION_CYCLES = 50; // One second of pulses at 50 Hz
+const TRANSIENT_PULSES = 150;
+const REFERENCE_CHATTER = 20; // Radio pulses the antenna hears that never reach the sensors
+
+// Typical PD pulse shape per channel (ns). Interference from outside the enclosure
+// has travelled along lines and the bus, so it arrives slower and longer than any PD.
+const PULSE_SHAPES: Record<ChannelType, { rise: [number, number]; width: [number, number] }> = {
+  UHF: { rise: [0.3, 1.5], width: [3, 20] },
+  TEV: { rise: [2, 8], width: [20, 120] },
+  HFCT: { rise: [10, 40], width: [100, 600] },
+  AE: { rise: [20000, 80000], width: [100000, 500000] }
+};
+const EXTERNAL_STRETCH: [number, number] = [1.5, 4]; // Times the slowest PD pulse
+
+const between = ([low, high]: [number, number], rng: () => number) => low + (high - low) * rng();
+
+const pulseShape = (channel: ChannelType, external: boolean, rng: () => number) => {
+  const { rise, width } = PULSE_SHAPES[channel];
+  if (external) return { riseNs: rise[1] * between(EXTERNAL_STRETCH, rng), widthNs: width[1] * between(EXTERNAL_STRETCH, rng) };
+  return { riseNs: between(rise, rng), widthNs: between(width, rng) };
+};
+
+const acquisitionStart = (time: string) => {
+  const t = new Date(time).getTime();
+  const end = Math.floor((Number.isFinite(t) ? t : Date.now()) / CYCLE_MS) * CYCLE_MS;
+  return end - ACQUISITION_CYCLES * CYCLE_MS;
+};
+
+const pulseCount = (model: DefectModel, score: number) => Math.round((50 + 100 * score) * model.pulseRate / 2);
+
+// Interference bursts reach every channel and the reference antenna at the same
+// instants; a channel that picks up fewer of them sees the first ones of the list
+const externalBursts = (ctx: SimulationContext, deviceId: string, time: string, count: number) => {
+  const rng = createRng(hashSeed(ctx.key, deviceId, time, 'external'));
+  const start = acquisitionStart(time);
+  return Array.from({ length: count }, () => start + rng() * ACQUISITION_CYCLES * CYCLE_MS);
+};
+
+// Strongest external fault on the device at full coupling, as the antenna sees it
+const externalFault = (ctx: SimulationContext, deviceId: string, time: number) => {
+  let best: { model: DefectModel; score: number } | null = null;
+  for (const fault of ctx.scenario.faults) {
+    const model = DEFECT_MODELS[fault.defect];
+    if (fault.deviceId !== deviceId || !model.external) continue;
+    const score = fault.intensity * faultProgress(ctx, fault, time);
+    if (!best || score > best.score) best = { model, score };
+  }
+  return best;
+};
+
+// Discharges of an internal fault over the acquisition window. Every sensor that
+// sees the fault picks up the same ones, the weaker its coupling the fewer.
+const faultDischarges = (ctx: SimulationContext, fault: ScenarioFault, time: string) => {
+  const rng = createRng(hashSeed(ctx.key, fault.deviceId, fault.zoneId, time, 'discharges'));
+  const model = DEFECT_MODELS[fault.defect];
+  const t = new Date(time).getTime();
+  const full = fault.intensity * faultProgress(ctx, fault, Number.isFinite(t) ? t : Date.now());
+  return Array.from({ length: pulseCount(model, full) }, () => ({ cycle: Math.floor(rng() * ACQUISITION_CYCLES), phase: pulsePhase(model, rng) }));
+};
+
+// Pulses seen over the acquisition window ending at `time`: a steady trickle of
+// background noise plus the strongest defect's pulses, scattered over the cycles
+const generatePulseRecords = (ctx: SimulationContext, sensorId: string, channel: ChannelType, time: string): PulseRecord[] => {
+  const { rng, score, model, fault, position } = sampleContext(ctx, sensorId, channel, time);
+  const start = acquisitionStart(time);
+  const records: PulseRecord[] = [];
+  const record = (phase: number, amplitude: number, external: boolean) => {
+    const cycle = Math.floor(rng() * ACQUISITION_CYCLES);
+    records.push({ timestamp: start + (cycle + phase / 360) * CYCLE_MS, phase, amplitude, channel, ...pulseShape(channel, external, rng) });
+  };
+
+  for (let i = 0; i < 120; i++) record(rng() * 360, 5 + rng() * 10, false);
+  // A transient in a trend slot shows up as a burst of slow, wide pulses riding on the background
+  const slot = new Date(time).getTime() / SLOT_MS;
+  const spike = Number.isInteger(slot) ? spikeAmplitude(ctx, sensorId, channel, slot) : 0;
+  for (let i = 0; spike > 0 && i < TRANSIENT_PULSES; i++) record(rng() * 360, 15 + spike * (0.7 + 0.3 * rng()), true);
+  if (model && score >= 0.05) {
+    // Sparse defects such as free particles leave far fewer pulses than a void over the same window
+    const pulses = pulseCount(model, score);
+    if (model.external) {
+      const full = externalFault(ctx, deviceOf(sensorId), new Date(time).getTime());
+      externalBursts(ctx, deviceOf(sensorId), time, pulseCount(model, full?.score ?? score)).slice(0, pulses).forEach(timestamp => {
+        const phase = (((timestamp - start) % CYCLE_MS) / CYCLE_MS) * 360;
+        records.push({ timestamp, phase, amplitude: pulseAmplitude(model, phase, score, rng), channel, ...pulseShape(channel, true, rng) });
+      });
+    } else if (fault) {
+      // Electrical channels see a discharge within nanoseconds; its sound takes milliseconds
+      const velocity = channel === 'AE' ? AE_VELOCITY_M_PER_NS : UHF_VELOCITY_M_PER_NS;
+      const delayMs = travelTimeNs(sourcePosition(ctx, fault), position, velocity) * 1e-6;
+      faultDischarges(ctx, fault, time).slice(0, pulses).forEach(({ cycle, phase }) => {
+        const timestamp = start + (cycle + phase / 360) * CYCLE_MS + delayMs;
+        const arrival = (((timestamp - start) % CYCLE_MS) / CYCLE_MS) * 360;
+        records.push({ timestamp, phase: arrival, amplitude: pulseAmplitude(model, phase, score, rng), channel, ...pulseShape(channel, false, rng) });
+      });
+    }
+  }
+  return records.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// The reference antenna hears every interference burst, a little radio chatter, and no PD
+const generateReferencePulses = (ctx: SimulationContext, deviceId: string, time: string): ReferencePulse[] => {
+  const rng = createRng(hashSeed(ctx.key, deviceId, time, 'reference'));
+  const start = acquisitionStart(time);
+  const t = new Date(time).getTime();
+  const external = externalFault(ctx, deviceId, Number.isFinite(t) ? t : Date.now());
+  const pulses: ReferencePulse[] = [];
+  if (external && external.score >= 0.05) {
+    externalBursts(ctx, deviceId, time, pulseCount(external.model, external.score)).forEach(timestamp => {
+      pulses.push({ timestamp: timestamp + (rng() - 0.5) * 1e-4, amplitude: 20 + 40 * external.score + rng() * 8 });
+    });
+  }
+  for (let i = 0; i < REFERENCE_CHATTER; i++) {
+    pulses.push({ timestamp: start + rng() * ACQUISITION_CYCLES * CYCLE_MS, amplitude: 10 + rng() * 20 });
+  }
+  return pulses.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// --- Pulse Waveforms ---
+
+// Digitiser per channel: fast enough for the band, long enough for a PD pulse's ring-down
+const DIGITISERS: Record<ChannelType, { sampleNs: number; samples: number }> = {
+  UHF: { sampleNs: 0.1, samples: 1024 },
+  TEV: { sampleNs: 1, samples: 1024 },
+  HFCT: { sampleNs: 5, samples: 1024 },
+  AE: { sampleNs: 2000, samples: 1024 }
+};
+const PRETRIGGER = 0.1; // Share of the record before the leading edge
+// Ring frequency per unit of rise time: an electrical pulse rings near its 0.35/rise
+// bandwidth, the AE sensor's resonance sits well above its slow envelope
+const RING_PER_RISE: Record<ChannelType, number> = { UHF: 0.35, TEV: 0.35, HFCT: 0.35, AE: 2 };
+
+// A damped oscillation whose rise, width and ring frequency follow the pulse's
+// reported shape, so slow interference and fast PD look different in frequency too
+const generatePulseWaveform = (ctx: SimulationContext, sensorId: string, channel: ChannelType, pulse: PulseRecord): PulseWaveform => {
+  const rng = createRng(hashSeed(ctx.key, sensorId, channel, pulse.timestamp, 'waveform'));
+  const { sampleNs, samples } = DIGITISERS[channel];
+  const { rise, width } = PULSE_SHAPES[channel];
+  const riseNs = pulse.riseNs ?? between(rise, rng);
+  const widthNs = pulse.widthNs ?? between(width, rng);
+  const peak = 10 ** (pulse.amplitude / 20);
+  const ringHz = (RING_PER_RISE[channel] / riseNs) * 1e9 * (0.9 + 0.2 * rng());
+  const edge = samples * PRETRIGGER * sampleNs;
+  const phase = rng() * 2 * Math.PI;
+  const noise = 0.03 * peak;
+  return {
+    sampleNs,
+    samples: Array.from({ length: samples }, (_, i) => {
+      const t = i * sampleNs - edge;
+      const envelope = t <= 0 ? 0 : (1 - Math.exp(-2.2 * t / riseNs)) * Math.exp(-Math.LN2 * t / widthNs);
+      return peak * envelope * Math.sin(2 * Math.PI * ringHz * t * 1e-9 + phase) + noise * (rng() - 0.5) * 2;
+    })
+  };
+};
+
+// Simulator-backed provider. Resolves immediately so the UI behaves exactly as
+// it did when components called the generators directly.
+export const createSimulatedDataProvider = ({ scenario, seed }: { scenario: SimulationScenario; seed: number }): DataProvider => {
+  const ctx: SimulationContext = { scenario, key: `${scenario.id}:${seed}`, anchor: Math.ceil(Date.now() / SLOT_MS) * SLOT_MS };
+  return {
+    namespace: `sim:${ctx.key}`,
+    listProjects: async () => MOCK_PROJECTS,
+    listDevices: async () => simulateDevices(ctx),
+    getDeviceSnapshot: async (deviceId, time) => {
+      const at = time === undefined ? NaN : new Date(time).getTime();
+      return simulateDevice(ctx, deviceId, Number.isFinite(at) ? at : undefined);
+    },
+    getTrendSeries: async (sensorId, query) => generateTrendSeries(ctx, sensorId, query),
+    getPulseRecords: async (sensorId, channel, time) => generatePulseRecords(ctx, sensorId, channel, time),
+    getReferencePulses: async (deviceId, time) => generateReferencePulses(ctx, deviceId, time),
+    getPulseWaveforms: async (sensorId, channel, pulses) => pulses.map(p => generatePulseWaveform(ctx, sensorId, channel, p)),
+  };
+};
@@ -0,0 +1,218 @@
+import { ChartDataPoint, TrendQuery } from '../types';
+import { dataProvider } from './dataProvider';
+
+// IndexedDB-backed history. Series are bucketed per id per UTC day so range
+// queries only touch the days they need; images are kept as Blobs.
+const DB_NAME = 'pd_monitoring';
+const DB_VERSION = 1;
+const SERIES_STORE = 'series';
+const IMAGE_STORE = 'images';
+const RETENTION_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SeriesPoint {
+  time: string; // ISO timestamp, also the sort and range key
+}
+
+interface SeriesBucket<T extends SeriesPoint> {
+  seriesId: string;
+  day: string; // YYYY-MM-DD (UTC)
+  points: T[];
+}
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const byTime = (a: SeriesPoint, b: SeriesPoint) => a.time.localeCompare(b.time);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SERIES_STORE)) {
+          const series = db.createObjectStore(SERIES_STORE, { keyPath: ['seriesId', 'day'] });
+          series.createIndex('day', 'day');
+        }
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) db.createObjectStore(IMAGE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(db => {
+      pruneBefore(new Date(Date.now() - RETENTION_DAYS * DAY_MS)).catch(e => console.warn('History prune failed', e));
+      return db;
+    });
+    // Allow a retry on the next call if the browser refused to open the database
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// --- Time Series ---
+
+// Merge points into their day buckets. Points already stored for the same timestamp are kept.
+export const putPoints = async <T extends SeriesPoint>(seriesId: string, points: T[]): Promise<void> => {
+  if (points.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(SERIES_STORE, 'readwrite');
+  const done = completion(tx);
+  const store = tx.objectStore(SERIES_STORE);
+
+  const byDay = new Map<string, T[]>();
+  points.forEach(p => {
+    const day = p.time.slice(0, 10);
+    if (!byDay.has(day)) byDay.set(day, []);
+    byDay.get(day)!.push(p);
+  });
+
+  for (const [day, dayPoints] of byDay) {
+    const existing = await promisify<SeriesBucket<T> | undefined>(store.get([seriesId, day]));
+    const merged = new Map((existing?.points || []).map(p => [p.time, p]));
+    dayPoints.forEach(p => { if (!merged.has(p.time)) merged.set(p.time, p); });
+    store.put({ seriesId, day, points: Array.from(merged.values()).sort(byTime) });
+  }
+  await done;
+};
+
+export const querySeries = async <T extends SeriesPoint>(seriesId: string, start: Date, end: Date): Promise<T[]> => {
+  const db = await openDb();
+  const store = db.transaction(SERIES_STORE).objectStore(SERIES_STORE);
+  const from = start.toISOString();
+  const to = end.toISOString();
+  const range = IDBKeyRange.bound([seriesId, from.slice(0, 10)], [seriesId, to.slice(0, 10)]);
+  const buckets = await promisify<SeriesBucket<T>[]>(store.getAll(range));
+  return buckets.flatMap(b => b.points).filter(p => p.time >= from && p.time <= to);
+};
+
+export const pruneBefore = async (cutoff: Date): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SERIES_STORE, 'readwrite');
+  const done = completion(tx);
+  const cursorRequest = tx.objectStore(SERIES_STORE).index('day').openCursor(IDBKeyRange.upperBound(cutoff.toISOString().slice(0, 10), true));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+  await done;
+};
+
+// Serve a range from the store, asking `fetchRange` only when the stored data
+// stops short of either end by more than `toleranceMs`. Only the missing head
+// and tail of the fetched data are written back; stored history is never replaced.
+export const readThrough = async <T extends SeriesPoint>(
+  seriesId: string,
+  start: Date,
+  end: Date,
+  toleranceMs: number,
+  fetchRange: () => Promise<T[]>
+): Promise<T[]> => {
+  const stored = await querySeries<T>(seriesId, start, end);
+  const first = stored[0]?.time;
+  const last = stored[stored.length - 1]?.time;
+  const gapBefore = !first || new Date(first).getTime() - start.getTime() > toleranceMs;
+  const gapAfter = !last || end.getTime() - new Date(last).getTime() > toleranceMs;
+  if (!gapBefore && !gapAfter) return stored;
+
+  const fetched = await fetchRange();
+  const missing = first && last ? fetched.filter(p => p.time < first || p.time > last) : fetched;
+  await putPoints(seriesId, missing);
+  return querySeries<T>(seriesId, start, end);
+};
+
+const TREND_INTERVAL_MS = 15 * 60 * 1000;
+
+const resolveTrendWindow = ({ range, start, end }: TrendQuery) => {
+  const now = new Date();
+  const from = new Date(now);
+  switch (range) {
+    case '24h': from.setHours(now.getHours() - 24); break;
+    case '7d': from.setDate(now.getDate() - 7); break;
+    case '1m': from.setMonth(now.getMonth() - 1); break;
+    case 'custom':
+      if (start && end) return { start, end };
+      from.setHours(now.getHours() - 24);
+      break;
+  }
+  return { start: from, end: now };
+};
+
+// Series ids are scoped to the data source so switching provider or simulator scenario never mixes histories
+export const seriesKey = (id: string) => `${dataProvider.namespace}/${id}`;
+
+// Trend history for a sensor: stored points first, the DataProvider for anything not yet recorded
+export const loadTrendSeries = async (sensorId: string, query: TrendQuery): Promise<ChartDataPoint[]> => {
+  const { start, end } = resolveTrendWindow(query);
+  try {
+    return await readThrough(seriesKey(sensorId), start, end, TREND_INTERVAL_MS * 2, () => dataProvider.getTrendSeries(sensorId, query));
+  } catch (e) {
+    console.warn('Time-series store unavailable, reading from provider', e);
+    return dataProvider.getTrendSeries(sensorId, query);
+  }
+};
+
+// Live points arrive far more often than the stored history's interval. The first point in each
+// interval is kept, stamped on the interval, so the store holds one resolution; a point already
+// stored for that interval, such as the provider's, stays as it is.
+export const recordLivePoints = (sensorId: string, points: ChartDataPoint[]) => {
+  const slots = new Map<number, ChartDataPoint>();
+  points.forEach(p => {
+    const slot = Math.floor(new Date(p.time).getTime() / TREND_INTERVAL_MS);
+    if (Number.isFinite(slot) && !slots.has(slot)) slots.set(slot, { ...p, time: new Date(slot * TREND_INTERVAL_MS).toISOString() });
+  });
+  return putPoints(seriesKey(sensorId), [...slots.values()]);
+};
+
+// --- Images ---
+
+// Last data URL written per key, so re-persisting unchanged state doesn't rewrite blobs
+const savedImages = new Map<string, string>();
+
+export const saveImage = async (key: string, dataUrl: string): Promise<void> => {
+  if (savedImages.get(key) === dataUrl) return;
+  const blob = await (await fetch(dataUrl)).blob();
+  const db = await openDb();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  const done = completion(tx);
+  tx.objectStore(IMAGE_STORE).put(blob, key);
+  await done;
+  savedImages.set(key, dataUrl);
+};
+
+export const deleteImage = async (key: string): Promise<void> => {
+  savedImages.delete(key);
+  const db = await openDb();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  const done = completion(tx);
+  tx.objectStore(IMAGE_STORE).delete(key);
+  await done;
+};
+
+// Returns an object URL for display, or null when no image is stored under `key`
+export const loadImageUrl = async (key: string): Promise<string | null> => {
+  const db = await openDb();
+  const blob = await promisify<Blob | undefined>(db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE).get(key));
+  return blob ? URL.createObjectURL(blob) : null;
+};
+
+// Object URLs for every `${prefix}${id}` that has a stored image, keyed by id
+export const loadImageUrls = async (prefix: string, ids: string[]): Promise<Record<string, string>> => {
+  const urls: Record<string, string> = {};
+  for (const id of ids) {
+    const url = await loadImageUrl(`${prefix}${id}`);
+    if (url) urls[id] = url;
+  }
+  return urls;
+};
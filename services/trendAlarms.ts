@@ -0,0 +1,76 @@
+import { AlarmEvent, AlarmLevel, DeviceSummary, MovingAverageWindow, TrendAlarmRuleOverrides, TrendAlarmRules } from '../types';
+import { THRESHOLD_LEVELS, severityOf } from './alarmRules';
+import { AlarmSubject, LevelUpdate, applyLevels, openLevel } from './alarmEvents';
+import { TrendMetrics } from './deviceHistory';
+
+// Rate-of-change alarms. A device whose moving averages keep climbing raises a
+// level even while its readings are still under the absolute thresholds.
+
+export const DEFAULT_TREND_ALARM_RULES: TrendAlarmRules = {
+  MA7: { [AlarmLevel.WARNING]: 20, [AlarmLevel.DANGER]: 40, [AlarmLevel.CRITICAL]: 80 },
+  MA30: { [AlarmLevel.WARNING]: 30, [AlarmLevel.DANGER]: 60, [AlarmLevel.CRITICAL]: 120 },
+  MA90: { [AlarmLevel.WARNING]: 50, [AlarmLevel.DANGER]: 100, [AlarmLevel.CRITICAL]: 200 }
+};
+
+export const TREND_WINDOWS: MovingAverageWindow[] = ['MA7', 'MA30', 'MA90'];
+
+const METRIC_KEYS: Record<MovingAverageWindow, keyof TrendMetrics> = { MA7: 'd7', MA30: 'd30', MA90: 'd90' };
+
+// An open level only steps down once growth is this many percentage points under its threshold
+const HYSTERESIS = 5;
+
+export const resolveTrendRules = (overrides: TrendAlarmRuleOverrides, deviceType?: string): TrendAlarmRules => {
+  const override = deviceType ? overrides[deviceType] : undefined;
+  if (!override) return DEFAULT_TREND_ALARM_RULES;
+  const rules = { ...DEFAULT_TREND_ALARM_RULES };
+  TREND_WINDOWS.forEach(window => {
+    if (override[window]) rules[window] = { ...rules[window], ...override[window] };
+  });
+  return rules;
+};
+
+// Growth thresholds must rise from WARNING to CRITICAL; returns the first offending window
+export const findInvalidWindow = (rules: TrendAlarmRules): MovingAverageWindow | null =>
+  TREND_WINDOWS.find(window => {
+    const t = rules[window];
+    return !(t[AlarmLevel.WARNING] < t[AlarmLevel.DANGER] && t[AlarmLevel.DANGER] < t[AlarmLevel.CRITICAL]);
+  }) ?? null;
+
+export const nextTrendLevel = (rules: TrendAlarmRules, window: MovingAverageWindow, growth: number, current: AlarmLevel): AlarmLevel => {
+  const thresholds = rules[window];
+  const raised = THRESHOLD_LEVELS.find(level => growth > thresholds[level]) || AlarmLevel.NORMAL;
+  if (severityOf(raised) >= severityOf(current)) return raised;
+  const held = THRESHOLD_LEVELS.find(level => growth > thresholds[level] - HYSTERESIS) || AlarmLevel.NORMAL;
+  return severityOf(held) < severityOf(current) ? held : current;
+};
+
+// Same lifecycle as threshold events, one event per device and moving-average window.
+// Devices without data keep whatever trend events they had.
+export const applyTrendMetrics = (
+  events: AlarmEvent[],
+  devices: DeviceSummary[],
+  metrics: Record<string, TrendMetrics>,
+  rulesFor: (device: DeviceSummary) => TrendAlarmRules,
+  suppressedFor: (subject: AlarmSubject) => string | undefined = () => undefined,
+  now = new Date().toISOString()
+): AlarmEvent[] => {
+  const updates: LevelUpdate[] = [];
+  devices.forEach(device => {
+    const deviceMetrics = metrics[device.id];
+    if (!deviceMetrics || device.status === AlarmLevel.NO_DATA) return;
+    const rules = rulesFor(device);
+    TREND_WINDOWS.forEach(window => {
+      const { value, growth } = deviceMetrics[METRIC_KEYS[window]];
+      updates.push({
+        projectId: device.projectId,
+        deviceId: device.id,
+        deviceName: device.name,
+        channel: window,
+        level: nextTrendLevel(rules, window, growth, openLevel(events, device.id, window)),
+        values: { amp: value, growth: Number(growth.toFixed(1)) },
+        suppressedBy: suppressedFor({ projectId: device.projectId, deviceId: device.id, channel: window })
+      });
+    });
+  });
+  return applyLevels(events, updates, now);
+};
@@ -0,0 +1,80 @@
+import { AlarmLevel, AlignedPoint, ChannelType, ChartDataPoint, ComparisonMetric, MetricComparison, WindowStats } from '../types';
+import { ALARM_CHANNELS, SeriesLevels, severityOf } from './alarmRules';
+import { READING_KEYS } from './signalConditioning';
+
+// Two-window comparison for the trend view: "this week against the week before
+// the repair", "before against after a switching operation". Each window is
+// summarised on its own and the two are laid over each other by the time since
+// their starts, so the windows need not be the same length or line up in the day.
+
+export const ENV_METRICS: ComparisonMetric[] = ['temperature', 'humidity'];
+
+const DEFAULT_SLOT_MINUTES = 15;
+const HOUR_MS = 60 * 60 * 1000;
+
+const isChannel = (metric: ComparisonMetric) => (ALARM_CHANNELS as string[]).includes(metric);
+
+// Reading drawn and summarised for a metric: the amplitude for a channel
+export const metricKey = (metric: ComparisonMetric): keyof ChartDataPoint =>
+  isChannel(metric) ? READING_KEYS[metric as ChannelType].amp : metric as keyof ChartDataPoint;
+
+// Typical spacing of the series, so gaps in it do not stretch the slots
+export const slotMinutes = (points: ChartDataPoint[]) => {
+  const gaps = points.slice(1)
+    .map((p, i) => (new Date(p.time).getTime() - new Date(points[i].time).getTime()) / 60000)
+    .filter(g => g > 0)
+    .sort((a, b) => a - b);
+  return gaps.length > 0 ? gaps[gaps.length >> 1] : DEFAULT_SLOT_MINUTES;
+};
+
+// Nearest-rank percentile of sorted values
+const percentile = (sorted: number[], p: number) =>
+  sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)] : 0;
+
+// `levels` rates `points` one for one, as evaluateSeries returns them
+export const windowStats = (points: ChartDataPoint[], levels: SeriesLevels, metric: ComparisonMetric): WindowStats => {
+  const values = points.map(p => p[metricKey(metric)] as number).filter(Number.isFinite);
+  const sorted = [...values].sort((a, b) => a - b);
+  const stats = {
+    samples: values.length,
+    mean: values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0,
+    p95: percentile(sorted, 0.95)
+  };
+  if (!isChannel(metric)) return { ...stats, pulses: null, alarmMinutes: null };
+
+  const channel = metric as ChannelType;
+  const minutes = slotMinutes(points);
+  // Pulse rates are per second and hold for the whole slot
+  const pulses = points.reduce((sum, p) => sum + Math.max(0, p[READING_KEYS[channel].freq] as number) * minutes * 60, 0);
+  const alarmSlots = (levels.channels[channel] ?? []).filter(level => severityOf(level) >= severityOf(AlarmLevel.WARNING)).length;
+  return { ...stats, pulses: Math.round(pulses), alarmMinutes: alarmSlots * minutes };
+};
+
+export const compareWindows = (
+  a: { points: ChartDataPoint[]; levels: SeriesLevels },
+  b: { points: ChartDataPoint[]; levels: SeriesLevels },
+  metrics: ComparisonMetric[]
+): MetricComparison[] =>
+  metrics.map(metric => ({ metric, a: windowStats(a.points, a.levels, metric), b: windowStats(b.points, b.levels, metric) }));
+
+// Rows of both series keyed by the slot they fall in since their own first
+// point; the longer window runs on alone after the shorter one ends
+export const alignWindows = (a: ChartDataPoint[], b: ChartDataPoint[]): AlignedPoint[] => {
+  const slotMs = Math.min(slotMinutes(a), slotMinutes(b)) * 60000;
+  const rows = new Map<number, AlignedPoint>();
+  const place = (points: ChartDataPoint[], side: 'a' | 'b') => {
+    const start = points.length > 0 ? new Date(points[0].time).getTime() : 0;
+    points.forEach(p => {
+      const slot = Math.round((new Date(p.time).getTime() - start) / slotMs);
+      const row = rows.get(slot) ?? { offsetHours: slot * slotMs / HOUR_MS };
+      row[side] = p;
+      rows.set(slot, row);
+    });
+  };
+  place(a, 'a');
+  place(b, 'b');
+  return [...rows.entries()].sort((x, y) => x[0] - y[0]).map(([, row]) => row);
+};
+
+// Change from A to B as a share of A; null where A is zero
+export const relativeChange = (a: number, b: number) => a !== 0 ? (b - a) / Math.abs(a) : null;
@@ -7,7 +7,7 @@ export enum AlarmLevel {
   NO_DATA = 'NO_DATA',
 }
 
-export type ViewMode = 'dashboard' | 'diagnosis' | 'config' | 'export' | 'settings';
+export type ViewMode = 'dashboard' | 'diagnosis' | 'alarms' | 'config' | 'export' | 'settings';
 
 export interface Project {
   id: string;
@@ -58,6 +58,7 @@ export interface DeviceSummary {
   name: string;
   station: string;
   status: AlarmLevel;
+  deviceType?: string; // One of DEVICE_TYPES, selects the trend alarm rules
   lastUpdated: string;
   uhf_amp: number;
   uhf_freq: number;
@@ -71,8 +72,13 @@ export interface DeviceSummary {
   humidity: number;
   trend: number[]; 
   customImage?: string;
+  maintenance?: MaintenanceWindow; // Set while a project or device window covers the device
+  health?: HealthIndex; // Set from the latest readings and history; absent while the device has no data
 }
 
+// User edits to cached device summaries, by device id, kept across a re-seed from the data provider
+export type DeviceEdits = Record<string, Pick<DeviceSummary, 'customImage'>>;
+
 export interface PDSource {
   position3d: [number, number, number];
   locationName: string;
@@ -96,6 +102,8 @@ export interface SensorData {
   position3d: [number, number, number];
   faceOrientation?: string;
   isOnline: boolean; // New field for connectivity status
+  maintenance?: MaintenanceWindow; // Set while a project, device or sensor window covers the sensor
+  shelf?: AlarmShelf; // Set while the device channel the sensor reports on is shelved
 }
 
 export interface ChartDataPoint {
@@ -168,3 +176,613 @@ export interface User {
   lastLogin?: string;
   createdAt: string;
 }
+
+// --- Data Provider Types ---
+
+export type ChannelType = 'UHF' | 'TEV' | 'HFCT' | 'AE';
+export type TimeRange = '24h' | '7d' | '1m' | 'custom';
+
+export interface DeviceSnapshot {
+  sensors: SensorData[];
+  pdSource: PDSource | null;
+  uhfArrivals: UhfArrival[]; // One UHF pulse as timed by each UHF sensor, empty when none was captured
+}
+
+export interface TrendQuery {
+  range: TimeRange;
+  start?: Date; // Only used when range === 'custom'
+  end?: Date;
+}
+
+// One discharge pulse as captured by the acquisition unit
+export interface PulseRecord {
+  timestamp: number; // Epoch ms, fractional
+  phase: number; // Power-frequency phase angle at the pulse (°)
+  amplitude: number; // dBmV
+  channel: ChannelType;
+  riseNs?: number; // Leading-edge rise time, when the unit reports pulse shape
+  widthNs?: number; // Pulse width at half height
+}
+
+// Pulse picked up by a device's reference antenna, which only hears what comes from outside
+export interface ReferencePulse {
+  timestamp: number; // Epoch ms, fractional
+  amplitude: number; // dBmV
+}
+
+export interface HistogramBins {
+  phaseDeg: number; // Phase bin width (°)
+  amplitudeDbmv: number; // Amplitude bin width (dBmV)
+}
+
+export interface PhaseBinStats {
+  phase: number; // Bin centre (°)
+  count: number; // n-φ
+  max: number; // qmax-φ (dBmV), 0 when the bin is empty
+  mean: number; // qmean-φ (dBmV), 0 when the bin is empty
+}
+
+// Phase × amplitude pulse counts (the n-q-φ distribution)
+export interface PrpdHistogram {
+  bins: HistogramBins;
+  amplitudeMin: number; // Lower edge of the first amplitude bin (dBmV)
+  counts: number[][]; // [phase bin][amplitude bin]
+  phaseStats: PhaseBinStats[];
+  total: number;
+  cycles: number; // Power cycles the records span
+}
+
+// Occupied n-q-φ cell, as plotted on the PRPD chart
+export interface PrpdPoint {
+  x: number; // Phase bin centre (°)
+  y: number; // Amplitude bin centre (dBmV)
+  z: number; // Pulses in the cell, drives the scatter dot size
+}
+
+// Occupied cell of the PRPS cycle stack
+export interface PrpsPoint {
+  phase: number; // Phase bin start (°)
+  cycle: number; // Power cycle index from the start of the acquisition
+  amp: number; // Largest pulse in the cell (dBmV)
+}
+
+// Digitised waveform of one pulse, starting a little before its leading edge
+export interface PulseWaveform {
+  sampleNs: number; // Sampling interval
+  samples: number[]; // mV
+}
+
+// Every screen reads monitoring data through this interface, so the simulator
+// and a real backend are interchangeable.
+export interface DataProvider {
+  namespace: string; // Identifies the source (and simulator scenario) so cached history from different sources stays apart
+  listProjects: () => Promise<Project[]>;
+  listDevices: () => Promise<DeviceSummary[]>;
+  getDeviceSnapshot: (deviceId: string, time?: string) => Promise<DeviceSnapshot>; // Readings at `time` (ISO), the latest by default
+  getTrendSeries: (sensorId: string, query: TrendQuery) => Promise<ChartDataPoint[]>;
+  getPulseRecords: (sensorId: string, channel: ChannelType, time: string) => Promise<PulseRecord[]>; // One acquisition ending at `time`, oldest first
+  getReferencePulses: (deviceId: string, time: string) => Promise<ReferencePulse[]>; // The reference antenna over the same window
+  getPulseWaveforms: (sensorId: string, channel: ChannelType, pulses: PulseRecord[]) => Promise<PulseWaveform[]>; // Same order as `pulses`
+}
+
+// --- Live Stream Types ---
+
+// Server -> client messages
+export type LiveStreamMessage =
+  | { type: 'sensors'; deviceId: string; sensors: SensorData[] }
+  | { type: 'device'; device: DeviceSummary }
+  | { type: 'point'; sensorId: string; point: ChartDataPoint }
+  | { type: 'backfill'; sensorId: string; points: ChartDataPoint[] }
+  | { type: 'error'; error: string }; // A request the server could not act on
+
+// Client -> server requests. `since` asks the server to replay every point newer than that ISO time.
+export type LiveStreamRequest =
+  | { type: 'subscribe'; deviceId?: string; sensorId?: string; since?: string }
+  | { type: 'unsubscribe'; deviceId?: string; sensorId?: string };
+
+export type LiveStreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+// --- Simulation Scenario Types ---
+
+export type DefectType = 'floating' | 'corona' | 'void' | 'particle' | 'surface' | 'interference';
+
+export type DefectGrowth = 'linear' | 'accelerating' | 'step' | 'intermittent' | 'constant';
+
+export interface PhaseCluster {
+  center: number; // Phase angle (°)
+  spread: number; // Half-width (°)
+  weight: number; // Share of pulses, clusters of a defect sum to 1
+}
+
+export interface DefectModel {
+  type: DefectType;
+  name: string;
+  signature: string; // What a trainee should look for
+  typicalZoneId: string; // PD_ZONES id where this defect usually appears
+  phaseClusters: PhaseCluster[]; // Empty = not phase-locked
+  amplitude: 'sine' | 'flat' | 'low' | 'heavy-tail';
+  pulseRate: number; // Pulses per power cycle at full intensity
+  channelGain: Record<ChannelType, number>; // Relative response per sensor type (sets the AE/UHF ratio)
+  growth: DefectGrowth;
+  external: boolean; // Originates outside the enclosure: seen equally by every sensor, never located
+}
+
+export interface ScenarioFault {
+  deviceId: string;
+  zoneId: string; // PD_ZONES id
+  defect: DefectType;
+  intensity: number; // 0-1 severity once fully developed
+  rampDays: number; // Days to develop from nothing to `intensity`, ending now. 0 = already developed
+}
+
+export interface ScenarioOutage {
+  deviceId?: string; // Omitted = every device
+  location: string; // SENSOR_TEMPLATE location, e.g. 'T 终端'
+}
+
+export interface SimulationScenario {
+  id: string;
+  name: string;
+  description: string;
+  seed: number; // Default seed, overridable with ?seed=
+  faults: ScenarioFault[];
+  outages: ScenarioOutage[];
+  outageRate: number; // Chance per device of an extra seeded outage at 'CB 气室' or 'T 终端'
+  noDataDevices: string[];
+}
+
+// --- PRPD Classification Types ---
+
+export interface PrpdFeatures {
+  pulseCount: number; // Pulses above the noise floor
+  skewness: { positive: number; negative: number }; // Amplitude-weighted phase distribution per half-cycle
+  kurtosis: { positive: number; negative: number }; // Excess, 0 = normal
+  asymmetry: number; // (n+ − n−) / (n+ + n−), -1..1
+  crossCorrelation: number; // Pearson of the two half-cycle phase histograms, -1..1
+  peaks: number; // Distinct phase clusters
+  phaseSpread: number; // Share of the cycle carrying pulses, 0-1
+  amplitudeCv: number; // Amplitude standard deviation / mean
+}
+
+export interface PrpdClassScore {
+  defect: DefectType;
+  score: number; // 0-1 rule fit
+}
+
+export interface PrpdClassification {
+  features: PrpdFeatures;
+  defect: DefectType | null; // Null when no class fits well enough
+  confidence: number; // 0-1
+  scores: PrpdClassScore[]; // Best first, empty when there are too few pulses
+}
+
+// --- Pulse Spectrum Types ---
+
+export type SpectrumWindow = 'rectangular' | 'hann' | 'hamming' | 'blackman';
+
+export interface SpectrumPoint {
+  freqHz: number;
+  db: number; // Relative to the strongest bin
+}
+
+export interface PulseSpectrum {
+  points: SpectrumPoint[]; // DC to Nyquist
+  dominantHz: number;
+  bandwidthHz: number; // Span around the dominant frequency within 3 dB of it
+  equivalentTimeNs: number; // T: spread of the pulse's energy in time
+  equivalentFreqHz: number; // F: spread of its energy in frequency
+}
+
+export interface SpectrogramCell {
+  timeNs: number; // Segment centre
+  freqHz: number;
+  db: number; // Relative to the strongest cell
+}
+
+// One pulse on the T-F map
+export interface TfPoint {
+  timeNs: number;
+  freqHz: number;
+  amplitude: number; // dBmV
+  phase: number; // °
+  cluster: number; // Index into the map's clusters
+}
+
+export interface TfCluster {
+  count: number;
+  timeNs: number; // Centre
+  freqHz: number;
+  amplitude: number; // Mean, dBmV
+}
+
+export interface TfMap {
+  points: TfPoint[];
+  clusters: TfCluster[]; // Most pulses first
+}
+
+// --- Localisation Types ---
+
+export type Vec3 = [number, number, number];
+
+export interface UhfArrival {
+  sensorId: string;
+  arrivalNs: number; // Leading edge of the pulse, relative to the acquisition trigger
+}
+
+export interface ErrorEllipsoid {
+  radii: Vec3; // Semi-axes in twin units, longest first
+  axes: [Vec3, Vec3, Vec3]; // Unit vectors matching `radii`
+  confidence: number; // Probability the source lies inside, e.g. 0.95
+}
+
+export interface SourceEstimate {
+  position: Vec3; // Twin units, same frame as SensorData.position3d
+  ellipsoid: ErrorEllipsoid;
+  residualNs: number; // RMS misfit of the arrival-time differences
+  sensorIds: string[]; // Sensors used, reference (earliest) first
+}
+
+export interface ChannelAttenuation {
+  perMetreDb: number; // Loss with distance along the enclosure
+  perBarrierDb: number; // Loss through each basin insulator between compartments
+}
+
+export interface HeatCell {
+  x: number;
+  y: number;
+  probability: number; // Summed over depth; all cells add up to 1
+}
+
+export interface AttenuationEstimate {
+  position: Vec3; // Most likely grid point, twin units
+  cells: HeatCell[]; // Grid spacing is `cellSize`
+  cellSize: number;
+  residualDb: number; // RMS misfit at `position`
+  sensorIds: string[]; // Sensors used
+}
+
+// --- Signal Conditioning Types ---
+
+export interface PhaseWindow {
+  from: number; // °
+  to: number; // °, may be below `from` to wrap through 0°
+}
+
+export interface ChannelConditioning {
+  noiseFloorDbmv: number; // Pulses below are background
+  phaseGates: PhaseWindow[]; // Blanked windows, e.g. where a converter switches every cycle
+  referenceRejection: boolean; // Drop pulses that coincide with one on the reference antenna
+  shapeFilter: boolean; // Drop pulses too slow or too long to be PD on this channel
+}
+
+export type ConditioningSettings = Record<ChannelType, ChannelConditioning>;
+
+export type RejectReason = 'noise' | 'phase' | 'reference' | 'shape';
+
+export type RejectCounts = Record<RejectReason, number>;
+
+export interface ConditionedPulses {
+  accepted: PulseRecord[];
+  rejected: RejectCounts;
+}
+
+// A trend series after conditioning, with what each point lost per channel
+export interface ConditionedSeries {
+  points: ChartDataPoint[];
+  rejected: Record<ChannelType, number>[]; // Same order as `points`
+}
+
+// --- Anomaly Detection Types ---
+
+export type AnomalySensitivity = 'low' | 'medium' | 'high';
+
+export type AnomalyDirection = 'high' | 'low';
+
+// Per point, null where the reading sits inside its baseline's control limits
+export interface ChannelAnomalies {
+  amp: (AnomalyDirection | null)[];
+  freq: (AnomalyDirection | null)[];
+}
+
+export type SeriesAnomalies = Record<ChannelType, ChannelAnomalies>;
+
+// --- Window Comparison Types ---
+
+// A PD channel, or one of the environment readings
+export type ComparisonMetric = ChannelType | 'temperature' | 'humidity';
+
+export interface WindowStats {
+  samples: number;
+  mean: number;
+  p95: number;
+  pulses: number | null; // Pulses over the window; null for environment readings
+  alarmMinutes: number | null; // Time at WARNING or worse; null for environment readings
+}
+
+export interface MetricComparison {
+  metric: ComparisonMetric;
+  a: WindowStats;
+  b: WindowStats;
+}
+
+// One row of the overlay: the readings of both windows at the same offset from their starts
+export interface AlignedPoint {
+  offsetHours: number;
+  a?: ChartDataPoint;
+  b?: ChartDataPoint;
+}
+
+// --- PD Confirmation Types ---
+
+// Coincidence between two sensors of different types in the same compartment
+export interface ChannelCoincidence {
+  sensorIds: [string, string];
+  channels: [ChannelType, ChannelType];
+  matched: number; // Pulses on the first with a partner on the second
+  excess: number; // 0–1, share of matches beyond what chance would give
+}
+
+export interface CompartmentConfirmation {
+  compartment: string; // GIS_COMPARTMENTS id
+  sensorIds: string[];
+  activeSensorIds: string[]; // Sensors with PD pulses left after conditioning
+  pairs: ChannelCoincidence[];
+  confidence: number; // 0–1
+  confirmed: boolean;
+}
+
+export interface PdConfirmation {
+  compartments: CompartmentConfirmation[];
+  confidence: number; // Best compartment's
+  confirmed: boolean;
+}
+
+// --- Health Index Types ---
+
+export type HealthIndicator = 'amplitude' | 'repetition' | 'growth' | 'confirmation' | 'environment' | 'availability';
+
+export type HealthWeights = Record<HealthIndicator, number>; // Relative; need not add up to 100
+
+// Keyed by device type; anything left out follows the defaults
+export type HealthWeightOverrides = Record<string, Partial<HealthWeights>>;
+
+export interface HealthIndex {
+  score: number; // 0–100, 100 = no sign of trouble
+  stress: Record<HealthIndicator, number>; // 0 (fine) to 1 (worst) per indicator
+  weights: HealthWeights; // Normalised to add up to 1
+}
+
+// --- Alarm Threshold Types ---
+
+export type ThresholdLevel = AlarmLevel.WARNING | AlarmLevel.DANGER | AlarmLevel.CRITICAL;
+
+// A level is reached when both amplitude (dBmV) and frequency (次/秒) exceed its threshold,
+// and left once either falls to its clear value (defaults to just under the raise value)
+export interface AlarmThreshold {
+  amp: number;
+  freq: number;
+  clearAmp?: number;
+  clearFreq?: number;
+}
+
+// What a crossing must also satisfy before the level is raised. Samples are acquisition cycles.
+export type AlarmQualifier =
+  | { kind: 'none' }
+  | { kind: 'count'; n: number; m: number } // At least n of the last m samples above the threshold
+  | { kind: 'sustained'; minutes: number } // Above the threshold without a break for this long
+  | { kind: 'pulseRate'; rate: number; cycles: number }; // Pulse rate (次/秒) above `rate` for the last `cycles` samples
+
+export type ChannelAlarmRules = Record<ThresholdLevel, AlarmThreshold> & { qualifier?: AlarmQualifier };
+
+export type AlarmRules = Record<ChannelType, ChannelAlarmRules>;
+
+// Only the values set at a scope; anything left out is inherited from the scope above
+export type AlarmRuleOverride = Partial<Record<ChannelType, Partial<Record<ThresholdLevel, Partial<AlarmThreshold>>> & { qualifier?: AlarmQualifier }>>;
+
+export type AlarmRuleScope = 'project' | 'device' | 'sensor';
+
+// Sensor overrides are keyed by `${deviceId}/${sensorId}`
+export type AlarmRuleOverrides = Record<AlarmRuleScope, Record<string, AlarmRuleOverride>>;
+
+// --- Trend Alarm Types ---
+
+export type MovingAverageWindow = 'MA7' | 'MA30' | 'MA90';
+
+// A level is reached when the moving average has grown by more than this many percent
+// against the same average one window earlier (MA7 week over week, MA30 month over month)
+export type TrendAlarmThresholds = Record<ThresholdLevel, number>;
+
+export type TrendAlarmRules = Record<MovingAverageWindow, TrendAlarmThresholds>;
+
+// Keyed by device type; anything left out follows the defaults
+export type TrendAlarmRuleOverrides = Record<string, Partial<Record<MovingAverageWindow, Partial<TrendAlarmThresholds>>>>;
+
+// --- Forecast Types ---
+
+export type ForecastModel = 'linear' | 'exponential' | 'diurnal';
+
+export interface ForecastPoint {
+  time: string;
+  value: number;
+  lower: number; // 90% prediction band
+  upper: number;
+}
+
+// Days from the last reading until the level's threshold is reached; 0 when it already is,
+// null when the forecast stays below it over the whole search horizon
+export interface ThresholdCrossing {
+  level: ThresholdLevel;
+  threshold: number;
+  days: number | null; // Central forecast
+  earliestDays: number | null; // Upper edge of the band
+}
+
+export interface Forecast {
+  model: ForecastModel; // The one that predicted the held-out tail best
+  points: ForecastPoint[]; // Daily, starting at the last reading
+  crossings: ThresholdCrossing[];
+}
+
+// --- Alarm Event Types ---
+
+// Sensor channels for threshold events, moving-average windows for trend events
+export type AlarmEventChannel = ChannelType | MovingAverageWindow;
+
+export interface AlarmEventTransition {
+  time: string; // ISO
+  level: AlarmLevel; // NORMAL marks the clear
+  amp: number; // Trend events: the moving average
+  freq?: number; // Threshold events only
+  growth?: number; // Trend events only, %
+  suppressed?: boolean; // Reached during a maintenance window
+}
+
+// One excursion of a device channel above its thresholds, from first crossing to clear
+export interface AlarmEvent {
+  id: string;
+  projectId: string;
+  deviceId: string;
+  deviceName: string;
+  channel: AlarmEventChannel;
+  level: AlarmLevel; // Current level; once cleared, the level it cleared from
+  peakLevel: AlarmLevel;
+  openedAt: string;
+  clearedAt?: string;
+  transitions: AlarmEventTransition[];
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  ackComment?: string;
+  suppressedBy?: string; // Maintenance window or shelf covering the current level; no notifications go out
+}
+
+// --- Maintenance Types ---
+
+export type MaintenanceScope = 'project' | 'device' | 'sensor';
+
+// Planned outage or live test. Alarms inside the window are still recorded, but
+// flagged as suppressed and not notified.
+export interface MaintenanceWindow {
+  id: string;
+  scope: MaintenanceScope;
+  targetId: string; // Project id, device id or `${deviceId}/${sensorId}`
+  targetName: string; // Display name when it was scheduled
+  projectId: string;
+  deviceId?: string; // Device and sensor scope
+  channel?: ChannelType; // Sensor scope: the device channel the sensor reports on
+  start: string; // ISO
+  end: string; // ISO
+  reason: string;
+  owner: string;
+  createdAt: string;
+}
+
+// --- Shelving Types ---
+
+// A device channel whose alarms are set aside for a while, usually a known-bad
+// sensor. Its alarms are still recorded but not annunciated or notified. Shelves
+// are kept after they end as the audit trail.
+export interface AlarmShelf {
+  id: string; // `shelf-…`
+  projectId: string;
+  deviceId: string;
+  deviceName: string;
+  sensorId: string; // Sensor it was shelved from
+  sensorName: string;
+  channel: ChannelType;
+  reason: string;
+  shelvedBy: string;
+  shelvedAt: string; // ISO
+  expiresAt: string; // ISO
+  unshelvedAt?: string; // Set when lifted before expiry
+  unshelvedBy?: string;
+}
+
+// --- Notification Types ---
+
+export type NotificationChannel = 'webhook' | 'email' | 'sms';
+
+export interface OnCallGroup {
+  id: string;
+  name: string;
+  userIds: string[]; // Email and SMS go to these users' contact details
+  webhookUrl?: string; // Target of the webhook channel
+}
+
+// Alarm events entering one of `levels` in the project notify the group on each channel
+export interface NotificationRoute {
+  id: string;
+  projectId: string; // '*' matches every project
+  levels: AlarmLevel[];
+  groupId: string;
+  channels: NotificationChannel[];
+  enabled: boolean;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // 'HH:MM' local time; may run past midnight
+  end: string;
+  bypassLevels: AlarmLevel[]; // Still sent during quiet hours
+}
+
+export interface NotificationSettings {
+  groups: OnCallGroup[];
+  routes: NotificationRoute[];
+  quietHours: QuietHours;
+  dedupMinutes: number; // Same device channel, level and recipient is sent at most once per window
+}
+
+export type NotificationStatus = 'pending' | 'sent' | 'failed' | 'suppressed';
+
+export interface NotificationRecord {
+  id: string;
+  time: string; // ISO
+  eventId: string;
+  routeId: string;
+  projectId: string;
+  deviceId: string;
+  deviceName: string;
+  eventChannel: AlarmEventChannel;
+  level: AlarmLevel;
+  channel: NotificationChannel;
+  recipient: string; // Email address, phone number or webhook URL
+  status: NotificationStatus;
+  attempts: number;
+  reason?: string; // Why it failed or was suppressed
+}
+
+// Body of a POST to the notification gateway
+export interface NotificationMessage {
+  channel: NotificationChannel;
+  to: string;
+  subject: string;
+  text: string;
+  level: AlarmLevel;
+  eventId: string;
+}
+
+// --- Annunciator Types ---
+
+// What one role hears and sees of open alarms in the browser
+export interface AnnunciatorProfile {
+  levels: AlarmLevel[]; // Levels annunciated at all; lower ones stay quiet
+  sound: boolean;
+  popup: boolean;
+}
+
+// Kept in sessionStorage, so it lasts until the browser session ends
+export interface AnnunciatorState {
+  muted: boolean;
+  silenced: string[]; // `${eventId}:${level}`; an escalation sounds again
+}
+
+export type PopupPermission = NotificationPermission | 'unsupported';
+
+// What the Sidebar control shows
+export interface AnnunciatorStatus {
+  level: AlarmLevel | null; // Loudest level still sounding, null when quiet
+  count: number;
+  muted: boolean;
+  sound: boolean; // Whether the user's role gets sound at all
+  popups: PopupPermission;
+}
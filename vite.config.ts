@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.PD_STREAM_URL': JSON.stringify(env.PD_STREAM_URL || ''),
+        'process.env.PD_NOTIFY_URL': JSON.stringify(env.PD_NOTIFY_URL || ''),
+        'process.env.PD_NOTIFY_TOKEN': JSON.stringify(env.PD_NOTIFY_TOKEN || '')
       },
       resolve: {
         alias: {